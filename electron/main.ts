@@ -12,6 +12,10 @@ const __dirname = path.dirname(__filename);
 let mainWindow: BrowserWindow | null = null;
 const isDev = !app.isPackaged;
 
+// 渲染进程上报的未保存状态，存在未保存修改时关闭窗口需先由渲染进程确认
+let documentDirty = false;
+let closeConfirmed = false;
+
 // Register custom protocol as privileged
 protocol.registerSchemesAsPrivileged([
   {
@@ -106,6 +110,247 @@ const isMac = process.platform === 'darwin';
 const configDir = path.join(app.getPath('userData'), 'editorSave');
 const configPath = path.join(configDir, 'config.json');
 
+// 自动备份：覆盖文件前把旧内容复制到同目录的 .rpgeditor-backups/ 中，每个文件保留 backupRetention 份
+const BACKUP_DIR_NAME = '.rpgeditor-backups';
+const DEFAULT_BACKUP_RETENTION = 10;
+const BACKUP_TIMESTAMP_REGEX = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/;
+let backupRetention = DEFAULT_BACKUP_RETENTION;
+
+interface BackupEntry {
+  backupPath: string;
+  fileName: string;
+  timestamp: number;
+  size: number;
+}
+
+function applyBackupRetention(config: { backupRetention?: unknown } | null): void {
+  const value = Number(config?.backupRetention);
+  backupRetention = config?.backupRetention !== undefined && Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_BACKUP_RETENTION;
+}
+
+async function loadBackupRetention(): Promise<void> {
+  try {
+    if (fs.existsSync(configPath)) {
+      applyBackupRetention(JSON.parse(await fs.promises.readFile(configPath, 'utf-8')));
+    }
+  } catch {
+    // Config read failed, keep default retention
+  }
+}
+
+function getBackupDir(filePath: string): string {
+  return path.join(path.dirname(filePath), BACKUP_DIR_NAME);
+}
+
+/**
+ * 列出文件的所有备份，按时间从新到旧排列
+ */
+async function listBackups(filePath: string): Promise<BackupEntry[]> {
+  const backupDir = getBackupDir(filePath);
+  if (!fs.existsSync(backupDir)) return [];
+
+  const ext = path.extname(filePath);
+  const prefix = `${path.basename(filePath, ext)}.`;
+  const backups: BackupEntry[] = [];
+  for (const fileName of await fs.promises.readdir(backupDir)) {
+    if (!fileName.startsWith(prefix) || !fileName.endsWith(ext)) continue;
+    const match = BACKUP_TIMESTAMP_REGEX.exec(fileName.slice(prefix.length, fileName.length - ext.length));
+    if (!match) continue;
+
+    const backupPath = path.join(backupDir, fileName);
+    const stat = await fs.promises.stat(backupPath);
+    backups.push({
+      backupPath,
+      fileName,
+      timestamp: Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`),
+      size: stat.size,
+    });
+  }
+  return backups.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * 备份现有文件并删除超出保留数量的旧备份
+ * @returns 备份路径，文件不存在或保留数量为 0 时返回 null
+ */
+async function createRotatingBackup(filePath: string, retention: number): Promise<string | null> {
+  if (retention <= 0 || !fs.existsSync(filePath)) return null;
+
+  const backupDir = getBackupDir(filePath);
+  await fs.promises.mkdir(backupDir, { recursive: true });
+
+  const ext = path.extname(filePath);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(backupDir, `${path.basename(filePath, ext)}.${timestamp}${ext}`);
+  await fs.promises.copyFile(filePath, backupPath);
+
+  const backups = await listBackups(filePath);
+  for (let i = retention; i < backups.length; i++) {
+    await fs.promises.unlink(backups[i].backupPath).catch(() => undefined);
+  }
+  return backupPath;
+}
+
+/**
+ * 先写入同目录的临时文件再重命名覆盖，避免写入中途崩溃损坏原文件
+ */
+async function atomicWriteFile(filePath: string, content: string): Promise<void> {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    await fs.promises.mkdir(dir, { recursive: true });
+  }
+
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.promises.writeFile(tempPath, content, 'utf-8');
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+// 外部修改监听：监听被打开文件所在的目录（重命名式保存会替换文件本身），
+// 记录每个文件最后一次由编辑器读写的内容，内容变化时把新旧内容一起推送给渲染进程
+const WATCH_DEBOUNCE_MS = 300;
+const TEMP_FILE_REGEX = /\.tmp$/i;
+
+interface WatchedFile {
+  /** 渲染进程注册时使用的路径，推送事件时原样返回 */
+  filePath: string;
+  /** 编辑器最后一次读写的内容，null 表示尚未读取 */
+  content: string | null;
+  timer: NodeJS.Timeout | null;
+}
+
+interface WatchedDirectory {
+  watcher: fs.FSWatcher;
+  files: Map<string, WatchedFile>;
+}
+
+const watchedDirectories = new Map<string, WatchedDirectory>();
+
+function getWatchedFile(filePath: string): WatchedFile | null {
+  const resolved = path.resolve(filePath);
+  return watchedDirectories.get(path.dirname(resolved))?.files.get(path.basename(resolved)) ?? null;
+}
+
+/**
+ * 编辑器自身读写文件后更新已知内容，避免把自己的保存当作外部修改
+ */
+function rememberWatchedContent(filePath: string, content: string | null): void {
+  const watched = getWatchedFile(filePath);
+  if (watched) {
+    watched.content = content;
+  }
+}
+
+async function checkWatchedFile(watched: WatchedFile): Promise<void> {
+  watched.timer = null;
+
+  let content: string;
+  try {
+    content = await fs.promises.readFile(watched.filePath, 'utf-8');
+  } catch {
+    // 文件被删除或正被替换，等待下一次事件
+    return;
+  }
+  if (content === watched.content) return;
+
+  const previousContent = watched.content;
+  watched.content = content;
+  mainWindow?.webContents.send('file-changed-externally', {
+    filePath: watched.filePath,
+    content,
+    previousContent,
+  });
+}
+
+function handleDirectoryChange(directory: WatchedDirectory, fileName: string | null): void {
+  if (fileName && (fileName === BACKUP_DIR_NAME || TEMP_FILE_REGEX.test(fileName))) return;
+
+  // 部分平台不提供文件名，此时检查目录下所有被监听的文件
+  const targets = fileName ? [directory.files.get(fileName)] : [...directory.files.values()];
+  for (const watched of targets) {
+    if (!watched) continue;
+    if (watched.timer) clearTimeout(watched.timer);
+    watched.timer = setTimeout(() => void checkWatchedFile(watched), WATCH_DEBOUNCE_MS);
+  }
+}
+
+async function watchFile(filePath: string): Promise<void> {
+  const resolved = path.resolve(filePath);
+  const dir = path.dirname(resolved);
+  const fileName = path.basename(resolved);
+  if (!fs.existsSync(dir)) return;
+
+  let directory = watchedDirectories.get(dir);
+  if (!directory) {
+    const files = new Map<string, WatchedFile>();
+    const watcher = fs.watch(dir, { persistent: false }, (_eventType, changedName) => {
+      const current = watchedDirectories.get(dir);
+      if (current) handleDirectoryChange(current, changedName ? changedName.toString() : null);
+    });
+    watcher.on('error', (error) => {
+      console.warn('[Main] File watcher error:', dir, error);
+    });
+    directory = { watcher, files };
+    watchedDirectories.set(dir, directory);
+  }
+  if (directory.files.has(fileName)) return;
+
+  const watched: WatchedFile = { filePath, content: null, timer: null };
+  directory.files.set(fileName, watched);
+  try {
+    watched.content = await fs.promises.readFile(resolved, 'utf-8');
+  } catch {
+    // 文件尚不存在，创建后会作为外部修改推送
+  }
+}
+
+function unwatchFile(filePath: string): void {
+  const resolved = path.resolve(filePath);
+  const dir = path.dirname(resolved);
+  const directory = watchedDirectories.get(dir);
+  const watched = directory?.files.get(path.basename(resolved));
+  if (!directory || !watched) return;
+
+  if (watched.timer) clearTimeout(watched.timer);
+  directory.files.delete(path.basename(resolved));
+  if (directory.files.size === 0) {
+    directory.watcher.close();
+    watchedDirectories.delete(dir);
+  }
+}
+
+/**
+ * 把监听列表替换为给定的文件集合
+ */
+async function setWatchedFiles(filePaths: string[]): Promise<void> {
+  const wanted = new Set(filePaths.map((filePath) => path.resolve(filePath)));
+  for (const [dir, directory] of [...watchedDirectories]) {
+    for (const fileName of [...directory.files.keys()]) {
+      const resolved = path.join(dir, fileName);
+      if (!wanted.has(resolved)) unwatchFile(resolved);
+    }
+  }
+  for (const filePath of filePaths) {
+    await watchFile(filePath);
+  }
+}
+
+function closeAllWatchers(): void {
+  for (const directory of watchedDirectories.values()) {
+    for (const watched of directory.files.values()) {
+      if (watched.timer) clearTimeout(watched.timer);
+    }
+    directory.watcher.close();
+  }
+  watchedDirectories.clear();
+}
+
 async function createWindow(): Promise<void> {
   // 记录BrowserWindow配置信息
   console.log('[Main] Creating BrowserWindow with webPreferences:');
@@ -127,6 +372,15 @@ async function createWindow(): Promise<void> {
     icon: iconPath,
   });
 
+  documentDirty = false;
+  closeConfirmed = false;
+
+  mainWindow.on('close', (event) => {
+    if (!documentDirty || closeConfirmed) return;
+    event.preventDefault();
+    mainWindow?.webContents.send('app-close-requested');
+  });
+
   mainWindow.once('closed', () => {
     mainWindow = null;
   });
@@ -225,6 +479,107 @@ async function openFileDialog(window: BrowserWindow): Promise<void> {
   }
 }
 
+interface ProjectDataFile {
+  fileName: string;
+  filePath: string;
+  itemCount: number | null;
+}
+
+interface ProjectInfo {
+  rootPath: string;
+  engine: 'MZ' | 'MV' | 'unknown';
+  dataPath: string;
+  scriptPath: string;
+  imagePath: string;
+  workspacePath: string;
+  dataFiles: ProjectDataFile[];
+}
+
+const MAP_FILE_REGEX = /^Map\d{3}\.json$/i;
+
+/**
+ * 统计数据文件中的有效条目数，非数组文件与地图文件返回 null
+ */
+async function countDataItems(filePath: string, fileName: string): Promise<number | null> {
+  if (MAP_FILE_REGEX.test(fileName)) return null;
+  try {
+    const data = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    if (!Array.isArray(data)) return null;
+    let count = 0;
+    for (let i = 1; i < data.length; i++) {
+      if (data[i] != null) count++;
+    }
+    return count;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 识别 RPG Maker MV/MZ 项目目录并扫描 data 目录
+ * 需要存在 data 目录，并且存在工程文件或 js 目录，否则返回 null
+ */
+async function scanProject(rootPath: string): Promise<ProjectInfo | null> {
+  const dataPath = path.join(rootPath, 'data');
+  const jsPath = path.join(rootPath, 'js');
+  if (!fs.existsSync(dataPath)) return null;
+
+  let engine: ProjectInfo['engine'] = 'unknown';
+  if (fs.existsSync(path.join(rootPath, 'game.rmmzproject')) || fs.existsSync(path.join(jsPath, 'rmmz_core.js'))) {
+    engine = 'MZ';
+  } else if (fs.existsSync(path.join(rootPath, 'Game.rpgproject')) || fs.existsSync(path.join(jsPath, 'rpg_core.js'))) {
+    engine = 'MV';
+  }
+  if (engine === 'unknown' && !fs.existsSync(jsPath)) return null;
+
+  const entries = await fs.promises.readdir(dataPath);
+  const dataFiles: ProjectDataFile[] = [];
+  for (const fileName of entries) {
+    if (path.extname(fileName).toLowerCase() !== '.json') continue;
+    const filePath = path.join(dataPath, fileName);
+    dataFiles.push({ fileName, filePath, itemCount: await countDataItems(filePath, fileName) });
+  }
+
+  // 编辑器脚本保存在项目根目录的 scripts 下（首次保存时创建），不能放进引擎的 js 目录
+  return {
+    rootPath,
+    engine,
+    dataPath,
+    scriptPath: path.join(rootPath, 'scripts'),
+    imagePath: path.join(rootPath, 'img'),
+    workspacePath: rootPath,
+    dataFiles,
+  };
+}
+
+async function openProjectDialog(window: BrowserWindow): Promise<void> {
+  try {
+    const result = await dialog.showOpenDialog(window, {
+      properties: ['openDirectory'],
+      title: '请选择 RPG Maker MV/MZ 项目目录',
+    });
+    if (result.canceled || !result.filePaths[0]) return;
+
+    const project = await scanProject(result.filePaths[0]);
+    if (!project) {
+      dialog.showMessageBox(window, {
+        type: 'error',
+        title: '错误',
+        message: '所选目录不是 RPG Maker MV/MZ 项目（需要包含 data 目录以及工程文件或 js 目录）',
+      });
+      return;
+    }
+    window.webContents.send('project-opened', project);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    dialog.showMessageBox(window, {
+      type: 'error',
+      title: '错误',
+      message: `打开项目失败: ${message}`,
+    });
+  }
+}
+
 function createMenu(): void {
   const template: Electron.MenuItemConstructorOptions[] = [
     {
@@ -239,10 +594,27 @@ function createMenu(): void {
             }
           },
         },
+        {
+          label: '打开项目',
+          accelerator: 'CmdOrCtrl+Shift+O',
+          click: async () => {
+            if (mainWindow) {
+              await openProjectDialog(mainWindow);
+            }
+          },
+        },
         {
           label: '历史文件',
           click: handleShowHistoryFiles,
         },
+        {
+          label: '从备份恢复',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('show-backup-restore');
+            }
+          },
+        },
         { type: 'separator' },
         {
           label: '路径设置',
@@ -263,6 +635,37 @@ function createMenu(): void {
         },
       ],
     },
+    {
+      label: '编辑',
+      submenu: [
+        {
+          label: '撤销数据修改',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('history-undo');
+            }
+          },
+        },
+        {
+          label: '重做数据修改',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('history-redo');
+            }
+          },
+        },
+        { type: 'separator' },
+        {
+          label: '编辑历史',
+          accelerator: 'CmdOrCtrl+H',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('show-edit-history');
+            }
+          },
+        },
+      ],
+    },
     {
       label: '模式',
       submenu: [
@@ -447,6 +850,7 @@ app.on('ready', createMenu);
 app.whenReady().then(async () => {
   // Register auto-updater IPC handlers
   registerAutoUpdaterIPC();
+  await loadBackupRetention();
 
   // Handle local-resource protocol
   protocol.handle('local-resource', (request) => {
@@ -493,6 +897,7 @@ app.whenReady().then(async () => {
 });
 
 app.on('window-all-closed', () => {
+  closeAllWatchers();
   if (!isMac) {
     app.quit();
   }
@@ -551,6 +956,15 @@ ipcMain.handle('close-window', () => {
   mainWindow?.close();
 });
 
+ipcMain.handle('set-document-dirty', (_event, dirty: boolean) => {
+  documentDirty = Boolean(dirty);
+});
+
+ipcMain.handle('confirm-close', () => {
+  closeConfirmed = true;
+  mainWindow?.close();
+});
+
 ipcMain.handle('open-dev-tools', () => {
   mainWindow?.webContents.openDevTools({ mode: 'detach' });
 });
@@ -577,6 +991,7 @@ ipcMain.handle('write-config', async (_event, config) => {
       await fs.promises.mkdir(configDir, { recursive: true });
     }
     await fs.promises.writeFile(configPath, JSON.stringify(config, null, 2), 'utf-8');
+    applyBackupRetention(config);
     return true;
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -586,7 +1001,9 @@ ipcMain.handle('write-config', async (_event, config) => {
 
 ipcMain.handle('read-file', async (_event, filePath: string) => {
   try {
-    return await fs.promises.readFile(filePath, 'utf-8');
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    rememberWatchedContent(filePath, content);
+    return content;
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     throw new Error(`Failed to read file: ${message}`);
@@ -595,11 +1012,14 @@ ipcMain.handle('read-file', async (_event, filePath: string) => {
 
 ipcMain.handle('write-file', async (_event, filePath: string, content: string) => {
   try {
-    const dir = path.dirname(filePath);
-    if (!fs.existsSync(dir)) {
-      await fs.promises.mkdir(dir, { recursive: true });
+    try {
+      await createRotatingBackup(filePath, backupRetention);
+    } catch (error) {
+      // 备份失败不阻止保存
+      console.warn('[Main] Failed to back up file before writing:', filePath, error);
     }
-    await fs.promises.writeFile(filePath, content, 'utf-8');
+    await atomicWriteFile(filePath, content);
+    rememberWatchedContent(filePath, content);
     return true;
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -610,6 +1030,7 @@ ipcMain.handle('write-file', async (_event, filePath: string, content: string) =
 ipcMain.handle('delete-file', async (_event, filePath: string) => {
   try {
     await fs.promises.unlink(filePath);
+    rememberWatchedContent(filePath, null);
     return true;
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -728,21 +1149,41 @@ ipcMain.handle('create-backup', async (_event, filePath: string) => {
       throw new Error(`File does not exist: ${filePath}`);
     }
 
-    const dir = path.dirname(filePath);
-    const ext = path.extname(filePath);
-    const baseName = path.basename(filePath, ext);
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupFileName = `${baseName}_backup_${timestamp}${ext}`;
-    const backupPath = path.join(dir, backupFileName);
-
-    await fs.promises.copyFile(filePath, backupPath);
-    return backupPath;
+    // 手动备份即使关闭了自动备份也至少保留一份
+    return (await createRotatingBackup(filePath, Math.max(backupRetention, 1))) ?? '';
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     throw new Error(`Failed to create backup: ${message}`);
   }
 });
 
+ipcMain.handle('list-backups', async (_event, filePath: string) => {
+  try {
+    return await listBackups(filePath);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to list backups: ${message}`);
+  }
+});
+
+ipcMain.handle('restore-backup', async (_event, backupPath: string, filePath: string) => {
+  try {
+    if (path.dirname(path.resolve(backupPath)) !== path.resolve(getBackupDir(filePath))) {
+      throw new Error(`Not a backup of ${filePath}: ${backupPath}`);
+    }
+
+    const content = await fs.promises.readFile(backupPath, 'utf-8');
+    // 恢复前先备份当前内容，恢复操作本身也可以撤回
+    await createRotatingBackup(filePath, Math.max(backupRetention, 1));
+    await atomicWriteFile(filePath, content);
+    rememberWatchedContent(filePath, content);
+    return true;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to restore backup: ${message}`);
+  }
+});
+
 ipcMain.handle('list-directory', async (_event, dirPath: string) => {
   try {
     if (!fs.existsSync(dirPath)) {
@@ -757,6 +1198,25 @@ ipcMain.handle('list-directory', async (_event, dirPath: string) => {
   }
 });
 
+ipcMain.handle('scan-project', async (_event, rootPath: string) => {
+  try {
+    return await scanProject(rootPath);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to scan project: ${message}`);
+  }
+});
+
+ipcMain.handle('set-watched-files', async (_event, filePaths: string[]) => {
+  try {
+    await setWatchedFiles(filePaths);
+    return true;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to watch files: ${message}`);
+  }
+});
+
 ipcMain.handle('file-exists', async (_event, filePath: string) => {
   try {
     return fs.existsSync(filePath);
@@ -7,6 +7,8 @@ export interface ElectronAPI {
   maximizeWindow: () => Promise<void>;
   closeWindow: () => Promise<void>;
   openDevTools: () => Promise<void>;
+  setDocumentDirty: (dirty: boolean) => Promise<void>;
+  confirmClose: () => Promise<void>;
 
   // Fullscreen APIs
   isFullscreen: () => Promise<boolean>;
@@ -24,8 +26,12 @@ export interface ElectronAPI {
   selectFile: () => Promise<string | null>;
   selectDirectory: () => Promise<string | null>;
   createBackup: (filePath: string) => Promise<string>;
+  listBackups: (filePath: string) => Promise<BackupEntry[]>;
+  restoreBackup: (backupPath: string, filePath: string) => Promise<boolean>;
   listDirectory: (dirPath: string) => Promise<string[]>;
   fileExists: (filePath: string) => Promise<boolean>;
+  scanProject: (rootPath: string) => Promise<ProjectInfo | null>;
+  setWatchedFiles: (filePaths: string[]) => Promise<boolean>;
 
   readImageData: (filePath: string) => Promise<string>;
 
@@ -91,6 +97,8 @@ interface EditorConfig {
   imagePath?: string;
   workspacePath?: string;
   workspaceRoot?: string;
+  projectPath?: string;
+  backupRetention?: number;
   recentFiles?: string[];
   theme?: 'dark' | 'light';
   accentColor?: string;
@@ -101,6 +109,23 @@ interface EditorConfig {
   updateCheckFrequency?: 'startup' | 'daily' | 'weekly' | 'manual';
 }
 
+interface BackupEntry {
+  backupPath: string;
+  fileName: string;
+  timestamp: number;
+  size: number;
+}
+
+interface ProjectInfo {
+  rootPath: string;
+  engine: 'MZ' | 'MV' | 'unknown';
+  dataPath: string;
+  scriptPath: string;
+  imagePath: string;
+  workspacePath: string;
+  dataFiles: Array<{ fileName: string; filePath: string; itemCount: number | null }>;
+}
+
 interface UpdateInfo {
   version: string;
   releaseNotes: string;
@@ -119,6 +144,8 @@ const electronAPI: ElectronAPI = {
   maximizeWindow: () => ipcRenderer.invoke('maximize-window'),
   closeWindow: () => ipcRenderer.invoke('close-window'),
   openDevTools: () => ipcRenderer.invoke('open-dev-tools'),
+  setDocumentDirty: (dirty: boolean) => ipcRenderer.invoke('set-document-dirty', dirty),
+  confirmClose: () => ipcRenderer.invoke('confirm-close'),
 
   // Fullscreen APIs
   isFullscreen: () => ipcRenderer.invoke('is-fullscreen'),
@@ -136,8 +163,12 @@ const electronAPI: ElectronAPI = {
   selectFile: () => ipcRenderer.invoke('select-file'),
   selectDirectory: () => ipcRenderer.invoke('select-directory'),
   createBackup: (filePath: string) => ipcRenderer.invoke('create-backup', filePath),
+  listBackups: (filePath: string) => ipcRenderer.invoke('list-backups', filePath),
+  restoreBackup: (backupPath: string, filePath: string) => ipcRenderer.invoke('restore-backup', backupPath, filePath),
   listDirectory: (dirPath: string) => ipcRenderer.invoke('list-directory', dirPath),
   fileExists: (filePath: string) => ipcRenderer.invoke('file-exists', filePath),
+  scanProject: (rootPath: string) => ipcRenderer.invoke('scan-project', rootPath),
+  setWatchedFiles: (filePaths: string[]) => ipcRenderer.invoke('set-watched-files', filePaths),
   readImageData: (filePath: string) => ipcRenderer.invoke('read-image-data', filePath),
 
   // Dialog APIs
@@ -186,7 +217,7 @@ const electronAPI: ElectronAPI = {
  * Any attempt to register a listener for a channel not in this list will be rejected.
  * 
  * Channels are organized by feature:
- * - File operations: file-loaded, set-data-path, set-script-path, set-workspace-path, save-settings
+ * - File operations: file-loaded, project-opened, set-data-path, set-script-path, set-workspace-path, save-settings
  * - Mode switching: switch-mode
  * - UI controls: show-history-files, toggle-sidebar, toggle-theme-settings
  * - Window state: fullscreen-changed
@@ -195,13 +226,21 @@ const electronAPI: ElectronAPI = {
 const validChannels: readonly string[] = [
   // File menu operations (Requirements: 2.1-2.6)
   'file-loaded',
+  'project-opened',
   'set-data-path',
   'set-script-path',
   'set-workspace-path',
   'load-workspace',
   'save-settings',
   'show-history-files',
+  'show-backup-restore',
   'open-path-settings',
+  'file-changed-externally',
+
+  // Edit menu operations
+  'history-undo',
+  'history-redo',
+  'show-edit-history',
 
   // Mode switching (Requirements: 3.1-3.6)
   'switch-mode',
@@ -212,6 +251,7 @@ const validChannels: readonly string[] = [
 
   // Window state changes
   'fullscreen-changed',
+  'app-close-requested',
 
   // Auto-updater notifications
   'update:available',
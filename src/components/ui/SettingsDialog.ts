@@ -4,6 +4,8 @@ import { EventSystem } from '../../core/EventSystem';
 import { ipc } from '../../services/ipc';
 import { logger } from '../../services/logger';
 
+const DEFAULT_BACKUP_RETENTION = 10;
+
 export class SettingsDialog {
   private dialog: HTMLDialogElement | null = null;
 
@@ -11,6 +13,7 @@ export class SettingsDialog {
   private scriptPathInput: HTMLInputElement | null = null;
   private imagePathInput: HTMLInputElement | null = null;
   private workspacePathInput: HTMLInputElement | null = null;
+  private backupRetentionInput: HTMLInputElement | null = null;
 
   private saveBtn: HTMLButtonElement | null = null;
   private cancelBtn: HTMLButtonElement | null = null;
@@ -86,6 +89,13 @@ export class SettingsDialog {
             </div>
           </div>
 
+          <!-- Backup Retention -->
+          <div class="space-y-2">
+            <label class="block text-sm font-medium text-slate-400">Backups per file (.rpgeditor-backups, 0 = off)</label>
+            <input type="number" id="settings-backup-retention" min="0" max="100" step="1" value="10"
+              class="w-32 bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm focus:border-cyan-500 focus:outline-none transition-colors">
+          </div>
+
           <!-- Error Message -->
           <div id="settings-error" class="hidden p-3 bg-red-400 bg-opacity-10 border border-red-500 rounded text-red-500 text-sm">
             Please configure all paths before saving.
@@ -114,6 +124,7 @@ export class SettingsDialog {
     this.scriptPathInput = document.getElementById('settings-script-path') as HTMLInputElement;
     this.imagePathInput = document.getElementById('settings-image-path') as HTMLInputElement;
     this.workspacePathInput = document.getElementById('settings-workspace-path') as HTMLInputElement;
+    this.backupRetentionInput = document.getElementById('settings-backup-retention') as HTMLInputElement;
     this.saveBtn = document.getElementById('settings-save') as HTMLButtonElement;
     this.cancelBtn = document.getElementById('settings-cancel') as HTMLButtonElement;
 
@@ -154,6 +165,11 @@ export class SettingsDialog {
     }
   }
 
+  private readBackupRetention(): number {
+    const value = Number(this.backupRetentionInput?.value);
+    return Number.isInteger(value) && value >= 0 ? value : DEFAULT_BACKUP_RETENTION;
+  }
+
   private validate(): boolean {
     const dataPath = this.dataPathInput?.value.trim();
     const scriptPath = this.scriptPathInput?.value.trim();
@@ -189,6 +205,9 @@ export class SettingsDialog {
       if (this.scriptPathInput) this.scriptPathInput.value = config.scriptPath || '';
       if (this.imagePathInput) this.imagePathInput.value = config.imagePath || '';
       if (this.workspacePathInput) this.workspacePathInput.value = config.workspacePath || ''; // Optional
+      if (this.backupRetentionInput) {
+        this.backupRetentionInput.value = String(config.backupRetention ?? DEFAULT_BACKUP_RETENTION);
+      }
 
       this.validate();
       this.dialog.showModal();
@@ -211,11 +230,14 @@ export class SettingsDialog {
       scriptPath: this.scriptPathInput?.value.trim(),
       imagePath: this.imagePathInput?.value.trim(),
       workspacePath: this.workspacePathInput?.value.trim(),
+      backupRetention: this.readBackupRetention(),
     };
 
 
     try {
-      await ipc.config.save(config);
+      // Keep fields this dialog does not edit (project path, theme, ...)
+      const savedConfig = await ipc.config.load();
+      await ipc.config.save({ ...savedConfig, ...config });
 
       // Notify other components
       ipc.app.reload(); // Simple way to refresh everything with new config? Or emit events?
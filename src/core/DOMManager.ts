@@ -21,23 +21,140 @@ export interface DOMCache {
   inputDialogInput: HTMLInputElement | null;
   inputDialogConfirm: HTMLButtonElement | null;
   inputDialogCancel: HTMLButtonElement | null;
+  unsavedChangesDialog: HTMLElement | null;
+  unsavedChangesMessage: HTMLElement | null;
+  unsavedChangesSave: HTMLButtonElement | null;
+  unsavedChangesDiscard: HTMLButtonElement | null;
+  unsavedChangesCancel: HTMLButtonElement | null;
+  backupRestoreDialog: HTMLElement | null;
+  backupRestoreTitle: HTMLElement | null;
+  backupRestoreList: HTMLElement | null;
+  backupRestoreSummary: HTMLElement | null;
+  backupRestorePreview: HTMLElement | null;
+  backupRestoreClose: HTMLButtonElement | null;
+  backupRestoreCancel: HTMLButtonElement | null;
+  backupRestoreConfirm: HTMLButtonElement | null;
+  externalChangeDialog: HTMLElement | null;
+  externalChangeMessage: HTMLElement | null;
+  externalChangeConflicts: HTMLElement | null;
+  externalChangeKeep: HTMLButtonElement | null;
+  externalChangeReload: HTMLButtonElement | null;
+  externalChangeMerge: HTMLButtonElement | null;
+  bulkEditDialog: HTMLElement | null;
+  bulkEditTitle: HTMLElement | null;
+  bulkEditTarget: HTMLSelectElement | null;
+  bulkEditParamSelect: HTMLSelectElement | null;
+  bulkEditKey: HTMLInputElement | null;
+  bulkEditOperation: HTMLSelectElement | null;
+  bulkEditValue: HTMLInputElement | null;
+  bulkEditError: HTMLElement | null;
+  bulkEditCancel: HTMLButtonElement | null;
+  bulkEditApply: HTMLButtonElement | null;
+  renumberPreviewDialog: HTMLElement | null;
+  renumberPreviewTitle: HTMLElement | null;
+  renumberPreviewMessage: HTMLElement | null;
+  renumberPreviewModes: HTMLElement | null;
+  renumberPreviewList: HTMLElement | null;
+  renumberPreviewSummary: HTMLElement | null;
+  renumberPreviewCancel: HTMLButtonElement | null;
+  renumberPreviewConfirm: HTMLButtonElement | null;
+  balanceTableDialog: HTMLElement | null;
+  balanceTableTitle: HTMLElement | null;
+  balanceTableTags: HTMLElement | null;
+  balanceTableContainer: HTMLElement | null;
+  balanceTableSummary: HTMLElement | null;
+  balanceTableClose: HTMLButtonElement | null;
+  spreadsheetDialog: HTMLElement | null;
+  spreadsheetTitle: HTMLElement | null;
+  spreadsheetFormat: HTMLSelectElement | null;
+  spreadsheetMapping: HTMLTextAreaElement | null;
+  spreadsheetMappingErrors: HTMLElement | null;
+  spreadsheetResetMapping: HTMLButtonElement | null;
+  spreadsheetPreview: HTMLElement | null;
+  spreadsheetSummary: HTMLElement | null;
+  spreadsheetCancel: HTMLButtonElement | null;
+  spreadsheetConfirm: HTMLButtonElement | null;
+  spreadsheetImportFile: HTMLButtonElement | null;
+  customRegistryDialog: HTMLElement | null;
+  customRegistryPath: HTMLElement | null;
+  customRegistryAdd: HTMLButtonElement | null;
+  customRegistryContainer: HTMLElement | null;
+  customRegistryErrors: HTMLElement | null;
+  customRegistryCancel: HTMLButtonElement | null;
+  customRegistrySave: HTMLButtonElement | null;
   
   // ===== 主要面板 =====
+  fileTabBar: HTMLElement | null;
   leftPanel: HTMLElement | null;
+  dataExplorer: HTMLElement | null;
+  dataExplorerTitle: HTMLElement | null;
+  dataExplorerTree: HTMLElement | null;
+  dataExplorerRefresh: HTMLButtonElement | null;
   itemList: HTMLElement | null;
+  itemSearchInput: HTMLInputElement | null;
+  itemSearchCount: HTMLElement | null;
   scriptList: HTMLElement | null;
   scriptPanel: HTMLElement | null;
   metaDataPanel: HTMLElement | null;
   metaDataList: HTMLElement | null;
+  metaDataAddBtn: HTMLButtonElement | null;
+  noteTagQueryBtn: HTMLButtonElement | null;
+  noteTagQueryDialog: HTMLElement | null;
+  noteTagQueryPath: HTMLElement | null;
+  noteTagQueryFilter: HTMLInputElement | null;
+  noteTagQueryTags: HTMLElement | null;
+  noteTagQueryDetail: HTMLElement | null;
+  noteTagQueryOperation: HTMLSelectElement | null;
+  noteTagQueryInput: HTMLInputElement | null;
+  noteTagQueryPreview: HTMLButtonElement | null;
+  noteTagQueryErrors: HTMLElement | null;
+  noteTagQueryPreviewList: HTMLElement | null;
+  noteTagQuerySummary: HTMLElement | null;
+  noteTagQueryCancel: HTMLButtonElement | null;
+  noteTagQueryApply: HTMLButtonElement | null;
+  iconPickerDialog: HTMLElement | null;
+  iconPickerSearch: HTMLInputElement | null;
+  iconPickerGrid: HTMLElement | null;
+  iconPickerSummary: HTMLElement | null;
+  iconPickerClear: HTMLButtonElement | null;
+  iconPickerCancel: HTMLButtonElement | null;
+  scriptHistoryDialog: HTMLElement | null;
+  scriptHistoryTitle: HTMLElement | null;
+  scriptHistoryPath: HTMLElement | null;
+  scriptHistoryList: HTMLElement | null;
+  scriptHistoryCompare: HTMLSelectElement | null;
+  scriptHistoryDiff: HTMLElement | null;
+  scriptHistorySummary: HTMLElement | null;
+  scriptHistoryCancel: HTMLButtonElement | null;
+  scriptHistoryRestore: HTMLButtonElement | null;
+  scriptAuditBtn: HTMLButtonElement | null;
+  scriptAuditDialog: HTMLElement | null;
+  scriptAuditPath: HTMLElement | null;
+  scriptAuditOrphansAll: HTMLInputElement | null;
+  scriptAuditOrphans: HTMLElement | null;
+  scriptAuditArchive: HTMLButtonElement | null;
+  scriptAuditDelete: HTMLButtonElement | null;
+  scriptAuditDanglingAll: HTMLInputElement | null;
+  scriptAuditDangling: HTMLElement | null;
+  scriptAuditRelink: HTMLButtonElement | null;
+  scriptAuditUnlink: HTMLButtonElement | null;
+  scriptAuditSummary: HTMLElement | null;
+  scriptAuditCancel: HTMLButtonElement | null;
   codeEditorContainer: HTMLElement | null;
   propertyModePanel: HTMLElement | null;
   propertyBaseGrid: HTMLElement | null;
   baseAttributeList: HTMLElement | null;
   customAttributeList: HTMLElement | null;
+  customAttributeNameOptions: HTMLDataListElement | null;
   noteModePanel: HTMLElement | null;
   noteEditor: HTMLTextAreaElement | null;
+  noteTagInfo: HTMLElement | null;
+  noteTagSuggest: HTMLElement | null;
   noteModeSubtitle: HTMLElement | null;
   noteDescription: HTMLTextAreaElement | null;
+  descriptionPreview: HTMLElement | null;
+  descriptionPreviewWidth: HTMLInputElement | null;
+  descriptionPreviewSummary: HTMLElement | null;
   emptyStatePanel: HTMLElement | null;
   projectileModePanel: HTMLElement | null;
   questModePanel: HTMLElement | null;
@@ -46,6 +163,7 @@ export interface DOMCache {
   statusText: HTMLElement | null;
   characterCount: HTMLElement | null;
   lineCount: HTMLElement | null;
+  fileFormatSelect: HTMLSelectElement | null;
   
   // ===== 文件信息 =====
   codeFilePath: HTMLElement | null;
@@ -54,8 +172,10 @@ export interface DOMCache {
   savePropertiesBtn: HTMLButtonElement | null;
   saveCustomPropertyBtn: HTMLButtonElement | null;
   addCustomPropertyBtn: HTMLButtonElement | null;
+  customRegistryBtn: HTMLButtonElement | null;
   saveCodeBtn: HTMLButtonElement | null;
   clearCodeBtn: HTMLButtonElement | null;
+  scriptHistoryBtn: HTMLButtonElement | null;
   saveNoteBtn: HTMLButtonElement | null;
   saveDescriptionBtn: HTMLButtonElement | null;
   
@@ -63,12 +183,28 @@ export interface DOMCache {
   loadingIndicator: HTMLElement | null;
   loadingText: HTMLElement | null;
   propertyModeSubtitle: HTMLElement | null;
+  schemaFieldSection: HTMLElement | null;
+  schemaFieldTitle: HTMLElement | null;
+  schemaFieldList: HTMLElement | null;
+  traitEffectSection: HTMLElement | null;
+  traitEffectTitle: HTMLElement | null;
+  traitEffectAddBtn: HTMLButtonElement | null;
+  traitEffectList: HTMLElement | null;
+  paramCurveSection: HTMLElement | null;
+  paramCurveEditor: HTMLElement | null;
   
   // ===== 历史文件对话框 =====
   historyFilesDialog: HTMLElement | null;
   historyFilesList: HTMLElement | null;
   historyFilesDialogClose: HTMLButtonElement | null;
 
+  // ===== 编辑历史对话框 =====
+  editHistoryDialog: HTMLElement | null;
+  editHistoryList: HTMLElement | null;
+  editHistoryDialogClose: HTMLButtonElement | null;
+  editHistoryUndoBtn: HTMLButtonElement | null;
+  editHistoryRedoBtn: HTMLButtonElement | null;
+
   // ===== 主题设置对话框 =====
   themeSettingsDialog: HTMLElement | null;
   themeSettingsClose: HTMLButtonElement | null;
@@ -88,6 +224,10 @@ export interface DOMCache {
   // ===== 项目操作按钮 =====
   itemNewBtn: HTMLButtonElement | null;
   itemCopyBtn: HTMLButtonElement | null;
+  itemExportBtn: HTMLButtonElement | null;
+  itemBulkEditBtn: HTMLButtonElement | null;
+  itemBalanceBtn: HTMLButtonElement | null;
+  itemSpreadsheetBtn: HTMLButtonElement | null;
   itemDeleteBtn: HTMLButtonElement | null;
   itemSaveBtn: HTMLButtonElement | null;
   projectActions: HTMLElement | null;
@@ -210,23 +350,140 @@ class DOMManagerClass implements DOMCache {
   inputDialogInput: HTMLInputElement | null = null;
   inputDialogConfirm: HTMLButtonElement | null = null;
   inputDialogCancel: HTMLButtonElement | null = null;
+  unsavedChangesDialog: HTMLElement | null = null;
+  unsavedChangesMessage: HTMLElement | null = null;
+  unsavedChangesSave: HTMLButtonElement | null = null;
+  unsavedChangesDiscard: HTMLButtonElement | null = null;
+  unsavedChangesCancel: HTMLButtonElement | null = null;
+  backupRestoreDialog: HTMLElement | null = null;
+  backupRestoreTitle: HTMLElement | null = null;
+  backupRestoreList: HTMLElement | null = null;
+  backupRestoreSummary: HTMLElement | null = null;
+  backupRestorePreview: HTMLElement | null = null;
+  backupRestoreClose: HTMLButtonElement | null = null;
+  backupRestoreCancel: HTMLButtonElement | null = null;
+  backupRestoreConfirm: HTMLButtonElement | null = null;
+  externalChangeDialog: HTMLElement | null = null;
+  externalChangeMessage: HTMLElement | null = null;
+  externalChangeConflicts: HTMLElement | null = null;
+  externalChangeKeep: HTMLButtonElement | null = null;
+  externalChangeReload: HTMLButtonElement | null = null;
+  externalChangeMerge: HTMLButtonElement | null = null;
+  bulkEditDialog: HTMLElement | null = null;
+  bulkEditTitle: HTMLElement | null = null;
+  bulkEditTarget: HTMLSelectElement | null = null;
+  bulkEditParamSelect: HTMLSelectElement | null = null;
+  bulkEditKey: HTMLInputElement | null = null;
+  bulkEditOperation: HTMLSelectElement | null = null;
+  bulkEditValue: HTMLInputElement | null = null;
+  bulkEditError: HTMLElement | null = null;
+  bulkEditCancel: HTMLButtonElement | null = null;
+  bulkEditApply: HTMLButtonElement | null = null;
+  renumberPreviewDialog: HTMLElement | null = null;
+  renumberPreviewTitle: HTMLElement | null = null;
+  renumberPreviewMessage: HTMLElement | null = null;
+  renumberPreviewModes: HTMLElement | null = null;
+  renumberPreviewList: HTMLElement | null = null;
+  renumberPreviewSummary: HTMLElement | null = null;
+  renumberPreviewCancel: HTMLButtonElement | null = null;
+  renumberPreviewConfirm: HTMLButtonElement | null = null;
+  balanceTableDialog: HTMLElement | null = null;
+  balanceTableTitle: HTMLElement | null = null;
+  balanceTableTags: HTMLElement | null = null;
+  balanceTableContainer: HTMLElement | null = null;
+  balanceTableSummary: HTMLElement | null = null;
+  balanceTableClose: HTMLButtonElement | null = null;
+  spreadsheetDialog: HTMLElement | null = null;
+  spreadsheetTitle: HTMLElement | null = null;
+  spreadsheetFormat: HTMLSelectElement | null = null;
+  spreadsheetMapping: HTMLTextAreaElement | null = null;
+  spreadsheetMappingErrors: HTMLElement | null = null;
+  spreadsheetResetMapping: HTMLButtonElement | null = null;
+  spreadsheetPreview: HTMLElement | null = null;
+  spreadsheetSummary: HTMLElement | null = null;
+  spreadsheetCancel: HTMLButtonElement | null = null;
+  spreadsheetConfirm: HTMLButtonElement | null = null;
+  spreadsheetImportFile: HTMLButtonElement | null = null;
+  customRegistryDialog: HTMLElement | null = null;
+  customRegistryPath: HTMLElement | null = null;
+  customRegistryAdd: HTMLButtonElement | null = null;
+  customRegistryContainer: HTMLElement | null = null;
+  customRegistryErrors: HTMLElement | null = null;
+  customRegistryCancel: HTMLButtonElement | null = null;
+  customRegistrySave: HTMLButtonElement | null = null;
   
   // ===== 主要面板 =====
+  fileTabBar: HTMLElement | null = null;
   leftPanel: HTMLElement | null = null;
+  dataExplorer: HTMLElement | null = null;
+  dataExplorerTitle: HTMLElement | null = null;
+  dataExplorerTree: HTMLElement | null = null;
+  dataExplorerRefresh: HTMLButtonElement | null = null;
   itemList: HTMLElement | null = null;
+  itemSearchInput: HTMLInputElement | null = null;
+  itemSearchCount: HTMLElement | null = null;
   scriptList: HTMLElement | null = null;
   scriptPanel: HTMLElement | null = null;
   metaDataPanel: HTMLElement | null = null;
   metaDataList: HTMLElement | null = null;
+  metaDataAddBtn: HTMLButtonElement | null = null;
+  noteTagQueryBtn: HTMLButtonElement | null = null;
+  noteTagQueryDialog: HTMLElement | null = null;
+  noteTagQueryPath: HTMLElement | null = null;
+  noteTagQueryFilter: HTMLInputElement | null = null;
+  noteTagQueryTags: HTMLElement | null = null;
+  noteTagQueryDetail: HTMLElement | null = null;
+  noteTagQueryOperation: HTMLSelectElement | null = null;
+  noteTagQueryInput: HTMLInputElement | null = null;
+  noteTagQueryPreview: HTMLButtonElement | null = null;
+  noteTagQueryErrors: HTMLElement | null = null;
+  noteTagQueryPreviewList: HTMLElement | null = null;
+  noteTagQuerySummary: HTMLElement | null = null;
+  noteTagQueryCancel: HTMLButtonElement | null = null;
+  noteTagQueryApply: HTMLButtonElement | null = null;
+  iconPickerDialog: HTMLElement | null = null;
+  iconPickerSearch: HTMLInputElement | null = null;
+  iconPickerGrid: HTMLElement | null = null;
+  iconPickerSummary: HTMLElement | null = null;
+  iconPickerClear: HTMLButtonElement | null = null;
+  iconPickerCancel: HTMLButtonElement | null = null;
+  scriptHistoryDialog: HTMLElement | null = null;
+  scriptHistoryTitle: HTMLElement | null = null;
+  scriptHistoryPath: HTMLElement | null = null;
+  scriptHistoryList: HTMLElement | null = null;
+  scriptHistoryCompare: HTMLSelectElement | null = null;
+  scriptHistoryDiff: HTMLElement | null = null;
+  scriptHistorySummary: HTMLElement | null = null;
+  scriptHistoryCancel: HTMLButtonElement | null = null;
+  scriptHistoryRestore: HTMLButtonElement | null = null;
+  scriptAuditBtn: HTMLButtonElement | null = null;
+  scriptAuditDialog: HTMLElement | null = null;
+  scriptAuditPath: HTMLElement | null = null;
+  scriptAuditOrphansAll: HTMLInputElement | null = null;
+  scriptAuditOrphans: HTMLElement | null = null;
+  scriptAuditArchive: HTMLButtonElement | null = null;
+  scriptAuditDelete: HTMLButtonElement | null = null;
+  scriptAuditDanglingAll: HTMLInputElement | null = null;
+  scriptAuditDangling: HTMLElement | null = null;
+  scriptAuditRelink: HTMLButtonElement | null = null;
+  scriptAuditUnlink: HTMLButtonElement | null = null;
+  scriptAuditSummary: HTMLElement | null = null;
+  scriptAuditCancel: HTMLButtonElement | null = null;
   codeEditorContainer: HTMLElement | null = null;
   propertyModePanel: HTMLElement | null = null;
   propertyBaseGrid: HTMLElement | null = null;
   baseAttributeList: HTMLElement | null = null;
   customAttributeList: HTMLElement | null = null;
+  customAttributeNameOptions: HTMLDataListElement | null = null;
   noteModePanel: HTMLElement | null = null;
   noteEditor: HTMLTextAreaElement | null = null;
+  noteTagInfo: HTMLElement | null = null;
+  noteTagSuggest: HTMLElement | null = null;
   noteModeSubtitle: HTMLElement | null = null;
   noteDescription: HTMLTextAreaElement | null = null;
+  descriptionPreview: HTMLElement | null = null;
+  descriptionPreviewWidth: HTMLInputElement | null = null;
+  descriptionPreviewSummary: HTMLElement | null = null;
   emptyStatePanel: HTMLElement | null = null;
   projectileModePanel: HTMLElement | null = null;
   questModePanel: HTMLElement | null = null;
@@ -235,6 +492,7 @@ class DOMManagerClass implements DOMCache {
   statusText: HTMLElement | null = null;
   characterCount: HTMLElement | null = null;
   lineCount: HTMLElement | null = null;
+  fileFormatSelect: HTMLSelectElement | null = null;
   
   // ===== 文件信息 =====
   codeFilePath: HTMLElement | null = null;
@@ -243,8 +501,10 @@ class DOMManagerClass implements DOMCache {
   savePropertiesBtn: HTMLButtonElement | null = null;
   saveCustomPropertyBtn: HTMLButtonElement | null = null;
   addCustomPropertyBtn: HTMLButtonElement | null = null;
+  customRegistryBtn: HTMLButtonElement | null = null;
   saveCodeBtn: HTMLButtonElement | null = null;
   clearCodeBtn: HTMLButtonElement | null = null;
+  scriptHistoryBtn: HTMLButtonElement | null = null;
   saveNoteBtn: HTMLButtonElement | null = null;
   saveDescriptionBtn: HTMLButtonElement | null = null;
   
@@ -252,12 +512,28 @@ class DOMManagerClass implements DOMCache {
   loadingIndicator: HTMLElement | null = null;
   loadingText: HTMLElement | null = null;
   propertyModeSubtitle: HTMLElement | null = null;
+  schemaFieldSection: HTMLElement | null = null;
+  schemaFieldTitle: HTMLElement | null = null;
+  schemaFieldList: HTMLElement | null = null;
+  traitEffectSection: HTMLElement | null = null;
+  traitEffectTitle: HTMLElement | null = null;
+  traitEffectAddBtn: HTMLButtonElement | null = null;
+  traitEffectList: HTMLElement | null = null;
+  paramCurveSection: HTMLElement | null = null;
+  paramCurveEditor: HTMLElement | null = null;
   
   // ===== 历史文件对话框 =====
   historyFilesDialog: HTMLElement | null = null;
   historyFilesList: HTMLElement | null = null;
   historyFilesDialogClose: HTMLButtonElement | null = null;
 
+  // ===== 编辑历史对话框 =====
+  editHistoryDialog: HTMLElement | null = null;
+  editHistoryList: HTMLElement | null = null;
+  editHistoryDialogClose: HTMLButtonElement | null = null;
+  editHistoryUndoBtn: HTMLButtonElement | null = null;
+  editHistoryRedoBtn: HTMLButtonElement | null = null;
+
   // ===== 主题设置对话框 =====
   themeSettingsDialog: HTMLElement | null = null;
   themeSettingsClose: HTMLButtonElement | null = null;
@@ -277,6 +553,10 @@ class DOMManagerClass implements DOMCache {
   // ===== 项目操作按钮 =====
   itemNewBtn: HTMLButtonElement | null = null;
   itemCopyBtn: HTMLButtonElement | null = null;
+  itemExportBtn: HTMLButtonElement | null = null;
+  itemBulkEditBtn: HTMLButtonElement | null = null;
+  itemBalanceBtn: HTMLButtonElement | null = null;
+  itemSpreadsheetBtn: HTMLButtonElement | null = null;
   itemDeleteBtn: HTMLButtonElement | null = null;
   itemSaveBtn: HTMLButtonElement | null = null;
   projectActions: HTMLElement | null = null;
@@ -412,23 +692,140 @@ class DOMManagerClass implements DOMCache {
     this.inputDialogInput = this.getElement('inputDialogInput') as HTMLInputElement;
     this.inputDialogConfirm = this.getElement('inputDialogConfirm') as HTMLButtonElement;
     this.inputDialogCancel = this.getElement('inputDialogCancel') as HTMLButtonElement;
+    this.unsavedChangesDialog = this.getElement('unsavedChangesDialog');
+    this.unsavedChangesMessage = this.getElement('unsavedChangesMessage');
+    this.unsavedChangesSave = this.getElement('unsavedChangesSave') as HTMLButtonElement;
+    this.unsavedChangesDiscard = this.getElement('unsavedChangesDiscard') as HTMLButtonElement;
+    this.unsavedChangesCancel = this.getElement('unsavedChangesCancel') as HTMLButtonElement;
+    this.backupRestoreDialog = this.getElement('backupRestoreDialog');
+    this.backupRestoreTitle = this.getElement('backupRestoreTitle');
+    this.backupRestoreList = this.getElement('backupRestoreList');
+    this.backupRestoreSummary = this.getElement('backupRestoreSummary');
+    this.backupRestorePreview = this.getElement('backupRestorePreview');
+    this.backupRestoreClose = this.getElement('backupRestoreClose') as HTMLButtonElement;
+    this.backupRestoreCancel = this.getElement('backupRestoreCancel') as HTMLButtonElement;
+    this.backupRestoreConfirm = this.getElement('backupRestoreConfirm') as HTMLButtonElement;
+    this.externalChangeDialog = this.getElement('externalChangeDialog');
+    this.externalChangeMessage = this.getElement('externalChangeMessage');
+    this.externalChangeConflicts = this.getElement('externalChangeConflicts');
+    this.externalChangeKeep = this.getElement('externalChangeKeep') as HTMLButtonElement;
+    this.externalChangeReload = this.getElement('externalChangeReload') as HTMLButtonElement;
+    this.externalChangeMerge = this.getElement('externalChangeMerge') as HTMLButtonElement;
+    this.bulkEditDialog = this.getElement('bulkEditDialog');
+    this.bulkEditTitle = this.getElement('bulkEditTitle');
+    this.bulkEditTarget = this.getElement('bulkEditTarget') as HTMLSelectElement;
+    this.bulkEditParamSelect = this.getElement('bulkEditParamSelect') as HTMLSelectElement;
+    this.bulkEditKey = this.getElement('bulkEditKey') as HTMLInputElement;
+    this.bulkEditOperation = this.getElement('bulkEditOperation') as HTMLSelectElement;
+    this.bulkEditValue = this.getElement('bulkEditValue') as HTMLInputElement;
+    this.bulkEditError = this.getElement('bulkEditError');
+    this.bulkEditCancel = this.getElement('bulkEditCancel') as HTMLButtonElement;
+    this.bulkEditApply = this.getElement('bulkEditApply') as HTMLButtonElement;
+    this.renumberPreviewDialog = this.getElement('renumberPreviewDialog');
+    this.renumberPreviewTitle = this.getElement('renumberPreviewTitle');
+    this.renumberPreviewMessage = this.getElement('renumberPreviewMessage');
+    this.renumberPreviewModes = this.getElement('renumberPreviewModes');
+    this.renumberPreviewList = this.getElement('renumberPreviewList');
+    this.renumberPreviewSummary = this.getElement('renumberPreviewSummary');
+    this.renumberPreviewCancel = this.getElement('renumberPreviewCancel') as HTMLButtonElement;
+    this.renumberPreviewConfirm = this.getElement('renumberPreviewConfirm') as HTMLButtonElement;
+    this.balanceTableDialog = this.getElement('balanceTableDialog');
+    this.balanceTableTitle = this.getElement('balanceTableTitle');
+    this.balanceTableTags = this.getElement('balanceTableTags');
+    this.balanceTableContainer = this.getElement('balanceTableContainer');
+    this.balanceTableSummary = this.getElement('balanceTableSummary');
+    this.balanceTableClose = this.getElement('balanceTableClose') as HTMLButtonElement;
+    this.spreadsheetDialog = this.getElement('spreadsheetDialog');
+    this.spreadsheetTitle = this.getElement('spreadsheetTitle');
+    this.spreadsheetFormat = this.getElement('spreadsheetFormat') as HTMLSelectElement;
+    this.spreadsheetMapping = this.getElement('spreadsheetMapping') as HTMLTextAreaElement;
+    this.spreadsheetMappingErrors = this.getElement('spreadsheetMappingErrors');
+    this.spreadsheetResetMapping = this.getElement('spreadsheetResetMapping') as HTMLButtonElement;
+    this.spreadsheetPreview = this.getElement('spreadsheetPreview');
+    this.spreadsheetSummary = this.getElement('spreadsheetSummary');
+    this.spreadsheetCancel = this.getElement('spreadsheetCancel') as HTMLButtonElement;
+    this.spreadsheetConfirm = this.getElement('spreadsheetConfirm') as HTMLButtonElement;
+    this.spreadsheetImportFile = this.getElement('spreadsheetImportFile') as HTMLButtonElement;
+    this.customRegistryDialog = this.getElement('customRegistryDialog');
+    this.customRegistryPath = this.getElement('customRegistryPath');
+    this.customRegistryAdd = this.getElement('customRegistryAdd') as HTMLButtonElement;
+    this.customRegistryContainer = this.getElement('customRegistryContainer');
+    this.customRegistryErrors = this.getElement('customRegistryErrors');
+    this.customRegistryCancel = this.getElement('customRegistryCancel') as HTMLButtonElement;
+    this.customRegistrySave = this.getElement('customRegistrySave') as HTMLButtonElement;
 
     // ===== 主要面板 =====
+    this.fileTabBar = this.getElement('fileTabBar');
     this.leftPanel = this.getElement('leftPanel');
+    this.dataExplorer = this.getElement('dataExplorer');
+    this.dataExplorerTitle = this.getElement('dataExplorerTitle');
+    this.dataExplorerTree = this.getElement('dataExplorerTree');
+    this.dataExplorerRefresh = this.getElement('dataExplorerRefresh') as HTMLButtonElement;
     this.itemList = this.getElement('itemList');
+    this.itemSearchInput = this.getElement('itemSearchInput') as HTMLInputElement;
+    this.itemSearchCount = this.getElement('itemSearchCount');
     this.scriptList = this.getElement('scriptList');
     this.scriptPanel = this.getElement('scriptPanel');
     this.metaDataPanel = this.getElement('metaDataPanel');
     this.metaDataList = this.getElement('metaDataList');
+    this.metaDataAddBtn = this.getElement('metaDataAddBtn') as HTMLButtonElement;
+    this.noteTagQueryBtn = this.getElement('noteTagQueryBtn') as HTMLButtonElement;
+    this.noteTagQueryDialog = this.getElement('noteTagQueryDialog');
+    this.noteTagQueryPath = this.getElement('noteTagQueryPath');
+    this.noteTagQueryFilter = this.getElement('noteTagQueryFilter') as HTMLInputElement;
+    this.noteTagQueryTags = this.getElement('noteTagQueryTags');
+    this.noteTagQueryDetail = this.getElement('noteTagQueryDetail');
+    this.noteTagQueryOperation = this.getElement('noteTagQueryOperation') as HTMLSelectElement;
+    this.noteTagQueryInput = this.getElement('noteTagQueryInput') as HTMLInputElement;
+    this.noteTagQueryPreview = this.getElement('noteTagQueryPreview') as HTMLButtonElement;
+    this.noteTagQueryErrors = this.getElement('noteTagQueryErrors');
+    this.noteTagQueryPreviewList = this.getElement('noteTagQueryPreviewList');
+    this.noteTagQuerySummary = this.getElement('noteTagQuerySummary');
+    this.noteTagQueryCancel = this.getElement('noteTagQueryCancel') as HTMLButtonElement;
+    this.noteTagQueryApply = this.getElement('noteTagQueryApply') as HTMLButtonElement;
+    this.iconPickerDialog = this.getElement('iconPickerDialog');
+    this.iconPickerSearch = this.getElement('iconPickerSearch') as HTMLInputElement;
+    this.iconPickerGrid = this.getElement('iconPickerGrid');
+    this.iconPickerSummary = this.getElement('iconPickerSummary');
+    this.iconPickerClear = this.getElement('iconPickerClear') as HTMLButtonElement;
+    this.iconPickerCancel = this.getElement('iconPickerCancel') as HTMLButtonElement;
+    this.scriptHistoryDialog = this.getElement('scriptHistoryDialog');
+    this.scriptHistoryTitle = this.getElement('scriptHistoryTitle');
+    this.scriptHistoryPath = this.getElement('scriptHistoryPath');
+    this.scriptHistoryList = this.getElement('scriptHistoryList');
+    this.scriptHistoryCompare = this.getElement('scriptHistoryCompare') as HTMLSelectElement;
+    this.scriptHistoryDiff = this.getElement('scriptHistoryDiff');
+    this.scriptHistorySummary = this.getElement('scriptHistorySummary');
+    this.scriptHistoryCancel = this.getElement('scriptHistoryCancel') as HTMLButtonElement;
+    this.scriptHistoryRestore = this.getElement('scriptHistoryRestore') as HTMLButtonElement;
+    this.scriptAuditBtn = this.getElement('scriptAuditBtn') as HTMLButtonElement;
+    this.scriptAuditDialog = this.getElement('scriptAuditDialog');
+    this.scriptAuditPath = this.getElement('scriptAuditPath');
+    this.scriptAuditOrphansAll = this.getElement('scriptAuditOrphansAll') as HTMLInputElement;
+    this.scriptAuditOrphans = this.getElement('scriptAuditOrphans');
+    this.scriptAuditArchive = this.getElement('scriptAuditArchive') as HTMLButtonElement;
+    this.scriptAuditDelete = this.getElement('scriptAuditDelete') as HTMLButtonElement;
+    this.scriptAuditDanglingAll = this.getElement('scriptAuditDanglingAll') as HTMLInputElement;
+    this.scriptAuditDangling = this.getElement('scriptAuditDangling');
+    this.scriptAuditRelink = this.getElement('scriptAuditRelink') as HTMLButtonElement;
+    this.scriptAuditUnlink = this.getElement('scriptAuditUnlink') as HTMLButtonElement;
+    this.scriptAuditSummary = this.getElement('scriptAuditSummary');
+    this.scriptAuditCancel = this.getElement('scriptAuditCancel') as HTMLButtonElement;
     this.codeEditorContainer = this.getElement('codeEditorContainer');
     this.propertyModePanel = this.getElement('propertyModePanel');
     this.propertyBaseGrid = this.getElement('propertyBaseGrid');
     this.baseAttributeList = this.getElement('baseAttributeList');
     this.customAttributeList = this.getElement('customAttributeList');
+    this.customAttributeNameOptions = this.getElement('customAttributeNameOptions') as HTMLDataListElement;
     this.noteModePanel = this.getElement('noteModePanel');
     this.noteEditor = this.getElement('noteEditor') as HTMLTextAreaElement;
+    this.noteTagInfo = this.getElement('noteTagInfo');
+    this.noteTagSuggest = this.getElement('noteTagSuggest');
     this.noteModeSubtitle = this.getElement('noteModeSubtitle');
     this.noteDescription = this.getElement('noteDescription') as HTMLTextAreaElement;
+    this.descriptionPreview = this.getElement('descriptionPreview');
+    this.descriptionPreviewWidth = this.getElement('descriptionPreviewWidth') as HTMLInputElement;
+    this.descriptionPreviewSummary = this.getElement('descriptionPreviewSummary');
     this.emptyStatePanel = this.getElement('emptyStatePanel');
     this.projectileModePanel = this.getElement('projectileModePanel');
     this.questModePanel = this.getElement('questModePanel');
@@ -437,6 +834,7 @@ class DOMManagerClass implements DOMCache {
     this.statusText = this.getElement('statusText');
     this.characterCount = this.getElement('characterCount');
     this.lineCount = this.getElement('lineCount');
+    this.fileFormatSelect = this.getElement('fileFormatSelect') as HTMLSelectElement;
 
     // ===== 文件信息 =====
     this.codeFilePath = this.getElement('codeFilePath');
@@ -445,8 +843,10 @@ class DOMManagerClass implements DOMCache {
     this.savePropertiesBtn = this.getElement('savePropertiesBtn') as HTMLButtonElement;
     this.saveCustomPropertyBtn = this.getElement('saveCustomPropertyBtn') as HTMLButtonElement;
     this.addCustomPropertyBtn = this.getElement('addCustomPropertyBtn') as HTMLButtonElement;
+    this.customRegistryBtn = this.getElement('customRegistryBtn') as HTMLButtonElement;
     this.saveCodeBtn = this.getElement('saveCodeBtn') as HTMLButtonElement;
     this.clearCodeBtn = this.getElement('clearCodeBtn') as HTMLButtonElement;
+    this.scriptHistoryBtn = this.getElement('scriptHistoryBtn') as HTMLButtonElement;
     this.saveNoteBtn = this.getElement('saveNoteBtn') as HTMLButtonElement;
     this.saveDescriptionBtn = this.getElement('saveDescriptionBtn') as HTMLButtonElement;
 
@@ -454,12 +854,28 @@ class DOMManagerClass implements DOMCache {
     this.loadingIndicator = this.getElement('loadingIndicator');
     this.loadingText = this.getElement('loadingText');
     this.propertyModeSubtitle = this.getElement('propertyModeSubtitle');
+    this.schemaFieldSection = this.getElement('schemaFieldSection');
+    this.schemaFieldTitle = this.getElement('schemaFieldTitle');
+    this.schemaFieldList = this.getElement('schemaFieldList');
+    this.traitEffectSection = this.getElement('traitEffectSection');
+    this.traitEffectTitle = this.getElement('traitEffectTitle');
+    this.traitEffectAddBtn = this.getElement('traitEffectAddBtn') as HTMLButtonElement;
+    this.traitEffectList = this.getElement('traitEffectList');
+    this.paramCurveSection = this.getElement('paramCurveSection');
+    this.paramCurveEditor = this.getElement('paramCurveEditor');
 
     // ===== 历史文件对话框 =====
     this.historyFilesDialog = this.getElement('historyFilesDialog');
     this.historyFilesList = this.getElement('historyFilesList');
     this.historyFilesDialogClose = this.getElement('historyFilesDialogClose') as HTMLButtonElement;
 
+    // ===== 编辑历史对话框 =====
+    this.editHistoryDialog = this.getElement('editHistoryDialog');
+    this.editHistoryList = this.getElement('editHistoryList');
+    this.editHistoryDialogClose = this.getElement('editHistoryDialogClose') as HTMLButtonElement;
+    this.editHistoryUndoBtn = this.getElement('editHistoryUndoBtn') as HTMLButtonElement;
+    this.editHistoryRedoBtn = this.getElement('editHistoryRedoBtn') as HTMLButtonElement;
+
     // ===== 主题设置对话框 =====
     this.themeSettingsDialog = this.getElement('themeSettingsDialog');
     this.themeSettingsClose = this.getElement('themeSettingsClose') as HTMLButtonElement;
@@ -479,6 +895,10 @@ class DOMManagerClass implements DOMCache {
     // ===== 项目操作按钮 =====
     this.itemNewBtn = this.getElement('itemNewBtn') as HTMLButtonElement;
     this.itemCopyBtn = this.getElement('itemCopyBtn') as HTMLButtonElement;
+    this.itemExportBtn = this.getElement('itemExportBtn') as HTMLButtonElement;
+    this.itemBulkEditBtn = this.getElement('itemBulkEditBtn') as HTMLButtonElement;
+    this.itemBalanceBtn = this.getElement('itemBalanceBtn') as HTMLButtonElement;
+    this.itemSpreadsheetBtn = this.getElement('itemSpreadsheetBtn') as HTMLButtonElement;
     this.itemDeleteBtn = this.getElement('itemDeleteBtn') as HTMLButtonElement;
     this.itemSaveBtn = this.getElement('itemSaveBtn') as HTMLButtonElement;
     this.projectActions = this.getElement('projectActions');
@@ -620,6 +620,13 @@ class EditorManagerClass {
     logger.debug('Model cache cleared', undefined, 'EditorManager');
   }
 
+  /**
+   * 获取当前模型对应的文件路径，未加载模型时返回空字符串
+   */
+  getCurrentFilePath(): string {
+    return this.currentModelKey;
+  }
+
   /**
    * 移除特定模型
    */
@@ -0,0 +1,416 @@
+/**
+ * HistoryManager - 编辑历史管理器
+ * 基于 HistoryEntry 记录 currentData 的每一次变更，支持撤销、重做与跳转到任意历史位置
+ *
+ * 管理器内部保存一份 currentData 的快照，记录时与当前数据比较得出变更前后的值，
+ * 因此调用方可以先原地修改数据，再调用 recordItem / recordData。
+ * 每次记录或应用历史都会同步更新 StateManager 中的脏状态。
+ */
+
+import { StateManager } from './StateManager';
+import type { DataItem, PartialState } from './StateManager';
+import { EventSystem } from './EventSystem';
+import type { HistoryEntry, ProjectileTemplate, RPGQuest } from '../types';
+
+// ============ 类型定义 ============
+
+/** 历史记录类型 */
+export type HistoryEntryType = HistoryEntry['type'];
+
+/** 可保存与恢复的历史会话（用于多文件标签页切换） */
+export interface HistorySession {
+  entries: HistoryEntry[];
+  cursor: number;
+  snapshot: DataItem[] | null;
+}
+
+/** 历史变更监听器 */
+export type HistoryListener = (entries: readonly HistoryEntry[], cursor: number) => void;
+
+// ============ 常量 ============
+
+const MAX_HISTORY_ENTRIES = 200;
+/** 同一目标、同一描述的连续更新在该时间窗口内合并为一步 */
+const MERGE_WINDOW_MS = 1000;
+const DATA_TARGET = 'data';
+const ITEM_TARGET_PREFIX = 'item:';
+
+// ============ 工具函数 ============
+
+function cloneValue<T>(value: T): T {
+  if (value === undefined || value === null) return value;
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * 构建单个数据项的历史目标
+ */
+export function buildItemTarget(index: number): string {
+  return `${ITEM_TARGET_PREFIX}${index}`;
+}
+
+/**
+ * 解析单个数据项的历史目标，非数据项目标返回 -1
+ */
+export function parseItemTarget(target: string): number {
+  if (!target.startsWith(ITEM_TARGET_PREFIX)) return -1;
+  const index = Number(target.slice(ITEM_TARGET_PREFIX.length));
+  return Number.isInteger(index) && index >= 0 ? index : -1;
+}
+
+// ============ HistoryManager 类 ============
+
+/**
+ * 编辑历史管理器 - 单例模式
+ * entries[0..cursor) 为已应用的记录，entries[cursor..] 为可重做的记录
+ */
+class HistoryManagerClass {
+  private entries: HistoryEntry[] = [];
+  private cursor = 0;
+  private nextId = 1;
+
+  /** currentData 的快照，快照中的值只会被整体替换，不会被原地修改 */
+  private snapshot: DataItem[] | null = null;
+
+  /** 是否正在应用历史记录 */
+  private applying = false;
+
+  private listeners: HistoryListener[] = [];
+  private unsubscribeState: (() => void) | null = null;
+
+  /**
+   * 初始化：文件切换时自动重置历史
+   */
+  init(): void {
+    if (this.unsubscribeState) return;
+
+    this.reset(StateManager.getState().currentData);
+    this.unsubscribeState = StateManager.subscribe((state, changedKeys) => {
+      if (this.applying) return;
+      if (changedKeys.includes('currentFilePath')) {
+        this.reset(state.currentData);
+      } else if (!this.snapshot && changedKeys.includes('currentData')) {
+        this.snapshot = cloneValue(state.currentData);
+      }
+    });
+  }
+
+  /**
+   * 清空历史并以给定数据作为新的基线
+   */
+  reset(data: DataItem[] | null): void {
+    this.entries.length = 0;
+    this.cursor = 0;
+    this.snapshot = cloneValue(data);
+    this.notify();
+  }
+
+  /**
+   * 导出当前历史会话
+   */
+  saveSession(): HistorySession {
+    return {
+      entries: [...this.entries],
+      cursor: this.cursor,
+      snapshot: this.snapshot,
+    };
+  }
+
+  /**
+   * 恢复之前导出的历史会话
+   */
+  restoreSession(session: HistorySession): void {
+    this.entries = [...session.entries];
+    this.cursor = Math.min(session.cursor, this.entries.length);
+    this.snapshot = session.snapshot;
+    this.notify();
+  }
+
+  /**
+   * 为未激活标签页的历史会话记录整表变更（数据已被原地修改），切换回该标签页后可以撤销
+   * @returns 更新后的会话
+   */
+  recordSessionData(session: HistorySession, data: DataItem[], label: string): HistorySession {
+    const previousValue = session.snapshot;
+    const newValue = cloneValue(data);
+    if (isSameValue(previousValue, newValue)) return session;
+
+    const now = Date.now();
+    const entries = session.entries.slice(0, session.cursor);
+    entries.push({
+      id: `h${now.toString(36)}_${this.nextId++}`,
+      timestamp: now,
+      type: 'update',
+      target: DATA_TARGET,
+      previousValue,
+      newValue,
+      label,
+    });
+    if (entries.length > MAX_HISTORY_ENTRIES) entries.shift();
+    return { entries, cursor: entries.length, snapshot: newValue };
+  }
+
+  /**
+   * 记录单个数据项的变更
+   * @returns 是否产生了新的历史记录
+   */
+  recordItem(index: number, label: string, type: HistoryEntryType = 'update'): boolean {
+    const data = StateManager.getState().currentData;
+    if (this.applying || !data) return false;
+
+    // 数组结构发生变化时退化为整表记录
+    if (!this.snapshot || this.snapshot.length !== data.length) {
+      return this.recordData(label, type);
+    }
+
+    const previousValue = this.snapshot[index] ?? null;
+    const newValue = cloneValue(data[index] ?? null);
+    if (isSameValue(previousValue, newValue)) return false;
+
+    this.snapshot[index] = newValue;
+    this.push(type, buildItemTarget(index), previousValue, newValue, label);
+    StateManager.markItemDirty(index);
+    return true;
+  }
+
+  /**
+   * 记录整个数据数组的变更（新建、复制、删除等结构性操作）
+   * @returns 是否产生了新的历史记录
+   */
+  recordData(label: string, type: HistoryEntryType = 'update'): boolean {
+    const data = StateManager.getState().currentData;
+    if (this.applying || !data) return false;
+
+    const previousValue = this.snapshot;
+    const newValue = cloneValue(data);
+    if (isSameValue(previousValue, newValue)) return false;
+
+    this.snapshot = newValue;
+    this.push(type, DATA_TARGET, previousValue, newValue, label);
+    this.markDataDirty(previousValue ? previousValue.length : 0, newValue.length);
+    return true;
+  }
+
+  /**
+   * 撤销一步
+   */
+  undo(): HistoryEntry | null {
+    if (this.cursor === 0) return null;
+    const entry = this.entries[this.cursor - 1];
+    this.runApply(() => {
+      this.applyValue(entry.target, entry.previousValue);
+      this.cursor--;
+    });
+    EventSystem.emit('history:applied', { entry, direction: 'undo' });
+    return entry;
+  }
+
+  /**
+   * 重做一步
+   */
+  redo(): HistoryEntry | null {
+    if (this.cursor >= this.entries.length) return null;
+    const entry = this.entries[this.cursor];
+    this.runApply(() => {
+      this.applyValue(entry.target, entry.newValue);
+      this.cursor++;
+    });
+    EventSystem.emit('history:applied', { entry, direction: 'redo' });
+    return entry;
+  }
+
+  /**
+   * 跳转到指定历史位置（0 表示文件打开时的状态）
+   */
+  jumpTo(position: number): void {
+    const target = Math.max(0, Math.min(position, this.entries.length));
+    if (target === this.cursor) return;
+
+    const direction = target < this.cursor ? 'undo' : 'redo';
+    this.runApply(() => {
+      while (this.cursor > target) {
+        const entry = this.entries[this.cursor - 1];
+        this.applyValue(entry.target, entry.previousValue);
+        this.cursor--;
+      }
+      while (this.cursor < target) {
+        const entry = this.entries[this.cursor];
+        this.applyValue(entry.target, entry.newValue);
+        this.cursor++;
+      }
+    });
+
+    const entry = this.entries[direction === 'undo' ? this.cursor : this.cursor - 1];
+    EventSystem.emit('history:applied', { entry, direction });
+  }
+
+  canUndo(): boolean {
+    return this.cursor > 0;
+  }
+
+  canRedo(): boolean {
+    return this.cursor < this.entries.length;
+  }
+
+  getEntries(): readonly HistoryEntry[] {
+    return this.entries;
+  }
+
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  /**
+   * 订阅历史变更
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * 清理所有状态
+   */
+  dispose(): void {
+    if (this.unsubscribeState) {
+      this.unsubscribeState();
+      this.unsubscribeState = null;
+    }
+    this.listeners.length = 0;
+    this.entries.length = 0;
+    this.cursor = 0;
+    this.snapshot = null;
+  }
+
+  // ============ 内部方法 ============
+
+  private push(
+    type: HistoryEntryType,
+    target: string,
+    previousValue: unknown,
+    newValue: unknown,
+    label: string
+  ): void {
+    // 新的编辑会丢弃可重做的分支
+    this.entries.length = this.cursor;
+
+    const now = Date.now();
+    const last = this.cursor > 0 ? this.entries[this.cursor - 1] : null;
+    if (
+      last &&
+      type === 'update' &&
+      last.type === 'update' &&
+      last.target === target &&
+      last.label === label &&
+      now - last.timestamp < MERGE_WINDOW_MS
+    ) {
+      last.newValue = newValue;
+      last.timestamp = now;
+      this.notify();
+      return;
+    }
+
+    this.entries.push({
+      id: `h${now.toString(36)}_${this.nextId++}`,
+      timestamp: now,
+      type,
+      target,
+      previousValue,
+      newValue,
+      label,
+    });
+    this.cursor++;
+
+    if (this.entries.length > MAX_HISTORY_ENTRIES) {
+      this.entries.shift();
+      this.cursor--;
+    }
+
+    this.notify();
+  }
+
+  private runApply(apply: () => void): void {
+    this.applying = true;
+    try {
+      StateManager.batch(apply);
+    } finally {
+      this.applying = false;
+    }
+    this.notify();
+  }
+
+  private applyValue(target: string, value: unknown): void {
+    const state = StateManager.getState();
+    let nextData: DataItem[];
+
+    const index = parseItemTarget(target);
+    if (target === DATA_TARGET) {
+      this.snapshot = value as DataItem[] | null;
+      nextData = cloneValue((value as DataItem[] | null) ?? []);
+    } else {
+      if (index < 0) return;
+      nextData = state.currentData ? [...state.currentData] : [];
+      nextData[index] = cloneValue(value as DataItem);
+      if (this.snapshot) {
+        this.snapshot[index] = value as DataItem;
+      }
+    }
+
+    const update: PartialState = { currentData: nextData };
+    if (state.currentFileType === 'quest') {
+      update.quests = nextData.slice(1) as RPGQuest[];
+    } else if (state.currentFileType === 'projectile') {
+      update.projectileTemplates = nextData as unknown as ProjectileTemplate[];
+    }
+
+    const itemIndex = Math.min(state.currentItemIndex, nextData.length - 1);
+    update.currentItemIndex = Math.max(itemIndex, 0);
+    update.currentItem = nextData[update.currentItemIndex] ?? null;
+
+    StateManager.setState(update);
+
+    if (index >= 0) {
+      StateManager.markItemDirty(index);
+    } else {
+      this.markDataDirty(state.currentData ? state.currentData.length : 0, nextData.length);
+    }
+  }
+
+  /**
+   * 整表变更时标记文件为脏，新追加的项目同时标记为脏
+   */
+  private markDataDirty(previousLength: number, nextLength: number): void {
+    StateManager.markFileDirty();
+    for (let i = Math.max(previousLength, 1); i < nextLength; i++) {
+      StateManager.markItemDirty(i);
+    }
+  }
+
+  private notify(): void {
+    const listeners = this.listeners;
+    for (let i = 0; i < listeners.length; i++) {
+      try {
+        listeners[i](this.entries, this.cursor);
+      } catch (error) {
+        console.error('[HistoryManager] Listener error:', error);
+      }
+    }
+  }
+}
+
+// ============ 导出单例 ============
+
+/** 全局编辑历史管理器实例 */
+export const HistoryManager = new HistoryManagerClass();
+
+export default HistoryManager;
@@ -9,6 +9,7 @@
 import type { EditorMode, RPGItem, RPGQuest, ProjectileTemplate, EditorConfig } from '../types';
 
 const PATH_SEP_REGEX = /[\\/]/;
+const EMPTY_DIRTY_ITEMS: number[] = [];
 
 // ============ 类型定义 ============
 
@@ -26,6 +27,10 @@ export interface AppState {
   currentFilePath: string;
   currentFileType: FileType;
 
+  // 脏状态：fileDirty 表示当前文件存在未保存修改，dirtyItems 记录被修改过的项目索引
+  fileDirty: boolean;
+  dirtyItems: number[];
+
   // 项目相关
   currentItemIndex: number;
   currentItem: DataItem | null;
@@ -93,6 +98,8 @@ const DEFAULT_STATE: AppState = {
   currentFile: '',
   currentFilePath: '',
   currentFileType: 'data',
+  fileDirty: false,
+  dirtyItems: EMPTY_DIRTY_ITEMS,
   currentItemIndex: 0,
   currentItem: null,
   currentScriptKey: '',
@@ -310,6 +317,8 @@ class StateManagerClass {
       currentFile: '',
       currentFilePath: '',
       currentFileType: 'data',
+      fileDirty: false,
+      dirtyItems: EMPTY_DIRTY_ITEMS,
       currentItemIndex: 0,
       currentItem: null,
       currentScriptKey: '',
@@ -389,6 +398,8 @@ class StateManagerClass {
         currentFile: fileName,
         currentFilePath: filePath,
         currentFileType: fileType,
+        fileDirty: false,
+        dirtyItems: EMPTY_DIRTY_ITEMS,
         currentItemIndex: 0,
         currentItem: data.length > 1 ? data[1] : null,
         currentScriptKey: '',
@@ -398,6 +409,54 @@ class StateManagerClass {
     });
   }
 
+  // ============ 脏状态 ============
+
+  /**
+   * 标记某个项目存在未保存的修改（同时标记文件）
+   */
+  markItemDirty(index: number): void {
+    if (index <= 0) {
+      this.markFileDirty();
+      return;
+    }
+    const dirtyItems = this.state.dirtyItems;
+    if (dirtyItems.includes(index)) {
+      this.markFileDirty();
+      return;
+    }
+    this.setState({ fileDirty: true, dirtyItems: [...dirtyItems, index] });
+  }
+
+  /**
+   * 标记当前文件存在未保存的修改
+   */
+  markFileDirty(): void {
+    if (!this.state.fileDirty) {
+      this.setState({ fileDirty: true });
+    }
+  }
+
+  /**
+   * 当前文件已写入磁盘，清除所有脏标记
+   */
+  markSaved(): void {
+    this.setState({ fileDirty: false, dirtyItems: EMPTY_DIRTY_ITEMS });
+  }
+
+  /**
+   * 当前文件是否存在未保存的修改
+   */
+  isDirty(): boolean {
+    return this.state.fileDirty;
+  }
+
+  /**
+   * 指定项目是否存在未保存的修改
+   */
+  isItemDirty(index: number): boolean {
+    return this.state.dirtyItems.includes(index);
+  }
+
   /**
    * 清理所有状态
    */
@@ -0,0 +1,388 @@
+/**
+ * TabManager - 多文件标签页管理器
+ * 每个标签页保存自己的数据数组、选中项、UI 模式、脏状态与编辑历史
+ *
+ * 激活中的标签页数据始终存放在 StateManager 中，
+ * 切换标签页时先把当前状态写回标签页记录，再把目标标签页载入 StateManager。
+ */
+
+import { StateManager } from './StateManager';
+import type { DataItem, FileType } from './StateManager';
+import { HistoryManager } from './HistoryManager';
+import type { HistorySession } from './HistoryManager';
+import { EventSystem } from './EventSystem';
+import type { EditorMode } from '../types';
+
+// ============ 类型定义 ============
+
+/** 标签页 */
+export interface FileTab {
+  id: string;
+  filePath: string;
+  fileName: string;
+  fileType: FileType;
+  data: DataItem[];
+  itemIndex: number;
+  uiMode: EditorMode;
+  fileDirty: boolean;
+  dirtyItems: number[];
+  history: HistorySession | null;
+}
+
+/** 打开标签页参数 */
+export interface OpenTabOptions {
+  filePath: string;
+  fileType: FileType;
+  data: DataItem[];
+  uiMode: EditorMode;
+  itemIndex?: number;
+}
+
+/** 持久化的标签页信息 */
+export interface PersistedTab {
+  filePath: string;
+  uiMode: EditorMode;
+  itemIndex: number;
+}
+
+/** 持久化的标签页会话 */
+export interface PersistedTabSession {
+  tabs: PersistedTab[];
+  activePath: string;
+}
+
+/** 标签页变更监听器 */
+export type TabListener = (tabs: readonly FileTab[], activeId: string) => void;
+
+// ============ 常量 ============
+
+const TABS_STORAGE_KEY = 'rpg-editor-tabs';
+const PATH_SEP_REGEX = /[\\/]/;
+
+// ============ TabManager 类 ============
+
+/**
+ * 标签页管理器 - 单例模式
+ */
+class TabManagerClass {
+  private tabs: FileTab[] = [];
+  private activeId = '';
+  private nextId = 1;
+  private listeners: TabListener[] = [];
+  private unsubscribeState: (() => void) | null = null;
+
+  /** 是否正在切换标签页，切换期间忽略状态同步 */
+  private switching = false;
+
+  /**
+   * 初始化：同步激活标签页的数据、模式、选中项与脏状态
+   */
+  init(): void {
+    if (this.unsubscribeState) return;
+
+    this.unsubscribeState = StateManager.subscribe((state, changedKeys) => {
+      if (this.switching) return;
+      const tab = this.getActiveTab();
+      if (!tab || state.currentFilePath !== tab.filePath) return;
+
+      // 撤销、重做会替换 currentData 数组，标签页需始终引用当前数组
+      if (changedKeys.includes('currentData') && state.currentData) {
+        tab.data = state.currentData;
+      }
+      if (
+        changedKeys.includes('fileDirty') ||
+        changedKeys.includes('uiMode') ||
+        changedKeys.includes('currentItemIndex')
+      ) {
+        tab.fileDirty = state.fileDirty;
+        tab.uiMode = state.uiMode;
+        tab.itemIndex = state.currentItemIndex;
+        this.persist();
+        this.notify();
+      }
+    });
+  }
+
+  getTabs(): readonly FileTab[] {
+    return this.tabs;
+  }
+
+  getActiveTab(): FileTab | null {
+    return this.findById(this.activeId);
+  }
+
+  findById(id: string): FileTab | null {
+    for (let i = 0; i < this.tabs.length; i++) {
+      if (this.tabs[i].id === id) return this.tabs[i];
+    }
+    return null;
+  }
+
+  findByPath(filePath: string): FileTab | null {
+    for (let i = 0; i < this.tabs.length; i++) {
+      if (this.tabs[i].filePath === filePath) return this.tabs[i];
+    }
+    return null;
+  }
+
+  /**
+   * 标签页是否存在未保存的修改
+   */
+  isTabDirty(tab: FileTab): boolean {
+    return tab.id === this.activeId ? StateManager.isDirty() : tab.fileDirty;
+  }
+
+  /**
+   * 是否有任意标签页存在未保存的修改
+   */
+  isAnyDirty(): boolean {
+    for (let i = 0; i < this.tabs.length; i++) {
+      if (this.isTabDirty(this.tabs[i])) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 打开文件到标签页；同一路径已打开时替换其数据并激活
+   */
+  openTab(options: OpenTabOptions): FileTab {
+    this.captureActiveTab();
+
+    const fileName = options.filePath.split(PATH_SEP_REGEX).pop() || options.filePath;
+    let tab = this.findByPath(options.filePath);
+    if (tab) {
+      tab.fileType = options.fileType;
+      tab.data = options.data;
+      tab.uiMode = options.uiMode;
+      tab.itemIndex = options.itemIndex ?? 0;
+      tab.fileDirty = false;
+      tab.dirtyItems = [];
+      tab.history = null;
+    } else {
+      tab = {
+        id: `tab${this.nextId++}`,
+        filePath: options.filePath,
+        fileName,
+        fileType: options.fileType,
+        data: options.data,
+        itemIndex: options.itemIndex ?? 0,
+        uiMode: options.uiMode,
+        fileDirty: false,
+        dirtyItems: [],
+        history: null,
+      };
+      this.tabs.push(tab);
+    }
+
+    this.loadTab(tab);
+    return tab;
+  }
+
+  /**
+   * 用磁盘上的新数据替换标签页内容（文件被外部修改后重新加载），保留选中项与 UI 模式
+   */
+  replaceTabData(id: string, data: DataItem[]): void {
+    const tab = this.findById(id);
+    if (!tab) return;
+
+    if (id === this.activeId) {
+      this.captureActiveTab();
+    }
+    tab.data = data;
+    tab.itemIndex = Math.min(tab.itemIndex, Math.max(data.length - 1, 0));
+    tab.fileDirty = false;
+    tab.dirtyItems = [];
+    tab.history = null;
+
+    if (id === this.activeId) {
+      this.loadTab(tab);
+    } else {
+      this.persist();
+      this.notify();
+    }
+  }
+
+  /**
+   * 未激活标签页的数据被原地修改后调用：在其历史中记录整表变更，并标记为未保存
+   */
+  recordTabChange(id: string, label: string): void {
+    const tab = this.findById(id);
+    if (!tab || id === this.activeId) return;
+
+    // 没有历史会话时，激活标签页会以修改后的数据作为基线
+    if (tab.history) {
+      tab.history = HistoryManager.recordSessionData(tab.history, tab.data, label);
+    }
+    tab.fileDirty = true;
+    this.notify();
+  }
+
+  /**
+   * 激活指定标签页
+   */
+  activateTab(id: string): void {
+    if (id === this.activeId) return;
+    const tab = this.findById(id);
+    if (!tab) return;
+
+    this.captureActiveTab();
+    this.loadTab(tab);
+  }
+
+  /**
+   * 关闭标签页，关闭激活标签页时自动激活相邻标签页
+   */
+  closeTab(id: string): void {
+    const index = this.tabs.findIndex((tab) => tab.id === id);
+    if (index === -1) return;
+
+    const wasActive = id === this.activeId;
+    this.tabs.splice(index, 1);
+
+    if (!wasActive) {
+      this.persist();
+      this.notify();
+      return;
+    }
+
+    this.activeId = '';
+    const next = this.tabs[Math.min(index, this.tabs.length - 1)];
+    if (next) {
+      this.loadTab(next);
+      return;
+    }
+
+    StateManager.resetData();
+    HistoryManager.reset(null);
+    this.persist();
+    this.notify();
+    EventSystem.emit('tab:activated', null);
+  }
+
+  /**
+   * 读取上次会话保存的标签页
+   */
+  getPersistedSession(): PersistedTabSession | null {
+    try {
+      const saved = localStorage.getItem(TABS_STORAGE_KEY);
+      if (!saved) return null;
+      const session = JSON.parse(saved) as PersistedTabSession;
+      return Array.isArray(session.tabs) ? session : null;
+    } catch (error) {
+      console.warn('[TabManager] Failed to load persisted tabs:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 订阅标签页变更
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: TabListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * 清理所有状态
+   */
+  dispose(): void {
+    if (this.unsubscribeState) {
+      this.unsubscribeState();
+      this.unsubscribeState = null;
+    }
+    this.listeners.length = 0;
+    this.tabs.length = 0;
+    this.activeId = '';
+  }
+
+  // ============ 内部方法 ============
+
+  /**
+   * 将 StateManager 中的当前状态写回激活标签页
+   */
+  private captureActiveTab(): void {
+    const tab = this.getActiveTab();
+    if (!tab) return;
+
+    const state = StateManager.getState();
+    if (state.currentFilePath !== tab.filePath || !state.currentData) return;
+
+    tab.data = state.currentData;
+    tab.itemIndex = state.currentItemIndex;
+    tab.uiMode = state.uiMode;
+    tab.fileDirty = state.fileDirty;
+    tab.dirtyItems = state.dirtyItems;
+    tab.history = HistoryManager.saveSession();
+  }
+
+  /**
+   * 把标签页载入 StateManager
+   */
+  private loadTab(tab: FileTab): void {
+    this.switching = true;
+    try {
+      this.activeId = tab.id;
+      StateManager.loadData(tab.data, tab.filePath, tab.fileType);
+      StateManager.setState({
+        uiMode: tab.uiMode,
+        fileDirty: tab.fileDirty,
+        dirtyItems: tab.dirtyItems,
+      });
+      if (tab.itemIndex > 0) {
+        StateManager.selectItem(tab.itemIndex);
+      }
+      if (tab.history) {
+        HistoryManager.restoreSession(tab.history);
+      } else {
+        HistoryManager.reset(tab.data);
+      }
+    } finally {
+      this.switching = false;
+    }
+
+    this.persist();
+    this.notify();
+    EventSystem.emit('tab:activated', tab);
+  }
+
+  private persist(): void {
+    const active = this.getActiveTab();
+    const session: PersistedTabSession = {
+      tabs: this.tabs.map((tab) => ({
+        filePath: tab.filePath,
+        uiMode: tab.uiMode,
+        itemIndex: tab.itemIndex,
+      })),
+      activePath: active ? active.filePath : '',
+    };
+    try {
+      localStorage.setItem(TABS_STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.warn('[TabManager] Failed to persist tabs:', error);
+    }
+  }
+
+  private notify(): void {
+    const listeners = this.listeners;
+    for (let i = 0; i < listeners.length; i++) {
+      try {
+        listeners[i](this.tabs, this.activeId);
+      } catch (error) {
+        console.error('[TabManager] Listener error:', error);
+      }
+    }
+  }
+}
+
+// ============ 导出单例 ============
+
+/** 全局标签页管理器实例 */
+export const TabManager = new TabManagerClass();
+
+export default TabManager;
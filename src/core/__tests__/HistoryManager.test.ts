@@ -0,0 +1,101 @@
+/**
+ * HistoryManager 测试
+ * 验证编辑历史的记录、撤销、重做与跳转
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { StateManager, type DataItem } from '../StateManager';
+import { HistoryManager, buildItemTarget, parseItemTarget } from '../HistoryManager';
+
+function createData(): DataItem[] {
+  return [
+    null,
+    { id: 1, name: 'Potion', note: '' },
+    { id: 2, name: 'Ether', note: '' },
+  ];
+}
+
+function getItem(index: number): Record<string, unknown> {
+  return StateManager.getState().currentData![index] as unknown as Record<string, unknown>;
+}
+
+describe('HistoryManager', () => {
+  beforeEach(() => {
+    StateManager.loadData(createData(), 'C:/project/data/Items.json', 'data');
+    StateManager.selectItem(1);
+    HistoryManager.reset(StateManager.getState().currentData);
+  });
+
+  afterEach(() => {
+    HistoryManager.reset(null);
+  });
+
+  it('should build and parse item targets', () => {
+    expect(parseItemTarget(buildItemTarget(5))).toBe(5);
+    expect(parseItemTarget('data')).toBe(-1);
+  });
+
+  it('should record in-place item edits and undo/redo them', () => {
+    getItem(1).name = 'Hi-Potion';
+    expect(HistoryManager.recordItem(1, '改名')).toBe(true);
+
+    const undone = HistoryManager.undo();
+    expect(undone?.target).toBe('item:1');
+    expect(getItem(1).name).toBe('Potion');
+    expect(StateManager.getState().currentItem).toBe(StateManager.getState().currentData![1]);
+
+    HistoryManager.redo();
+    expect(getItem(1).name).toBe('Hi-Potion');
+  });
+
+  it('should skip records without actual changes', () => {
+    expect(HistoryManager.recordItem(1, '无变化')).toBe(false);
+    expect(HistoryManager.getEntries()).toHaveLength(0);
+  });
+
+  it('should record structural changes as whole data entries', () => {
+    const data = StateManager.getState().currentData!;
+    data.push({ id: 3, name: 'Elixir' });
+    HistoryManager.recordData('复制项目', 'create');
+
+    expect(HistoryManager.getEntries()[0].type).toBe('create');
+
+    HistoryManager.undo();
+    expect(StateManager.getState().currentData).toHaveLength(3);
+  });
+
+  it('should merge consecutive updates to the same target', () => {
+    getItem(2).name = 'E';
+    HistoryManager.recordItem(2, '修改名称');
+    getItem(2).name = 'El';
+    HistoryManager.recordItem(2, '修改名称');
+
+    expect(HistoryManager.getEntries()).toHaveLength(1);
+    HistoryManager.undo();
+    expect(getItem(2).name).toBe('Ether');
+  });
+
+  it('should jump to any history position and discard redo branch on new edits', () => {
+    getItem(1).name = 'A';
+    HistoryManager.recordItem(1, '第一步');
+    getItem(2).name = 'B';
+    HistoryManager.recordItem(2, '第二步');
+    getItem(1).note = '<tag>';
+    HistoryManager.recordItem(1, '第三步');
+
+    HistoryManager.jumpTo(0);
+    expect(getItem(1).name).toBe('Potion');
+    expect(getItem(2).name).toBe('Ether');
+    expect(HistoryManager.canUndo()).toBe(false);
+
+    HistoryManager.jumpTo(2);
+    expect(getItem(1).name).toBe('A');
+    expect(getItem(1).note).toBe('');
+    expect(getItem(2).name).toBe('B');
+
+    getItem(2).name = 'C';
+    HistoryManager.recordItem(2, '分支');
+    expect(HistoryManager.canRedo()).toBe(false);
+    expect(HistoryManager.getEntries()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * StateManager 脏状态测试
+ * 验证文件与项目级别的未保存修改标记
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StateManager } from '../StateManager';
+import { HistoryManager } from '../HistoryManager';
+
+describe('StateManager dirty tracking', () => {
+  beforeEach(() => {
+    StateManager.loadData(
+      [null, { id: 1, name: 'Slime' }, { id: 2, name: 'Bat' }],
+      'C:/project/data/Enemies.json',
+      'data'
+    );
+    StateManager.selectItem(1);
+    HistoryManager.reset(StateManager.getState().currentData);
+  });
+
+  it('should start clean after loading a file', () => {
+    expect(StateManager.isDirty()).toBe(false);
+    expect(StateManager.getState().dirtyItems).toEqual([]);
+  });
+
+  it('should mark items and the file dirty', () => {
+    StateManager.markItemDirty(2);
+    StateManager.markItemDirty(2);
+
+    expect(StateManager.isDirty()).toBe(true);
+    expect(StateManager.isItemDirty(2)).toBe(true);
+    expect(StateManager.isItemDirty(1)).toBe(false);
+    expect(StateManager.getState().dirtyItems).toEqual([2]);
+  });
+
+  it('should clear all markers when saved', () => {
+    StateManager.markItemDirty(1);
+    StateManager.markSaved();
+
+    expect(StateManager.isDirty()).toBe(false);
+    expect(StateManager.isItemDirty(1)).toBe(false);
+  });
+
+  it('should mark items dirty when history records or applies changes', () => {
+    const data = StateManager.getState().currentData!;
+    (data[2] as { name: string }).name = 'Vampire Bat';
+    HistoryManager.recordItem(2, '改名');
+    expect(StateManager.isItemDirty(2)).toBe(true);
+
+    StateManager.markSaved();
+    HistoryManager.undo();
+    expect(StateManager.isItemDirty(2)).toBe(true);
+  });
+
+  it('should mark appended items dirty on structural changes', () => {
+    StateManager.getState().currentData!.push({ id: 3, name: 'Slime_复制' });
+    HistoryManager.recordData('复制项目', 'create');
+
+    expect(StateManager.isDirty()).toBe(true);
+    expect(StateManager.isItemDirty(3)).toBe(true);
+  });
+});
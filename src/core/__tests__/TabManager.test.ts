@@ -0,0 +1,145 @@
+/**
+ * TabManager 测试
+ * 验证多文件标签页的打开、切换、关闭与状态保持
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { StateManager, type DataItem } from '../StateManager';
+import { HistoryManager } from '../HistoryManager';
+import { TabManager } from '../TabManager';
+
+const ITEMS_PATH = 'C:/project/data/Items.json';
+const ENEMIES_PATH = 'C:/project/data/Enemies.json';
+
+function createItems(): DataItem[] {
+  return [null, { id: 1, name: 'Potion' }, { id: 2, name: 'Ether' }];
+}
+
+function createEnemies(): DataItem[] {
+  return [null, { id: 1, name: 'Slime' }];
+}
+
+function getItem(index: number): Record<string, unknown> {
+  return StateManager.getState().currentData![index] as unknown as Record<string, unknown>;
+}
+
+describe('TabManager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    HistoryManager.init();
+    TabManager.init();
+  });
+
+  afterEach(() => {
+    TabManager.dispose();
+    HistoryManager.dispose();
+    StateManager.resetData();
+  });
+
+  it('should open files in separate tabs and reuse the tab of an open path', () => {
+    TabManager.openTab({ filePath: ITEMS_PATH, fileType: 'data', data: createItems(), uiMode: 'property', itemIndex: 1 });
+    TabManager.openTab({ filePath: ENEMIES_PATH, fileType: 'data', data: createEnemies(), uiMode: 'note', itemIndex: 1 });
+    TabManager.openTab({ filePath: ITEMS_PATH, fileType: 'data', data: createItems(), uiMode: 'property', itemIndex: 2 });
+
+    expect(TabManager.getTabs()).toHaveLength(2);
+    expect(TabManager.getActiveTab()?.fileName).toBe('Items.json');
+    expect(StateManager.getState().currentItemIndex).toBe(2);
+  });
+
+  it('should keep data, selection, mode, dirty state and history per tab', () => {
+    const items = TabManager.openTab({ filePath: ITEMS_PATH, fileType: 'data', data: createItems(), uiMode: 'property', itemIndex: 1 });
+    getItem(1).name = 'Hi-Potion';
+    HistoryManager.recordItem(1, '改名');
+    StateManager.selectItem(2);
+
+    TabManager.openTab({ filePath: ENEMIES_PATH, fileType: 'data', data: createEnemies(), uiMode: 'note', itemIndex: 1 });
+    expect(StateManager.isDirty()).toBe(false);
+    expect(StateManager.getState().uiMode).toBe('note');
+    expect(HistoryManager.canUndo()).toBe(false);
+    expect(TabManager.isAnyDirty()).toBe(true);
+
+    TabManager.activateTab(items.id);
+    const state = StateManager.getState();
+    expect(state.currentFilePath).toBe(ITEMS_PATH);
+    expect(state.currentItemIndex).toBe(2);
+    expect(state.uiMode).toBe('property');
+    expect(StateManager.isItemDirty(1)).toBe(true);
+
+    HistoryManager.undo();
+    expect(getItem(1).name).toBe('Potion');
+  });
+
+  it('should record in-place changes to an inactive tab in its own history', () => {
+    const items = TabManager.openTab({ filePath: ITEMS_PATH, fileType: 'data', data: createItems(), uiMode: 'property', itemIndex: 1 });
+    getItem(1).name = 'Hi-Potion';
+    HistoryManager.recordItem(1, '改名');
+    TabManager.openTab({ filePath: ENEMIES_PATH, fileType: 'data', data: createEnemies(), uiMode: 'note', itemIndex: 1 });
+
+    (items.data[2] as unknown as Record<string, unknown>).name = 'Mana Water';
+    TabManager.recordTabChange(items.id, '批量修改');
+    expect(TabManager.isAnyDirty()).toBe(true);
+
+    TabManager.activateTab(items.id);
+    expect(getItem(2).name).toBe('Mana Water');
+    HistoryManager.undo();
+    expect(getItem(2).name).toBe('Ether');
+    expect(getItem(1).name).toBe('Hi-Potion');
+    HistoryManager.undo();
+    expect(getItem(1).name).toBe('Potion');
+  });
+
+  it('should keep the active tab data in sync after undo so bulk edits are recorded', () => {
+    const items = TabManager.openTab({ filePath: ITEMS_PATH, fileType: 'data', data: createItems(), uiMode: 'property', itemIndex: 1 });
+    getItem(1).name = 'Hi-Potion';
+    HistoryManager.recordItem(1, '改名');
+    HistoryManager.undo();
+    expect(items.data).toBe(StateManager.getState().currentData);
+
+    (items.data[2] as unknown as Record<string, unknown>).name = 'Mana Water';
+    expect(HistoryManager.recordData('批量修改')).toBe(true);
+    expect(getItem(2).name).toBe('Mana Water');
+    HistoryManager.undo();
+    expect(getItem(2).name).toBe('Ether');
+  });
+
+  it('should activate a neighbour when the active tab is closed', () => {
+    const items = TabManager.openTab({ filePath: ITEMS_PATH, fileType: 'data', data: createItems(), uiMode: 'property' });
+    const enemies = TabManager.openTab({ filePath: ENEMIES_PATH, fileType: 'data', data: createEnemies(), uiMode: 'property' });
+
+    TabManager.closeTab(enemies.id);
+    expect(TabManager.getActiveTab()).toBe(items);
+    expect(StateManager.getState().currentFilePath).toBe(ITEMS_PATH);
+
+    TabManager.closeTab(items.id);
+    expect(TabManager.getActiveTab()).toBeNull();
+    expect(StateManager.getState().currentData).toBeNull();
+  });
+
+  it('should replace tab data after an external change and clear its dirty state', () => {
+    const items = TabManager.openTab({ filePath: ITEMS_PATH, fileType: 'data', data: createItems(), uiMode: 'property', itemIndex: 2 });
+    getItem(2).name = 'Turbo Ether';
+    HistoryManager.recordItem(2, '改名');
+    const enemies = TabManager.openTab({ filePath: ENEMIES_PATH, fileType: 'data', data: createEnemies(), uiMode: 'property' });
+
+    TabManager.replaceTabData(items.id, [null, { id: 1, name: 'Potion' }]);
+    expect(TabManager.getActiveTab()).toBe(enemies);
+    expect(TabManager.isTabDirty(items)).toBe(false);
+    expect(items.itemIndex).toBe(1);
+
+    TabManager.replaceTabData(enemies.id, [null, { id: 1, name: 'Bat' }]);
+    expect(getItem(1).name).toBe('Bat');
+    expect(HistoryManager.canUndo()).toBe(false);
+  });
+
+  it('should persist open tabs for the next session', () => {
+    TabManager.openTab({ filePath: ITEMS_PATH, fileType: 'data', data: createItems(), uiMode: 'property', itemIndex: 2 });
+    TabManager.openTab({ filePath: ENEMIES_PATH, fileType: 'data', data: createEnemies(), uiMode: 'note', itemIndex: 1 });
+
+    const session = TabManager.getPersistedSession();
+    expect(session?.activePath).toBe(ENEMIES_PATH);
+    expect(session?.tabs).toEqual([
+      { filePath: ITEMS_PATH, uiMode: 'property', itemIndex: 2 },
+      { filePath: ENEMIES_PATH, uiMode: 'note', itemIndex: 1 },
+    ]);
+  });
+});
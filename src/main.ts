@@ -13,31 +13,62 @@ import { DOM } from './core/DOMManager';
 import { StateManager, FileType } from './core/StateManager';
 import { EventSystem } from './core/EventSystem';
 import { PanelManager } from './core/PanelManager';
+import { HistoryManager } from './core/HistoryManager';
+import { TabManager } from './core/TabManager';
+import type { FileTab } from './core/TabManager';
+import type { DataItem } from './core/StateManager';
 import { themeSystem } from './core/ThemeSystem';
 import { themeManager } from './theme/ThemeManager';
 import { visualEffects } from './theme/effects/VisualEffects';
 import { SidebarAnimator } from './core/SidebarAnimator';
 import { BaseRunner, repeat } from './utils/runner';
 import { initDynamicBackground } from './core/DynamicBackground';
-import { initItemList, displayItemList, selectItem } from './panels/ItemList';
+import { initItemList, displayItemList, selectItem, getSelectedItemIndices, setItemSelection, clearItemSelection } from './panels/ItemList';
+import { initFileTabBar } from './panels/FileTabBar';
+import { initDataExplorer, setExplorerProject } from './panels/DataExplorer';
 import { performanceIntegration } from './services/PerformanceIntegration';
 import { initScriptPanel, displayScriptList, selectScript } from './panels/ScriptPanel';
 import { initPropertyPanel, renderPropertyPanel } from './panels/PropertyPanel';
-import { initNotePanel, renderNotePanel } from './panels/NotePanel';
-import { initMetaDataPanel, renderMetaDataPanel } from './panels/MetaDataPanel';
-import { initQuestPanel, renderQuestPanel } from './panels/QuestPanel';
-import { initProjectilePanel, renderProjectilePanel } from './panels/ProjectilePanel';
+import { initNotePanel, renderNotePanel, getNoteContent, getDescriptionContent } from './panels/NotePanel';
+import { getSelectedMetaKey, initMetaDataPanel, renderMetaDataPanel } from './panels/MetaDataPanel';
+import { initQuestPanel, renderQuestPanel, saveQuestFile, reloadQuestDataFile } from './panels/QuestPanel';
+import { initProjectilePanel, renderProjectilePanel, saveProjectileFile, reloadProjectileDataFile } from './panels/ProjectilePanel';
 import { EditorManager } from './core/EditorManager';
 import { settingsDialog } from './components/ui/SettingsDialog';
 import './components/update/UpdateProgressDialog';
 import { applyWorkspaceSettings } from './services/MonacoLoader';
 import { showInputDialog } from './services/InputDialog';
+import { initEditHistoryDialog, toggleEditHistoryDialog } from './services/EditHistoryDialog';
+import { showUnsavedChangesDialog } from './services/UnsavedChangesDialog';
+import { initBackupRestoreDialog, showBackupRestoreDialog } from './services/BackupRestoreDialog';
+import { showExternalChangeDialog } from './services/ExternalChangeDialog';
+import { showBulkEditDialog, applyBulkEdit } from './services/BulkEditDialog';
+import { showBalanceTableDialog } from './services/BalanceTableDialog';
+import { showSpreadsheetDialog } from './services/SpreadsheetDialog';
+import { applySpreadsheetImport, exportSpreadsheet } from './services/SpreadsheetService';
+import { CustomAttributeRegistry, getRegistryDirectory, renameCustomParams, type CustomParamRenameResult } from './services/CustomAttributeRegistry';
+import { showCustomAttributeRegistryDialog } from './services/CustomAttributeRegistryDialog';
+import { applyNoteTagChanges, type NoteTagSourceFile } from './services/NoteTagQueryService';
+import { showNoteTagQueryDialog } from './services/NoteTagQueryDialog';
+import { showRenumberPreviewDialog } from './services/RenumberPreviewDialog';
+import { applyReferenceChanges, buildDeleteRemap, buildMoveRemap, detectDataKind, planRenumber } from './services/IdRenumberService';
+import type { DataKind, IdRemap, ReferenceSource } from './services/IdRenumberService';
+import { FileWatchService } from './services/FileWatchService';
+import { DataLoaderService } from './services/DataLoaderService';
+import { FileFormatRegistry } from './services/serialization/FileFormatRegistry';
+import type { JSONLayout } from './services/serialization/types';
 import { getScriptCache, setScriptCache, removeScriptCache } from './services/ScriptCacheManager';
 import { resolveScriptFilePath, formatStoredScriptPath, normalizeItemScriptPaths } from './services/ScriptPathCompat';
 import { performanceMonitor } from './services/PerformanceMonitor';
-import { SCRIPT_TIMESTAMP_REGEXP, extractScriptCode, buildTimestampLine } from './services/ScriptContentUtils';
+import { SCRIPT_TIMESTAMP_REGEXP, extractScriptCode, buildTimestampLine, formatTimestamp, parseTimestampLine } from './services/ScriptContentUtils';
+import { ScriptHistoryService, getScriptHistoryDirectory, type ScriptHistoryKey } from './services/ScriptHistoryService';
+import { showScriptHistoryDialog } from './services/ScriptHistoryDialog';
+import { ScriptAuditService, ORPHAN_ARCHIVE_DIR_NAME, filterUnreferencedOrphans, type OrphanScript, type ScriptAuditReport } from './services/ScriptAuditService';
+import { showScriptAuditDialog } from './services/ScriptAuditDialog';
 import { delayMs } from './utils/delay';
+import { mergeDataArrays } from './utils/dataMerge';
 import type { EditorMode } from './types';
+import type { ExternalFileChange, ProjectInfo } from './types/ipc';
 import './index.css';
 
 const BACKSLASH_REGEXP = /\\/g;
@@ -62,6 +93,9 @@ let electronInitComplete = false;
 let electronInitLoadBound = false;
 let sidebarAnimator: SidebarAnimator;
 const NOOP_UNDO = (): null => null;
+const APP_TITLE = document.title;
+/** 最近一次通知主进程的未保存状态 */
+let documentDirty = false;
 const TIMESTAMP_EDITS: Array<{ range: import('monaco-editor').Range; text: string }> = [];
 
 function handleScriptDeleteEvent(...args: unknown[]): void {
@@ -149,8 +183,9 @@ async function initializeApp(): Promise<void> {
     logger.info('PanelManager initialized', undefined, 'Main');
 
 
-    // 10. 初始化项目列表
+    // 10. 初始化项目列表与数据浏览器
     initItemList();
+    initDataExplorer();
     logger.info('ItemList initialized', undefined, 'Main');
 
     // 11. 初始化各个面板
@@ -175,6 +210,14 @@ async function initializeApp(): Promise<void> {
     setupHistoryFilesDialog();
     setupScriptHandlers();
     setupItemActions();
+    setupNoteHandlers();
+    setupHistoryHandlers();
+    setupTabHandlers();
+    setupProjectHandlers();
+    setupBackupHandlers();
+    setupFileWatchHandlers();
+    setupFileFormatSelect();
+    setupDirtyStateHandlers();
 
     // 13. 更新状态栏
     updateStatus('就绪');
@@ -450,6 +493,8 @@ async function onElectronReady(): Promise<void> {
   await loadConfig();
   await initializeCodeEditor();
   updateEditorAccess();
+  await restoreProject();
+  await restoreOpenTabs();
 }
 
 function setupWindowResizeHandler(): void {
@@ -494,12 +539,19 @@ function setupIPCListeners(): void {
 
   // 监听菜单事件
   if (window.ipcOn) {
-    window.ipcOn('file-loaded', handleFileLoaded);
+    window.ipcOn('file-loaded', handleFileLoadedRequest);
+    window.ipcOn('project-opened', handleProjectOpened);
     // Path setting events handled by SettingsDialog
     window.ipcOn('switch-mode', handleSwitchMode);
     window.ipcOn('toggle-sidebar', handleToggleSidebar);
     window.ipcOn('toggle-theme-settings', handleToggleThemeSettings);
     window.ipcOn('show-history-files', handleShowHistoryFiles);
+    window.ipcOn('show-edit-history', toggleEditHistoryDialog);
+    window.ipcOn('history-undo', handleUndoRequest);
+    window.ipcOn('history-redo', handleRedoRequest);
+    window.ipcOn('app-close-requested', handleCloseRequest);
+    window.ipcOn('show-backup-restore', handleShowBackupRestore);
+    window.ipcOn('file-changed-externally', handleExternalFileChange);
 
     logger.info('IPC listeners registered', undefined, 'Main');
   }
@@ -510,9 +562,23 @@ function setupIPCListeners(): void {
 // ============ IPC 处理函数 ============
 
 /**
- * 处理文件加载完成
+ * 处理菜单打开的文件，重新打开已修改的标签页前先确认未保存的修改
  */
-function handleFileLoaded(data: { fileName: string; filePath: string; content: string }): void {
+async function handleFileLoadedRequest(data: { fileName: string; filePath: string; content: string }): Promise<void> {
+  if (!(await confirmReopenTab(data.filePath, '重新打开文件'))) {
+    updateStatus('已取消打开文件');
+    return;
+  }
+  handleFileLoaded(data);
+}
+
+/**
+ * 处理文件加载完成，文件在新标签页中打开（已打开时替换该标签页）
+ */
+function handleFileLoaded(
+  data: { fileName: string; filePath: string; content: string },
+  restore?: { uiMode: EditorMode; itemIndex: number }
+): void {
   logger.info('File loaded', { fileName: data.fileName, filePath: data.filePath }, 'Main');
 
   try {
@@ -524,6 +590,9 @@ function handleFileLoaded(data: { fileName: string; filePath: string; content: s
       return;
     }
 
+    // 记录原始 JSON 布局，保存时按原布局写回
+    FileFormatRegistry.register(data.filePath, data.content);
+
     // 检测文件类型
     const fileType = detectFileType(data.fileName, parsedData);
     normalizeScriptPaths(parsedData);
@@ -546,20 +615,14 @@ function handleFileLoaded(data: { fileName: string; filePath: string; content: s
       }
     }
 
-    // 加载数据到状态管理器
-    StateManager.loadData(parsedData, data.filePath, fileType);
-    StateManager.setMode(uiMode);
-
-    // 显示项目列表
-    displayItemList();
-
-    // 切换到对应面板
-    PanelManager.showPanel(uiMode);
-
-    // 自动选择第一个项目
-    if (parsedData.length > 1) {
-      selectItem(1);
-    }
+    // 在标签页中打开，面板与项目列表由 tab:activated 事件刷新；默认自动选择第一个项目
+    TabManager.openTab({
+      filePath: data.filePath,
+      fileType,
+      data: parsedData,
+      uiMode: restore ? restore.uiMode : uiMode,
+      itemIndex: Math.min(restore ? restore.itemIndex : 1, parsedData.length - 1),
+    });
 
     // 更新状态栏
     updateStatus(`已加载 ${data.fileName}，共 ${parsedData.length - 1} 个项目`);
@@ -681,7 +744,7 @@ async function listDtsFilesForWorkspace(workspaceRoot: string): Promise<string[]
 /**
  * 处理切换模式
  */
-function handleSwitchMode(mode: 'script' | 'property' | 'note' | 'projectile' | 'quest'): void {
+async function handleSwitchMode(mode: 'script' | 'property' | 'note' | 'projectile' | 'quest'): Promise<void> {
   logger.info('Switching mode', { mode }, 'Main');
 
   // 检查是否有文件加载
@@ -691,6 +754,11 @@ function handleSwitchMode(mode: 'script' | 'property' | 'note' | 'projectile' |
     return;
   }
 
+  if (state.uiMode !== mode && !(await confirmUnsavedChanges('切换模式', true))) {
+    updateStatus('已取消切换模式');
+    return;
+  }
+
   // 更新状态
   StateManager.setMode(mode);
 
@@ -787,25 +855,37 @@ async function handleHistoryFileClick(filePath: string): Promise<void> {
   // 隐藏对话框
   hideHistoryFilesDialog();
 
-  // 检查文件是否存在
-  if (typeof window.electronAPI !== 'undefined') {
-    try {
-      const exists = await window.electronAPI.fileExists(filePath);
-      if (!exists) {
-        showError('文件不存在: ' + filePath);
-        return;
-      }
+  if (!(await confirmReopenTab(filePath, '重新打开文件'))) {
+    updateStatus('已取消打开文件');
+    return;
+  }
 
-      // 读取文件
-      const content = await window.electronAPI.readFile(filePath);
-      const fileName = filePath.split(PATH_SEP_REGEX).pop() || filePath;
+  await openFileFromPath(filePath);
+}
 
-      // 触发文件加载
-      handleFileLoaded({ fileName, filePath, content });
-    } catch (error) {
-      logger.error('Failed to open history file', { filePath, error }, 'Main');
-      showError('打开文件失败: ' + (error as Error).message);
+/**
+ * 从磁盘读取并打开数据文件
+ */
+async function openFileFromPath(filePath: string): Promise<void> {
+  if (typeof window.electronAPI === 'undefined') return;
+
+  try {
+    // 检查文件是否存在
+    const exists = await window.electronAPI.fileExists(filePath);
+    if (!exists) {
+      showError('文件不存在: ' + filePath);
+      return;
     }
+
+    // 读取文件
+    const content = await window.electronAPI.readFile(filePath);
+    const fileName = filePath.split(PATH_SEP_REGEX).pop() || filePath;
+
+    // 触发文件加载
+    handleFileLoaded({ fileName, filePath, content });
+  } catch (error) {
+    logger.error('Failed to open file', { filePath, error }, 'Main');
+    showError('打开文件失败: ' + (error as Error).message);
   }
 }
 
@@ -855,6 +935,12 @@ function setupScriptHandlers(): void {
   if (DOM.clearCodeBtn) {
     DOM.clearCodeBtn.addEventListener('click', handleClearScriptsRequest);
   }
+  if (DOM.scriptAuditBtn) {
+    DOM.scriptAuditBtn.addEventListener('click', handleScriptAudit);
+  }
+  if (DOM.scriptHistoryBtn) {
+    DOM.scriptHistoryBtn.addEventListener('click', handleShowScriptHistory);
+  }
 }
 
 /**
@@ -873,6 +959,33 @@ function setupItemActions(): void {
   if (DOM.itemCopyBtn) {
     DOM.itemCopyBtn.onclick = handleCopyItem;
   }
+  if (DOM.itemExportBtn) {
+    DOM.itemExportBtn.onclick = handleExportItems;
+  }
+  if (DOM.itemBulkEditBtn) {
+    DOM.itemBulkEditBtn.onclick = handleBulkEditItems;
+  }
+  if (DOM.itemBalanceBtn) {
+    DOM.itemBalanceBtn.onclick = handleOpenBalanceTable;
+  }
+  if (DOM.itemSpreadsheetBtn) {
+    DOM.itemSpreadsheetBtn.onclick = handleOpenSpreadsheet;
+  }
+  if (DOM.customRegistryBtn) {
+    DOM.customRegistryBtn.onclick = handleEditCustomRegistry;
+  }
+  if (DOM.noteTagQueryBtn) {
+    DOM.noteTagQueryBtn.onclick = handleNoteTagQuery;
+  }
+  EventSystem.on('item-list:selection-changed', handleItemSelectionChanged);
+  EventSystem.on('item-list:move-request', handleMoveItemsRequest);
+}
+
+function handleItemSelectionChanged(...args: unknown[]): void {
+  const indices = args[0] as number[];
+  if (indices.length > 1) {
+    updateStatus(`已选择 ${indices.length} 个项目`);
+  }
 }
 
 async function handleCreateItem(): Promise<void> {
@@ -889,31 +1002,44 @@ async function handleCreateItem(): Promise<void> {
 
 async function handleDeleteItem(): Promise<void> {
   const state = StateManager.getState();
-  if (!state.currentItem || !state.currentItemIndex) {
+  const indices = getSelectedItemIndices();
+  if (indices.length === 0 || !state.currentFilePath) {
     showError('请先选择一个项目');
     return;
   }
 
-  if (!state.currentData || state.currentItemIndex >= state.currentData.length) {
+  if (!state.currentData || indices[indices.length - 1] >= state.currentData.length) {
     showError('无效的项目索引');
     return;
   }
 
-  const confirmResult = window.confirm(`确认删除当前项目吗？此操作不可恢复！`);
-  if (!confirmResult) {
+  const dataLength = state.currentData.length;
+  const message = indices.length > 1
+    ? `确认删除选中的 ${indices.length} 个项目吗？此操作不可恢复！`
+    : `确认删除当前项目吗？此操作不可恢复！`;
+  const result = await runRenumber('删除项目', message, DELETE_MODES, (mode) =>
+    buildDeleteRemap(dataLength, indices, mode === 'compact')
+  );
+  if (!result) {
     return;
   }
 
   showLoading(true, '删除项目中...');
 
   try {
-    state.currentData.splice(state.currentItemIndex, 1);
-    const jsonContent = JSON.stringify(state.currentData, null, 2);
-    await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
-
+    const filePath = StateManager.getState().currentFilePath;
+    const data = StateManager.getState().currentData;
+    if (!data) return;
+    const label = indices.length > 1 ? `删除 ${indices.length} 个项目` : `删除项目 #${indices[0]}`;
+    HistoryManager.recordData(label, 'delete');
+    const jsonContent = FileFormatRegistry.stringify(filePath, data);
+    await window.electronAPI.writeFile(filePath, jsonContent);
+    StateManager.markSaved();
+
+    clearItemSelection();
     StateManager.selectItem(0);
     displayItemList();
-    updateStatus('项目已删除');
+    updateStatus((indices.length > 1 ? `已删除 ${indices.length} 个项目` : '项目已删除') + result.summary);
   } catch (error) {
     showError('删除项目失败: ' + (error as Error).message);
   } finally {
@@ -937,8 +1063,9 @@ async function handleSaveItem(): Promise<void> {
   showLoading(true, '保存项目中...');
 
   try {
-    const jsonContent = JSON.stringify(state.currentData, null, 2);
+    const jsonContent = FileFormatRegistry.stringify(state.currentFilePath, state.currentData);
     await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
+    StateManager.markSaved();
     updateStatus('项目已保存');
   } catch (error) {
     showError('保存项目失败: ' + (error as Error).message);
@@ -949,158 +1076,708 @@ async function handleSaveItem(): Promise<void> {
 
 function handleCopyItem(): void {
   const state = StateManager.getState();
-  if (!state.currentItem || !state.currentData) {
+  const indices = getSelectedItemIndices();
+  if (indices.length === 0 || !state.currentData) {
     showError('请先选择一个项目');
     return;
   }
 
-  const newIndex = state.currentData.length;
-  const clonedItem = JSON.parse(JSON.stringify(state.currentItem));
-  (clonedItem as Record<string, unknown>).id = newIndex;
-  (clonedItem as Record<string, unknown>).name = `${(clonedItem as Record<string, unknown>).name || '未命名'}_复制`;
-  state.currentData.push(clonedItem as never);
+  const newIndices: number[] = [];
+  for (let i = 0; i < indices.length; i++) {
+    const source = state.currentData[indices[i]];
+    if (!source) continue;
+    const newIndex = state.currentData.length;
+    const clonedItem = JSON.parse(JSON.stringify(source)) as Record<string, unknown>;
+    clonedItem.id = newIndex;
+    clonedItem.name = `${clonedItem.name || '未命名'}_复制`;
+    state.currentData.push(clonedItem as never);
+    newIndices.push(newIndex);
+  }
+  if (newIndices.length === 0) return;
+
+  const label = newIndices.length > 1 ? `复制 ${newIndices.length} 个项目` : `复制项目到 #${newIndices[0]}`;
+  HistoryManager.recordData(label, 'create');
 
-  StateManager.selectItem(newIndex);
   displayItemList();
-  updateStatus(`已复制项目到 #${newIndex}`);
+  setItemSelection(newIndices);
+  updateStatus(newIndices.length > 1 ? `已复制 ${newIndices.length} 个项目` : `已复制项目到 #${newIndices[0]}`);
 }
 
-async function handleCreateScriptRequest(): Promise<void> {
+/**
+ * 将选中的项目导出为 JSON 文件
+ */
+async function handleExportItems(): Promise<void> {
   const state = StateManager.getState();
-  if (!state.currentFilePath || !state.currentItem) {
-    showError('请先选择文件和项目');
+  const indices = getSelectedItemIndices();
+  if (indices.length === 0 || !state.currentData || !state.currentFilePath) {
+    showError('请先选择一个项目');
     return;
   }
-  if (typeof window.electronAPI === 'undefined') {
-    showError('electronAPI 不可用，无法创建脚本');
+
+  const items: unknown[] = [];
+  for (let i = 0; i < indices.length; i++) {
+    const item = state.currentData[indices[i]];
+    if (item) items.push(item);
+  }
+
+  const baseName = getFileName(state.currentFilePath).replace(/\.[^.]+$/, '');
+  const result = await window.electronAPI.showSaveDialog({
+    title: '导出选中项目',
+    defaultPath: `${baseName}_export.json`,
+    filters: [{ name: 'JSON', extensions: ['json'] }],
+  });
+  if (result.canceled || !result.filePath) return;
+
+  try {
+    await window.electronAPI.writeFile(result.filePath, JSON.stringify(items, null, 2));
+    updateStatus(`已导出 ${items.length} 个项目`);
+  } catch (error) {
+    showError('导出项目失败: ' + (error as Error).message);
+  }
+}
+
+/**
+ * 批量编辑选中的项目，整体作为一次可撤销操作
+ */
+async function handleBulkEditItems(): Promise<void> {
+  const state = StateManager.getState();
+  const indices = getSelectedItemIndices();
+  if (indices.length === 0 || !state.currentData) {
+    showError('请先选择一个项目');
     return;
   }
 
-  StateManager.resetScript();
+  const edit = await showBulkEditDialog(indices.length);
+  if (!edit) return;
 
-  const scriptKey = await showInputDialog(
-    '新建脚本',
-    '请输入脚本的键名 (例如: onLoad, onUpdate):'
-  );
-  if (!scriptKey) {
-    updateStatus('新建脚本已取消');
+  const data = StateManager.getState().currentData;
+  if (!data) return;
+  const changed = applyBulkEdit(data, indices, edit);
+  if (changed.length === 0) {
+    updateStatus('选中的项目没有发生变化');
     return;
   }
 
-  const currentItem = state.currentItem as unknown as Record<string, unknown>;
-  const scripts = (currentItem.scripts as Record<string, string>) || EMPTY_SCRIPTS;
-  if (scripts[scriptKey]) {
-    showError(`脚本键名 "${scriptKey}" 已存在，请使用不同的键名`);
-    updateStatus(`脚本键名 "${scriptKey}" 重复，新建失败`);
+  HistoryManager.recordData(`批量编辑 ${changed.length} 个项目`);
+  handleHistoryApplied();
+  updateStatus(`已批量编辑 ${changed.length} 个项目`);
+}
+
+async function handleOpenBalanceTable(): Promise<void> {
+  const state = StateManager.getState();
+  if (!state.currentData || !state.currentFilePath || state.currentFileType !== 'data') {
+    showError('请先打开一个数据文件');
     return;
   }
 
-  showLoading(true, '创建脚本中...');
+  const fileName = state.currentFilePath.split(/[\\/]/).pop() ?? '';
+  const edits = await showBalanceTableDialog({
+    title: `平衡对比 - ${fileName}`,
+    data: state.currentData,
+    onCellEdited: (index, label) => HistoryManager.recordItem(index, label),
+  });
+  if (edits > 0) {
+    handleHistoryApplied();
+    updateStatus(`对比表中修改了 ${edits} 处`);
+  }
+}
 
-  try {
-    const itemId = (currentItem.id as number) || state.currentItemIndex;
-    const scriptDir = getScriptDirectory();
-    if (!scriptDir) {
-      showError('请先设置脚本保存目录');
-      showLoading(false);
-      return;
+/**
+ * 以 CSV / TSV 导出当前文件的项目，或导入表格并按差异合并，导入整体作为一次可撤销操作
+ */
+async function handleOpenSpreadsheet(): Promise<void> {
+  const state = StateManager.getState();
+  if (!state.currentData || !state.currentFilePath || state.currentFileType !== 'data') {
+    showError('请先打开一个数据文件');
+    return;
+  }
+
+  const data = state.currentData;
+  const fileName = getFileName(state.currentFilePath);
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  const result = await showSpreadsheetDialog({
+    title: `表格 - ${fileName}`,
+    data,
+    mappingKey: state.currentFilePath,
+    pickFile: async () => {
+      const picked = await window.electronAPI.showOpenDialog({
+        title: '选择要导入的表格',
+        filters: [{ name: '表格', extensions: ['csv', 'tsv', 'txt'] }],
+        properties: ['openFile'],
+      });
+      const filePath = picked.filePaths[0];
+      if (picked.canceled || !filePath) return null;
+      try {
+        return { fileName: getFileName(filePath), text: await window.electronAPI.readFile(filePath) };
+      } catch (error) {
+        showError('读取表格失败: ' + (error as Error).message);
+        return null;
+      }
+    },
+  });
+  if (!result) return;
+
+  if (result.mode === 'export') {
+    const saved = await window.electronAPI.showSaveDialog({
+      title: '导出表格',
+      defaultPath: `${baseName}.${result.format}`,
+      filters: [{ name: result.format.toUpperCase(), extensions: [result.format] }],
+    });
+    if (saved.canceled || !saved.filePath) return;
+    try {
+      await window.electronAPI.writeFile(saved.filePath, exportSpreadsheet(data, result.columns, result.format));
+      updateStatus(`已导出表格: ${getFileName(saved.filePath)}`);
+    } catch (error) {
+      showError('导出表格失败: ' + (error as Error).message);
     }
+    return;
+  }
 
-    const jsFileName = `${itemId}_${scriptKey}_${Date.now()}.js`;
-    const filePath = `${scriptDir}/${jsFileName}`;
-    const timestampLine = buildTimestampLine(new Date());
+  // 对话框打开期间可能切换了文件，确认数据仍是当前文件
+  if (StateManager.getState().currentData !== data) {
+    showError('当前文件已切换，导入已取消');
+    return;
+  }
+  const changed = applySpreadsheetImport(data, result.rows);
+  if (changed.length === 0) {
+    updateStatus('表格与现有数据一致，没有发生变化');
+    return;
+  }
+  HistoryManager.recordData(`表格导入 ${changed.length} 个项目`);
+  handleHistoryApplied();
+  updateStatus(`已从表格导入 ${changed.length} 个项目`);
+}
 
-    await window.electronAPI.writeFile(filePath, timestampLine);
+/** 重命名冲突提示中列出的项目数 */
+const MAX_RENAME_CONFLICTS_SHOWN = 5;
 
-    if (!currentItem.scripts) {
-      currentItem.scripts = {};
+/**
+ * 编辑当前数据目录的自定义属性注册表，保存后按改名更新所有条目
+ */
+async function handleEditCustomRegistry(): Promise<void> {
+  const state = StateManager.getState();
+  if (!state.currentFilePath || state.currentFileType !== 'data') {
+    showError('请先打开一个数据文件');
+    return;
+  }
+
+  await CustomAttributeRegistry.ensureLoaded(state.currentFilePath);
+  const result = await showCustomAttributeRegistryDialog(
+    CustomAttributeRegistry.getDefinitions(),
+    CustomAttributeRegistry.getFilePath()
+  );
+  if (!result) return;
+
+  try {
+    await CustomAttributeRegistry.save(result.definitions);
+  } catch (error) {
+    showError('保存自定义属性注册表失败: ' + (error as Error).message);
+    return;
+  }
+
+  let summary = '';
+  if (result.renames.size > 0) {
+    const { items, files, conflicts } = await applyCustomAttributeRenames(result.renames);
+    summary = `，已在 ${files} 个文件中重命名 ${items} 个项目的属性`;
+    if (conflicts.length > 0) {
+      const shown = conflicts.slice(0, MAX_RENAME_CONFLICTS_SHOWN).join('、');
+      const more = conflicts.length > MAX_RENAME_CONFLICTS_SHOWN ? ' 等' : '';
+      showError(`${conflicts.length} 个项目已存在新的属性名，未重命名，请手动合并：${shown}${more}`);
     }
-    const storedPath = formatStoredScriptPath(filePath);
-    (currentItem.scripts as Record<string, string>)[scriptKey] = storedPath;
-    normalizeItemScriptPaths(currentItem);
-    setScriptCache(filePath, timestampLine);
+  }
+  updateStatus(`自定义属性注册表已保存${summary}`);
+}
 
-    if (!state.currentData) {
-      showError('未选择文件或项目');
-      showLoading(false);
-      return;
+/**
+ * 在注册表所在目录的所有数据文件中重命名自定义属性。
+ * 已打开的文件在内存中修改并记录到各自的历史中（标记为未保存），其余文件直接写回磁盘
+ * @returns conflicts 为已存在目标名称、没有重命名的项目说明
+ */
+async function applyCustomAttributeRenames(
+  renames: ReadonlyMap<string, string>
+): Promise<{ items: number; files: number; conflicts: string[] }> {
+  const directory = CustomAttributeRegistry.getDirectory();
+  const state = StateManager.getState();
+  let items = 0;
+  let files = 0;
+  const conflicts: string[] = [];
+  const addConflicts = (filePath: string, result: CustomParamRenameResult): void => {
+    for (const conflict of result.conflicts) {
+      conflicts.push(`${getFileName(filePath)} ${conflict.itemName}（${conflict.from} → ${conflict.to}）`);
     }
-    state.currentData[state.currentItemIndex] = currentItem as never;
-    const jsonContent = JSON.stringify(state.currentData, null, 2);
-    await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
+  };
 
-    displayScriptList();
-    if (state.currentScriptKey !== scriptKey) {
-      selectScript(scriptKey);
+  const openPaths = new Set<string>();
+  const tabs = TabManager.getTabs();
+  for (let i = 0; i < tabs.length; i++) {
+    const tab = tabs[i];
+    if (tab.fileType !== 'data' || getRegistryDirectory(tab.filePath) !== directory) continue;
+    openPaths.add(tab.filePath);
+    const result = renameCustomParams(getLiveTabData(tab), renames);
+    addConflicts(tab.filePath, result);
+    const { changed } = result;
+    if (changed.length === 0) continue;
+    items += changed.length;
+    files++;
+    const label = `重命名自定义属性 ${changed.length} 个项目`;
+    if (tab.filePath === state.currentFilePath) {
+      HistoryManager.recordData(label);
+      handleHistoryApplied();
+    } else {
+      TabManager.recordTabChange(tab.id, label);
     }
+  }
 
-    updateStatus(`脚本已创建: ${scriptKey}`);
+  let entries: string[] = [];
+  try {
+    entries = await window.electronAPI.listDirectory(directory);
   } catch (error) {
-    showError('创建脚本失败: ' + (error as Error).message);
-  } finally {
-    showLoading(false);
+    logger.warn('Failed to list data directory', { directory, error }, 'Main');
+  }
+  for (let i = 0; i < entries.length; i++) {
+    const filePath = directory + entries[i];
+    if (!entries[i].toLowerCase().endsWith('.json') || openPaths.has(filePath)) continue;
+    try {
+      const content = await window.electronAPI.readFile(filePath);
+      const data = JSON.parse(content) as unknown;
+      if (!Array.isArray(data)) continue;
+      const result = renameCustomParams(data, renames);
+      addConflicts(filePath, result);
+      const { changed } = result;
+      if (changed.length === 0) continue;
+      FileFormatRegistry.register(filePath, content);
+      await window.electronAPI.writeFile(filePath, FileFormatRegistry.stringify(filePath, data));
+      DataLoaderService.invalidateFile(filePath);
+      items += changed.length;
+      files++;
+    } catch (error) {
+      logger.warn('Failed to rename custom attributes in file', { filePath, error }, 'Main');
+      showError(`重命名 ${entries[i]} 中的自定义属性失败: ` + (error as Error).message);
+    }
   }
+
+  logger.info('Renamed custom attributes', { renames: [...renames], items, files, conflicts: conflicts.length }, 'Main');
+  return { items, files, conflicts };
 }
 
-function handleDeleteScriptFromEditor(): void {
-  handleDeleteScriptRequest();
+// ============ 数据目录批量操作 ============
+
+/** 数据目录中的数组数据文件；content 为磁盘上的原始内容，已打开的文件为 null */
+interface DataDirectoryFile extends NoteTagSourceFile {
+  content: string | null;
 }
 
-async function handleDeleteScriptRequest(key?: string): Promise<void> {
+const MAP_FILE_REGEX = /^Map\d{3}\.json$/i;
+
+function normalizeSeparators(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+/**
+ * 批量操作的数据目录（含末尾分隔符）：优先使用设置中的数据目录，否则使用当前文件所在目录
+ */
+function getDataDirectory(): string {
   const state = StateManager.getState();
-  const currentItem = state.currentItem as unknown as Record<string, unknown> | null;
-  const currentKey = key || state.currentScriptKey;
+  const directory = state.config.dataPath || (state.currentFilePath ? getRegistryDirectory(state.currentFilePath) : '');
+  if (!directory || /[\\/]$/.test(directory)) return directory;
+  return directory + (directory.includes('\\') && !directory.includes('/') ? '\\' : '/');
+}
 
-  if (!currentItem || !currentKey) {
-    showError('未选择脚本');
-    return;
+/**
+ * 标签页的当前数据：激活标签页以 StateManager 为准（撤销、重做会替换 currentData 数组）
+ */
+function getLiveTabData(tab: FileTab): DataItem[] {
+  const state = StateManager.getState();
+  return tab.filePath === state.currentFilePath && state.currentData ? state.currentData : tab.data;
+}
+
+/**
+ * 读取数据目录下的所有数组数据文件；已打开的文件使用内存中的数据（含未保存的修改），地图文件不参与
+ */
+async function loadDataDirectoryFiles(directory: string): Promise<DataDirectoryFile[]> {
+  const files: DataDirectoryFile[] = [];
+  const openPaths = new Set<string>();
+  const tabs = TabManager.getTabs();
+  for (let i = 0; i < tabs.length; i++) {
+    const tab = tabs[i];
+    if (tab.fileType !== 'data' || normalizeSeparators(getRegistryDirectory(tab.filePath)) !== normalizeSeparators(directory)) continue;
+    openPaths.add(normalizeSeparators(tab.filePath));
+    files.push({ filePath: tab.filePath, data: getLiveTabData(tab), content: null });
+  }
+
+  const entries = await window.electronAPI.listDirectory(directory);
+  for (let i = 0; i < entries.length; i++) {
+    const fileName = entries[i];
+    const filePath = directory + fileName;
+    if (!fileName.toLowerCase().endsWith('.json') || MAP_FILE_REGEX.test(fileName)) continue;
+    if (openPaths.has(normalizeSeparators(filePath))) continue;
+    try {
+      const content = await window.electronAPI.readFile(filePath);
+      const data = JSON.parse(content) as unknown;
+      if (Array.isArray(data)) {
+        files.push({ filePath, data, content });
+      }
+    } catch (error) {
+      logger.warn('Failed to read data file', { filePath, error }, 'Main');
+    }
   }
-  if (typeof window.electronAPI === 'undefined') {
-    showError('electronAPI 不可用，无法删除脚本');
-    return;
+  return files.sort((a, b) => getFileName(a.filePath).localeCompare(getFileName(b.filePath)));
+}
+
+/**
+ * 写回批量修改过的数据文件：已打开的文件记录到各自的历史中，未打开的文件直接写入磁盘
+ * @returns 写入磁盘的文件数
+ */
+async function writeBackDataFiles(files: DataDirectoryFile[], changedPaths: string[], label: string): Promise<number> {
+  const state = StateManager.getState();
+  let written = 0;
+  for (let i = 0; i < changedPaths.length; i++) {
+    const file = files.find((item) => item.filePath === changedPaths[i]);
+    if (!file) continue;
+    if (file.content === null) {
+      const tab = TabManager.findByPath(file.filePath);
+      if (file.filePath === state.currentFilePath) {
+        HistoryManager.recordData(label);
+        handleHistoryApplied();
+      } else if (tab) {
+        TabManager.recordTabChange(tab.id, label);
+      }
+      continue;
+    }
+    try {
+      FileFormatRegistry.register(file.filePath, file.content);
+      await window.electronAPI.writeFile(file.filePath, FileFormatRegistry.stringify(file.filePath, file.data));
+      DataLoaderService.invalidateFile(file.filePath);
+      written++;
+    } catch (error) {
+      logger.warn('Failed to write data file', { filePath: file.filePath, error }, 'Main');
+      showError(`写入 ${getFileName(file.filePath)} 失败: ` + (error as Error).message);
+    }
   }
+  return written;
+}
 
-  const scripts = currentItem.scripts as Record<string, string> | undefined;
-  if (!scripts || !scripts[currentKey]) {
-    showError('脚本不存在');
-    return;
+/**
+ * 打开文件（已打开时切换到对应标签页）并选中条目
+ */
+async function openItemInFile(filePath: string, index: number): Promise<void> {
+  const tab = TabManager.findByPath(filePath);
+  if (tab) {
+    TabManager.activateTab(tab.id);
+  } else {
+    await openFileFromPath(filePath);
+  }
+  const state = StateManager.getState();
+  if (state.currentFilePath === filePath && state.currentData && index < state.currentData.length) {
+    selectItem(index);
   }
+}
 
-  const confirmResult = window.confirm(`确认删除脚本 ${currentKey} 及其文件？此操作不可恢复！`);
-  if (!confirmResult) {
+// ============ 备注标签查询 ============
+
+/**
+ * 打开备注标签查询：点击条目时打开对应文件并选中，应用批量操作时改写所有相关文件
+ */
+async function handleNoteTagQuery(): Promise<void> {
+  if (typeof window.electronAPI === 'undefined') return;
+  const directory = getDataDirectory();
+  if (!directory) {
+    showError('请先在设置中指定数据目录或打开一个数据文件');
     return;
   }
 
-  showLoading(true, '删除脚本中...');
-
-  const storedPath = scripts[currentKey];
-  const scriptPath = resolveScriptFilePath(storedPath);
+  let files: DataDirectoryFile[];
+  showLoading(true, '正在扫描备注标签...');
   try {
-    if (scriptPath && !isHttpProtocol(scriptPath)) {
-      await window.electronAPI.deleteFile(scriptPath);
-      removeScriptCache(scriptPath);
-    }
+    files = await loadDataDirectoryFiles(directory);
   } catch (error) {
-    logger.warn('Failed to delete script file', { scriptPath, error }, 'Main');
+    showError('读取数据目录失败: ' + (error as Error).message);
+    return;
+  } finally {
+    showLoading(false);
   }
 
-  delete scripts[currentKey];
-  if (!state.currentData) {
-    showError('未选择文件或项目');
-    showLoading(false);
+  const result = await showNoteTagQueryDialog({ directory, files, initialTag: getSelectedMetaKey() });
+  if (!result) return;
+
+  if (result.kind === 'open') {
+    await openItemInFile(result.filePath, result.index);
     return;
   }
-  state.currentData[state.currentItemIndex] = currentItem as never;
-  const data = state.currentData;
 
-  try {
-    const jsonContent = JSON.stringify(data, null, 2);
-    await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
-  } catch (error) {
-    showError('脚本删除同步失败: ' + (error as Error).message);
-  }
+  const { plan } = result;
+  const changedPaths = applyNoteTagChanges(files, plan.changes);
+  const written = await writeBackDataFiles(files, changedPaths, '批量修改备注标签');
 
-  StateManager.resetScript();
+  logger.info('Applied note tag operation', { operation: result.operation, items: plan.changes.length, files: changedPaths.length }, 'Main');
+  const pending = changedPaths.length - written;
+  updateStatus(
+    `已修改 ${changedPaths.length} 个文件中 ${plan.changes.length} 个条目的备注标签`
+    + (pending > 0 ? `（${pending} 个已打开的文件待保存）` : '')
+  );
+}
+
+// ============ 脚本文件检查 ============
+
+/**
+ * 检查脚本目录与所有数据文件的脚本引用，按对话框的选择归档、删除孤立脚本或重新关联、移除悬空引用
+ */
+async function handleScriptAudit(): Promise<void> {
+  if (typeof window.electronAPI === 'undefined') return;
+  const scriptDirectory = getScriptDirectory();
+  const dataDirectory = getDataDirectory();
+  if (!scriptDirectory || !dataDirectory) {
+    showError('请先在设置中指定脚本保存目录与数据目录');
+    settingsDialog.show();
+    return;
+  }
+
+  let files: DataDirectoryFile[];
+  let report: ScriptAuditReport;
+  showLoading(true, '正在检查脚本文件...');
+  try {
+    files = await loadDataDirectoryFiles(dataDirectory);
+    report = await ScriptAuditService.audit(scriptDirectory, files);
+  } catch (error) {
+    showError('检查脚本文件失败: ' + (error as Error).message);
+    return;
+  } finally {
+    showLoading(false);
+  }
+
+  const result = await showScriptAuditDialog(report);
+  if (!result) return;
+  // 检查后已打开的文件可能被编辑或撤销，按当前数据处理
+  files = files.map((file) => {
+    const tab = TabManager.findByPath(file.filePath);
+    return tab ? { ...file, data: getLiveTabData(tab) } : file;
+  });
+
+  switch (result.kind) {
+    case 'open':
+      await openItemInFile(result.filePath, result.index);
+      return;
+    case 'archive':
+    case 'delete': {
+      const orphans = filterUnreferencedOrphans(result.orphans, files);
+      const skipped = result.orphans.length - orphans.length;
+      if (skipped > 0) {
+        logger.info('Skipped orphan scripts referenced again', { skipped }, 'Main');
+        showInfoToast(`${skipped} 个脚本已重新被条目引用，已跳过`);
+      }
+      if (orphans.length > 0) {
+        await removeOrphanScripts(scriptDirectory, orphans, result.kind === 'archive');
+      }
+      return;
+    }
+    case 'relink':
+    case 'unlink': {
+      const changes = result.kind === 'relink'
+        ? result.links.map(({ reference, orphan }) => ({ reference, storedPath: formatStoredScriptPath(orphan.scriptPath) }))
+        : result.references.map((reference) => ({ reference, storedPath: null }));
+      const changedPaths: string[] = [];
+      let applied = 0;
+      for (let i = 0; i < changes.length; i++) {
+        const { reference, storedPath } = changes[i];
+        const file = files.find((item) => item.filePath === reference.filePath);
+        const item = file?.data[reference.index] as Record<string, unknown> | undefined;
+        const scripts = item?.scripts as Record<string, string> | undefined;
+        if (!file || !scripts || scripts[reference.scriptKey] !== reference.storedPath) continue;
+        if (storedPath === null) {
+          delete scripts[reference.scriptKey];
+        } else {
+          scripts[reference.scriptKey] = storedPath;
+        }
+        applied++;
+        if (!changedPaths.includes(file.filePath)) changedPaths.push(file.filePath);
+      }
+
+      const label = result.kind === 'relink' ? '重新关联脚本' : '移除失效的脚本引用';
+      const written = await writeBackDataFiles(files, changedPaths, label);
+      const pending = changedPaths.length - written;
+      updateStatus(
+        `已${label} ${applied} 个`
+        + (pending > 0 ? `（${pending} 个已打开的文件待保存）` : '')
+      );
+    }
+  }
+}
+
+/**
+ * 归档或删除孤立脚本
+ */
+async function removeOrphanScripts(scriptDirectory: string, orphans: OrphanScript[], archive: boolean): Promise<void> {
+  if (!archive && !window.confirm(`确认删除 ${orphans.length} 个孤立脚本文件？此操作不可恢复！`)) {
+    return;
+  }
+
+  let done = 0;
+  showLoading(true, archive ? '正在归档脚本...' : '正在删除脚本...');
+  for (let i = 0; i < orphans.length; i++) {
+    const orphan = orphans[i];
+    try {
+      if (archive) {
+        await ScriptAuditService.archive(scriptDirectory, orphan);
+      } else {
+        await ScriptAuditService.remove(orphan);
+      }
+      removeScriptCache(orphan.scriptPath);
+      done++;
+    } catch (error) {
+      logger.warn('Failed to remove orphan script', { scriptPath: orphan.scriptPath, archive, error }, 'Main');
+      showError(`处理 ${orphan.fileName} 失败: ` + (error as Error).message);
+    }
+  }
+  showLoading(false);
+
+  logger.info('Removed orphan scripts', { archive, count: done }, 'Main');
+  updateStatus(
+    archive
+      ? `已将 ${done} 个孤立脚本归档到 ${scriptDirectory}/${ORPHAN_ARCHIVE_DIR_NAME}`
+      : `已删除 ${done} 个孤立脚本`
+  );
+}
+
+async function handleCreateScriptRequest(): Promise<void> {
+  const state = StateManager.getState();
+  if (!state.currentFilePath || !state.currentItem) {
+    showError('请先选择文件和项目');
+    return;
+  }
+  if (typeof window.electronAPI === 'undefined') {
+    showError('electronAPI 不可用，无法创建脚本');
+    return;
+  }
+
+  StateManager.resetScript();
+
+  const scriptKey = await showInputDialog(
+    '新建脚本',
+    '请输入脚本的键名 (例如: onLoad, onUpdate):'
+  );
+  if (!scriptKey) {
+    updateStatus('新建脚本已取消');
+    return;
+  }
+
+  const currentItem = state.currentItem as unknown as Record<string, unknown>;
+  const scripts = (currentItem.scripts as Record<string, string>) || EMPTY_SCRIPTS;
+  if (scripts[scriptKey]) {
+    showError(`脚本键名 "${scriptKey}" 已存在，请使用不同的键名`);
+    updateStatus(`脚本键名 "${scriptKey}" 重复，新建失败`);
+    return;
+  }
+
+  showLoading(true, '创建脚本中...');
+
+  try {
+    const itemId = (currentItem.id as number) || state.currentItemIndex;
+    const scriptDir = getScriptDirectory();
+    if (!scriptDir) {
+      showError('请先设置脚本保存目录');
+      showLoading(false);
+      return;
+    }
+
+    const jsFileName = `${itemId}_${scriptKey}_${Date.now()}.js`;
+    const filePath = `${scriptDir}/${jsFileName}`;
+    const timestampLine = buildTimestampLine(new Date());
+
+    await window.electronAPI.writeFile(filePath, timestampLine);
+
+    if (!currentItem.scripts) {
+      currentItem.scripts = {};
+    }
+    const storedPath = formatStoredScriptPath(filePath);
+    (currentItem.scripts as Record<string, string>)[scriptKey] = storedPath;
+    normalizeItemScriptPaths(currentItem);
+    setScriptCache(filePath, timestampLine);
+
+    if (!state.currentData) {
+      showError('未选择文件或项目');
+      showLoading(false);
+      return;
+    }
+    state.currentData[state.currentItemIndex] = currentItem as never;
+    HistoryManager.recordItem(state.currentItemIndex, `新建脚本 ${scriptKey}`);
+    const jsonContent = FileFormatRegistry.stringify(state.currentFilePath, state.currentData);
+    await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
+    StateManager.markSaved();
+
+    displayScriptList();
+    if (state.currentScriptKey !== scriptKey) {
+      selectScript(scriptKey);
+    }
+
+    updateStatus(`脚本已创建: ${scriptKey}`);
+  } catch (error) {
+    showError('创建脚本失败: ' + (error as Error).message);
+  } finally {
+    showLoading(false);
+  }
+}
+
+function handleDeleteScriptFromEditor(): void {
+  handleDeleteScriptRequest();
+}
+
+async function handleDeleteScriptRequest(key?: string): Promise<void> {
+  const state = StateManager.getState();
+  const currentItem = state.currentItem as unknown as Record<string, unknown> | null;
+  const currentKey = key || state.currentScriptKey;
+
+  if (!currentItem || !currentKey) {
+    showError('未选择脚本');
+    return;
+  }
+  if (typeof window.electronAPI === 'undefined') {
+    showError('electronAPI 不可用，无法删除脚本');
+    return;
+  }
+
+  const scripts = currentItem.scripts as Record<string, string> | undefined;
+  if (!scripts || !scripts[currentKey]) {
+    showError('脚本不存在');
+    return;
+  }
+
+  const confirmResult = window.confirm(`确认删除脚本 ${currentKey} 及其文件？此操作不可恢复！`);
+  if (!confirmResult) {
+    return;
+  }
+
+  showLoading(true, '删除脚本中...');
+
+  const storedPath = scripts[currentKey];
+  const scriptPath = resolveScriptFilePath(storedPath);
+  try {
+    if (scriptPath && !isHttpProtocol(scriptPath)) {
+      await window.electronAPI.deleteFile(scriptPath);
+      removeScriptCache(scriptPath);
+    }
+  } catch (error) {
+    logger.warn('Failed to delete script file', { scriptPath, error }, 'Main');
+  }
+
+  delete scripts[currentKey];
+  if (!state.currentData) {
+    showError('未选择文件或项目');
+    showLoading(false);
+    return;
+  }
+  state.currentData[state.currentItemIndex] = currentItem as never;
+  HistoryManager.recordItem(state.currentItemIndex, `删除脚本 ${currentKey}`);
+  const data = state.currentData;
+
+  try {
+    const jsonContent = FileFormatRegistry.stringify(state.currentFilePath, data);
+    await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
+    StateManager.markSaved();
+  } catch (error) {
+    showError('脚本删除同步失败: ' + (error as Error).message);
+  }
+
+  StateManager.resetScript();
   EditorManager.setValue('');
   displayScriptList();
   renderPropertyPanel();
@@ -1162,10 +1839,12 @@ async function handleSaveScriptRequest(): Promise<void> {
     const newFileContent = `${timestampLine}\n${codeToSave}`;
     await window.electronAPI.writeFile(filePath, newFileContent);
     setScriptCache(filePath, newFileContent);
+    await recordScriptSnapshot(cachedContent, codeToSave);
 
     const newStoredPath = formatStoredScriptPath(filePath);
     if (newStoredPath && scripts) {
       scripts[state.currentScriptKey] = newStoredPath;
+      HistoryManager.recordItem(state.currentItemIndex, `更新脚本路径 ${state.currentScriptKey}`);
     }
 
     applyTimestampToActiveEditor(timestampLine);
@@ -1177,6 +1856,78 @@ async function handleSaveScriptRequest(): Promise<void> {
   }
 }
 
+/**
+ * 当前脚本的历史分组；未选择脚本时返回 null
+ */
+function getScriptHistoryKey(): ScriptHistoryKey | null {
+  const state = StateManager.getState();
+  if (!state.currentScriptKey || !state.currentItem || !state.currentFilePath) return null;
+  const itemId = (state.currentItem as unknown as Record<string, unknown>).id;
+  return {
+    dataFile: getFileName(state.currentFilePath),
+    itemId: typeof itemId === 'number' ? itemId : state.currentItemIndex,
+    scriptKey: state.currentScriptKey,
+  };
+}
+
+/**
+ * 保存脚本后记录快照；第一次记录时先补上被覆盖的旧代码，失败不影响保存
+ */
+async function recordScriptSnapshot(previousContent: string | null, code: string): Promise<void> {
+  const key = getScriptHistoryKey();
+  const root = getScriptDirectory();
+  if (!key || !root) return;
+  try {
+    const previousCode = previousContent ? extractScriptCode(previousContent).trim() : '';
+    if (previousCode && previousCode !== code) {
+      const snapshots = await ScriptHistoryService.list(root, key);
+      if (snapshots.length === 0) {
+        const savedAt = parseTimestampLine(previousContent as string) ?? new Date(Date.now() - 1000);
+        await ScriptHistoryService.record(root, key, previousCode, savedAt);
+      }
+    }
+    await ScriptHistoryService.record(root, key, code);
+  } catch (error) {
+    logger.warn('Failed to record script snapshot', { key, error }, 'Main');
+  }
+}
+
+async function handleShowScriptHistory(): Promise<void> {
+  const key = getScriptHistoryKey();
+  if (!key) {
+    showError('未选择脚本');
+    return;
+  }
+  if (typeof window.electronAPI === 'undefined') {
+    showError('electronAPI 不可用，无法读取脚本历史');
+    return;
+  }
+  const root = getScriptDirectory();
+  if (!root) {
+    showError('请先设置脚本保存目录');
+    settingsDialog.show();
+    return;
+  }
+
+  showLoading(true, '读取脚本历史...');
+  const snapshots = await ScriptHistoryService.list(root, key);
+  showLoading(false);
+
+  const snapshot = await showScriptHistoryDialog({
+    scriptKey: key.scriptKey,
+    directory: getScriptHistoryDirectory(root, key),
+    snapshots,
+    current: extractScriptCode(EditorManager.getValue()).trim(),
+  });
+  // 对话框打开期间切换了脚本时不恢复
+  const activeKey = getScriptHistoryKey();
+  if (!snapshot || activeKey?.scriptKey !== key.scriptKey || activeKey.itemId !== key.itemId) return;
+
+  EditorManager.setValue(snapshot.code);
+  await handleSaveScriptRequest();
+  updateStatus(`已恢复脚本 ${key.scriptKey} 到 ${formatTimestamp(new Date(snapshot.timestamp))} 的版本`);
+}
+
 async function handleClearScriptsRequest(): Promise<void> {
   const state = StateManager.getState();
   const currentItem = state.currentItem as unknown as Record<string, unknown> | null;
@@ -1225,8 +1976,10 @@ async function handleClearScriptsRequest(): Promise<void> {
       return;
     }
     state.currentData[state.currentItemIndex] = currentItem as never;
-    const jsonContent = JSON.stringify(state.currentData, null, 2);
+    HistoryManager.recordItem(state.currentItemIndex, '清除全部脚本');
+    const jsonContent = FileFormatRegistry.stringify(state.currentFilePath, state.currentData);
     await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
+    StateManager.markSaved();
 
     StateManager.resetScript();
     EditorManager.setValue('');
@@ -1277,6 +2030,821 @@ function isHttpProtocol(value: string): boolean {
   return HTTP_PROTOCOL_REGEXP.test(value);
 }
 
+// ============ 备注处理 ============
+
+let noteHandlersBound = false;
+
+function setupNoteHandlers(): void {
+  if (noteHandlersBound) return;
+  noteHandlersBound = true;
+
+  EventSystem.on('note:save', handleNoteSaveEvent);
+  EventSystem.on('description:save', handleDescriptionSaveEvent);
+  EventSystem.on('note:dirty', handleNoteDirtyEvent);
+  EventSystem.on('note:autosave', handleNoteAutoSaveEvent);
+}
+
+function handleNoteDirtyEvent(): void {
+  const state = StateManager.getState();
+  if (state.currentItem) {
+    StateManager.markItemDirty(state.currentItemIndex);
+  }
+}
+
+/**
+ * 备注编辑停顿后将编辑器内容同步到内存数据，由保存操作统一写入文件
+ */
+function handleNoteAutoSaveEvent(): void {
+  const state = StateManager.getState();
+  const item = state.currentItem as unknown as Record<string, unknown> | null;
+  if (!item || state.uiMode !== 'note') return;
+
+  if ('note' in item) {
+    item.note = getNoteContent();
+  }
+  if ('description' in item) {
+    item.description = getDescriptionContent();
+  }
+  HistoryManager.recordItem(state.currentItemIndex, '编辑备注');
+  EventSystem.emit('note:synced');
+}
+
+function handleNoteSaveEvent(...args: unknown[]): void {
+  const payload = args[0] as { content: string; itemIndex: number } | undefined;
+  if (!payload) return;
+  void saveItemField(payload.itemIndex, 'note', payload.content, '修改备注', '备注已保存', 'note:saved');
+}
+
+function handleDescriptionSaveEvent(...args: unknown[]): void {
+  const payload = args[0] as { content: string[]; itemIndex: number } | undefined;
+  if (!payload) return;
+  void saveItemField(payload.itemIndex, 'description', payload.content.join('\n'), '修改描述', '描述已保存', 'description:saved');
+}
+
+/**
+ * 写入当前文件中某个项目的单个字段并保存
+ */
+async function saveItemField(
+  itemIndex: number,
+  field: 'note' | 'description',
+  value: string,
+  historyLabel: string,
+  successMessage: string,
+  savedEvent: string
+): Promise<void> {
+  const state = StateManager.getState();
+  const item = state.currentData?.[itemIndex] as unknown as Record<string, unknown> | null | undefined;
+  if (!state.currentData || !item || !state.currentFilePath) {
+    showError('请先选择文件和项目');
+    return;
+  }
+  if (typeof window.electronAPI === 'undefined') {
+    showError('electronAPI 不可用，无法保存');
+    return;
+  }
+
+  item[field] = value;
+  HistoryManager.recordItem(itemIndex, historyLabel);
+
+  showLoading(true, '保存中...');
+  try {
+    const jsonContent = FileFormatRegistry.stringify(state.currentFilePath, state.currentData);
+    await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
+    StateManager.markSaved();
+    EventSystem.emit(savedEvent, { itemIndex });
+    updateStatus(successMessage);
+  } catch (error) {
+    showError('保存失败: ' + (error as Error).message);
+  } finally {
+    showLoading(false);
+  }
+}
+
+// ============ 未保存修改 ============
+
+function setupDirtyStateHandlers(): void {
+  StateManager.subscribe(handleDirtyStateChange);
+  updateWindowTitle();
+}
+
+function handleDirtyStateChange(_state: unknown, changedKeys: string[]): void {
+  if (!changedKeys.includes('fileDirty') && !changedKeys.includes('currentFile')) return;
+
+  updateWindowTitle();
+  if (changedKeys.includes('fileDirty')) {
+    syncDocumentDirty();
+  }
+}
+
+/**
+ * 任意标签页存在未保存修改时通知主进程拦截窗口关闭
+ */
+function syncDocumentDirty(): void {
+  const dirty = TabManager.isAnyDirty();
+  if (dirty === documentDirty || typeof window.electronAPI === 'undefined') return;
+  documentDirty = dirty;
+  void window.electronAPI.setDocumentDirty(dirty);
+}
+
+function updateWindowTitle(): void {
+  const state = StateManager.getState();
+  const fileLabel = state.currentFile ? `${state.fileDirty ? '● ' : ''}${state.currentFile} - ` : '';
+  document.title = `${fileLabel}${APP_TITLE}`;
+}
+
+/**
+ * 保存当前文件，按文件类型交给对应面板处理
+ * @returns 保存后是否已无未保存的修改
+ */
+async function saveCurrentFile(): Promise<boolean> {
+  const state = StateManager.getState();
+  if (!state.currentData || !state.currentFilePath) return true;
+
+  if (state.currentFileType === 'quest' && state.questFilePath === state.currentFilePath) {
+    await saveQuestFile();
+  } else if (state.currentFileType === 'projectile') {
+    await saveProjectileFile();
+  } else {
+    if (typeof window.electronAPI === 'undefined') {
+      showError('electronAPI 不可用，无法保存');
+      return false;
+    }
+    showLoading(true, '保存中...');
+    try {
+      const jsonContent = FileFormatRegistry.stringify(state.currentFilePath, state.currentData);
+      await window.electronAPI.writeFile(state.currentFilePath, jsonContent);
+      StateManager.markSaved();
+      updateStatus(`已保存 ${state.currentFile}`);
+    } catch (error) {
+      showError('保存失败: ' + (error as Error).message);
+    } finally {
+      showLoading(false);
+    }
+  }
+
+  return !StateManager.isDirty();
+}
+
+/**
+ * 从磁盘重新读取当前文件，丢弃内存中的修改
+ */
+async function reloadCurrentFile(): Promise<void> {
+  const state = StateManager.getState();
+  if (!state.currentFilePath || typeof window.electronAPI === 'undefined') return;
+
+  try {
+    const content = await window.electronAPI.readFile(state.currentFilePath);
+    handleFileLoaded({ fileName: state.currentFile, filePath: state.currentFilePath, content });
+  } catch (error) {
+    showError('重新加载文件失败: ' + (error as Error).message);
+  }
+}
+
+/**
+ * 存在未保存修改时询问保存/不保存/取消
+ * @param action 即将执行的操作描述
+ * @param reloadOnDiscard 选择不保存时是否从磁盘恢复当前文件（操作不会替换当前数据时使用）
+ * @returns 是否继续执行操作
+ */
+async function confirmUnsavedChanges(action: string, reloadOnDiscard = false): Promise<boolean> {
+  if (!StateManager.isDirty()) return true;
+
+  const state = StateManager.getState();
+  const itemCount = state.dirtyItems.length;
+  const detail = itemCount > 0 ? `（${itemCount} 个项目）` : '';
+  const choice = await showUnsavedChangesDialog(
+    `${state.currentFile || '当前文件'} 有未保存的修改${detail}，${action}前是否保存？`
+  );
+
+  if (choice === 'cancel') return false;
+  if (choice === 'save') return saveCurrentFile();
+
+  if (reloadOnDiscard) {
+    await reloadCurrentFile();
+  }
+  return true;
+}
+
+/**
+ * 文件已在标签页中打开且有未保存修改时，重新读取前先激活该标签页并确认
+ */
+async function confirmReopenTab(filePath: string, action: string): Promise<boolean> {
+  const tab = TabManager.findByPath(filePath);
+  if (!tab || !TabManager.isTabDirty(tab)) return true;
+
+  TabManager.activateTab(tab.id);
+  return confirmUnsavedChanges(action);
+}
+
+/**
+ * 关闭窗口前逐个确认有未保存修改的标签页
+ */
+async function handleCloseRequest(): Promise<void> {
+  const tabs = [...TabManager.getTabs()];
+  for (let i = 0; i < tabs.length; i++) {
+    if (!TabManager.isTabDirty(tabs[i])) continue;
+    TabManager.activateTab(tabs[i].id);
+    if (!(await confirmUnsavedChanges('关闭窗口'))) return;
+  }
+  await window.electronAPI.confirmClose();
+}
+
+// ============ 多文件标签页 ============
+
+function setupTabHandlers(): void {
+  TabManager.init();
+  TabManager.subscribe(syncDocumentDirty);
+  initFileTabBar();
+  EventSystem.on('tab:activated', handleTabActivated);
+  EventSystem.on('tab:close-request', handleTabCloseRequest);
+}
+
+function handleTabActivated(...args: unknown[]): void {
+  const tab = args[0] as FileTab | null;
+  displayItemList();
+
+  if (!tab) {
+    void PanelManager.showPanel(null);
+    updateStatus('就绪');
+    return;
+  }
+
+  void PanelManager.showPanel(tab.uiMode);
+  if (tab.itemIndex > 0) {
+    selectItem(tab.itemIndex);
+  }
+  updateStatus(`${tab.fileName}，共 ${tab.data.length - 1} 个项目`);
+}
+
+async function handleTabCloseRequest(...args: unknown[]): Promise<void> {
+  const tab = TabManager.findById(args[0] as string);
+  if (!tab) return;
+
+  if (TabManager.isTabDirty(tab)) {
+    TabManager.activateTab(tab.id);
+    if (!(await confirmUnsavedChanges('关闭标签页'))) return;
+  }
+  TabManager.closeTab(tab.id);
+}
+
+// ============ 保存格式 ============
+
+const JSON_LAYOUT_LABELS: Record<JSONLayout, string> = {
+  rpgmaker: 'RPG Maker 紧凑行',
+  minified: '压缩',
+  pretty: '格式化',
+};
+
+function setupFileFormatSelect(): void {
+  const select = DOM.fileFormatSelect;
+  if (!select) return;
+
+  select.addEventListener('change', handleFileFormatChange);
+  StateManager.subscribe((_state, changedKeys) => {
+    if (changedKeys.includes('currentFilePath')) {
+      updateFileFormatSelect();
+    }
+  });
+  updateFileFormatSelect();
+}
+
+/**
+ * 同步保存格式下拉框：显示当前文件的手动设置，“自动”选项附带检测结果
+ */
+function updateFileFormatSelect(): void {
+  const select = DOM.fileFormatSelect;
+  if (!select) return;
+
+  const filePath = StateManager.getState().currentFilePath;
+  select.classList.toggle('hidden', !filePath);
+  if (!filePath) return;
+
+  const detected = FileFormatRegistry.getDetectedFormat(filePath);
+  select.options[0].textContent = detected ? `自动（${JSON_LAYOUT_LABELS[detected.layout]}）` : '自动';
+  select.value = FileFormatRegistry.getLayoutOverride(filePath) ?? '';
+}
+
+/**
+ * 切换当前文件的保存格式，文件标记为未保存以便写回新格式
+ */
+function handleFileFormatChange(): void {
+  const select = DOM.fileFormatSelect;
+  const filePath = StateManager.getState().currentFilePath;
+  if (!select || !filePath) return;
+
+  const layout = (select.value || null) as JSONLayout | null;
+  FileFormatRegistry.setLayoutOverride(filePath, layout);
+  StateManager.markFileDirty();
+  updateStatus(`保存格式: ${JSON_LAYOUT_LABELS[FileFormatRegistry.getFormat(filePath).layout]}`);
+}
+
+// ============ 编号调整 ============
+
+/** 删除项目的方式：压缩并重新编号，或只清空位置以保持其他编号 */
+const DELETE_MODES = [
+  { value: 'compact', label: '压缩并重新编号' },
+  { value: 'clear', label: '清空位置（保持编号）' },
+];
+
+/** 移动项目时是否修正其他已打开文件中的引用（当前文件内的引用总是修正） */
+const MOVE_MODES = [
+  { value: 'rewrite', label: '同时修正其他文件中的引用' },
+  { value: 'local', label: '只调整当前文件' },
+];
+
+interface RenumberResult {
+  mode: string;
+  /** 追加在状态栏消息后的引用修正说明 */
+  summary: string;
+}
+
+/**
+ * 获取当前文件被引用时的数据种类：优先使用任务/弹道面板中配置的数据文件，其次按文件名识别
+ */
+function resolveDataKind(filePath: string, fileType: FileType): DataKind | null {
+  const state = StateManager.getState();
+  for (const [type, path] of Object.entries(state.questDataPaths)) {
+    if (type !== 'system' && path === filePath) return type as DataKind;
+  }
+  for (const [type, path] of Object.entries(state.projectileDataPaths)) {
+    if (path === filePath) return type as DataKind;
+  }
+  return detectDataKind(filePath, fileType);
+}
+
+/**
+ * 其他已打开的文件，其中的引用需要随编号一起修正
+ */
+function collectReferenceSources(excludePath: string): ReferenceSource[] {
+  const sources: ReferenceSource[] = [];
+  const tabs = TabManager.getTabs();
+  for (let i = 0; i < tabs.length; i++) {
+    if (tabs[i].filePath === excludePath) continue;
+    sources.push({ filePath: tabs[i].filePath, fileType: tabs[i].fileType, data: tabs[i].data });
+  }
+  return sources;
+}
+
+/**
+ * 预览并应用当前文件的编号调整，同时修正已打开文件中的引用。
+ * 当前文件的数据被原地替换，由调用方记录历史；其他文件标记为未保存。
+ * @returns 确认时返回所选方式，取消时返回 null
+ */
+async function runRenumber(
+  title: string,
+  message: string,
+  modes: Array<{ value: string; label: string }> | undefined,
+  buildRemap: (mode: string) => { remap: IdRemap; length: number; rewriteOtherFiles?: boolean }
+): Promise<RenumberResult | null> {
+  const state = StateManager.getState();
+  if (!state.currentData || !state.currentFilePath) return null;
+
+  const target: ReferenceSource = {
+    filePath: state.currentFilePath,
+    fileType: state.currentFileType,
+    data: state.currentData,
+  };
+  const kind = resolveDataKind(target.filePath, target.fileType);
+  const sources = collectReferenceSources(target.filePath);
+
+  const result = await showRenumberPreviewDialog({
+    title,
+    message,
+    modes,
+    build: (mode) => {
+      const { remap, length, rewriteOtherFiles = true } = buildRemap(mode);
+      return planRenumber(target, kind, remap, length, rewriteOtherFiles ? sources : []);
+    },
+  });
+  const data = StateManager.getState().currentData;
+  if (!result || data !== target.data) return null;
+
+  const { plan } = result;
+  const changedFiles = applyReferenceChanges(plan.referenceChanges);
+  data.splice(0, data.length, ...(plan.data as DataItem[]));
+
+  let otherFiles = 0;
+  for (let i = 0; i < changedFiles.length; i++) {
+    const tab = TabManager.findByPath(changedFiles[i]);
+    if (!tab || changedFiles[i] === target.filePath) continue;
+    TabManager.recordTabChange(tab.id, `修正引用（${title}）`);
+    otherFiles++;
+  }
+  logger.info('Renumbered entries', {
+    filePath: target.filePath,
+    ids: plan.idChanges.length,
+    references: plan.referenceChanges.length,
+  }, 'Main');
+
+  let summary = '';
+  if (plan.referenceChanges.length > 0) {
+    summary = `，已修正 ${plan.referenceChanges.length} 处引用`;
+    if (otherFiles > 0) summary += `（${otherFiles} 个其他文件待保存）`;
+  }
+  return { mode: result.mode, summary };
+}
+
+/**
+ * 移动项目（拖拽或 Alt + 方向键）：条目按新位置重新编号，并按选择修正引用
+ */
+async function handleMoveItemsRequest(...args: unknown[]): Promise<void> {
+  const { indices, targetIndex } = args[0] as { indices: number[]; targetIndex: number };
+  const data = StateManager.getState().currentData;
+  if (!data || indices.length === 0) return;
+
+  const length = data.length;
+  const remap = buildMoveRemap(length, indices, targetIndex);
+  if (remap.size === 0) return;
+
+  const label = indices.length > 1 ? `移动 ${indices.length} 个项目` : `移动项目 #${indices[0]}`;
+  const result = await runRenumber(label, '移动后以下条目的编号将改变，引用它们的字段会同步修正。', MOVE_MODES, (mode) => ({
+    remap,
+    length,
+    rewriteOtherFiles: mode === 'rewrite',
+  }));
+  if (!result) return;
+
+  HistoryManager.recordData(label);
+  const moved = indices.map((index) => remap.get(index) ?? index);
+  displayItemList();
+  setItemSelection(moved);
+  updateStatus(`已移动 ${indices.length} 个项目${result.summary}`);
+}
+
+// ============ 备份恢复 ============
+
+function setupBackupHandlers(): void {
+  initBackupRestoreDialog();
+  EventSystem.on('backup:restore-request', handleBackupRestoreRequest);
+}
+
+function handleShowBackupRestore(): void {
+  const filePath = StateManager.getState().currentFilePath;
+  if (!filePath) {
+    showError('请先打开要恢复的文件');
+    return;
+  }
+  void showBackupRestoreDialog(filePath);
+}
+
+/**
+ * 用备份覆盖文件并重新加载；恢复前的文件内容会先被备份，恢复操作本身也可撤回
+ */
+async function handleBackupRestoreRequest(...args: unknown[]): Promise<void> {
+  const { backupPath, filePath } = args[0] as { backupPath: string; filePath: string };
+
+  const tab = TabManager.findByPath(filePath);
+  if (tab) {
+    TabManager.activateTab(tab.id);
+    if (!(await confirmUnsavedChanges('恢复备份'))) return;
+  }
+
+  try {
+    const restored = await window.electronAPI.restoreBackup(backupPath, filePath);
+    if (!restored) {
+      showError('恢复备份失败');
+      return;
+    }
+  } catch (error) {
+    logger.error('Failed to restore backup', { backupPath, filePath, error }, 'Main');
+    showError('恢复备份失败: ' + (error as Error).message);
+    return;
+  }
+
+  logger.info('Backup restored', { backupPath, filePath }, 'Main');
+  if (StateManager.getState().currentFilePath === filePath) {
+    await reloadCurrentFile();
+  } else {
+    await openFileFromPath(filePath);
+  }
+  updateStatus(`已从备份恢复 ${filePath.split(/[\\/]/).pop() || filePath}`);
+}
+
+// ============ 外部修改 ============
+
+const WATCH_SOURCE_TABS = 'tabs';
+const WATCH_SOURCE_SCRIPT = 'script';
+const WATCH_SOURCE_REFERENCE = 'reference';
+
+/** 外部修改逐个处理，避免同时弹出多个提示 */
+let externalChangeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * 监听打开的标签页、当前脚本以及任务/弹道编辑器加载的引用数据文件
+ */
+function setupFileWatchHandlers(): void {
+  TabManager.subscribe((tabs) => {
+    FileWatchService.setWatchedFiles(WATCH_SOURCE_TABS, tabs.map((tab) => tab.filePath));
+  });
+  EventSystem.on('script:loaded', (...args: unknown[]) => {
+    FileWatchService.setWatchedFiles(WATCH_SOURCE_SCRIPT, [args[0] as string]);
+  });
+  StateManager.subscribe((state, changedKeys) => {
+    if (changedKeys.includes('questDataPaths') || changedKeys.includes('projectileDataPaths')) {
+      FileWatchService.setWatchedFiles(WATCH_SOURCE_REFERENCE, [
+        ...Object.values(state.questDataPaths),
+        ...Object.values(state.projectileDataPaths),
+        ...DataLoaderService.getLoadedFiles(),
+      ]);
+    }
+  });
+}
+
+function handleExternalFileChange(change: ExternalFileChange): void {
+  externalChangeQueue = externalChangeQueue
+    .then(() => processExternalFileChange(change))
+    .catch((error) => {
+      logger.error('Failed to handle external file change', { filePath: change.filePath, error }, 'Main');
+    });
+}
+
+async function processExternalFileChange(change: ExternalFileChange): Promise<void> {
+  logger.info('File changed externally', { filePath: change.filePath }, 'Main');
+
+  DataLoaderService.invalidateFile(change.filePath);
+  if (FileWatchService.isWatchedBy(WATCH_SOURCE_REFERENCE, change.filePath)) {
+    const questReloaded = await reloadQuestDataFile(change.filePath);
+    const projectileReloaded = await reloadProjectileDataFile(change.filePath);
+    if (questReloaded || projectileReloaded) {
+      updateStatus(`${getFileName(change.filePath)} 已被外部修改，已重新加载引用数据`);
+    }
+  }
+  if (FileWatchService.isWatchedBy(WATCH_SOURCE_SCRIPT, change.filePath)) {
+    await handleExternalScriptChange(change);
+  }
+
+  const tab = TabManager.findByPath(change.filePath);
+  if (tab) {
+    await handleExternalTabChange(tab, change);
+  }
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+/**
+ * 数据文件被外部修改：没有未保存修改时直接重新加载，否则询问重新加载/保留/合并
+ */
+async function handleExternalTabChange(tab: FileTab, change: ExternalFileChange): Promise<void> {
+  let theirs: DataItem[];
+  try {
+    theirs = JSON.parse(change.content) as DataItem[];
+  } catch (error) {
+    // 外部程序可能尚未写完，等待下一次修改通知
+    logger.warn('External change is not valid JSON', { filePath: change.filePath, error }, 'Main');
+    return;
+  }
+
+  if (!TabManager.isTabDirty(tab)) {
+    FileFormatRegistry.register(change.filePath, change.content);
+    TabManager.replaceTabData(tab.id, theirs);
+    updateStatus(`${tab.fileName} 已被外部修改，已重新加载`);
+    return;
+  }
+
+  TabManager.activateTab(tab.id);
+  const mine = StateManager.getState().currentData;
+  let base: unknown = null;
+  try {
+    base = change.previousContent === null ? null : JSON.parse(change.previousContent);
+  } catch {
+    base = null;
+  }
+
+  const canMerge = Array.isArray(base) && Array.isArray(theirs) && Array.isArray(mine);
+  const preview = canMerge ? mergeDataArrays(base as DataItem[], mine!, theirs) : null;
+  const { action, choices } = await showExternalChangeDialog({
+    message: `${tab.fileName} 已被其他程序修改，而编辑器中还有未保存的修改。`,
+    conflicts: preview ? preview.conflicts.map((conflict) => ({
+      index: conflict.index,
+      label: describeMergeEntry(conflict.index, conflict.mine ?? conflict.theirs),
+    })) : null,
+  });
+
+  // 对话框打开期间标签页可能已被关闭
+  if (TabManager.findById(tab.id) !== tab) return;
+
+  if (action === 'reload') {
+    FileFormatRegistry.register(change.filePath, change.content);
+    TabManager.replaceTabData(tab.id, theirs);
+    updateStatus(`已重新加载 ${tab.fileName}`);
+    return;
+  }
+
+  TabManager.activateTab(tab.id);
+  if (action === 'merge' && canMerge) {
+    const data = StateManager.getState().currentData!;
+    const { merged } = mergeDataArrays(base as DataItem[], data, theirs, choices);
+    data.splice(0, data.length, ...merged);
+    HistoryManager.recordData('合并外部修改');
+    handleHistoryApplied();
+    updateStatus(`已合并 ${tab.fileName} 的外部修改`);
+  } else {
+    updateStatus(`已保留 ${tab.fileName} 中的修改，保存时将覆盖外部修改`);
+  }
+  // 内存中的数据与磁盘不一致，保存前保持脏状态
+  StateManager.markFileDirty();
+}
+
+function describeMergeEntry(index: number, entry: unknown): string {
+  const name = entry && typeof entry === 'object' ? (entry as { name?: unknown }).name : undefined;
+  return typeof name === 'string' && name ? `#${index} ${name}` : `#${index}`;
+}
+
+/**
+ * 当前脚本被外部修改：编辑器内容未改动时直接载入，否则询问重新加载或保留
+ */
+async function handleExternalScriptChange(change: ExternalFileChange): Promise<void> {
+  const filePath = change.filePath;
+  const fileName = getFileName(filePath);
+  const previousContent = change.previousContent ?? getScriptCache(filePath);
+  setScriptCache(filePath, change.content);
+
+  if (EditorManager.getCurrentFilePath() !== filePath) {
+    EditorManager.removeModel(filePath);
+    return;
+  }
+
+  const editorCode = extractScriptCode(EditorManager.getValue()).trim();
+  const modified = previousContent === null || extractScriptCode(previousContent).trim() !== editorCode;
+  if (modified) {
+    const { action } = await showExternalChangeDialog({
+      message: `脚本 ${fileName} 已被其他程序修改，而编辑器中还有未保存的修改。`,
+      conflicts: null,
+    });
+    if (action !== 'reload') {
+      updateStatus(`已保留脚本 ${fileName} 中的修改，保存时将覆盖外部修改`);
+      return;
+    }
+  }
+
+  if (EditorManager.getCurrentFilePath() === filePath) {
+    EditorManager.setModel(change.content, filePath, 'javascript');
+  }
+  updateStatus(`脚本 ${fileName} 已被外部修改，已重新加载`);
+}
+
+// ============ 项目模式 ============
+
+function setupProjectHandlers(): void {
+  EventSystem.on('explorer:open-file', handleExplorerOpenFile);
+  EventSystem.on('explorer:refresh', handleExplorerRefresh);
+}
+
+/**
+ * 打开项目：自动填写数据、脚本、图片与工作区路径并显示数据浏览器
+ */
+async function handleProjectOpened(project: ProjectInfo): Promise<void> {
+  logger.info('Project opened', { rootPath: project.rootPath, engine: project.engine }, 'Main');
+
+  await applyProjectPaths(project);
+  setExplorerProject(project);
+  updateStatus(`已打开项目 ${project.rootPath}，共 ${project.dataFiles.length} 个数据文件`);
+}
+
+async function applyProjectPaths(project: ProjectInfo): Promise<void> {
+  const paths = {
+    dataPath: project.dataPath,
+    scriptPath: project.scriptPath,
+    scriptSavePath: project.scriptPath,
+    imagePath: project.imagePath,
+    workspacePath: project.workspacePath,
+    workspaceRoot: project.workspacePath,
+    projectPath: project.rootPath,
+  };
+  StateManager.updateConfig(paths);
+
+  try {
+    const savedConfig = await window.electronAPI.readConfig();
+    await window.electronAPI.writeConfig({ ...savedConfig, ...paths });
+    StateManager.markConfigSaved();
+  } catch (error) {
+    logger.error('Failed to save project paths', { error }, 'Main');
+    showError('保存项目路径失败: ' + (error as Error).message);
+  }
+
+  updateEditorAccess();
+  await applyWorkspaceRoot(project.workspacePath);
+}
+
+/**
+ * 启动时重新扫描上次打开的项目
+ */
+async function restoreProject(): Promise<void> {
+  const projectPath = StateManager.getState().config.projectPath;
+  if (!projectPath || typeof window.electronAPI === 'undefined') return;
+
+  try {
+    setExplorerProject(await window.electronAPI.scanProject(projectPath));
+  } catch (error) {
+    logger.warn('Failed to restore project', { projectPath, error }, 'Main');
+  }
+}
+
+async function handleExplorerRefresh(...args: unknown[]): Promise<void> {
+  const rootPath = args[0] as string;
+  try {
+    const project = await window.electronAPI.scanProject(rootPath);
+    if (!project) {
+      showError('项目目录已不存在或不再是 RPG Maker 项目: ' + rootPath);
+    }
+    setExplorerProject(project);
+  } catch (error) {
+    showError('扫描项目失败: ' + (error as Error).message);
+  }
+}
+
+/**
+ * 数据浏览器中点击文件：已打开时直接切换到对应标签页
+ */
+async function handleExplorerOpenFile(...args: unknown[]): Promise<void> {
+  const filePath = args[0] as string;
+  const tab = TabManager.findByPath(filePath);
+  if (tab) {
+    TabManager.activateTab(tab.id);
+    return;
+  }
+  await openFileFromPath(filePath);
+}
+
+/**
+ * 重新打开上次会话中的标签页
+ */
+async function restoreOpenTabs(): Promise<void> {
+  const session = TabManager.getPersistedSession();
+  if (!session || session.tabs.length === 0 || typeof window.electronAPI === 'undefined') return;
+
+  for (let i = 0; i < session.tabs.length; i++) {
+    const saved = session.tabs[i];
+    try {
+      if (!(await window.electronAPI.fileExists(saved.filePath))) continue;
+      const content = await window.electronAPI.readFile(saved.filePath);
+      const fileName = saved.filePath.split(PATH_SEP_REGEX).pop() || saved.filePath;
+      handleFileLoaded({ fileName, filePath: saved.filePath, content }, saved);
+    } catch (error) {
+      logger.warn('Failed to restore tab', { filePath: saved.filePath, error }, 'Main');
+    }
+  }
+
+  const active = TabManager.findByPath(session.activePath);
+  if (active) {
+    TabManager.activateTab(active.id);
+  }
+}
+
+// ============ 编辑历史 ============
+
+function setupHistoryHandlers(): void {
+  HistoryManager.init();
+  initEditHistoryDialog();
+  EventSystem.on('history:applied', handleHistoryApplied);
+  window.addEventListener('keydown', handleHistoryKeyDown);
+}
+
+/**
+ * 焦点位于 Monaco 或原生输入控件时，撤销/重做交给它们自身处理
+ */
+function isTextEditingTarget(target: Element | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.closest('.monaco-editor')) return true;
+  const tagName = target.tagName;
+  return tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT' || target.isContentEditable;
+}
+
+function handleHistoryKeyDown(e: KeyboardEvent): void {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+  if (isTextEditingTarget(document.activeElement)) return;
+
+  const key = e.key.toLowerCase();
+  if (key === 'z' && !e.shiftKey) {
+    e.preventDefault();
+    handleUndoRequest();
+  } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+    e.preventDefault();
+    handleRedoRequest();
+  }
+}
+
+function handleUndoRequest(): void {
+  const entry = HistoryManager.undo();
+  updateStatus(entry ? `已撤销: ${entry.label || entry.target}` : '没有可撤销的操作');
+}
+
+function handleRedoRequest(): void {
+  const entry = HistoryManager.redo();
+  updateStatus(entry ? `已重做: ${entry.label || entry.target}` : '没有可重做的操作');
+}
+
+function handleHistoryApplied(): void {
+  const state = StateManager.getState();
+  if (state.currentItemIndex > 0 && state.currentItem) {
+    selectItem(state.currentItemIndex);
+  } else {
+    displayItemList();
+  }
+}
+
 // ============ 项目选择处理 ============
 
 /**
@@ -1374,6 +2942,8 @@ async function loadConfig(): Promise<void> {
         logger.info('Image path configured', { imagePath: config.imagePath }, 'Main');
       }
 
+      if (config.projectPath) validConfig.projectPath = config.projectPath;
+      if (typeof config.backupRetention === 'number') validConfig.backupRetention = config.backupRetention;
       if (config.recentFiles) validConfig.recentFiles = config.recentFiles;
       if (config.theme === 'dark' || config.theme === 'light') validConfig.theme = config.theme;
       if (config.accentColor === 'cyan' || config.accentColor === 'magenta' ||
@@ -0,0 +1,276 @@
+/**
+ * DataExplorer - 项目数据浏览器
+ * 以树形结构按数据库类型分组列出项目 data 目录中的所有数据文件，点击文件即在标签页中打开
+ */
+
+import { DOM } from '../core/DOMManager';
+import { StateManager } from '../core/StateManager';
+import { EventSystem } from '../core/EventSystem';
+import type { ProjectDataFile, ProjectInfo } from '../types/ipc';
+
+// ============ 类型定义 ============
+
+/** 数据文件分组 */
+export type DataFileGroupId = 'database' | 'system' | 'map' | 'other';
+
+/** 分组后的数据文件 */
+export interface DataFileGroup {
+  id: DataFileGroupId;
+  label: string;
+  files: ProjectDataFile[];
+}
+
+// ============ 常量 ============
+
+const MAP_FILE_REGEX = /^Map\d{3}\.json$/i;
+const JSON_EXT_REGEX = /\.json$/i;
+
+/** 数据库文件的显示顺序与中文名称，与 RPG Maker 数据库标签页一致 */
+const DATABASE_FILES: Record<string, string> = {
+  Actors: '角色',
+  Classes: '职业',
+  Skills: '技能',
+  Items: '物品',
+  Weapons: '武器',
+  Armors: '护甲',
+  Enemies: '敌人',
+  Troops: '敌群',
+  States: '状态',
+  Animations: '动画',
+  Tilesets: '图块',
+  CommonEvents: '公共事件',
+};
+const DATABASE_ORDER = Object.keys(DATABASE_FILES);
+
+const SYSTEM_FILES: Record<string, string> = {
+  System: '系统',
+  MapInfos: '地图信息',
+};
+
+const GROUP_LABELS: Record<DataFileGroupId, string> = {
+  database: '数据库',
+  system: '系统',
+  map: '地图',
+  other: '其他',
+};
+const GROUP_ORDER: DataFileGroupId[] = ['database', 'system', 'map', 'other'];
+
+const FILE_ROW_CLASS = 'data-explorer-file flex items-center gap-2 pl-6 pr-3 py-1 cursor-pointer hover:bg-gray-700';
+
+// ============ 状态 ============
+
+let isInitialized = false;
+let currentProject: ProjectInfo | null = null;
+const collapsedGroups = new Set<DataFileGroupId>(['map']);
+let unsubscribeState: (() => void) | null = null;
+
+// ============ 分组 ============
+
+function getBaseName(fileName: string): string {
+  return fileName.replace(JSON_EXT_REGEX, '');
+}
+
+function getGroupId(fileName: string): DataFileGroupId {
+  const baseName = getBaseName(fileName);
+  if (baseName in DATABASE_FILES) return 'database';
+  if (baseName in SYSTEM_FILES) return 'system';
+  if (MAP_FILE_REGEX.test(fileName)) return 'map';
+  return 'other';
+}
+
+/**
+ * 获取数据文件的中文类型名称，未知文件返回空字符串
+ */
+export function getDataFileTypeLabel(fileName: string): string {
+  const baseName = getBaseName(fileName);
+  return DATABASE_FILES[baseName] || SYSTEM_FILES[baseName] || '';
+}
+
+/**
+ * 按数据库类型分组；数据库文件按 RPG Maker 数据库顺序排列，其余按文件名排列，空分组不返回
+ */
+export function groupDataFiles(files: readonly ProjectDataFile[]): DataFileGroup[] {
+  const groups = new Map<DataFileGroupId, ProjectDataFile[]>();
+  for (let i = 0; i < files.length; i++) {
+    const groupId = getGroupId(files[i].fileName);
+    const list = groups.get(groupId);
+    if (list) {
+      list.push(files[i]);
+    } else {
+      groups.set(groupId, [files[i]]);
+    }
+  }
+
+  const result: DataFileGroup[] = [];
+  for (let i = 0; i < GROUP_ORDER.length; i++) {
+    const id = GROUP_ORDER[i];
+    const list = groups.get(id);
+    if (!list) continue;
+
+    if (id === 'database') {
+      list.sort((a, b) => DATABASE_ORDER.indexOf(getBaseName(a.fileName)) - DATABASE_ORDER.indexOf(getBaseName(b.fileName)));
+    } else {
+      list.sort((a, b) => a.fileName.localeCompare(b.fileName));
+    }
+    result.push({ id, label: GROUP_LABELS[id], files: list });
+  }
+  return result;
+}
+
+// ============ 渲染函数 ============
+
+function createGroupElement(group: DataFileGroup, activePath: string): HTMLDivElement {
+  const collapsed = collapsedGroups.has(group.id);
+  const element = document.createElement('div');
+  element.className = 'data-explorer-group';
+
+  const header = document.createElement('div');
+  header.className = 'data-explorer-group-header flex items-center gap-2 px-3 py-1 cursor-pointer text-gray-300 hover:bg-gray-700 select-none';
+  header.dataset.group = group.id;
+  header.textContent = `${collapsed ? '▸' : '▾'} ${group.label}`;
+
+  const count = document.createElement('span');
+  count.className = 'text-xs text-gray-500';
+  count.textContent = `(${group.files.length})`;
+  header.appendChild(count);
+  element.appendChild(header);
+
+  if (collapsed) return element;
+
+  for (let i = 0; i < group.files.length; i++) {
+    const file = group.files[i];
+    const row = document.createElement('div');
+    row.className = FILE_ROW_CLASS;
+    row.dataset.filePath = file.filePath;
+    row.title = file.filePath;
+    if (file.filePath === activePath) {
+      row.classList.add('active', 'bg-cyan-900');
+    }
+
+    const name = document.createElement('span');
+    name.className = 'flex-1 truncate text-gray-200';
+    const typeLabel = getDataFileTypeLabel(file.fileName);
+    name.textContent = typeLabel ? `${getBaseName(file.fileName)} · ${typeLabel}` : getBaseName(file.fileName);
+    row.appendChild(name);
+
+    if (file.itemCount !== null) {
+      const itemCount = document.createElement('span');
+      itemCount.className = 'text-xs text-cyan-400 font-mono';
+      itemCount.textContent = String(file.itemCount);
+      row.appendChild(itemCount);
+    }
+    element.appendChild(row);
+  }
+
+  return element;
+}
+
+export function renderDataExplorer(): void {
+  const container = DOM.dataExplorer;
+  const tree = DOM.dataExplorerTree;
+  if (!container || !tree) return;
+
+  container.classList.toggle('hidden', !currentProject);
+  tree.innerHTML = '';
+  if (!currentProject) return;
+
+  if (DOM.dataExplorerTitle) {
+    const rootName = currentProject.rootPath.split(/[\\/]/).pop() || currentProject.rootPath;
+    const engine = currentProject.engine === 'unknown' ? '' : ` (${currentProject.engine})`;
+    DOM.dataExplorerTitle.textContent = `${rootName}${engine}`;
+    DOM.dataExplorerTitle.title = currentProject.rootPath;
+  }
+
+  const activePath = StateManager.getState().currentFilePath;
+  const groups = groupDataFiles(currentProject.dataFiles);
+  const fragment = document.createDocumentFragment();
+  for (let i = 0; i < groups.length; i++) {
+    fragment.appendChild(createGroupElement(groups[i], activePath));
+  }
+  tree.appendChild(fragment);
+}
+
+/**
+ * 设置当前项目并刷新树
+ */
+export function setExplorerProject(project: ProjectInfo | null): void {
+  currentProject = project;
+  renderDataExplorer();
+}
+
+export function getExplorerProject(): ProjectInfo | null {
+  return currentProject;
+}
+
+// ============ 事件处理 ============
+
+function handleTreeClick(e: MouseEvent): void {
+  const target = e.target as HTMLElement;
+
+  const header = target.closest<HTMLElement>('.data-explorer-group-header');
+  if (header?.dataset.group) {
+    const groupId = header.dataset.group as DataFileGroupId;
+    if (collapsedGroups.has(groupId)) {
+      collapsedGroups.delete(groupId);
+    } else {
+      collapsedGroups.add(groupId);
+    }
+    renderDataExplorer();
+    return;
+  }
+
+  const row = target.closest<HTMLElement>('.data-explorer-file');
+  if (row?.dataset.filePath) {
+    EventSystem.emit('explorer:open-file', row.dataset.filePath);
+  }
+}
+
+function handleRefreshClick(): void {
+  if (currentProject) {
+    EventSystem.emit('explorer:refresh', currentProject.rootPath);
+  }
+}
+
+// ============ 初始化与清理 ============
+
+export function initDataExplorer(): void {
+  if (isInitialized) return;
+  isInitialized = true;
+
+  if (DOM.dataExplorerTree) {
+    DOM.dataExplorerTree.addEventListener('click', handleTreeClick);
+  }
+  if (DOM.dataExplorerRefresh) {
+    DOM.dataExplorerRefresh.addEventListener('click', handleRefreshClick);
+  }
+  unsubscribeState = StateManager.subscribe((_state, changedKeys) => {
+    if (currentProject && changedKeys.includes('currentFilePath')) {
+      renderDataExplorer();
+    }
+  });
+}
+
+export function disposeDataExplorer(): void {
+  if (!isInitialized) return;
+  isInitialized = false;
+
+  if (DOM.dataExplorerTree) {
+    DOM.dataExplorerTree.removeEventListener('click', handleTreeClick);
+  }
+  if (DOM.dataExplorerRefresh) {
+    DOM.dataExplorerRefresh.removeEventListener('click', handleRefreshClick);
+  }
+  if (unsubscribeState) {
+    unsubscribeState();
+    unsubscribeState = null;
+  }
+  currentProject = null;
+}
+
+export default {
+  init: initDataExplorer,
+  render: renderDataExplorer,
+  setProject: setExplorerProject,
+  getProject: getExplorerProject,
+  dispose: disposeDataExplorer,
+};
@@ -0,0 +1,328 @@
+/**
+ * DescriptionPreview - 描述显示预览
+ * 按游戏消息窗口的规则渲染描述中的控制字符：文字颜色取自项目的 Window.png，图标从 IconSet.png 裁剪，
+ * 变量与角色名显示为占位符，并按帮助窗口宽度标出超宽的行
+ */
+
+import * as PIXI from 'pixi.js';
+import { DOM } from '../core/DOMManager';
+import { StateManager } from '../core/StateManager';
+import { DataLoaderService } from '../services/DataLoaderService';
+import { textureManager } from '../services/TextureManager';
+import { logger } from '../services/logger';
+import {
+  applyFontSizeToken,
+  getPlaceholderText,
+  getWindowTextColorPosition,
+  measureMessageLine,
+  parseMessageLine,
+  type MessageToken,
+} from '../utils/messageCodes';
+import { getReferenceLabel, loadReferenceOptions } from './ReferenceOptions';
+
+// ============ 常量 ============
+
+/** 默认字号与图标占用宽度（图标 32px + 间距 4px） */
+const GAME_FONT_SIZE = 26;
+const ICON_SIZE = 32;
+const ICON_ADVANCE = ICON_SIZE + 4;
+const GAME_FONT_FAMILY = 'sans-serif';
+
+/** 帮助窗口默认的文字区域宽度：816 - 内边距 12 × 2 - 文字边距 8 × 2 */
+const DEFAULT_HELP_WIDTH = 776;
+const MIN_HELP_WIDTH = 100;
+
+/** 预览相对游戏画面的缩放 */
+const PREVIEW_SCALE = 0.5;
+
+const PALETTE_SIZE = 32;
+
+/** 读取不到 Window.png 时使用的默认文字颜色 */
+const DEFAULT_PALETTE = [
+  '#ffffff', '#20a0d6', '#ff784c', '#66cc40', '#99ccff', '#ccc0ff', '#ffffa0', '#808080',
+  '#c0c0c0', '#2080cc', '#ff3810', '#00a010', '#3e9ade', '#a098ff', '#ffcc20', '#000000',
+  '#84aaff', '#ffff40', '#ff2020', '#202040', '#e08040', '#f0c040', '#4080c0', '#40c0f0',
+  '#80ff80', '#c08080', '#8080ff', '#ff80ff', '#00a040', '#00e060', '#a060e0', '#c080ff',
+];
+
+// ============ 状态 ============
+
+let initialized = false;
+/** 已加载资源对应的 图片目录|数据目录 */
+let resourceKey = '';
+let palette: string[] = DEFAULT_PALETTE;
+let variableNames: string[] = [];
+/** 已请求的图标，null 表示不存在 */
+const iconTextures = new Map<number, PIXI.Texture | null>();
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// ============ 资源 ============
+
+function getDataDirectory(): string {
+  const filePath = StateManager.getState().currentFilePath;
+  return filePath ? filePath.replace(/[^\\/]+$/, '') : '';
+}
+
+/**
+ * 从 Window.png 读取文字颜色
+ */
+function readPalette(texture: PIXI.Texture): string[] | null {
+  const source = textureManager.getTextureSource(texture);
+  if (!source) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = texture.baseTexture.width;
+  canvas.height = texture.baseTexture.height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(source, 0, 0);
+
+  const colors: string[] = [];
+  for (let i = 0; i < PALETTE_SIZE; i++) {
+    const { x, y } = getWindowTextColorPosition(i);
+    if (x >= canvas.width || y >= canvas.height) return null;
+    const [r, g, b] = context.getImageData(x, y, 1, 1).data;
+    colors.push(`rgb(${r}, ${g}, ${b})`);
+  }
+  return colors;
+}
+
+/**
+ * 图片或数据目录变化时重新加载文字颜色、变量名并清空图标
+ */
+function ensureResources(): void {
+  const state = StateManager.getState();
+  const dataDir = getDataDirectory();
+  const key = `${state.config.imagePath ?? ''}|${dataDir}`;
+  if (key === resourceKey) return;
+  resourceKey = key;
+  palette = DEFAULT_PALETTE;
+  variableNames = [];
+  iconTextures.clear();
+
+  if (state.config.imagePath) {
+    void textureManager.loadSystemTexture('Window').then((texture) => {
+      if (resourceKey !== key) return;
+      const colors = texture === PIXI.Texture.EMPTY ? null : readPalette(texture);
+      if (colors) {
+        palette = colors;
+        renderDescriptionPreview();
+      }
+    }).catch((error) => {
+      logger.warn('Failed to read window palette', { error }, 'DescriptionPreview');
+    });
+  }
+
+  if (dataDir) {
+    void DataLoaderService.loadSystem(`${dataDir}System.json`).then((result) => {
+      if (resourceKey !== key || !result.data) return;
+      variableNames = result.data.variables;
+      renderDescriptionPreview();
+    });
+  }
+}
+
+/**
+ * 获取图标纹理；尚未加载时开始加载，加载完成后重新渲染
+ */
+function getIconTexture(index: number): PIXI.Texture | null {
+  if (iconTextures.has(index)) return iconTextures.get(index) ?? null;
+  iconTextures.set(index, null);
+  const key = resourceKey;
+  void textureManager.loadIconTexture(index).then((texture) => {
+    if (resourceKey !== key || texture === PIXI.Texture.EMPTY) return;
+    iconTextures.set(index, texture);
+    renderDescriptionPreview();
+  });
+  return null;
+}
+
+// ============ 渲染 ============
+
+function measureText(text: string, fontSize: number): number {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+    if (!measureContext) return text.length * fontSize;
+  }
+  measureContext.font = `${fontSize}px ${GAME_FONT_FAMILY}`;
+  return measureContext.measureText(text).width;
+}
+
+function getHelpWidth(): number {
+  const value = parseInt(DOM.descriptionPreviewWidth?.value ?? '', 10);
+  return Number.isFinite(value) && value >= MIN_HELP_WIDTH ? value : DEFAULT_HELP_WIDTH;
+}
+
+/**
+ * 占位符显示的文本：角色名已加载时显示角色名
+ */
+function resolvePlaceholder(token: MessageToken): string {
+  if (token.type === 'actor') {
+    return getReferenceLabel('actor', token.id) ?? getPlaceholderText(token);
+  }
+  return getPlaceholderText(token);
+}
+
+function getPlaceholderTitle(token: MessageToken): string {
+  switch (token.type) {
+    case 'variable':
+      return `变量 ${token.id}${variableNames[token.id] ? `：${variableNames[token.id]}` : ''}`;
+    case 'actor':
+      return `角色 ${token.id} 的名字`;
+    case 'party':
+      return `队伍第 ${token.index} 位成员的名字`;
+    default:
+      return '货币单位';
+  }
+}
+
+function createIcon(index: number): HTMLElement {
+  const size = ICON_SIZE * PREVIEW_SCALE;
+  const canvas = document.createElement('canvas');
+  canvas.className = 'description-preview-icon inline-block align-text-bottom';
+  canvas.width = ICON_SIZE;
+  canvas.height = ICON_SIZE;
+  canvas.style.width = `${size}px`;
+  canvas.style.height = `${size}px`;
+  canvas.style.marginRight = `${(ICON_ADVANCE - ICON_SIZE) * PREVIEW_SCALE}px`;
+  canvas.title = `图标 ${index}`;
+
+  const texture = getIconTexture(index);
+  const source = texture ? textureManager.getTextureSource(texture) : null;
+  const context = source ? canvas.getContext('2d') : null;
+  if (texture && source && context) {
+    const { x, y, width, height } = texture.frame;
+    context.drawImage(source, x, y, width, height, 0, 0, ICON_SIZE, ICON_SIZE);
+  } else {
+    canvas.classList.add('bg-gray-700');
+  }
+  return canvas;
+}
+
+/**
+ * 渲染一行描述，超出帮助窗口宽度时标红
+ * @returns 行元素与超出的宽度
+ */
+function renderLine(tokens: readonly MessageToken[], helpWidth: number): { element: HTMLElement; overflow: number } {
+  const line = document.createElement('div');
+  line.className = 'description-preview-line relative whitespace-pre';
+  line.style.minHeight = `${GAME_FONT_SIZE * PREVIEW_SCALE * 1.5}px`;
+
+  let color = palette[0];
+  let fontSize = GAME_FONT_SIZE;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    switch (token.type) {
+      case 'color':
+        color = palette[token.index] ?? palette[0];
+        break;
+      case 'fontSize':
+        fontSize = applyFontSizeToken(fontSize, token);
+        break;
+      case 'icon':
+        line.appendChild(createIcon(token.index));
+        break;
+      case 'code':
+        if (!token.known) {
+          const code = document.createElement('span');
+          code.className = 'text-gray-600';
+          code.textContent = `\\${token.code}`;
+          code.title = '未知的控制字符（可能由插件提供）';
+          code.style.fontSize = `${fontSize * PREVIEW_SCALE}px`;
+          line.appendChild(code);
+        }
+        break;
+      default: {
+        const span = document.createElement('span');
+        span.style.color = color;
+        span.style.fontSize = `${fontSize * PREVIEW_SCALE}px`;
+        if (token.type === 'text') {
+          span.textContent = token.text;
+        } else {
+          span.className = 'rounded bg-gray-700/60';
+          span.textContent = resolvePlaceholder(token);
+          span.title = getPlaceholderTitle(token);
+        }
+        line.appendChild(span);
+      }
+    }
+  }
+
+  const width = measureMessageLine(tokens, {
+    fontSize: GAME_FONT_SIZE,
+    iconAdvance: ICON_ADVANCE,
+    measureText,
+    resolvePlaceholder,
+  });
+  const overflow = Math.max(0, Math.ceil(width - helpWidth));
+  if (overflow > 0) {
+    line.classList.add('bg-red-900/30');
+    line.title = `超出帮助窗口 ${overflow}px`;
+  }
+  return { element: line, overflow };
+}
+
+/**
+ * 按当前描述内容渲染预览
+ */
+export function renderDescriptionPreview(): void {
+  const container = DOM.descriptionPreview;
+  const description = DOM.noteDescription;
+  if (!container || !description) return;
+
+  container.innerHTML = '';
+  if (description.disabled || description.value.trim() === '') {
+    if (DOM.descriptionPreviewSummary) DOM.descriptionPreviewSummary.textContent = '';
+    return;
+  }
+
+  ensureResources();
+  loadReferenceOptions(['actor'], renderDescriptionPreview);
+
+  const helpWidth = getHelpWidth();
+  // 保存时会去掉空行，预览与之保持一致
+  const lines = description.value.split('\n').filter((line) => line.trim() !== '').map(parseMessageLine);
+  const content = document.createElement('div');
+  content.className = 'description-preview-content relative';
+  content.style.width = `${helpWidth * PREVIEW_SCALE}px`;
+  content.style.fontFamily = GAME_FONT_FAMILY;
+
+  let overflowLines = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const { element, overflow } = renderLine(lines[i], helpWidth);
+    if (overflow > 0) overflowLines++;
+    content.appendChild(element);
+  }
+
+  // 帮助窗口右边界
+  const guide = document.createElement('div');
+  guide.className = 'description-preview-guide absolute top-0 bottom-0 border-r border-dashed border-yellow-500/60 pointer-events-none';
+  guide.style.left = `${helpWidth * PREVIEW_SCALE}px`;
+  content.appendChild(guide);
+  container.appendChild(content);
+
+  if (DOM.descriptionPreviewSummary) {
+    DOM.descriptionPreviewSummary.textContent = overflowLines > 0 ? `${overflowLines} 行超出窗口宽度` : '';
+  }
+}
+
+// ============ 初始化 ============
+
+export function initDescriptionPreview(): void {
+  if (initialized) return;
+  initialized = true;
+  DOM.descriptionPreviewWidth?.addEventListener('input', renderDescriptionPreview);
+}
+
+export function disposeDescriptionPreview(): void {
+  if (!initialized) return;
+  initialized = false;
+  DOM.descriptionPreviewWidth?.removeEventListener('input', renderDescriptionPreview);
+  iconTextures.clear();
+  resourceKey = '';
+}
+
+export default {
+  init: initDescriptionPreview,
+  render: renderDescriptionPreview,
+  dispose: disposeDescriptionPreview,
+};
@@ -0,0 +1,128 @@
+/**
+ * FileTabBar - 文件标签栏
+ * 在编辑区上方显示所有已打开的数据文件，点击切换、点击 × 请求关闭
+ */
+
+import { DOM } from '../core/DOMManager';
+import { TabManager } from '../core/TabManager';
+import type { FileTab } from '../core/TabManager';
+import { EventSystem } from '../core/EventSystem';
+
+// ============ 常量 ============
+
+const TAB_BASE_CLASS = 'file-tab flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer border-r border-gray-700 whitespace-nowrap select-none';
+const TAB_ACTIVE_CLASS = 'bg-gray-800 text-cyan-300 border-b-2 border-b-cyan-400';
+const TAB_INACTIVE_CLASS = 'text-gray-400 hover:bg-gray-800 hover:text-gray-200';
+const DIRTY_MARKER = '●';
+
+// ============ 状态 ============
+
+let isInitialized = false;
+let unsubscribeTabs: (() => void) | null = null;
+
+// ============ 渲染函数 ============
+
+function createTabElement(tab: FileTab, active: boolean): HTMLDivElement {
+  const element = document.createElement('div');
+  element.className = `${TAB_BASE_CLASS} ${active ? TAB_ACTIVE_CLASS : TAB_INACTIVE_CLASS}`;
+  element.dataset.tabId = tab.id;
+  element.title = tab.filePath;
+
+  const name = document.createElement('span');
+  name.className = 'file-tab-name';
+  name.textContent = tab.fileName;
+  element.appendChild(name);
+
+  const dirty = document.createElement('span');
+  dirty.className = 'file-tab-dirty text-amber-400 text-xs';
+  dirty.textContent = DIRTY_MARKER;
+  dirty.title = '未保存的修改';
+  dirty.classList.toggle('hidden', !TabManager.isTabDirty(tab));
+  element.appendChild(dirty);
+
+  const close = document.createElement('button');
+  close.className = 'file-tab-close text-gray-500 hover:text-red-400 leading-none';
+  close.dataset.action = 'close';
+  close.textContent = '×';
+  close.title = '关闭';
+  element.appendChild(close);
+
+  return element;
+}
+
+export function renderFileTabs(): void {
+  const container = DOM.fileTabBar;
+  if (!container) return;
+
+  const tabs = TabManager.getTabs();
+  const active = TabManager.getActiveTab();
+
+  container.innerHTML = '';
+  container.classList.toggle('hidden', tabs.length === 0);
+
+  const fragment = document.createDocumentFragment();
+  for (let i = 0; i < tabs.length; i++) {
+    fragment.appendChild(createTabElement(tabs[i], tabs[i] === active));
+  }
+  container.appendChild(fragment);
+}
+
+// ============ 事件处理 ============
+
+function handleTabClick(e: MouseEvent): void {
+  const target = e.target as HTMLElement;
+  const element = target.closest<HTMLElement>('.file-tab');
+  const tabId = element?.dataset.tabId;
+  if (!tabId) return;
+
+  if (target.dataset.action === 'close') {
+    e.stopPropagation();
+    EventSystem.emit('tab:close-request', tabId);
+    return;
+  }
+  TabManager.activateTab(tabId);
+}
+
+function handleTabMouseDown(e: MouseEvent): void {
+  // 中键关闭标签页
+  if (e.button !== 1) return;
+  const element = (e.target as HTMLElement).closest<HTMLElement>('.file-tab');
+  const tabId = element?.dataset.tabId;
+  if (!tabId) return;
+  e.preventDefault();
+  EventSystem.emit('tab:close-request', tabId);
+}
+
+// ============ 初始化与清理 ============
+
+export function initFileTabBar(): void {
+  if (isInitialized) return;
+  isInitialized = true;
+
+  if (DOM.fileTabBar) {
+    DOM.fileTabBar.addEventListener('click', handleTabClick);
+    DOM.fileTabBar.addEventListener('mousedown', handleTabMouseDown);
+  }
+  unsubscribeTabs = TabManager.subscribe(() => renderFileTabs());
+  renderFileTabs();
+}
+
+export function disposeFileTabBar(): void {
+  if (!isInitialized) return;
+  isInitialized = false;
+
+  if (DOM.fileTabBar) {
+    DOM.fileTabBar.removeEventListener('click', handleTabClick);
+    DOM.fileTabBar.removeEventListener('mousedown', handleTabMouseDown);
+  }
+  if (unsubscribeTabs) {
+    unsubscribeTabs();
+    unsubscribeTabs = null;
+  }
+}
+
+export default {
+  init: initFileTabBar,
+  render: renderFileTabs,
+  dispose: disposeFileTabBar,
+};
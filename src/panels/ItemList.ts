@@ -11,21 +11,39 @@ import { acquireCard, releaseCard, acquireSpan, releaseSpan } from '../pools/DOM
 import { StateManager } from '../core/StateManager';
 import { EventSystem } from '../core/EventSystem';
 import { logger } from '../services/logger';
+import { IconSheetService } from '../services/IconSheetService';
 import { ObjectPool, Poolable } from '../pools/ObjectPool';
+import { delay } from '../utils/runner';
+import { parseItemQuery, isEmptyQuery, matchItem, type ItemQuery, type MatchRange } from './ItemSearch';
+
+const DIRTY_MARKER = '●';
+const HIGHLIGHT_CLASS = 'list-item-highlight bg-transparent text-amber-300 font-semibold';
+const SELECTED_CLASSES = ['selected', 'bg-cyan-950'];
+const DROP_BEFORE_CLASS = 'drag-over-top';
+const DROP_AFTER_CLASS = 'drag-over-bottom';
+const ICON_SIZE = 20;
 
 class ListItemEntry implements Poolable {
   element: HTMLDivElement | null = null;
   idElement: HTMLSpanElement | null = null;
+  iconElement: HTMLSpanElement | null = null;
   nameElement: HTMLSpanElement | null = null;
+  dirtyElement: HTMLSpanElement | null = null;
   dataIndex = -1;
+  /** 条目的图标编号，没有 iconIndex 字段时为 null */
+  iconIndex: number | null = null;
 
   init(): void {
     if (!this.element) {
       this.element = acquireCard();
       this.idElement = acquireSpan();
+      this.iconElement = acquireSpan();
       this.nameElement = acquireSpan();
+      this.dirtyElement = acquireSpan();
       this.element.appendChild(this.idElement);
+      this.element.appendChild(this.iconElement);
       this.element.appendChild(this.nameElement);
+      this.element.appendChild(this.dirtyElement);
     }
 
     this.element.className = 'list-item flex items-center gap-2 px-3 py-2 cursor-pointer hover:bg-gray-700 border-b border-gray-700';
@@ -35,13 +53,71 @@ class ListItemEntry implements Poolable {
     if (this.idElement) {
       this.idElement.className = 'list-item-id text-cyan-400 text-xs font-mono min-w-[40px]';
     }
+    if (this.iconElement) {
+      this.iconElement.className = 'list-item-icon shrink-0 hidden';
+    }
     if (this.nameElement) {
       this.nameElement.className = 'list-item-name text-gray-200 text-sm flex-1 truncate';
     }
+    if (this.dirtyElement) {
+      this.dirtyElement.className = 'list-item-dirty text-amber-400 text-xs hidden';
+      this.dirtyElement.textContent = DIRTY_MARKER;
+      this.dirtyElement.title = '未保存的修改';
+    }
+  }
+
+  /**
+   * 设置名称，并高亮搜索匹配到的区间
+   */
+  setName(name: string, ranges: readonly MatchRange[]): void {
+    if (!this.nameElement) return;
+
+    if (ranges.length === 0) {
+      this.nameElement.textContent = name;
+      return;
+    }
+
+    this.nameElement.textContent = '';
+    let cursor = 0;
+    for (let i = 0; i < ranges.length; i++) {
+      const [start, end] = ranges[i];
+      if (start > cursor) {
+        this.nameElement.appendChild(document.createTextNode(name.slice(cursor, start)));
+      }
+      const mark = document.createElement('mark');
+      mark.className = HIGHLIGHT_CLASS;
+      mark.textContent = name.slice(start, end);
+      this.nameElement.appendChild(mark);
+      cursor = end;
+    }
+    if (cursor < name.length) {
+      this.nameElement.appendChild(document.createTextNode(name.slice(cursor)));
+    }
+  }
+
+  /**
+   * 显示条目图标；图标集尚未加载或编号为 0 时保留空位，使名称对齐
+   */
+  setIcon(iconIndex: number | null): void {
+    this.iconIndex = iconIndex;
+    if (!this.iconElement) return;
+    this.iconElement.classList.toggle('hidden', iconIndex === null);
+    if (iconIndex === null) return;
+    this.iconElement.style.width = `${ICON_SIZE}px`;
+    this.iconElement.style.height = `${ICON_SIZE}px`;
+    this.iconElement.title = iconIndex > 0 ? `图标 ${iconIndex}` : '';
+    IconSheetService.applyIcon(this.iconElement, iconIndex, ICON_SIZE);
+  }
+
+  setDirty(dirty: boolean): void {
+    if (this.dirtyElement) {
+      this.dirtyElement.classList.toggle('hidden', !dirty);
+    }
   }
 
   reset(): void {
     this.dataIndex = -1;
+    this.iconIndex = null;
 
     if (this.idElement) {
       this.idElement.textContent = '';
@@ -50,7 +126,8 @@ class ListItemEntry implements Poolable {
       this.nameElement.textContent = '';
     }
     if (this.element) {
-      this.element.classList.remove('active', 'bg-cyan-900');
+      this.element.classList.remove('active', 'bg-cyan-900', 'dragging', DROP_BEFORE_CLASS, DROP_AFTER_CLASS, ...SELECTED_CLASSES);
+      this.element.draggable = false;
       delete this.element.dataset.index;
       this.element.remove();
     }
@@ -59,10 +136,21 @@ class ListItemEntry implements Poolable {
       releaseSpan(this.idElement);
       this.idElement = null;
     }
+    if (this.iconElement) {
+      this.iconElement.title = '';
+      releaseSpan(this.iconElement);
+      this.iconElement = null;
+    }
     if (this.nameElement) {
       releaseSpan(this.nameElement);
       this.nameElement = null;
     }
+    if (this.dirtyElement) {
+      this.dirtyElement.textContent = '';
+      this.dirtyElement.title = '';
+      releaseSpan(this.dirtyElement);
+      this.dirtyElement = null;
+    }
     if (this.element) {
       releaseCard(this.element);
       this.element = null;
@@ -78,6 +166,25 @@ const currentDataRef: Array<unknown> = [];
 let fileType = '';
 let eventsBound = false;
 let emptyStateElement: HTMLDivElement | null = null;
+let searchQuery: ItemQuery = parseItemQuery('');
+
+/** 多选：当前文件中被选中的条目索引，激活项始终包含在内 */
+const selectedIndices = new Set<number>();
+let selectionAnchor = -1;
+let selectionFilePath = '';
+
+/** 拖拽中的条目索引 */
+let draggedIndices: number[] = [];
+
+/** 待渲染的条目 */
+interface ListRow {
+  index: number;
+  displayIndex: number;
+  name: string;
+  iconIndex: number | null;
+  score: number;
+  ranges: MatchRange[];
+}
 
 function getListItem(): ListItemEntry {
   return listItemPool.get();
@@ -109,44 +216,82 @@ function copyCurrentDataRef(source: Array<unknown>): void {
   }
 }
 
-function getEmptyStateElement(): HTMLDivElement {
+function getEmptyStateElement(text = '数据为空'): HTMLDivElement {
   if (!emptyStateElement) {
     emptyStateElement = document.createElement('div');
     emptyStateElement.className = 'empty-state p-4 text-gray-500 text-center text-sm';
   }
-  emptyStateElement.textContent = '数据为空';
+  emptyStateElement.textContent = text;
   return emptyStateElement;
 }
 
-function renderListItems(listContainer: HTMLElement): void {
-  const fragment = document.createDocumentFragment();
+function compareRows(a: ListRow, b: ListRow): number {
+  return a.score - b.score || a.index - b.index;
+}
+
+/**
+ * 收集通过搜索过滤的条目；有名称查询时按匹配程度排序，否则保持数据顺序
+ */
+function collectRows(): { rows: ListRow[]; total: number } {
   const isQuest = fileType === 'quest';
   const isProjectile = fileType === 'projectile';
+  const filtering = !isEmptyQuery(searchQuery);
+  const rows: ListRow[] = [];
+  let total = 0;
 
   for (let i = 1; i < currentDataRef.length; i++) {
     const data = currentDataRef[i];
     if (data === null || data === undefined) {
       continue;
     }
-
-    const item = getListItem();
-    if (!item.element || !item.idElement || !item.nameElement) {
-      returnListItemToPool(item);
-      continue;
-    }
+    total++;
 
     const itemData = data as Record<string, unknown>;
     // 对于 quest 和 projectile 类型，使用数组索引 i 作为显示索引
     // 对于其他类型，使用数据中的 id 字段（如果存在）
     const displayIndex = (isQuest || isProjectile) ? i : ((itemData.id as number) || i);
-    const itemName = isQuest
+    const name = isQuest
       ? ((itemData.title as string) || `任务${i}`)
       : ((itemData.name as string) || '[无名]');
 
-    item.dataIndex = i;
-    item.element.dataset.index = String(i);
-    item.idElement.textContent = `#${displayIndex}`;
-    item.nameElement.textContent = itemName;
+    const iconIndex = typeof itemData.iconIndex === 'number' ? itemData.iconIndex : null;
+
+    if (!filtering) {
+      rows.push({ index: i, displayIndex, name, iconIndex, score: 0, ranges: [] });
+      continue;
+    }
+    const match = matchItem(searchQuery, itemData, displayIndex, name);
+    if (match) {
+      rows.push({ index: i, displayIndex, name, iconIndex, score: match.score, ranges: match.ranges });
+    }
+  }
+
+  if (searchQuery.text) {
+    rows.sort(compareRows);
+  }
+  return { rows, total };
+}
+
+function renderListItems(listContainer: HTMLElement, rows: readonly ListRow[]): void {
+  const fragment = document.createDocumentFragment();
+  // 按匹配度排序时显示顺序与编号无关，不允许拖拽
+  const draggable = !searchQuery.text;
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const item = getListItem();
+    if (!item.element || !item.idElement || !item.nameElement) {
+      returnListItemToPool(item);
+      continue;
+    }
+
+    item.dataIndex = row.index;
+    item.element.dataset.index = String(row.index);
+    item.element.draggable = draggable;
+    item.idElement.textContent = `#${row.displayIndex}`;
+    item.setName(row.name, row.ranges);
+    item.setIcon(row.iconIndex);
+    item.setDirty(StateManager.isItemDirty(row.index));
 
     fragment.appendChild(item.element);
     activeItems[activeItemCount++] = item;
@@ -155,6 +300,12 @@ function renderListItems(listContainer: HTMLElement): void {
   listContainer.appendChild(fragment);
 }
 
+function updateSearchCount(visible: number, total: number): void {
+  const countElement = DOM.itemSearchCount;
+  if (!countElement) return;
+  countElement.textContent = isEmptyQuery(searchQuery) ? '' : `${visible} / ${total}`;
+}
+
 function updateActiveHighlight(): void {
   const state = StateManager.getState();
   const selectedIndex = state.currentItemIndex;
@@ -165,19 +316,49 @@ function updateActiveHighlight(): void {
 
     if (item.dataIndex === selectedIndex) {
       item.element.classList.add('active', 'bg-cyan-900');
+      item.element.classList.remove(...SELECTED_CLASSES);
     } else {
       item.element.classList.remove('active', 'bg-cyan-900');
+      item.element.classList.toggle(SELECTED_CLASSES[0], selectedIndices.has(item.dataIndex));
+      item.element.classList.toggle(SELECTED_CLASSES[1], selectedIndices.has(item.dataIndex));
+    }
+  }
+}
+
+/** 图标集加载完成后补上已渲染条目的图标 */
+function handleIconSheetLoaded(): void {
+  for (let i = 0; i < activeItemCount; i++) {
+    const item = activeItems[i];
+    if (item && item.iconIndex !== null) {
+      item.setIcon(item.iconIndex);
     }
   }
 }
 
-function handleItemListClick(e: Event): void {
+function updateDirtyMarkers(): void {
+  for (let i = 0; i < activeItemCount; i++) {
+    const item = activeItems[i];
+    if (item) {
+      item.setDirty(StateManager.isItemDirty(item.dataIndex));
+    }
+  }
+}
+
+function handleItemListClick(e: MouseEvent): void {
   const target = e.target as HTMLElement;
   const listItem = target.closest('.list-item') as HTMLElement | null;
 
   if (listItem && listItem.dataset.index) {
     const index = parseInt(listItem.dataset.index, 10);
-    selectItem(index);
+    if (e.shiftKey) {
+      selectRange(index, e.ctrlKey || e.metaKey);
+    } else if (e.ctrlKey || e.metaKey) {
+      toggleSelection(index);
+    } else if (selectedIndices.size > 1) {
+      setItemSelection([index]);
+    } else {
+      selectItem(index);
+    }
   }
 }
 
@@ -193,24 +374,355 @@ export function displayItemList(): void {
   fileType = state.currentFileType || '';
 
   itemList.textContent = '';
+  bindListEvents(itemList);
 
   if (!currentData || currentData.length === 0) {
+    updateSearchCount(0, 0);
     itemList.appendChild(getEmptyStateElement());
     return;
   }
 
   copyCurrentDataRef(currentData as Array<unknown>);
-  renderListItems(itemList);
+  pruneSelection(state.currentFilePath);
+  const { rows, total } = collectRows();
+  updateSearchCount(rows.length, total);
+  if (rows.length === 0 && total > 0) {
+    itemList.appendChild(getEmptyStateElement('没有匹配的项目'));
+    return;
+  }
+  renderListItems(itemList, rows);
   updateActiveHighlight();
-
-  if (!eventsBound) {
-    itemList.addEventListener('click', handleItemListClick);
-    eventsBound = true;
+  if (rows.some((row) => row.iconIndex !== null)) {
+    void IconSheetService.load();
   }
 
   logger.debug('ItemList displayed', { count: activeItemCount }, 'ItemList');
 }
 
+function bindListEvents(itemList: HTMLElement): void {
+  if (eventsBound) return;
+  itemList.addEventListener('click', handleItemListClick);
+  itemList.addEventListener('keydown', handleListKeyDown);
+  itemList.addEventListener('dragstart', handleDragStart);
+  itemList.addEventListener('dragover', handleDragOver);
+  itemList.addEventListener('dragleave', handleDragLeave);
+  itemList.addEventListener('drop', handleDrop);
+  itemList.addEventListener('dragend', handleDragEnd);
+  eventsBound = true;
+}
+
+// ============ 拖拽排序 ============
+
+function getListItemElement(target: EventTarget | null): HTMLElement | null {
+  const element = (target as HTMLElement | null)?.closest?.('.list-item') as HTMLElement | null;
+  return element && element.dataset.index ? element : null;
+}
+
+function clearDropIndicators(): void {
+  for (let i = 0; i < activeItemCount; i++) {
+    activeItems[i]?.element?.classList.remove(DROP_BEFORE_CLASS, DROP_AFTER_CLASS);
+  }
+}
+
+/**
+ * 拖拽到条目的上半部分时放在它之前，否则放在它之后
+ */
+function isDropBefore(element: HTMLElement, e: DragEvent): boolean {
+  const rect = element.getBoundingClientRect();
+  return e.clientY < rect.top + rect.height / 2;
+}
+
+function handleDragStart(e: DragEvent): void {
+  const element = getListItemElement(e.target);
+  if (!element || !element.draggable) return;
+
+  // 拖拽多选中的条目时整体移动，否则只移动被拖拽的条目
+  const index = parseInt(element.dataset.index!, 10);
+  if (!selectedIndices.has(index) || selectedIndices.size <= 1) {
+    selectItem(index);
+  }
+  draggedIndices = getSelectedItemIndices();
+
+  e.dataTransfer?.setData('text/plain', draggedIndices.join(','));
+  if (e.dataTransfer) {
+    e.dataTransfer.effectAllowed = 'move';
+  }
+  delay(() => {
+    for (let i = 0; i < activeItemCount; i++) {
+      const item = activeItems[i];
+      if (item?.element && draggedIndices.includes(item.dataIndex)) {
+        item.element.classList.add('dragging');
+      }
+    }
+  }, 1);
+}
+
+function handleDragOver(e: DragEvent): void {
+  if (draggedIndices.length === 0) return;
+  const element = getListItemElement(e.target);
+  if (!element) return;
+
+  e.preventDefault();
+  if (e.dataTransfer) {
+    e.dataTransfer.dropEffect = 'move';
+  }
+  const before = isDropBefore(element, e);
+  clearDropIndicators();
+  element.classList.add(before ? DROP_BEFORE_CLASS : DROP_AFTER_CLASS);
+}
+
+function handleDragLeave(e: DragEvent): void {
+  if (!DOM.itemList?.contains(e.relatedTarget as Node | null)) {
+    clearDropIndicators();
+  }
+}
+
+function handleDrop(e: DragEvent): void {
+  const element = getListItemElement(e.target);
+  const indices = draggedIndices;
+  clearDropIndicators();
+  if (!element || indices.length === 0) return;
+
+  e.preventDefault();
+  const index = parseInt(element.dataset.index!, 10);
+  const targetIndex = isDropBefore(element, e) ? index : index + 1;
+  draggedIndices = [];
+  EventSystem.emit('item-list:move-request', { indices, targetIndex });
+}
+
+function handleDragEnd(): void {
+  draggedIndices = [];
+  clearDropIndicators();
+  for (let i = 0; i < activeItemCount; i++) {
+    activeItems[i]?.element?.classList.remove('dragging');
+  }
+}
+
+// ============ 搜索 ============
+
+/**
+ * 设置搜索查询并重新渲染列表
+ */
+export function setItemSearchQuery(input: string): void {
+  searchQuery = parseItemQuery(input);
+  if (DOM.itemSearchInput && DOM.itemSearchInput.value !== input) {
+    DOM.itemSearchInput.value = input;
+  }
+  displayItemList();
+}
+
+/**
+ * 获取当前列表中显示的条目索引（按显示顺序）
+ */
+export function getVisibleItemIndices(): number[] {
+  const indices: number[] = [];
+  for (let i = 0; i < activeItemCount; i++) {
+    indices.push(activeItems[i].dataIndex);
+  }
+  return indices;
+}
+
+/**
+ * 在过滤后的列表中上下移动选中项
+ * @param delta 1 为下一项，-1 为上一项
+ */
+export function moveItemSelection(delta: number): void {
+  if (activeItemCount === 0) return;
+
+  const selectedIndex = StateManager.getState().currentItemIndex;
+  let position = -1;
+  for (let i = 0; i < activeItemCount; i++) {
+    if (activeItems[i].dataIndex === selectedIndex) {
+      position = i;
+      break;
+    }
+  }
+
+  let next: number;
+  if (position === -1) {
+    next = delta > 0 ? 0 : activeItemCount - 1;
+  } else {
+    next = Math.min(Math.max(position + delta, 0), activeItemCount - 1);
+    if (next === position) return;
+  }
+  selectItem(activeItems[next].dataIndex);
+}
+
+function handleSearchInput(): void {
+  setItemSearchQuery(DOM.itemSearchInput?.value ?? '');
+}
+
+function handleNavigationKey(e: KeyboardEvent): boolean {
+  if (e.key === 'ArrowDown') {
+    moveItemSelection(1);
+  } else if (e.key === 'ArrowUp') {
+    moveItemSelection(-1);
+  } else {
+    return false;
+  }
+  e.preventDefault();
+  return true;
+}
+
+function handleSearchKeyDown(e: KeyboardEvent): void {
+  if (handleNavigationKey(e)) return;
+
+  if (e.key === 'Enter') {
+    e.preventDefault();
+    const visible = getVisibleItemIndices();
+    if (visible.length > 0 && !visible.includes(StateManager.getState().currentItemIndex)) {
+      selectItem(visible[0]);
+    }
+  } else if (e.key === 'Escape' && DOM.itemSearchInput?.value) {
+    e.preventDefault();
+    setItemSearchQuery('');
+  }
+}
+
+/**
+ * Alt + 方向键：请求将选中项目上移或下移一位（由主流程预览并重新编号）
+ */
+function requestMoveSelection(offset: number): void {
+  const indices = getSelectedItemIndices();
+  if (indices.length === 0) return;
+
+  const targetIndex = offset < 0 ? indices[0] - 1 : indices[indices.length - 1] + 2;
+  if (targetIndex < 1 || targetIndex > currentDataRef.length) return;
+  EventSystem.emit('item-list:move-request', { indices, targetIndex });
+}
+
+function handleListKeyDown(e: KeyboardEvent): void {
+  if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+    e.preventDefault();
+    requestMoveSelection(e.key === 'ArrowUp' ? -1 : 1);
+    return;
+  }
+  if (handleNavigationKey(e)) return;
+
+  if (e.key.toLowerCase() === 'a' && (e.ctrlKey || e.metaKey)) {
+    e.preventDefault();
+    setItemSelection(getVisibleItemIndices());
+  }
+}
+
+// ============ 多选 ============
+
+function emitSelectionChanged(): void {
+  EventSystem.emit('item-list:selection-changed', getSelectedItemIndices());
+}
+
+/**
+ * 切换文件或数据变化后移除失效的选中项
+ */
+function pruneSelection(filePath: string): void {
+  if (filePath !== selectionFilePath) {
+    selectionFilePath = filePath;
+    selectedIndices.clear();
+    selectionAnchor = -1;
+    return;
+  }
+
+  let changed = false;
+  for (const index of [...selectedIndices]) {
+    if (index >= currentDataRef.length || currentDataRef[index] === null || currentDataRef[index] === undefined) {
+      selectedIndices.delete(index);
+      changed = true;
+    }
+  }
+  if (changed) {
+    emitSelectionChanged();
+  }
+}
+
+/**
+ * Ctrl/Cmd + 点击：加入或移出选中集合
+ */
+function toggleSelection(index: number): void {
+  const currentIndex = StateManager.getState().currentItemIndex;
+  if (selectedIndices.size === 0 && currentIndex > 0) {
+    selectedIndices.add(currentIndex);
+  }
+  selectionAnchor = index;
+
+  if (selectedIndices.has(index) && selectedIndices.size > 1) {
+    selectedIndices.delete(index);
+    if (index === currentIndex) {
+      selectItem(Math.max(...selectedIndices));
+    } else {
+      updateActiveHighlight();
+    }
+    emitSelectionChanged();
+    return;
+  }
+
+  selectedIndices.add(index);
+  selectItem(index);
+  emitSelectionChanged();
+}
+
+/**
+ * Shift + 点击：按当前显示顺序选中锚点到点击项之间的所有条目
+ */
+function selectRange(index: number, additive: boolean): void {
+  const visible = getVisibleItemIndices();
+  const anchor = selectionAnchor > 0 ? selectionAnchor : StateManager.getState().currentItemIndex;
+  const from = visible.indexOf(anchor);
+  const to = visible.indexOf(index);
+  if (from === -1 || to === -1) {
+    selectItem(index);
+    return;
+  }
+
+  if (!additive) {
+    selectedIndices.clear();
+  }
+  const start = Math.min(from, to);
+  const end = Math.max(from, to);
+  for (let i = start; i <= end; i++) {
+    selectedIndices.add(visible[i]);
+  }
+  selectionAnchor = anchor;
+  selectItem(index);
+  emitSelectionChanged();
+}
+
+/**
+ * 获取选中的条目索引（升序）；没有多选时返回激活项
+ */
+export function getSelectedItemIndices(): number[] {
+  if (selectedIndices.size === 0) {
+    const currentIndex = StateManager.getState().currentItemIndex;
+    return currentIndex > 0 ? [currentIndex] : [];
+  }
+  return [...selectedIndices].sort((a, b) => a - b);
+}
+
+/**
+ * 用给定的条目替换选中集合，并激活其中最后一项
+ */
+export function setItemSelection(indices: readonly number[]): void {
+  selectedIndices.clear();
+  for (let i = 0; i < indices.length; i++) {
+    selectedIndices.add(indices[i]);
+  }
+  if (indices.length > 0) {
+    selectionAnchor = indices[0];
+    selectItem(indices[indices.length - 1]);
+  } else {
+    selectionAnchor = -1;
+    updateActiveHighlight();
+  }
+  emitSelectionChanged();
+}
+
+export function clearItemSelection(): void {
+  if (selectedIndices.size === 0) return;
+  selectedIndices.clear();
+  selectionAnchor = -1;
+  updateActiveHighlight();
+  emitSelectionChanged();
+}
+
 export function selectItem(index: number): void {
   const state = StateManager.getState();
   const currentData = state.currentData;
@@ -226,6 +738,15 @@ export function selectItem(index: number): void {
     return;
   }
 
+  // 选中集合之外的条目被选中时回到单选
+  if (!selectedIndices.has(index)) {
+    const hadSelection = selectedIndices.size > 1;
+    selectedIndices.clear();
+    selectedIndices.add(index);
+    selectionAnchor = index;
+    if (hadSelection) emitSelectionChanged();
+  }
+
   StateManager.selectItem(index);
   updateActiveHighlight();
 
@@ -267,6 +788,11 @@ export function refreshItemList(): void {
   displayItemList();
 }
 
+/** 条目名称等列表显示内容在其他面板中被修改 */
+function handleItemUpdated(): void {
+  displayItemList();
+}
+
 export async function handleCreateItem(): Promise<void> {
   const state = StateManager.getState();
   EventSystem.emit('item:create', { fileType: state.currentFileType });
@@ -299,6 +825,8 @@ export async function handleDeleteItem(): Promise<void> {
 
 export function initItemList(): void {
   StateManager.subscribe(onStateChanged);
+  EventSystem.on('item:updated', handleItemUpdated);
+  EventSystem.on('iconset:loaded', handleIconSheetLoaded);
 
   if (DOM.itemNewBtn) {
     DOM.itemNewBtn.addEventListener('click', handleCreateItem);
@@ -309,6 +837,10 @@ export function initItemList(): void {
   if (DOM.itemDeleteBtn) {
     DOM.itemDeleteBtn.addEventListener('click', handleDeleteItem);
   }
+  if (DOM.itemSearchInput) {
+    DOM.itemSearchInput.addEventListener('input', handleSearchInput);
+    DOM.itemSearchInput.addEventListener('keydown', handleSearchKeyDown);
+  }
 
   logger.info('ItemList initialized', undefined, 'ItemList');
 }
@@ -320,8 +852,25 @@ export function disposeItemList(): void {
   const itemList = DOM.itemList;
   if (itemList && eventsBound) {
     itemList.removeEventListener('click', handleItemListClick);
+    itemList.removeEventListener('keydown', handleListKeyDown);
+    itemList.removeEventListener('dragstart', handleDragStart);
+    itemList.removeEventListener('dragover', handleDragOver);
+    itemList.removeEventListener('dragleave', handleDragLeave);
+    itemList.removeEventListener('drop', handleDrop);
+    itemList.removeEventListener('dragend', handleDragEnd);
     eventsBound = false;
   }
+  if (DOM.itemSearchInput) {
+    DOM.itemSearchInput.removeEventListener('input', handleSearchInput);
+    DOM.itemSearchInput.removeEventListener('keydown', handleSearchKeyDown);
+  }
+  searchQuery = parseItemQuery('');
+  selectedIndices.clear();
+  selectionAnchor = -1;
+  selectionFilePath = '';
+  draggedIndices = [];
+  EventSystem.off('item:updated', handleItemUpdated);
+  EventSystem.off('iconset:loaded', handleIconSheetLoaded);
 
   if (DOM.itemNewBtn) {
     DOM.itemNewBtn.removeEventListener('click', handleCreateItem);
@@ -339,6 +888,8 @@ export function disposeItemList(): void {
 function onStateChanged(_state: unknown, changedKeys: string[]): void {
   if (changedKeys.includes('currentData') || changedKeys.includes('currentFileType')) {
     displayItemList();
+  } else if (changedKeys.includes('dirtyItems')) {
+    updateDirtyMarkers();
   }
 }
 
@@ -349,5 +900,10 @@ export default {
   markActive: markItemListActive,
   getSelected: getSelectedIndex,
   refresh: refreshItemList,
+  search: setItemSearchQuery,
+  moveSelection: moveItemSelection,
+  getSelection: getSelectedItemIndices,
+  setSelection: setItemSelection,
+  clearSelection: clearItemSelection,
   dispose: disposeItemList,
 };
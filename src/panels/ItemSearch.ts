@@ -0,0 +1,169 @@
+/**
+ * ItemSearch - 项目列表搜索
+ * 解析搜索框中的查询并匹配数据条目
+ *
+ * 查询语法（以空格分隔，条件之间为"与"关系）：
+ * - 普通文本：模糊匹配名称（连续子串优先，其次按顺序出现的字符）
+ * - #12 / #10-20：按 ID 或 ID 范围匹配
+ * - tag:名称：备注中含有该元数据标签
+ * - script:键：脚本中含有该键
+ */
+
+import { extractMetaData } from '../utils/metaDataExtractor';
+
+// ============ 类型定义 ============
+
+/** ID 范围（闭区间） */
+export interface IdRange {
+  min: number;
+  max: number;
+}
+
+/** 解析后的查询 */
+export interface ItemQuery {
+  text: string;
+  idRanges: IdRange[];
+  tags: string[];
+  scriptKeys: string[];
+}
+
+/** 名称中匹配到的字符区间 [start, end) */
+export type MatchRange = [number, number];
+
+/** 匹配结果 */
+export interface ItemMatch {
+  /** 越小越靠前 */
+  score: number;
+  ranges: MatchRange[];
+}
+
+// ============ 常量 ============
+
+const ID_QUERY_REGEX = /^#(\d+)(?:-(\d+))?$/;
+const TAG_PREFIX = 'tag:';
+const SCRIPT_PREFIX = 'script:';
+const WHITESPACE_REGEX = /\s+/;
+
+// ============ 解析 ============
+
+/**
+ * 解析搜索框中的查询
+ */
+export function parseItemQuery(input: string): ItemQuery {
+  const query: ItemQuery = { text: '', idRanges: [], tags: [], scriptKeys: [] };
+  const words: string[] = [];
+  const tokens = input.trim().split(WHITESPACE_REGEX);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token) continue;
+    const lower = token.toLowerCase();
+
+    const idMatch = ID_QUERY_REGEX.exec(token);
+    if (idMatch) {
+      const a = Number(idMatch[1]);
+      const b = idMatch[2] === undefined ? a : Number(idMatch[2]);
+      query.idRanges.push({ min: Math.min(a, b), max: Math.max(a, b) });
+    } else if (lower.startsWith(TAG_PREFIX) && token.length > TAG_PREFIX.length) {
+      query.tags.push(lower.slice(TAG_PREFIX.length));
+    } else if (lower.startsWith(SCRIPT_PREFIX) && token.length > SCRIPT_PREFIX.length) {
+      query.scriptKeys.push(lower.slice(SCRIPT_PREFIX.length));
+    } else {
+      words.push(token);
+    }
+  }
+
+  query.text = words.join(' ');
+  return query;
+}
+
+/**
+ * 查询是否为空（不过滤任何条目）
+ */
+export function isEmptyQuery(query: ItemQuery): boolean {
+  return !query.text && query.idRanges.length === 0 && query.tags.length === 0 && query.scriptKeys.length === 0;
+}
+
+// ============ 匹配 ============
+
+/**
+ * 模糊匹配：优先连续子串，否则要求查询字符按顺序出现在名称中
+ * @returns 匹配结果，不匹配时返回 null
+ */
+export function fuzzyMatch(pattern: string, text: string): ItemMatch | null {
+  if (!pattern) return { score: 0, ranges: [] };
+
+  const lowerText = text.toLowerCase();
+  const lowerPattern = pattern.toLowerCase();
+
+  const substringIndex = lowerText.indexOf(lowerPattern);
+  if (substringIndex !== -1) {
+    return { score: substringIndex, ranges: [[substringIndex, substringIndex + lowerPattern.length]] };
+  }
+
+  const ranges: MatchRange[] = [];
+  let textIndex = 0;
+  let gaps = 0;
+  for (let i = 0; i < lowerPattern.length; i++) {
+    const char = lowerPattern[i];
+    if (char === ' ') continue;
+
+    const found = lowerText.indexOf(char, textIndex);
+    if (found === -1) return null;
+
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === found) {
+      last[1] = found + 1;
+    } else {
+      if (last) gaps += found - last[1];
+      ranges.push([found, found + 1]);
+    }
+    textIndex = found + 1;
+  }
+
+  // 子串匹配总是排在字符匹配之前
+  return { score: text.length + ranges[0][0] + gaps * 2, ranges };
+}
+
+function matchesIdRanges(ranges: readonly IdRange[], id: number): boolean {
+  if (ranges.length === 0) return true;
+  for (let i = 0; i < ranges.length; i++) {
+    if (id >= ranges[i].min && id <= ranges[i].max) return true;
+  }
+  return false;
+}
+
+function matchesTags(tags: readonly string[], note: unknown): boolean {
+  if (tags.length === 0) return true;
+  if (typeof note !== 'string' || !note) return false;
+
+  const names = Object.keys(extractMetaData(note)).map((name) => name.toLowerCase());
+  for (let i = 0; i < tags.length; i++) {
+    if (!names.includes(tags[i])) return false;
+  }
+  return true;
+}
+
+function matchesScriptKeys(keys: readonly string[], scripts: unknown): boolean {
+  if (keys.length === 0) return true;
+  if (!scripts || typeof scripts !== 'object') return false;
+
+  const names = Object.keys(scripts).map((name) => name.toLowerCase());
+  for (let i = 0; i < keys.length; i++) {
+    if (!names.includes(keys[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * 用查询匹配一个条目
+ * @param displayId 列表中显示的 ID
+ * @param name 列表中显示的名称
+ * @returns 匹配结果，不匹配时返回 null
+ */
+export function matchItem(query: ItemQuery, item: Record<string, unknown>, displayId: number, name: string): ItemMatch | null {
+  if (!matchesIdRanges(query.idRanges, displayId)) return null;
+  if (!matchesTags(query.tags, item.note)) return null;
+  if (!matchesScriptKeys(query.scriptKeys, item.scripts)) return null;
+  return fuzzyMatch(query.text, name);
+}
@@ -1,16 +1,37 @@
 /**
  * MetaDataPanel - 元数据面板
- * 实现元数据解析和显示、标签值编辑
- * 复用现有的 metaDataExtractor.ts
+ * 实现元数据解析和显示、标签的添加、编辑、删除与排序
+ * 复用现有的 metaDataExtractor.ts，修改直接写回当前条目的 note 并同步到备注编辑器
  * 参考 oldCode/main.js 的 MetaDataItem 和 renderMetaDataPanel
- * 
+ *
  * Requirements: 15.1, 15.2, 15.3, 15.4
  */
 
 import { DOM, divPool, addClass, removeClass } from '../core/DOMManager';
 import { StateManager } from '../core/StateManager';
 import { EventSystem } from '../core/EventSystem';
-import { extractMetaData, type MetaData } from '../utils/metaDataExtractor';
+import { HistoryManager } from '../core/HistoryManager';
+import {
+  appendMetaTag,
+  extractMetaData,
+  formatBlockBody,
+  formatMetaValueInput,
+  getBlockBodyInput,
+  getMetaTagType,
+  getMetaValueType,
+  locateMetaTags,
+  moveMetaTag,
+  parseMetaValueInput,
+  removeMetaTagAt,
+  replaceMetaTagAt,
+  validateMetaTagName,
+  type MetaData,
+  type MetaTag,
+  type MetaTagLocation,
+  type MetaValueType,
+} from '../utils/metaDataExtractor';
+import { getNoteContent, isNoteDirty, setNoteContent } from './NotePanel';
+import { NoteTagDictionary, formatNoteTagDoc } from '../services/NoteTagDictionary';
 import { logger } from '../services/logger';
 
 // ============ 类型定义 ============
@@ -20,15 +41,42 @@ interface MetaDataItem {
   element: HTMLDivElement;
   nameElement: HTMLDivElement;
   valueElement: HTMLDivElement;
+  /** 所属插件或标签问题 */
+  pluginElement: HTMLDivElement;
+  upButton: HTMLButtonElement;
+  downButton: HTMLButtonElement;
   key: string;
 }
 
+// ============ 常量 ============
+
+const VALUE_TYPE_LABELS: Record<MetaValueType, string> = {
+  boolean: '布尔',
+  number: '数字',
+  string: '文本',
+  json: 'JSON',
+  block: '块',
+};
+
+const ACTION_BUTTON_CLASS = 'meta-data-action px-1.5 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded';
+const EDITOR_INPUT_CLASS = 'meta-editor-input theme-input w-full px-2 py-1 text-xs bg-gray-900 border border-gray-700 rounded';
+
 // ============ 对象池 ============
 
 /** 元数据项池 */
 const metaItemPool: MetaDataItem[] = [];
 let metaItemPoolIndex = 0;
 
+function createActionButton(action: string, text: string, title: string): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = ACTION_BUTTON_CLASS;
+  button.dataset.action = action;
+  button.textContent = text;
+  button.title = title;
+  return button;
+}
+
 /**
  * 获取元数据项
  */
@@ -36,20 +84,39 @@ function getMetaItem(): MetaDataItem {
   if (metaItemPoolIndex > 0) {
     return metaItemPool[--metaItemPoolIndex];
   }
-  
+
   const element = divPool.get();
-  element.className = 'meta-data-item flex justify-between items-start p-2 border-b border-gray-700 hover:bg-gray-800';
-  
+  element.className = 'meta-data-item flex flex-col gap-1 p-2 border-b border-gray-700 hover:bg-gray-800';
+
+  const header = document.createElement('div');
+  header.className = 'flex justify-between items-center gap-2';
+
   const nameElement = document.createElement('div') as HTMLDivElement;
-  nameElement.className = 'meta-data-name text-cyan-400 font-medium text-sm min-w-[100px]';
-  
+  nameElement.className = 'meta-data-name text-cyan-400 font-medium text-sm min-w-0 truncate';
+
+  const actions = document.createElement('div');
+  actions.className = 'meta-data-actions flex gap-1 flex-shrink-0';
+  const upButton = createActionButton('up', '↑', '上移');
+  const downButton = createActionButton('down', '↓', '下移');
+  actions.appendChild(upButton);
+  actions.appendChild(downButton);
+  actions.appendChild(createActionButton('edit', '编辑', '编辑（双击）'));
+  actions.appendChild(createActionButton('remove', '✕', '删除'));
+
+  header.appendChild(nameElement);
+  header.appendChild(actions);
+
+  const pluginElement = document.createElement('div') as HTMLDivElement;
+  pluginElement.className = 'meta-data-plugin text-xs truncate';
+
   const valueElement = document.createElement('div') as HTMLDivElement;
-  valueElement.className = 'meta-data-value text-gray-300 text-sm flex-1 text-right break-all';
-  
-  element.appendChild(nameElement);
+  valueElement.className = 'meta-data-value text-gray-300 text-sm break-all whitespace-pre-wrap';
+
+  element.appendChild(header);
+  element.appendChild(pluginElement);
   element.appendChild(valueElement);
-  
-  return { element, nameElement, valueElement, key: '' };
+
+  return { element, nameElement, valueElement, pluginElement, upButton, downButton, key: '' };
 }
 
 /**
@@ -59,7 +126,10 @@ function returnMetaItem(item: MetaDataItem): void {
   item.key = '';
   item.nameElement.textContent = '';
   item.valueElement.textContent = '';
+  item.pluginElement.textContent = '';
+  item.element.title = '';
   removeClass(item.element, 'editing');
+  removeClass(item.element, 'bg-cyan-900/30');
   metaItemPool[metaItemPoolIndex++] = item;
 }
 
@@ -72,9 +142,66 @@ let currentItemCount = 0;
 /** 当前解析的元数据 */
 let currentMeta: MetaData = {};
 
+/** 当前 note 中的标签（按出现顺序，允许重名） */
+let currentTags: MetaTagLocation[] = [];
+
+/** 正在编辑的标签下标，-1 表示新增，null 表示未在编辑 */
+let editingIndex: number | null = null;
+
+/** 最近选择的标签名 */
+let selectedKey: string | null = null;
+
 /** 事件监听器是否已绑定 */
 let eventsBound = false;
 
+// ============ 工具函数 ============
+
+function getCurrentRecord(): Record<string, unknown> | null {
+  return StateManager.getState().currentItem as unknown as Record<string, unknown> | null;
+}
+
+/**
+ * 与备注面板一致：有 note 或 params 的项目才能编辑备注
+ */
+function canEditNote(item: Record<string, unknown>): boolean {
+  return 'note' in item || 'params' in item;
+}
+
+/**
+ * 读取当前 note；备注编辑器有尚未同步的输入时以编辑器内容为准
+ */
+function getSourceNote(item: Record<string, unknown>): string {
+  if (isNoteDirty()) return getNoteContent();
+  return typeof item.note === 'string' ? item.note : '';
+}
+
+/**
+ * 修改当前条目的 note，记录历史并同步备注编辑器
+ */
+function commitNote(update: (note: string) => string, label: string): void {
+  const state = StateManager.getState();
+  const item = getCurrentRecord();
+  if (!item || !canEditNote(item)) {
+    EventSystem.emit('error:show', '该项目没有note属性，无法编辑元数据');
+    return;
+  }
+
+  const source = getSourceNote(item);
+  const note = update(source);
+  editingIndex = null;
+  if (note === source && item.note === source) {
+    renderMetaDataPanel();
+    return;
+  }
+
+  item.note = note;
+  if (HistoryManager.recordItem(state.currentItemIndex, label)) {
+    EventSystem.emit('item:updated', state.currentItemIndex);
+  }
+  setNoteContent(note);
+  renderMetaDataPanel();
+}
+
 // ============ 元数据渲染 ============
 
 /**
@@ -83,7 +210,7 @@ let eventsBound = false;
 export function renderMetaDataPanel(): void {
   const metaDataList = DOM.metaDataList;
   if (!metaDataList) return;
-  
+
   // 回收现有项
   for (let i = 0; i < currentItemCount; i++) {
     const item = currentItems[i];
@@ -93,53 +220,87 @@ export function renderMetaDataPanel(): void {
     returnMetaItem(item);
   }
   currentItemCount = 0;
-  
+
   // 获取当前项目
   const state = StateManager.getState();
-  const currentItem = state.currentItem;
-  
+  const currentItem = getCurrentRecord();
+  const editable = currentItem !== null && canEditNote(currentItem);
+  if (DOM.metaDataAddBtn) {
+    DOM.metaDataAddBtn.disabled = !editable;
+  }
+
   if (!currentItem) {
+    editingIndex = null;
+    currentTags = [];
+    currentMeta = {};
     metaDataList.innerHTML = '<div class="empty-state p-4 text-gray-500 text-center text-sm">选择项目以查看元数据</div>';
     return;
   }
-  
+
+  if (state.currentFilePath) {
+    void NoteTagDictionary.ensureLoaded(state.currentFilePath, state.config.projectPath);
+  }
+
   // 从 note 字段解析元数据
-  const note = 'note' in currentItem ? (currentItem.note as string) : '';
+  const note = typeof currentItem.note === 'string' ? currentItem.note : '';
   currentMeta = extractMetaData(note);
-  
-  const metaKeys = Object.keys(currentMeta);
-  
-  if (metaKeys.length === 0) {
+  currentTags = locateMetaTags(note);
+
+  // 清空列表
+  metaDataList.innerHTML = '';
+
+  if (currentTags.length === 0 && editingIndex === null) {
     metaDataList.innerHTML = '<div class="empty-state p-4 text-gray-500 text-center text-sm">暂无元数据</div>';
+    setupMetaListDelegate();
     return;
   }
-  
-  // 清空列表
-  metaDataList.innerHTML = '';
-  
+
   // 使用 Fragment 优化 DOM 插入
   const fragment = document.createDocumentFragment();
-  
-  for (let i = 0; i < metaKeys.length; i++) {
-    const key = metaKeys[i];
-    const value = currentMeta[key];
+
+  for (let i = 0; i < currentTags.length; i++) {
+    const tag = currentTags[i];
+    if (i === editingIndex) {
+      fragment.appendChild(createEditor(tag));
+      continue;
+    }
+
     const item = getMetaItem();
-    
-    item.key = key;
-    item.nameElement.textContent = key;
-    item.valueElement.textContent = formatValue(value);
-    item.element.dataset.metaKey = key;
-    
+    item.key = tag.name;
+    item.nameElement.textContent = `${tag.name} · ${VALUE_TYPE_LABELS[getMetaTagType(tag)]}`;
+    item.valueElement.textContent = tag.body !== undefined ? getBlockBodyInput(tag.body) : formatValue(tag.value);
+    renderPluginInfo(item, tag);
+    item.element.dataset.metaKey = tag.name;
+    item.element.dataset.metaIndex = String(i);
+    item.upButton.disabled = i === 0;
+    item.downButton.disabled = i === currentTags.length - 1;
+
     currentItems[currentItemCount++] = item;
     fragment.appendChild(item.element);
   }
-  
+  if (editingIndex === -1) {
+    fragment.appendChild(createEditor(null));
+  }
+
   metaDataList.appendChild(fragment);
-  
+
   // 设置事件委托
   setupMetaListDelegate();
-  
-  logger.debug('MetaDataPanel rendered', { count: metaKeys.length }, 'MetaDataPanel');
+
+  logger.debug('MetaDataPanel rendered', { count: currentTags.length }, 'MetaDataPanel');
+}
+
+/**
+ * 显示标签所属插件；字典中没有或写法不符时显示提示，悬停显示插件说明
+ */
+function renderPluginInfo(item: MetaDataItem, tag: MetaTag): void {
+  const definitions = NoteTagDictionary.getDefinitions(tag.name);
+  const issue = NoteTagDictionary.checkTag(tag);
+  const plugins = [...new Set(definitions.map((definition) => definition.plugin))].join(', ');
+  item.pluginElement.textContent = issue ? `⚠ ${issue.message}` : plugins;
+  item.pluginElement.classList.toggle('text-yellow-400', issue !== null);
+  item.pluginElement.classList.toggle('text-gray-500', issue === null);
+  item.element.title = definitions.length > 0 ? formatNoteTagDoc(definitions) : '';
 }
 
 /**
@@ -149,42 +310,225 @@ function formatValue(value: unknown): string {
   if (value === null || value === undefined) {
     return 'null';
   }
-  
+
   if (typeof value === 'object') {
     if (Array.isArray(value)) {
       return JSON.stringify(value);
     }
     return JSON.stringify(value, null, 2);
   }
-  
+
   if (typeof value === 'boolean') {
     return value ? '✓ true' : '✗ false';
   }
-  
+
   return String(value);
 }
 
+// ============ 标签编辑器 ============
+
+/**
+ * 按类型创建值编辑控件
+ */
+function createValueInput(type: MetaValueType, tag: MetaTag | null): HTMLElement {
+  const value = tag ? tag.value : null;
+  if (type === 'boolean') {
+    const label = document.createElement('label');
+    label.className = 'flex items-center gap-2 text-xs text-gray-300';
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.className = 'meta-editor-value';
+    checkbox.checked = value === null ? true : value === true;
+    label.appendChild(checkbox);
+    label.appendChild(document.createTextNode('为 true 时写作 <标签名>'));
+    return label;
+  }
+  if (type === 'json') {
+    const textarea = document.createElement('textarea');
+    textarea.className = `meta-editor-value ${EDITOR_INPUT_CLASS} font-mono`;
+    textarea.rows = 4;
+    textarea.spellcheck = false;
+    textarea.value = value !== null && typeof value === 'object' ? formatMetaValueInput(value) : '{}';
+    return textarea;
+  }
+  if (type === 'block') {
+    const textarea = document.createElement('textarea');
+    textarea.className = `meta-editor-value ${EDITOR_INPUT_CLASS} font-mono`;
+    textarea.rows = 6;
+    textarea.spellcheck = false;
+    textarea.placeholder = '每行一个 key: value，或任意多行文本';
+    if (tag?.body !== undefined) {
+      textarea.value = getBlockBodyInput(tag.body);
+    } else if (value !== null && (typeof value === 'string' || typeof value === 'object')) {
+      textarea.value = getBlockBodyInput(formatBlockBody(value));
+    }
+    return textarea;
+  }
+  const input = document.createElement('input');
+  input.type = type === 'number' ? 'number' : 'text';
+  input.step = 'any';
+  input.className = `meta-editor-value ${EDITOR_INPUT_CLASS}`;
+  input.value = value !== null && getMetaValueType(value) === type ? formatMetaValueInput(value) : '';
+  return input;
+}
+
+function createEditor(tag: MetaTag | null): HTMLDivElement {
+  const editor = document.createElement('div');
+  editor.className = 'meta-editor flex flex-col gap-2 p-2 border-b border-cyan-800 bg-gray-900/60';
+
+  const row = document.createElement('div');
+  row.className = 'flex gap-2';
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.className = `meta-editor-name ${EDITOR_INPUT_CLASS}`;
+  nameInput.placeholder = '标签名';
+  nameInput.value = tag?.name ?? '';
+  const typeSelect = document.createElement('select');
+  typeSelect.className = `meta-editor-type ${EDITOR_INPUT_CLASS} w-auto`;
+  const type = tag ? getMetaTagType(tag) : 'boolean';
+  (Object.keys(VALUE_TYPE_LABELS) as MetaValueType[]).forEach((key) => {
+    const option = document.createElement('option');
+    option.value = key;
+    option.textContent = VALUE_TYPE_LABELS[key];
+    typeSelect.appendChild(option);
+  });
+  typeSelect.value = type;
+  row.appendChild(nameInput);
+  row.appendChild(typeSelect);
+  editor.appendChild(row);
+
+  const valueWrapper = document.createElement('div');
+  valueWrapper.className = 'meta-editor-value-wrapper';
+  valueWrapper.appendChild(createValueInput(type, tag));
+  editor.appendChild(valueWrapper);
+
+  const error = document.createElement('div');
+  error.className = 'meta-editor-error hidden text-xs text-red-400';
+  editor.appendChild(error);
+
+  const actions = document.createElement('div');
+  actions.className = 'flex justify-end gap-1';
+  actions.appendChild(createActionButton('cancel', '取消', '取消（Esc）'));
+  const save = createActionButton('save', '确定', '确定（Enter）');
+  save.classList.add('bg-cyan-700');
+  actions.appendChild(save);
+  editor.appendChild(actions);
+
+  // 聚焦在渲染完成后进行
+  queueMicrotask(() => nameInput.focus());
+  return editor;
+}
+
+function showEditorError(editor: HTMLElement, message: string): void {
+  const error = editor.querySelector('.meta-editor-error');
+  if (!error) return;
+  error.textContent = message;
+  error.classList.remove('hidden');
+}
+
+/**
+ * 读取编辑器内容并写回 note
+ */
+function saveEditor(editor: HTMLElement): void {
+  const name = (editor.querySelector('.meta-editor-name') as HTMLInputElement | null)?.value.trim() ?? '';
+  const type = ((editor.querySelector('.meta-editor-type') as HTMLSelectElement | null)?.value ?? 'string') as MetaValueType;
+  const input = editor.querySelector('.meta-editor-value') as HTMLInputElement | HTMLTextAreaElement | null;
+
+  const nameError = validateMetaTagName(name);
+  if (nameError) {
+    showEditorError(editor, nameError);
+    return;
+  }
+  const duplicate = currentTags.findIndex((tag, i) => tag.name === name && i !== editingIndex);
+  if (duplicate >= 0) {
+    showEditorError(editor, `标签 ${name} 已存在`);
+    return;
+  }
+
+  const raw = type === 'boolean' ? (input as HTMLInputElement | null)?.checked ?? true : input?.value ?? '';
+  const result = parseMetaValueInput(type, raw);
+  if (!result.ok) {
+    showEditorError(editor, result.error);
+    return;
+  }
+
+  if (result.body?.includes(`</${name}>`)) {
+    showEditorError(editor, `块内容不能包含 </${name}>`);
+    return;
+  }
+
+  const tag: MetaTag = { name, value: result.value, body: result.body };
+  const index = editingIndex;
+  if (index === null || index < 0) {
+    commitNote((note) => appendMetaTag(note, tag), `添加标签 <${name}>`);
+  } else {
+    commitNote((note) => replaceMetaTagAt(note, index, tag), `修改标签 <${name}>`);
+  }
+}
+
+function cancelEditor(): void {
+  editingIndex = null;
+  renderMetaDataPanel();
+}
+
+// ============ 事件处理 ============
+
 /**
  * 设置元数据列表事件委托
  */
 function setupMetaListDelegate(): void {
   const metaDataList = DOM.metaDataList;
   if (!metaDataList || eventsBound) return;
-  
+
   metaDataList.addEventListener('click', handleMetaListClick);
   metaDataList.addEventListener('dblclick', handleMetaListDblClick);
+  metaDataList.addEventListener('change', handleMetaListChange);
+  metaDataList.addEventListener('keydown', handleMetaListKeydown);
   eventsBound = true;
 }
 
+function getMetaIndex(target: HTMLElement): number {
+  const metaItem = target.closest('.meta-data-item') as HTMLElement | null;
+  return metaItem?.dataset.metaIndex ? parseInt(metaItem.dataset.metaIndex, 10) : -1;
+}
+
 /**
  * 处理元数据列表点击
  */
 function handleMetaListClick(e: Event): void {
   const target = e.target as HTMLElement;
-  const metaItem = target.closest('.meta-data-item') as HTMLElement | null;
-  
-  if (metaItem && metaItem.dataset.metaKey) {
-    selectMetaItem(metaItem.dataset.metaKey);
+  const button = target.closest('[data-action]') as HTMLButtonElement | null;
+  const editor = target.closest('.meta-editor') as HTMLElement | null;
+
+  if (button && editor) {
+    if (button.dataset.action === 'save') saveEditor(editor);
+    if (button.dataset.action === 'cancel') cancelEditor();
+    return;
+  }
+
+  const index = getMetaIndex(target);
+  if (index < 0) return;
+
+  if (!button) {
+    selectMetaItem(currentTags[index].name);
+    return;
+  }
+  if (button.disabled) return;
+
+  const name = currentTags[index].name;
+  switch (button.dataset.action) {
+    case 'edit':
+      editMetaItem(index);
+      break;
+    case 'remove':
+      commitNote((note) => removeMetaTagAt(note, index), `删除标签 <${name}>`);
+      break;
+    case 'up':
+    case 'down': {
+      const targetIndex = button.dataset.action === 'up' ? index - 1 : index + 1;
+      commitNote((note) => moveMetaTag(note, index, targetIndex), `移动标签 <${name}>`);
+      break;
+    }
   }
 }
 
@@ -192,18 +536,63 @@ function handleMetaListClick(e: Event): void {
  * 处理元数据列表双击（编辑）
  */
 function handleMetaListDblClick(e: Event): void {
+  const index = getMetaIndex(e.target as HTMLElement);
+  if (index >= 0) {
+    editMetaItem(index);
+  }
+}
+
+/**
+ * 切换值类型时替换值编辑控件，尽量保留已输入的内容
+ */
+function handleMetaListChange(e: Event): void {
+  const select = e.target as HTMLSelectElement;
+  if (!select.classList.contains('meta-editor-type')) return;
+  const wrapper = select.closest('.meta-editor')?.querySelector('.meta-editor-value-wrapper');
+  if (!wrapper) return;
+
+  const previous = wrapper.querySelector('.meta-editor-value') as HTMLInputElement | null;
+  const type = select.value as MetaValueType;
+  const parsed = previous && previous.type !== 'checkbox' ? parseMetaValueInput(type, previous.value) : null;
+  wrapper.innerHTML = '';
+  wrapper.appendChild(createValueInput(type, parsed?.ok ? { name: '', value: parsed.value, body: parsed.body } : null));
+}
+
+function handleMetaListKeydown(e: KeyboardEvent): void {
   const target = e.target as HTMLElement;
-  const metaItem = target.closest('.meta-data-item') as HTMLElement | null;
-  
-  if (metaItem && metaItem.dataset.metaKey) {
-    editMetaItem(metaItem.dataset.metaKey);
+  const editor = target.closest('.meta-editor') as HTMLElement | null;
+  if (!editor) return;
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    e.stopPropagation();
+    cancelEditor();
+  } else if (e.key === 'Enter' && !(target instanceof HTMLTextAreaElement)) {
+    e.preventDefault();
+    saveEditor(editor);
+  }
+}
+
+/**
+ * 插件标签字典加载完成后刷新插件标注，编辑中不打断输入
+ */
+function handleNoteTagsChanged(): void {
+  if (editingIndex === null) {
+    renderMetaDataPanel();
   }
 }
 
+function handleAddClick(): void {
+  const item = getCurrentRecord();
+  if (!item || !canEditNote(item)) return;
+  editingIndex = -1;
+  renderMetaDataPanel();
+}
+
 /**
  * 选择元数据项
  */
 function selectMetaItem(key: string): void {
+  selectedKey = key;
   // 更新高亮
   for (let i = 0; i < currentItemCount; i++) {
     const item = currentItems[i];
@@ -213,43 +602,48 @@ function selectMetaItem(key: string): void {
       removeClass(item.element, 'bg-cyan-900/30');
     }
   }
-  
+
   EventSystem.emit('metadata:selected', key);
 }
 
 /**
- * 编辑元数据项
+ * 编辑元数据项：在列表中展开该标签的编辑器
  */
-function editMetaItem(key: string): void {
-  const value = currentMeta[key];
-  
-  // 触发编辑事件，由外部处理对话框
-  EventSystem.emit('metadata:edit', { key, value });
-  
-  logger.debug('Edit metadata requested', { key }, 'MetaDataPanel');
+function editMetaItem(index: number): void {
+  const item = getCurrentRecord();
+  if (!item || !canEditNote(item) || !currentTags[index]) return;
+  editingIndex = index;
+  renderMetaDataPanel();
+
+  logger.debug('Edit metadata requested', { key: currentTags[index].name }, 'MetaDataPanel');
 }
 
 /**
- * 更新元数据值
+ * 更新元数据值，写回当前条目的 note
  */
 export function updateMetaValue(key: string, newValue: unknown): void {
-  currentMeta[key] = newValue as MetaData[string];
-  
-  // 更新显示
-  for (let i = 0; i < currentItemCount; i++) {
-    const item = currentItems[i];
-    if (item.key === key) {
-      item.valueElement.textContent = formatValue(newValue);
-      break;
-    }
+  const index = currentTags.findIndex((tag) => tag.name === key);
+  const value = newValue as MetaTag['value'];
+  const tag: MetaTag = { name: key, value };
+  // 块标签写入文本或对象时保持块格式
+  if (index >= 0 && currentTags[index].body !== undefined && (typeof value === 'string' || (typeof value === 'object' && value !== null))) {
+    tag.body = formatBlockBody(value);
   }
-  
-  // 触发变更事件
-  EventSystem.emit('metadata:changed', { key, value: newValue });
-  
+  commitNote(
+    (note) => (index >= 0 ? replaceMetaTagAt(note, index, tag) : appendMetaTag(note, tag)),
+    `修改标签 <${key}>`
+  );
+
   logger.debug('Metadata value updated', { key }, 'MetaDataPanel');
 }
 
+/**
+ * 获取当前选中的标签名，当前条目中已没有该标签时返回 undefined
+ */
+export function getSelectedMetaKey(): string | undefined {
+  return selectedKey !== null && currentTags.some((tag) => tag.name === selectedKey) ? selectedKey : undefined;
+}
+
 /**
  * 获取当前元数据
  */
@@ -266,15 +660,18 @@ export function initMetaDataPanel(): void {
   // 订阅状态变更
   StateManager.subscribe((_state, changedKeys) => {
     if (changedKeys.includes('currentItem') || changedKeys.includes('currentItemIndex')) {
+      editingIndex = null;
       renderMetaDataPanel();
     }
   });
-  
-  // 监听备注保存事件，重新解析元数据
-  EventSystem.on('note:saved', () => {
-    renderMetaDataPanel();
-  });
-  
+
+  // 监听备注保存与同步事件，重新解析元数据
+  EventSystem.on('note:saved', renderMetaDataPanel);
+  EventSystem.on('note:synced', renderMetaDataPanel);
+  EventSystem.on('note-tags:changed', handleNoteTagsChanged);
+
+  DOM.metaDataAddBtn?.addEventListener('click', handleAddClick);
+
   logger.info('MetaDataPanel initialized', undefined, 'MetaDataPanel');
 }
 
@@ -290,15 +687,23 @@ export function disposeMetaDataPanel(): void {
   }
   currentItemCount = 0;
   currentMeta = {};
-  
+  currentTags = [];
+  editingIndex = null;
+
   // 移除事件监听
   const metaDataList = DOM.metaDataList;
   if (metaDataList && eventsBound) {
     metaDataList.removeEventListener('click', handleMetaListClick);
     metaDataList.removeEventListener('dblclick', handleMetaListDblClick);
+    metaDataList.removeEventListener('change', handleMetaListChange);
+    metaDataList.removeEventListener('keydown', handleMetaListKeydown);
     eventsBound = false;
   }
-  
+  EventSystem.off('note:saved', renderMetaDataPanel);
+  EventSystem.off('note:synced', renderMetaDataPanel);
+  EventSystem.off('note-tags:changed', handleNoteTagsChanged);
+  DOM.metaDataAddBtn?.removeEventListener('click', handleAddClick);
+
   logger.info('MetaDataPanel disposed', undefined, 'MetaDataPanel');
 }
 
@@ -307,5 +712,6 @@ export default {
   render: renderMetaDataPanel,
   updateValue: updateMetaValue,
   getMeta: getCurrentMeta,
+  getSelectedKey: getSelectedMetaKey,
   dispose: disposeMetaDataPanel,
 };
@@ -13,6 +13,8 @@ import { logger } from '../services/logger';
 import { delay } from '../utils/runner';
 import { themeManager } from '../theme/ThemeManager';
 import { visualEffects } from '../theme/effects/VisualEffects';
+import { disposeDescriptionPreview, initDescriptionPreview, renderDescriptionPreview } from './DescriptionPreview';
+import { disposeNoteTagAssist, initNoteTagAssist, refreshNoteTagInfo, renderNoteTagAssist } from './NoteTagAssist';
 
 let inputListenerBound = false;
 let noteDirty = false;
@@ -83,6 +85,7 @@ export function renderNotePanel(): void {
     charCount = 0;
     lineCount = 0;
     updateStatusBar();
+    renderNoteTagAssist();
     return;
   }
   
@@ -95,6 +98,7 @@ export function renderNotePanel(): void {
     updateNoteStatus(`当前项目: ${name} (ID: ${id}) - 该项目没有note属性，无法编辑`);
     setNoteEditorState('', true);
     setDescriptionState('', true);
+    renderNoteTagAssist();
     return;
   }
   
@@ -117,6 +121,7 @@ export function renderNotePanel(): void {
   setupInputListener();
   noteDirty = false;
   updateCharCount();
+  renderNoteTagAssist();
   
   logger.debug('NotePanel rendered', undefined, 'NotePanel');
 }
@@ -149,6 +154,7 @@ function setDescriptionState(value: string, disabled: boolean): void {
   }
   
   setDisabled(DOM.saveDescriptionBtn, disabled);
+  renderDescriptionPreview();
 }
 
 function setupInputListener(): void {
@@ -176,6 +182,7 @@ function handleNoteInput(): void {
 function handleDescriptionInput(): void {
   noteDirty = true;
   updateCharCount();
+  renderDescriptionPreview();
   EventSystem.emit('note:dirty');
   scheduleAutoSave();
 }
@@ -192,6 +199,18 @@ export function isNoteDirty(): boolean {
   return noteDirty;
 }
 
+/**
+ * 由其他面板（如元数据面板）修改 note 后同步编辑器内容
+ * 不改变未保存状态，描述中尚未自动保存的输入仍会随下次自动保存写回
+ */
+export function setNoteContent(note: string): void {
+  const noteEditor = DOM.noteEditor;
+  if (!noteEditor || noteEditor.value === note) return;
+  noteEditor.value = note;
+  updateCharCount();
+  refreshNoteTagInfo();
+}
+
 export async function saveNote(): Promise<void> {
   const state = StateManager.getState();
   
@@ -319,6 +338,9 @@ export function initNotePanel(): void {
     DOM.saveDescriptionBtn.addEventListener('click', saveDescription);
   }
   
+  initNoteTagAssist();
+  initDescriptionPreview();
+  
   logger.info('NotePanel initialized with sci-fi theme', undefined, 'NotePanel');
 }
 
@@ -349,6 +371,8 @@ export function disposeNotePanel(): void {
     autoSaveRunner = null;
   }
   
+  disposeNoteTagAssist();
+  disposeDescriptionPreview();
   noteDirty = false;
   
   logger.info('NotePanel disposed', undefined, 'NotePanel');
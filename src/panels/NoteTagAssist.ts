@@ -0,0 +1,327 @@
+/**
+ * NoteTagAssist - 备注标签补全与说明
+ * 在备注编辑器中输入 < 时按插件标签字典补全，并在编辑器下方显示光标所在标签的插件说明，
+ * 未在插件帮助中记录的标签会被标出
+ */
+
+import { DOM } from '../core/DOMManager';
+import { StateManager } from '../core/StateManager';
+import { EventSystem } from '../core/EventSystem';
+import { NoteTagDictionary, formatNoteTagDoc, searchNoteTagNames } from '../services/NoteTagDictionary';
+import { locateMetaTags } from '../utils/metaDataExtractor';
+
+// ============ 常量 ============
+
+const MAX_SUGGESTIONS = 8;
+
+/** 光标前正在输入的标签名 */
+const TAG_PREFIX_REGEX = /<([^<>:/\n]*)$/;
+
+/** 计算光标坐标时需要复制到镜像元素的样式 */
+const MIRROR_STYLE_PROPERTIES = [
+  'boxSizing', 'width', 'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'fontFamily', 'fontSize', 'fontWeight',
+  'fontStyle', 'letterSpacing', 'lineHeight', 'textTransform', 'wordSpacing', 'tabSize',
+] as const;
+
+// ============ 状态 ============
+
+let initialized = false;
+let suggestions: string[] = [];
+let activeIndex = 0;
+/** 正在补全的标签名在 note 中的起始位置（< 之后） */
+let prefixStart = -1;
+
+// ============ 工具函数 ============
+
+/**
+ * 计算 textarea 中指定位置相对于 textarea 左上角的坐标（镜像元素法）
+ */
+function getCaretCoordinates(textarea: HTMLTextAreaElement, position: number): { top: number; left: number } {
+  const mirror = document.createElement('div');
+  const style = getComputedStyle(textarea);
+  for (let i = 0; i < MIRROR_STYLE_PROPERTIES.length; i++) {
+    const property = MIRROR_STYLE_PROPERTIES[i];
+    mirror.style[property] = style[property];
+  }
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.textContent = textarea.value.slice(0, position);
+  const marker = document.createElement('span');
+  marker.textContent = '\u200b';
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2 || 0;
+  const coordinates = {
+    top: marker.offsetTop + lineHeight - textarea.scrollTop,
+    left: marker.offsetLeft - textarea.scrollLeft,
+  };
+  document.body.removeChild(mirror);
+  return coordinates;
+}
+
+function ensureDictionary(): void {
+  const state = StateManager.getState();
+  if (state.currentFilePath) {
+    void NoteTagDictionary.ensureLoaded(state.currentFilePath, state.config.projectPath);
+  }
+}
+
+// ============ 补全列表 ============
+
+function hideSuggestions(): void {
+  suggestions = [];
+  prefixStart = -1;
+  DOM.noteTagSuggest?.classList.add('hidden');
+}
+
+function renderSuggestions(): void {
+  const container = DOM.noteTagSuggest;
+  if (!container) return;
+  container.innerHTML = '';
+
+  for (let i = 0; i < suggestions.length; i++) {
+    const definitions = NoteTagDictionary.getDefinitions(suggestions[i]);
+    const row = document.createElement('div');
+    row.className = 'note-tag-option px-2 py-1 cursor-pointer flex justify-between gap-2';
+    row.classList.toggle('bg-cyan-900', i === activeIndex);
+    row.dataset.index = String(i);
+    row.title = formatNoteTagDoc(definitions);
+
+    const name = document.createElement('span');
+    name.className = 'text-cyan-300 truncate';
+    name.textContent = suggestions[i];
+    const plugin = document.createElement('span');
+    plugin.className = 'text-gray-500 truncate';
+    plugin.textContent = [...new Set(definitions.map((definition) => definition.plugin))].join(', ');
+    row.appendChild(name);
+    row.appendChild(plugin);
+    container.appendChild(row);
+  }
+
+  // 当前选中项的说明
+  const active = suggestions[activeIndex];
+  if (active) {
+    const doc = document.createElement('div');
+    doc.className = 'note-tag-doc px-2 py-1 border-t border-gray-700 text-gray-400 whitespace-pre-wrap';
+    doc.textContent = formatNoteTagDoc(NoteTagDictionary.getDefinitions(active));
+    container.appendChild(doc);
+  }
+}
+
+/**
+ * 根据光标前的文本更新补全列表
+ */
+function updateSuggestions(): void {
+  const editor = DOM.noteEditor;
+  const container = DOM.noteTagSuggest;
+  if (!editor || !container || !NoteTagDictionary.hasDefinitions() || editor.selectionStart !== editor.selectionEnd) {
+    hideSuggestions();
+    return;
+  }
+
+  const caret = editor.selectionStart;
+  const match = TAG_PREFIX_REGEX.exec(editor.value.slice(0, caret));
+  const names = match ? searchNoteTagNames(NoteTagDictionary.getDictionary(), match[1].trimStart(), MAX_SUGGESTIONS) : [];
+  if (!match || names.length === 0 || (names.length === 1 && names[0] === match[1])) {
+    hideSuggestions();
+    return;
+  }
+
+  suggestions = names;
+  activeIndex = 0;
+  prefixStart = caret - match[1].length;
+  const coordinates = getCaretCoordinates(editor, caret);
+  container.style.top = `${editor.offsetTop + Math.min(coordinates.top, editor.clientHeight)}px`;
+  container.style.left = `${editor.offsetLeft + Math.min(coordinates.left, Math.max(0, editor.clientWidth - 288))}px`;
+  container.classList.remove('hidden');
+  renderSuggestions();
+}
+
+/**
+ * 插入选中的标签：按值的形式补全冒号、闭合标签
+ */
+function acceptSuggestion(index: number): void {
+  const editor = DOM.noteEditor;
+  const name = suggestions[index];
+  if (!editor || !name || prefixStart < 0) return;
+
+  const definitions = NoteTagDictionary.getDefinitions(name);
+  const shape = definitions[0]?.shape ?? 'flag';
+  const caret = editor.selectionStart;
+  let insert: string;
+  let caretOffset: number;
+  if (shape === 'flag') {
+    insert = `${name}>`;
+    caretOffset = insert.length;
+  } else if (shape === 'block') {
+    insert = `${name}>\n\n</${name}>`;
+    caretOffset = name.length + 2;
+  } else {
+    insert = `${name}: >`;
+    caretOffset = name.length + 2;
+  }
+
+  const value = editor.value;
+  editor.value = value.slice(0, prefixStart) + insert + value.slice(caret);
+  editor.selectionStart = editor.selectionEnd = prefixStart + caretOffset;
+  hideSuggestions();
+  // 触发备注面板的输入处理（标记修改与自动保存）
+  editor.dispatchEvent(new Event('input', { bubbles: true }));
+  editor.focus();
+}
+
+// ============ 标签说明 ============
+
+/**
+ * 显示光标所在标签的说明；光标不在标签内时列出未知标签
+ */
+export function refreshNoteTagInfo(): void {
+  const editor = DOM.noteEditor;
+  const info = DOM.noteTagInfo;
+  if (!editor || !info) return;
+
+  if (editor.disabled || !NoteTagDictionary.hasDefinitions()) {
+    info.classList.add('hidden');
+    return;
+  }
+
+  const tags = locateMetaTags(editor.value);
+  const caret = editor.selectionStart;
+  const current = tags.find((tag) => caret >= tag.start && caret <= tag.end);
+  let text = '';
+  let warning = false;
+
+  if (current) {
+    const definitions = NoteTagDictionary.getDefinitions(current.name);
+    const issue = NoteTagDictionary.checkTag(current);
+    text = definitions.length > 0 ? formatNoteTagDoc(definitions) : '';
+    if (issue) {
+      text = text ? `⚠ ${issue.message}\n${text}` : `⚠ <${current.name}> ${issue.message}`;
+      warning = true;
+    }
+  } else {
+    const unknown = [...new Set(tags.filter((tag) => NoteTagDictionary.checkTag(tag)).map((tag) => `<${tag.name}>`))];
+    if (unknown.length > 0) {
+      text = `⚠ 与插件说明不符的标签: ${unknown.join(' ')}`;
+      warning = true;
+    }
+  }
+
+  info.textContent = text;
+  info.classList.toggle('hidden', text === '');
+  info.classList.toggle('text-yellow-400', warning);
+  info.classList.toggle('text-gray-400', !warning);
+}
+
+// ============ 事件处理 ============
+
+function handleInput(): void {
+  updateSuggestions();
+  refreshNoteTagInfo();
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (suggestions.length === 0) return;
+  switch (e.key) {
+    case 'ArrowDown':
+    case 'ArrowUp':
+      e.preventDefault();
+      activeIndex = (activeIndex + (e.key === 'ArrowDown' ? 1 : suggestions.length - 1)) % suggestions.length;
+      renderSuggestions();
+      break;
+    case 'Enter':
+    case 'Tab':
+      e.preventDefault();
+      acceptSuggestion(activeIndex);
+      break;
+    case 'Escape':
+      e.preventDefault();
+      e.stopPropagation();
+      hideSuggestions();
+      break;
+  }
+}
+
+function handleCaretMove(e: Event): void {
+  if (e instanceof KeyboardEvent && ['ArrowDown', 'ArrowUp', 'Enter', 'Tab', 'Escape'].includes(e.key)) return;
+  if (e.type === 'click' || (e instanceof KeyboardEvent && e.key.startsWith('Arrow'))) {
+    hideSuggestions();
+  }
+  refreshNoteTagInfo();
+}
+
+function handleSuggestMouseDown(e: MouseEvent): void {
+  // 保持编辑器焦点
+  e.preventDefault();
+  const row = (e.target as HTMLElement).closest('.note-tag-option') as HTMLElement | null;
+  if (row?.dataset.index) {
+    acceptSuggestion(parseInt(row.dataset.index, 10));
+  }
+}
+
+function handleSuggestMouseOver(e: MouseEvent): void {
+  const row = (e.target as HTMLElement).closest('.note-tag-option') as HTMLElement | null;
+  if (!row?.dataset.index) return;
+  const index = parseInt(row.dataset.index, 10);
+  if (index !== activeIndex) {
+    activeIndex = index;
+    renderSuggestions();
+  }
+}
+
+function handleDictionaryChanged(): void {
+  refreshNoteTagInfo();
+}
+
+// ============ 初始化 ============
+
+/**
+ * 备注面板渲染后调用：加载当前项目的标签字典并刷新说明
+ */
+export function renderNoteTagAssist(): void {
+  hideSuggestions();
+  ensureDictionary();
+  refreshNoteTagInfo();
+}
+
+export function initNoteTagAssist(): void {
+  if (initialized) return;
+  const editor = DOM.noteEditor;
+  if (!editor) return;
+  initialized = true;
+
+  editor.addEventListener('input', handleInput);
+  editor.addEventListener('keydown', handleKeydown);
+  editor.addEventListener('keyup', handleCaretMove);
+  editor.addEventListener('click', handleCaretMove);
+  editor.addEventListener('blur', hideSuggestions);
+  DOM.noteTagSuggest?.addEventListener('mousedown', handleSuggestMouseDown);
+  DOM.noteTagSuggest?.addEventListener('mouseover', handleSuggestMouseOver);
+  EventSystem.on('note-tags:changed', handleDictionaryChanged);
+}
+
+export function disposeNoteTagAssist(): void {
+  if (!initialized) return;
+  initialized = false;
+
+  const editor = DOM.noteEditor;
+  editor?.removeEventListener('input', handleInput);
+  editor?.removeEventListener('keydown', handleKeydown);
+  editor?.removeEventListener('keyup', handleCaretMove);
+  editor?.removeEventListener('click', handleCaretMove);
+  editor?.removeEventListener('blur', hideSuggestions);
+  DOM.noteTagSuggest?.removeEventListener('mousedown', handleSuggestMouseDown);
+  DOM.noteTagSuggest?.removeEventListener('mouseover', handleSuggestMouseOver);
+  EventSystem.off('note-tags:changed', handleDictionaryChanged);
+  hideSuggestions();
+}
+
+export default {
+  init: initNoteTagAssist,
+  render: renderNoteTagAssist,
+  refresh: refreshNoteTagInfo,
+  dispose: disposeNoteTagAssist,
+};
@@ -0,0 +1,496 @@
+/**
+ * ParamCurvePanel - 职业能力值曲线面板
+ * Classes.json 的 params 为 8 × 100 的等级矩阵，基础属性输入框无法编辑，
+ * 这里绘制八项能力值在 1–99 级的曲线，并支持按缓动函数生成、逐级修改、
+ * 从其他职业复制曲线以及叠加对比多个职业。
+ */
+
+import { DOM } from '../core/DOMManager';
+import { StateManager } from '../core/StateManager';
+import { EventSystem } from '../core/EventSystem';
+import { HistoryManager } from '../core/HistoryManager';
+import { detectDataKind } from '../services/IdRenumberService';
+import { PARAM_OPTIONS } from '../services/schema';
+import {
+  MAX_LEVEL,
+  PARAM_COUNT,
+  applyCurve,
+  copyCurves,
+  getCurveMax,
+  isParamCurveMatrix,
+  setLevelValue,
+} from '../services/ParamCurveService';
+import { getEasingTypes, type EasingType } from '../utils/easing';
+import { logger } from '../services/logger';
+
+// ============ 类型定义 ============
+
+/** 面板控件，首次显示时创建 */
+interface CurveEditorElements {
+  cells: HTMLDivElement[];
+  miniCanvases: HTMLCanvasElement[];
+  chart: HTMLCanvasElement;
+  legend: HTMLDivElement;
+  startInput: HTMLInputElement;
+  endInput: HTMLInputElement;
+  easingSelect: HTMLSelectElement;
+  fromInput: HTMLInputElement;
+  toInput: HTMLInputElement;
+  levelInput: HTMLInputElement;
+  valueInput: HTMLInputElement;
+  copySelect: HTMLSelectElement;
+  copyAllCheckbox: HTMLInputElement;
+  compareSelect: HTMLSelectElement;
+}
+
+/** 一条待绘制的曲线 */
+interface CurveSeries {
+  values: readonly number[];
+  color: string;
+  lineWidth: number;
+  dashed?: boolean;
+}
+
+// ============ 常量 ============
+
+const PARAM_COLORS = ['#f87171', '#60a5fa', '#fb923c', '#facc15', '#c084fc', '#4ade80', '#22d3ee', '#f472b6'];
+const COMPARE_COLORS = ['#e5e7eb', '#a3a3a3', '#fde68a', '#bbf7d0', '#bfdbfe'];
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const MINI_WIDTH = 140;
+const MINI_HEIGHT = 48;
+const CHART_PADDING = 28;
+const INPUT_CLASS = 'theme-input text-xs';
+const BUTTON_CLASS = 'action-btn small px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded';
+
+// ============ 状态 ============
+
+let elements: CurveEditorElements | null = null;
+let selectedParam = 0;
+/** 叠加对比的职业在当前数据中的下标 */
+let compareIndices: number[] = [];
+/** 生成曲线的起止数值对应的 文件|条目|能力值，切换后重新填入当前曲线的首尾值 */
+let generatorSource = '';
+
+// ============ 工具函数 ============
+
+function getParamLabel(paramIndex: number): string {
+  return PARAM_OPTIONS[paramIndex]?.label ?? `能力值 ${paramIndex}`;
+}
+
+function getClassLabel(item: Record<string, unknown>, index: number): string {
+  const id = (item.id as number) ?? index;
+  return `${String(id).padStart(4, '0')} ${(item.name as string) || '未命名'}`;
+}
+
+/**
+ * 获取当前职业的曲线矩阵，当前文件不是 Classes.json 或 params 不是矩阵时返回 null
+ */
+function getCurrentCurves(): number[][] | null {
+  const state = StateManager.getState();
+  if (!state.currentFilePath || detectDataKind(state.currentFilePath, state.currentFileType) !== 'class') return null;
+  const item = state.currentData?.[state.currentItemIndex] as Record<string, unknown> | null | undefined;
+  return item && isParamCurveMatrix(item.params) ? item.params : null;
+}
+
+function getOtherClasses(): Array<{ index: number; label: string; curves: number[][] }> {
+  const state = StateManager.getState();
+  const data = state.currentData ?? [];
+  const classes: Array<{ index: number; label: string; curves: number[][] }> = [];
+  for (let i = 0; i < data.length; i++) {
+    const item = data[i] as Record<string, unknown> | null;
+    if (!item || i === state.currentItemIndex || !isParamCurveMatrix(item.params)) continue;
+    classes.push({ index: i, label: getClassLabel(item, i), curves: item.params });
+  }
+  return classes;
+}
+
+function readInteger(input: HTMLInputElement, label: string): number | null {
+  const value = Number(input.value.trim());
+  if (input.value.trim() === '' || !Number.isInteger(value)) {
+    EventSystem.emit('error:show', `${label} 必须是整数`);
+    return null;
+  }
+  return value;
+}
+
+function readLevel(input: HTMLInputElement, label: string): number | null {
+  const level = readInteger(input, label);
+  if (level === null) return null;
+  if (level < 1 || level > MAX_LEVEL) {
+    EventSystem.emit('error:show', `${label} 必须在 1 到 ${MAX_LEVEL} 之间`);
+    return null;
+  }
+  return level;
+}
+
+/**
+ * 记录修改并刷新面板
+ */
+function commitCurves(label: string): void {
+  HistoryManager.recordItem(StateManager.getState().currentItemIndex, label);
+  renderParamCurvePanel();
+}
+
+// ============ 绘图 ============
+
+function drawCurves(canvas: HTMLCanvasElement, series: readonly CurveSeries[], maxValue: number, padding: number, highlightLevel = 0): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const width = canvas.width;
+  const height = canvas.height;
+  const plotWidth = width - padding * 2;
+  const plotHeight = height - padding * 2;
+  const scale = maxValue > 0 ? plotHeight / maxValue : 0;
+  const levelX = (level: number): number => padding + ((level - 1) / (MAX_LEVEL - 1)) * plotWidth;
+
+  ctx.clearRect(0, 0, width, height);
+
+  // 坐标轴
+  ctx.strokeStyle = 'rgba(148, 163, 184, 0.4)';
+  ctx.lineWidth = 1;
+  ctx.setLineDash([]);
+  ctx.beginPath();
+  ctx.moveTo(padding, padding);
+  ctx.lineTo(padding, height - padding);
+  ctx.lineTo(width - padding, height - padding);
+  ctx.stroke();
+
+  if (padding >= CHART_PADDING) {
+    ctx.fillStyle = 'rgba(148, 163, 184, 0.8)';
+    ctx.font = '10px sans-serif';
+    ctx.fillText(String(maxValue), 2, padding);
+    ctx.fillText('1', padding, height - padding + 12);
+    ctx.fillText(String(MAX_LEVEL), width - padding - 12, height - padding + 12);
+  }
+
+  if (highlightLevel > 0) {
+    ctx.strokeStyle = 'rgba(0, 240, 255, 0.35)';
+    ctx.beginPath();
+    ctx.moveTo(levelX(highlightLevel), padding);
+    ctx.lineTo(levelX(highlightLevel), height - padding);
+    ctx.stroke();
+  }
+
+  for (let s = 0; s < series.length; s++) {
+    const { values, color, lineWidth, dashed } = series[s];
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.setLineDash(dashed ? [4, 3] : []);
+    ctx.beginPath();
+    for (let level = 1; level <= MAX_LEVEL; level++) {
+      const y = height - padding - (values[level] ?? 0) * scale;
+      if (level === 1) {
+        ctx.moveTo(levelX(level), y);
+      } else {
+        ctx.lineTo(levelX(level), y);
+      }
+    }
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+}
+
+// ============ 控件创建 ============
+
+function createInput(placeholder: string, width: string): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.step = '1';
+  input.className = `${INPUT_CLASS} ${width}`;
+  input.placeholder = placeholder;
+  input.title = placeholder;
+  return input;
+}
+
+function createButton(text: string, handler: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = BUTTON_CLASS;
+  button.textContent = text;
+  button.addEventListener('click', handler);
+  return button;
+}
+
+function createRow(label: string, ...children: HTMLElement[]): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = 'flex flex-wrap items-center gap-2';
+  const span = document.createElement('span');
+  span.className = 'text-xs text-gray-400 w-16 flex-shrink-0';
+  span.textContent = label;
+  row.appendChild(span);
+  for (let i = 0; i < children.length; i++) {
+    row.appendChild(children[i]);
+  }
+  return row;
+}
+
+function createEditor(container: HTMLElement): CurveEditorElements {
+  container.innerHTML = '';
+
+  // 八项能力值概览，点击切换当前能力值
+  const overview = document.createElement('div');
+  overview.className = 'grid grid-cols-4 gap-2';
+  const cells: HTMLDivElement[] = [];
+  const miniCanvases: HTMLCanvasElement[] = [];
+  for (let i = 0; i < PARAM_COUNT; i++) {
+    const cell = document.createElement('div');
+    cell.className = 'param-curve-cell p-1 rounded border border-gray-700 cursor-pointer';
+    cell.dataset.param = String(i);
+    const title = document.createElement('div');
+    title.className = 'text-xs';
+    title.style.color = PARAM_COLORS[i];
+    title.textContent = getParamLabel(i);
+    const canvas = document.createElement('canvas');
+    canvas.width = MINI_WIDTH;
+    canvas.height = MINI_HEIGHT;
+    canvas.className = 'w-full';
+    cell.appendChild(title);
+    cell.appendChild(canvas);
+    cell.addEventListener('click', () => selectParam(i));
+    overview.appendChild(cell);
+    cells.push(cell);
+    miniCanvases.push(canvas);
+  }
+  container.appendChild(overview);
+
+  const chart = document.createElement('canvas');
+  chart.width = CHART_WIDTH;
+  chart.height = CHART_HEIGHT;
+  chart.className = 'param-curve-chart w-full rounded bg-gray-900 cursor-crosshair';
+  chart.title = '点击选择等级';
+  chart.addEventListener('click', handleChartClick);
+  container.appendChild(chart);
+
+  const legend = document.createElement('div');
+  legend.className = 'param-curve-legend flex flex-wrap gap-3 text-xs';
+  container.appendChild(legend);
+
+  const startInput = createInput('1 级数值', 'w-24');
+  const endInput = createInput(`${MAX_LEVEL} 级数值`, 'w-24');
+  const easingSelect = document.createElement('select');
+  easingSelect.className = INPUT_CLASS;
+  const easingTypes = getEasingTypes();
+  for (let i = 0; i < easingTypes.length; i++) {
+    const option = document.createElement('option');
+    option.value = easingTypes[i];
+    option.textContent = easingTypes[i];
+    easingSelect.appendChild(option);
+  }
+  const fromInput = createInput('起始等级', 'w-20');
+  const toInput = createInput('结束等级', 'w-20');
+  fromInput.value = '1';
+  toInput.value = String(MAX_LEVEL);
+  container.appendChild(createRow('生成曲线', startInput, endInput, easingSelect, fromInput, toInput, createButton('生成', handleGenerate)));
+
+  const levelInput = createInput('等级', 'w-20');
+  const valueInput = createInput('数值', 'w-24');
+  levelInput.addEventListener('change', syncLevelValue);
+  container.appendChild(createRow('逐级修改', levelInput, valueInput, createButton('应用', handleApplyLevel)));
+
+  const copySelect = document.createElement('select');
+  copySelect.className = `${INPUT_CLASS} flex-1`;
+  const copyAllLabel = document.createElement('label');
+  copyAllLabel.className = 'flex items-center gap-1 text-xs text-gray-400';
+  const copyAllCheckbox = document.createElement('input');
+  copyAllCheckbox.type = 'checkbox';
+  copyAllLabel.appendChild(copyAllCheckbox);
+  copyAllLabel.appendChild(document.createTextNode('全部能力值'));
+  container.appendChild(createRow('复制曲线', copySelect, copyAllLabel, createButton('复制到当前职业', handleCopy)));
+
+  const compareSelect = document.createElement('select');
+  compareSelect.multiple = true;
+  compareSelect.size = 3;
+  compareSelect.className = `${INPUT_CLASS} flex-1`;
+  compareSelect.title = '按住 Ctrl 选择多个职业进行对比';
+  compareSelect.addEventListener('change', handleCompareChange);
+  container.appendChild(createRow('对比职业', compareSelect));
+
+  return {
+    cells,
+    miniCanvases,
+    chart,
+    legend,
+    startInput,
+    endInput,
+    easingSelect,
+    fromInput,
+    toInput,
+    levelInput,
+    valueInput,
+    copySelect,
+    copyAllCheckbox,
+    compareSelect,
+  };
+}
+
+// ============ 渲染 ============
+
+function fillClassOptions(select: HTMLSelectElement, classes: ReturnType<typeof getOtherClasses>, selected: readonly number[]): void {
+  select.innerHTML = '';
+  for (let i = 0; i < classes.length; i++) {
+    const option = document.createElement('option');
+    option.value = String(classes[i].index);
+    option.textContent = classes[i].label;
+    option.selected = selected.includes(classes[i].index);
+    select.appendChild(option);
+  }
+}
+
+function renderLegend(legend: HTMLDivElement, entries: ReadonlyArray<{ label: string; color: string }>): void {
+  legend.innerHTML = '';
+  for (let i = 0; i < entries.length; i++) {
+    const item = document.createElement('span');
+    item.style.color = entries[i].color;
+    item.textContent = `— ${entries[i].label}`;
+    legend.appendChild(item);
+  }
+}
+
+function syncLevelValue(): void {
+  const curves = getCurrentCurves();
+  if (!elements || !curves) return;
+  const level = Number(elements.levelInput.value);
+  if (Number.isInteger(level) && level >= 1 && level <= MAX_LEVEL) {
+    elements.valueInput.value = String(curves[selectedParam]?.[level] ?? '');
+  }
+}
+
+/**
+ * 渲染能力值曲线面板；当前条目不是带曲线矩阵的职业时隐藏
+ */
+export function renderParamCurvePanel(): void {
+  const section = DOM.paramCurveSection;
+  const container = DOM.paramCurveEditor;
+  if (!section || !container) return;
+
+  const curves = getCurrentCurves();
+  section.classList.toggle('hidden', !curves);
+  if (!curves) return;
+
+  if (!elements) {
+    elements = createEditor(container);
+  }
+
+  const classes = getOtherClasses();
+  compareIndices = compareIndices.filter((index) => classes.some((item) => item.index === index));
+
+  for (let i = 0; i < PARAM_COUNT; i++) {
+    elements.cells[i].classList.toggle('border-cyan-400', i === selectedParam);
+    elements.cells[i].classList.toggle('border-gray-700', i !== selectedParam);
+    const curve = curves[i] ?? [];
+    drawCurves(elements.miniCanvases[i], [{ values: curve, color: PARAM_COLORS[i], lineWidth: 1.5 }], getCurveMax([curve]), 4);
+  }
+
+  const state = StateManager.getState();
+  const current = (state.currentData?.[state.currentItemIndex] ?? {}) as Record<string, unknown>;
+  const source = `${state.currentFilePath}|${state.currentItemIndex}|${selectedParam}`;
+  if (generatorSource !== source) {
+    generatorSource = source;
+    elements.startInput.value = String(curves[selectedParam]?.[1] ?? '');
+    elements.endInput.value = String(curves[selectedParam]?.[MAX_LEVEL] ?? '');
+  }
+  const series: CurveSeries[] = [{ values: curves[selectedParam] ?? [], color: PARAM_COLORS[selectedParam], lineWidth: 2.5 }];
+  const legend = [{ label: `${getClassLabel(current, state.currentItemIndex)} · ${getParamLabel(selectedParam)}`, color: PARAM_COLORS[selectedParam] }];
+  for (let i = 0; i < compareIndices.length; i++) {
+    const compared = classes.find((item) => item.index === compareIndices[i]);
+    if (!compared) continue;
+    const color = COMPARE_COLORS[i % COMPARE_COLORS.length];
+    series.push({ values: compared.curves[selectedParam] ?? [], color, lineWidth: 1.5, dashed: true });
+    legend.push({ label: compared.label, color });
+  }
+  const highlightLevel = Number(elements.levelInput.value) || 0;
+  drawCurves(elements.chart, series, getCurveMax(series.map((item) => item.values)), CHART_PADDING, highlightLevel);
+  renderLegend(elements.legend, legend);
+
+  fillClassOptions(elements.copySelect, classes, [Number(elements.copySelect.value)]);
+  fillClassOptions(elements.compareSelect, classes, compareIndices);
+  syncLevelValue();
+}
+
+// ============ 事件处理 ============
+
+function selectParam(paramIndex: number): void {
+  selectedParam = paramIndex;
+  renderParamCurvePanel();
+}
+
+function handleChartClick(event: MouseEvent): void {
+  if (!elements) return;
+  const rect = elements.chart.getBoundingClientRect();
+  if (rect.width === 0) return;
+  const x = ((event.clientX - rect.left) / rect.width) * CHART_WIDTH;
+  const ratio = (x - CHART_PADDING) / (CHART_WIDTH - CHART_PADDING * 2);
+  const level = Math.min(MAX_LEVEL, Math.max(1, Math.round(ratio * (MAX_LEVEL - 1)) + 1));
+  elements.levelInput.value = String(level);
+  renderParamCurvePanel();
+}
+
+function handleGenerate(): void {
+  const curves = getCurrentCurves();
+  if (!elements || !curves) return;
+
+  const start = readInteger(elements.startInput, '起始数值');
+  const end = readInteger(elements.endInput, '结束数值');
+  const fromLevel = readLevel(elements.fromInput, '起始等级');
+  const toLevel = readLevel(elements.toInput, '结束等级');
+  if (start === null || end === null || fromLevel === null || toLevel === null) return;
+  if (fromLevel >= toLevel) {
+    EventSystem.emit('error:show', '起始等级必须小于结束等级');
+    return;
+  }
+
+  const curve = curves[selectedParam] ?? (curves[selectedParam] = []);
+  applyCurve(curve, selectedParam, start, end, elements.easingSelect.value as EasingType, fromLevel, toLevel);
+  commitCurves(`生成${getParamLabel(selectedParam)}曲线`);
+}
+
+function handleApplyLevel(): void {
+  const curves = getCurrentCurves();
+  if (!elements || !curves) return;
+
+  const level = readLevel(elements.levelInput, '等级');
+  const value = readInteger(elements.valueInput, '数值');
+  if (level === null || value === null) return;
+
+  const curve = curves[selectedParam] ?? (curves[selectedParam] = []);
+  setLevelValue(curve, selectedParam, level, value);
+  commitCurves(`修改${getParamLabel(selectedParam)} ${level} 级`);
+}
+
+function handleCopy(): void {
+  const curves = getCurrentCurves();
+  if (!elements || !curves) return;
+
+  const sourceIndex = Number(elements.copySelect.value);
+  const source = getOtherClasses().find((item) => item.index === sourceIndex);
+  if (!source) {
+    EventSystem.emit('error:show', '请选择要复制的职业');
+    return;
+  }
+
+  const copyAll = elements.copyAllCheckbox.checked;
+  const paramIndices = copyAll ? Array.from({ length: PARAM_COUNT }, (_, i) => i) : [selectedParam];
+  copyCurves(source.curves, curves, paramIndices);
+  commitCurves(copyAll ? '复制能力值曲线' : `复制${getParamLabel(selectedParam)}曲线`);
+  logger.info('Param curves copied', { from: sourceIndex, params: paramIndices }, 'ParamCurvePanel');
+}
+
+function handleCompareChange(): void {
+  if (!elements) return;
+  compareIndices = Array.from(elements.compareSelect.selectedOptions, (option) => Number(option.value));
+  renderParamCurvePanel();
+}
+
+// ============ 清理 ============
+
+export function disposeParamCurvePanel(): void {
+  elements = null;
+  selectedParam = 0;
+  compareIndices = [];
+  generatorSource = '';
+  if (DOM.paramCurveEditor) {
+    DOM.paramCurveEditor.innerHTML = '';
+  }
+}
@@ -18,6 +18,7 @@ import { acquireSegmentItem, releaseSegmentItem, recyclePoolTree } from '../pool
 import { fillOptions } from '../utils/domHelpers';
 import { StateManager, DataItem } from '../core/StateManager';
 import { EventSystem } from '../core/EventSystem';
+import { HistoryManager } from '../core/HistoryManager';
 import { waitMs } from '../utils/delay';
 import { PixiRenderer, createCanvasTexture } from '../core/PixiRenderer';
 import { GlobalRunner, delay } from '../utils/runner';
@@ -1392,6 +1393,7 @@ export function newProjectile(): void {
   currentProjectileIndex = currentData.length - 1;
   
   StateManager.setState({ currentData: [...currentData] as DataItem[] });
+  HistoryManager.recordData('新建弹道', 'create');
   StateManager.selectItem(currentProjectileIndex);
   loadTemplate(newEntry);
   
@@ -1435,10 +1437,15 @@ export async function saveProjectileFile(): Promise<void> {
     }
   }
   
+  if (currentProjectileIndex >= 0) {
+    HistoryManager.recordItem(currentProjectileIndex, '编辑弹道');
+  }
+  
   const currentData = StateManager.getState().currentData;
   const result = await fileSystemService.writeJSON(filePath, currentData);
   
   if (result.success) {
+    StateManager.markSaved();
     EventSystem.emit('projectile:saved', { filePath, count: currentData?.length || 0 });
     EventSystem.emit('success:show', '弹道数据已保存');
     logger.info('Projectile file saved', { filePath }, 'ProjectilePanel');
@@ -1463,6 +1470,7 @@ export async function deleteProjectile(): Promise<void> {
   // 将当前索引位置设为 null
   currentData[currentProjectileIndex] = null;
   StateManager.setState({ currentData: [...currentData] as DataItem[] });
+  HistoryManager.recordItem(currentProjectileIndex, '删除弹道', 'delete');
   
   // 保存到文件
   await saveProjectileFile();
@@ -1516,6 +1524,7 @@ function handleProjectileNameChange(): void {
     currentItem.name = newName;
     // 触发列表刷新
     StateManager.setState({ currentData: [...currentData] as DataItem[] });
+    HistoryManager.recordItem(currentProjectileIndex, '修改弹道名称');
   }
 }
 
@@ -2044,6 +2053,21 @@ async function loadProjectileData(type: keyof typeof PROJECTILE_DATA_CONFIG, fil
   }
 }
 
+/**
+ * 重新加载引用了指定文件的弹道数据（文件被外部修改后调用）
+ * @returns 是否有弹道数据引用了该文件
+ */
+export async function reloadProjectileDataFile(filePath: string): Promise<boolean> {
+  const projectileDataPaths = StateManager.getState().projectileDataPaths;
+  let reloaded = false;
+  for (const type of Object.keys(projectileDataPaths) as Array<keyof typeof PROJECTILE_DATA_CONFIG>) {
+    if (projectileDataPaths[type] !== filePath || !PROJECTILE_DATA_CONFIG[type]) continue;
+    await loadProjectileData(type, filePath);
+    reloaded = true;
+  }
+  return reloaded;
+}
+
 function applyLoadedProjectileData(type: string, data: unknown): void {
   if (!data || !Array.isArray(data)) return;
   projectileDataCache[type] = data;
@@ -2858,5 +2882,6 @@ export default {
   newProjectile,
   saveProjectileFile,
   deleteProjectile,
+  reloadProjectileDataFile,
   dispose: disposeProjectilePanel,
 };
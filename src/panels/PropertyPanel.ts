@@ -2,33 +2,40 @@
  * PropertyPanel - 属性面板
  * 实现基础属性和自定义属性显示、属性值编辑
  * 完全还原 oldCode/main.js 的属性面板逻辑
+ * 标准数据库文件额外显示按表单结构生成的数据字段
+ * 自定义属性名按项目注册表补全，未注册或超出范围的属性会被标记
  */
 
 import { DOM } from '../core/DOMManager';
 import { acquireCard } from '../pools/DOMPools';
 import { StateManager } from '../core/StateManager';
 import { EventSystem } from '../core/EventSystem';
+import { HistoryManager } from '../core/HistoryManager';
 import { logger } from '../services/logger';
+import { FileFormatRegistry } from '../services/serialization/FileFormatRegistry';
+import { SchemaRegistry, setFieldValue } from '../services/schema';
+import type { FieldSchema } from '../services/schema';
+import { renderSchemaForm, collectReferenceTargets } from './SchemaForm';
+import { getReferenceOptions, loadReferenceOptions, clearReferenceOptions } from './ReferenceOptions';
+import { initTraitEffectPanel, renderTraitEffectPanel, disposeTraitEffectPanel } from './TraitEffectPanel';
+import { renderParamCurvePanel, disposeParamCurvePanel } from './ParamCurvePanel';
+import { isParamCurveMatrix } from '../services/ParamCurveService';
+import { detectDataKind, type DataKind } from '../services/IdRenumberService';
+import { showIconPickerDialog } from '../services/IconPickerDialog';
+import {
+  CustomAttributeRegistry,
+  checkCustomAttribute,
+  findDefinition,
+  formatRange,
+  isAllowedFor,
+} from '../services/CustomAttributeRegistry';
+import { getCustomParams, type CustomAttribute } from '../utils/customParams';
+import { BASE_ATTRIBUTES } from '../utils/baseAttributes';
 import { themeManager } from '../theme/ThemeManager';
 import { visualEffects } from '../theme/effects/VisualEffects';
 
 // ============ 类型定义 ============
 
-/** 基础属性配置 */
-interface BaseAttribute {
-  key: string;
-  label: string;
-  index: number;
-}
-
-/** 自定义属性 */
-interface CustomAttribute {
-  name: string;
-  value: number;
-  symbol: string;
-  floatValue: number;
-}
-
 /** 自定义属性卡片 */
 interface CustomAttributeCard {
   element: HTMLDivElement;
@@ -36,21 +43,13 @@ interface CustomAttributeCard {
   valueInput: HTMLInputElement;
   symbolInput: HTMLInputElement;
   floatInput: HTMLInputElement;
+  /** 注册表校验提示 */
+  hint: HTMLSpanElement;
 }
 
 // ============ 常量 ============
 
-/** 基础属性配置 - 完全对应oldCode/main.js */
-const BASE_ATTRIBUTES: BaseAttribute[] = [
-  { key: 'mhp', label: '最大生命值', index: 0 },
-  { key: 'mmp', label: '最大魔法值', index: 1 },
-  { key: 'atk', label: '攻击力', index: 2 },
-  { key: 'def', label: '防御力', index: 3 },
-  { key: 'mat', label: '魔法攻击力', index: 4 },
-  { key: 'mdf', label: '魔法防御力', index: 5 },
-  { key: 'agi', label: '速度', index: 6 },
-  { key: 'luk', label: '幸运', index: 7 },
-];
+const NAME_OPTIONS_LIST_ID = 'customAttributeNameOptions';
 
 // ============ 全局状态 ============
 
@@ -92,6 +91,88 @@ function createCustomField(labelText: string, inputClass: string, type: string,
   return { wrapper, input };
 }
 
+/**
+ * 为属性名输入框绑定注册表补全，并在其下方创建校验提示
+ */
+function attachRegistryHint(nameField: { wrapper: HTMLDivElement; input: HTMLInputElement }): HTMLSpanElement {
+  nameField.input.setAttribute('list', NAME_OPTIONS_LIST_ID);
+  const hint = document.createElement('span');
+  hint.className = 'custom-attribute-hint hidden';
+  nameField.wrapper.appendChild(hint);
+  return hint;
+}
+
+function getCurrentDataKind(): DataKind | null {
+  const state = StateManager.getState();
+  return state.currentFilePath ? detectDataKind(state.currentFilePath, state.currentFileType) : null;
+}
+
+/**
+ * 按注册表检查卡片并更新提示；注册表为空时不做标记
+ */
+function updateCustomCardIssue(card: CustomAttributeCard): void {
+  const name = card.nameInput.value.trim();
+  const issue = name && CustomAttributeRegistry.hasDefinitions()
+    ? checkCustomAttribute(CustomAttributeRegistry.getDefinitions(), getCurrentDataKind(), name, Number(card.valueInput.value) || 0)
+    : null;
+  card.element.classList.toggle('custom-attribute-flagged', issue !== null);
+  card.hint.textContent = issue?.message ?? '';
+  card.hint.classList.toggle('hidden', issue === null);
+}
+
+/**
+ * 用注册表中适用于当前数据的属性填充名称补全列表
+ */
+function renderNameOptions(): void {
+  const datalist = DOM.customAttributeNameOptions;
+  if (!datalist) return;
+  datalist.innerHTML = '';
+
+  const kind = getCurrentDataKind();
+  const definitions = CustomAttributeRegistry.getDefinitions();
+  for (let i = 0; i < definitions.length; i++) {
+    const definition = definitions[i];
+    if (!isAllowedFor(definition, kind)) continue;
+    const option = document.createElement('option');
+    option.value = definition.name;
+    option.label = [definition.label, definition.symbol].filter(Boolean).join(' / ') || definition.name;
+    datalist.appendChild(option);
+  }
+}
+
+function handleRegistryChanged(): void {
+  renderNameOptions();
+  for (let i = 0; i < currentCustomCardCount; i++) {
+    updateCustomCardIssue(currentCustomCards[i]);
+  }
+}
+
+function getCardFromEvent(event: Event): CustomAttributeCard | null {
+  const cardElement = (event.target as HTMLElement).closest('.custom-attribute-card') as HTMLDivElement | null;
+  const index = cardElement ? parseInt(cardElement.dataset.index || '-1', 10) : -1;
+  return index >= 0 && index < currentCustomCardCount ? currentCustomCards[index] : null;
+}
+
+function handleCustomCardInput(event: Event): void {
+  const card = getCardFromEvent(event);
+  if (card) updateCustomCardIssue(card);
+}
+
+/**
+ * 属性名确定后，缩写与值为空时填入注册表中的缩写与默认值
+ */
+function handleCustomCardChange(event: Event): void {
+  const card = getCardFromEvent(event);
+  if (!card || event.target !== card.nameInput) return;
+
+  const definition = findDefinition(CustomAttributeRegistry.getDefinitions(), card.nameInput.value.trim());
+  if (definition) {
+    if (!card.symbolInput.value.trim()) card.symbolInput.value = definition.symbol;
+    if (!card.valueInput.value.trim()) card.valueInput.value = String(definition.defaultValue);
+  }
+  updateCustomCardIssue(card);
+}
+
 /**
  * 更新自定义属性空状态提示 - 对应oldCode/main.js的updateCustomPlaceholder函数
  */
@@ -172,49 +253,6 @@ function removeCustomAttributeCard(card: CustomAttributeCard): void {
   EventSystem.emit('property:custom-removed');
 }
 
-/**
- * 从项目中获取自定义属性 - 对应oldCode/main.js的逻辑
- */
-function getCustomParams(item: Record<string, unknown>): CustomAttribute[] {
-  const result: CustomAttribute[] = [];
-  
-  // 优先使用 customParams
-  if (item.customParams && typeof item.customParams === 'object') {
-    const customParams = item.customParams as Record<string, { value?: number; symbol?: string; floatValue?: number }>;
-    const entries = Object.entries(customParams);
-    
-    for (let i = 0; i < entries.length; i++) {
-      const [name, payload] = entries[i];
-      result.push({
-        name,
-        value: payload?.value ?? 0,
-        symbol: payload?.symbol ?? '',
-        floatValue: payload?.floatValue ?? 0,
-      });
-    }
-    return result;
-  }
-  
-  // 兼容旧格式 customAttributes
-  if (Array.isArray(item.customAttributes)) {
-    const customAttributes = item.customAttributes as Array<{ name?: string; value?: number; symbol?: string; floatValue?: number }>;
-    
-    for (let i = 0; i < customAttributes.length; i++) {
-      const attr = customAttributes[i];
-      if (attr && attr.name) {
-        result.push({
-          name: attr.name,
-          value: attr.value ?? 0,
-          symbol: attr.symbol ?? '',
-          floatValue: attr.floatValue ?? 0,
-        });
-      }
-    }
-  }
-  
-  return result;
-}
-
 // ============ 核心渲染函数 ============
 
 /**
@@ -269,6 +307,7 @@ function renderCustomAttributes(currentItem: unknown): void {
     const symbolField = createCustomField('缩写', 'custom-attribute-symbol', 'text', attr.symbol);
     const valueField = createCustomField('值', 'custom-attribute-value', 'number', attr.value);
     const floatField = createCustomField('波动', 'custom-attribute-float', 'number', attr.floatValue);
+    const hint = attachRegistryHint(nameField);
 
     // Apply sci-fi styling to custom attribute card
     themeManager.applySciFiEffects(cardElement, {
@@ -340,13 +379,16 @@ function renderCustomAttributes(currentItem: unknown): void {
     
     fragment.appendChild(cardElement);
 
-    currentCustomCards[currentCustomCardCount++] = {
+    const card: CustomAttributeCard = {
       element: cardElement,
       nameInput: nameField.input,
       valueInput: valueField.input,
       symbolInput: symbolField.input,
       floatInput: floatField.input,
+      hint,
     };
+    currentCustomCards[currentCustomCardCount++] = card;
+    updateCustomCardIssue(card);
   }
   
   customList.appendChild(fragment);
@@ -360,6 +402,8 @@ function setupPropertyPanelDelegate(): void {
   if (!customList || eventsBound) return;
   
   customList.addEventListener('click', handleCustomPropertyDelete);
+  customList.addEventListener('input', handleCustomCardInput);
+  customList.addEventListener('change', handleCustomCardChange);
   eventsBound = true;
 }
 
@@ -385,6 +429,7 @@ export function addCustomAttribute(): void {
   const symbolField = createCustomField('缩写', 'custom-attribute-symbol', 'text', '');
   const valueField = createCustomField('值', 'custom-attribute-value', 'number', '');
   const floatField = createCustomField('波动', 'custom-attribute-float', 'number', '');
+  const hint = attachRegistryHint(nameField);
 
   // 水平排列所有字段 - 完全对应oldCode/main.js的结构
   cardElement.appendChild(nameField.wrapper);
@@ -411,6 +456,7 @@ export function addCustomAttribute(): void {
     valueInput: valueField.input,
     symbolInput: symbolField.input,
     floatInput: floatField.input,
+    hint,
   };
   
   // 聚焦到名称输入
@@ -475,6 +521,14 @@ export function collectCustomParams(): Record<string, CustomAttribute> | null {
       EventSystem.emit('error:show', '自定义属性值必须是整数');
       return null;
     }
+
+    // 注册表定义了取值范围时不允许保存超出范围的值
+    const definition = findDefinition(CustomAttributeRegistry.getDefinitions(), name);
+    if (definition && ((definition.min !== undefined && parsedValue < definition.min)
+      || (definition.max !== undefined && parsedValue > definition.max))) {
+      EventSystem.emit('error:show', `${name} 的取值应在 ${formatRange(definition)} 之间`);
+      return null;
+    }
     
     // 解析波动值
     const rawFloat = card.floatInput?.value.trim() ?? '';
@@ -495,12 +549,77 @@ export function collectCustomParams(): Record<string, CustomAttribute> | null {
   return customParams;
 }
 
+// ============ 数据字段 ============
+
+/**
+ * 数据字段修改后直接写回当前条目并记录历史，保存由文件保存操作完成
+ */
+function handleSchemaFieldChange(field: FieldSchema, value: unknown): void {
+  const state = StateManager.getState();
+  const index = state.currentItemIndex;
+  const item = state.currentData?.[index] as Record<string, unknown> | null | undefined;
+  if (!item) return;
+
+  setFieldValue(item, field.key, value);
+  if (HistoryManager.recordItem(index, `修改${field.label}`)) {
+    EventSystem.emit('item:updated', index);
+  }
+}
+
+/**
+ * 打开图标选择器，可按当前文件中使用该图标的条目名称筛选
+ */
+function pickIcon(current: number): Promise<number | null> {
+  const usages = new Map<number, string[]>();
+  const data = StateManager.getState().currentData ?? [];
+  for (let i = 1; i < data.length; i++) {
+    const item = data[i] as { name?: unknown; iconIndex?: unknown } | null;
+    if (!item || typeof item.iconIndex !== 'number' || item.iconIndex <= 0) continue;
+    const names = usages.get(item.iconIndex) ?? [];
+    names.push(typeof item.name === 'string' && item.name ? item.name : `#${i}`);
+    usages.set(item.iconIndex, names);
+  }
+  return showIconPickerDialog({ current, usages });
+}
+
+/**
+ * 渲染当前条目的数据字段；非标准数据库文件时隐藏该区域
+ */
+function renderSchemaFields(currentItem: Record<string, unknown> | null): void {
+  const section = DOM.schemaFieldSection;
+  const list = DOM.schemaFieldList;
+  if (!section || !list) return;
+
+  const state = StateManager.getState();
+  const schema = currentItem && state.currentFilePath
+    ? SchemaRegistry.getSchemaForFile(state.currentFilePath, state.currentFileType)
+    : null;
+  section.classList.toggle('hidden', !schema);
+  if (!schema || !currentItem) {
+    list.innerHTML = '';
+    return;
+  }
+
+  if (DOM.schemaFieldTitle) {
+    DOM.schemaFieldTitle.textContent = `${schema.label}数据`;
+  }
+  renderSchemaForm(list, schema, currentItem, {
+    getReferenceOptions,
+    onChange: handleSchemaFieldChange,
+    onError: (message) => EventSystem.emit('error:show', message),
+    pickIcon,
+  });
+  loadReferenceOptions(collectReferenceTargets(schema), () => {
+    renderSchemaFields(StateManager.getState().currentItem as Record<string, unknown> | null);
+  });
+}
+
 // ============ 持久化函数 ============
 
 /**
  * 持久化当前项目 - 对应oldCode/main.js的persistCurrentItem函数
  */
-async function persistCurrentItem(saveMessage: string, successMessage: string): Promise<void> {
+async function persistCurrentItem(saveMessage: string, successMessage: string, historyLabel: string): Promise<void> {
   const state = StateManager.getState();
   const { currentItem, currentData, currentItemIndex, currentFilePath } = state;
   
@@ -517,10 +636,12 @@ async function persistCurrentItem(saveMessage: string, successMessage: string):
     newData[currentItemIndex] = currentItem;
     
     // 写入文件
-    await window.electronAPI.writeFile(currentFilePath, JSON.stringify(newData, null, 2), 'utf-8');
+    await window.electronAPI.writeFile(currentFilePath, FileFormatRegistry.stringify(currentFilePath, newData), 'utf-8');
     
     // 更新状态
     StateManager.setState({ currentData: newData });
+    HistoryManager.recordItem(currentItemIndex, historyLabel);
+    StateManager.markSaved();
     
     EventSystem.emit('status:update', successMessage);
     renderPropertyPanel();
@@ -548,6 +669,11 @@ async function handleSaveBaseProperties(): Promise<void> {
     EventSystem.emit('error:show', '该项目没有 params，基础属性不可编辑');
     return;
   }
+
+  if (isParamCurveMatrix((currentItem as unknown as Record<string, unknown>).params)) {
+    EventSystem.emit('error:show', '该项目的 params 为等级曲线，请在能力值曲线中编辑');
+    return;
+  }
   
   const item = { ...currentItem } as any;
   const params = item.params ?? [];
@@ -592,7 +718,7 @@ async function handleSaveBaseProperties(): Promise<void> {
   // 更新状态
   StateManager.setState({ currentItem: item });
   
-  await persistCurrentItem('保存属性定义中...', '✔ 属性定义已保存');
+  await persistCurrentItem('保存属性定义中...', '✔ 属性定义已保存', '修改基础属性');
 }
 
 /**
@@ -621,7 +747,7 @@ async function handleSaveCustomProperties(): Promise<void> {
   // 更新状态
   StateManager.setState({ currentItem: item });
   
-  await persistCurrentItem('保存自定义属性中...', '✔ 自定义属性已保存');
+  await persistCurrentItem('保存自定义属性中...', '✔ 自定义属性已保存', '修改自定义属性');
 }
 
 // ============ 初始化函数 ============
@@ -793,6 +919,9 @@ export function initPropertyPanel(): void {
   // 监听保存事件
   EventSystem.on('property:save-base', handleSaveBaseProperties);
   EventSystem.on('property:save-custom', handleSaveCustomProperties);
+  EventSystem.on('custom-registry:changed', handleRegistryChanged);
+
+  initTraitEffectPanel();
 
   logger.info('PropertyPanel initialized with sci-fi theme', undefined, 'PropertyPanel');
 }
@@ -823,16 +952,22 @@ export function renderPropertyPanel(): void {
     
     // 清空自定义属性
     renderCustomAttributes(null);
+    renderSchemaFields(null);
+    renderTraitEffectPanel();
+    renderParamCurvePanel();
     return;
   }
 
-  const hasParams = Object.hasOwn(currentItem, 'params');
+  // 职业的 params 是按等级存储的矩阵，由能力值曲线面板编辑
+  const hasCurves = isParamCurveMatrix(currentItem.params);
+  const hasParams = Object.hasOwn(currentItem, 'params') && !hasCurves;
   
   // 更新状态文本
   if (DOM.propertyModeSubtitle) {
     const itemName = (currentItem as any)?.name || '未命名';
     const itemId = (currentItem as any)?.id || state.currentItemIndex || '-';
-    DOM.propertyModeSubtitle.textContent = `当前项目: ${itemName} (ID: ${itemId})${hasParams ? '' : ' - 无 params，基础属性不可编辑'}`;
+    const paramsHint = hasCurves ? ' - params 为等级曲线，请在能力值曲线中编辑' : hasParams ? '' : ' - 无 params，基础属性不可编辑';
+    DOM.propertyModeSubtitle.textContent = `当前项目: ${itemName} (ID: ${itemId})${paramsHint}`;
   }
 
   // 填充基础属性
@@ -849,7 +984,16 @@ export function renderPropertyPanel(): void {
     }
   }
 
-  // 渲染自定义属性
+  // 数据目录变化时加载对应的注册表，加载完成后通过 custom-registry:changed 刷新标记
+  if (state.currentFilePath && state.currentFileType === 'data') {
+    void CustomAttributeRegistry.ensureLoaded(state.currentFilePath);
+  }
+  renderNameOptions();
+
+  // 渲染数据字段、特性与自定义属性
+  renderSchemaFields(currentItem);
+  renderTraitEffectPanel();
+  renderParamCurvePanel();
   renderCustomAttributes(currentItem);
   setupPropertyPanelDelegate(); // 确保事件委托已设置
 }
@@ -869,11 +1013,17 @@ export function disposePropertyPanel(): void {
   }
   currentCustomCards.length = 0;
   currentCustomCardCount = 0;
+  clearReferenceOptions();
+  EventSystem.off('custom-registry:changed', handleRegistryChanged);
+  disposeTraitEffectPanel();
+  disposeParamCurvePanel();
 
   // 移除事件监听
   const customList = DOM.customAttributeList;
   if (customList && eventsBound) {
     customList.removeEventListener('click', handleCustomPropertyDelete);
+    customList.removeEventListener('input', handleCustomCardInput);
+    customList.removeEventListener('change', handleCustomCardChange);
     eventsBound = false;
   }
 
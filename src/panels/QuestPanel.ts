@@ -1,6 +1,7 @@
 import { DOM } from '../core/DOMManager';
 import { StateManager, DataItem } from '../core/StateManager';
 import { EventSystem } from '../core/EventSystem';
+import { HistoryManager } from '../core/HistoryManager';
 import { logger } from '../services/logger';
 import { fillOptions } from '../utils/domHelpers';
 import { themeManager } from '../theme/ThemeManager';
@@ -1240,6 +1241,7 @@ function handleQuestTitleChange(): void {
     
     // 触发列表刷新
     StateManager.setState({ currentData: [...currentData] as DataItem[] });
+    HistoryManager.recordItem(dataIndex, '修改任务标题');
   }
 }
 
@@ -1258,6 +1260,7 @@ export function newQuest(): void {
   currentData.push(newQuestEntry as DataItem);
   
   StateManager.setState({ quests: newQuests, currentData });
+  HistoryManager.recordData('新建任务', 'create');
   updateQuestForm(newQuestEntry);
   renderQuestList();
   EventSystem.emit('quest:created', { quest: newQuestEntry, index: currentQuestIndex });
@@ -1278,7 +1281,9 @@ export async function deleteQuest(): Promise<void> {
     currentData[currentQuestIndex + 1] = null;
   }
   
+  const deletedDataIndex = currentQuestIndex + 1;
   StateManager.setState({ quests: [...quests], currentData: currentData ? [...currentData] as DataItem[] : undefined });
+  HistoryManager.recordItem(deletedDataIndex, '删除任务', 'delete');
   
   // 选择下一个有效项
   let nextIndex = -1;
@@ -1319,10 +1324,14 @@ export async function saveQuestFile(): Promise<void> {
     return;
   }
   collectFormToQuest();
+  if (currentQuestIndex >= 0) {
+    HistoryManager.recordItem(currentQuestIndex + 1, '编辑任务');
+  }
   const payload: Array<RPGQuest | null> = [null, ...state.quests];
 
   const result = await fileSystemService.writeJSON(state.questFilePath, payload);
   if (result.success) {
+    StateManager.markSaved();
     updateQuestDataStatus();
     EventSystem.emit('quest:saved', { filePath: state.questFilePath, count: state.quests.length });
   } else {
@@ -1398,6 +1407,21 @@ async function loadQuestData(type: keyof typeof QUEST_DATA_CONFIG, fileValue: st
   }
 }
 
+/**
+ * 重新加载引用了指定文件的任务数据（文件被外部修改后调用）
+ * @returns 是否有任务数据引用了该文件
+ */
+export async function reloadQuestDataFile(filePath: string): Promise<boolean> {
+  const questDataPaths = StateManager.getState().questDataPaths;
+  let reloaded = false;
+  for (const type of Object.keys(questDataPaths) as Array<keyof typeof QUEST_DATA_CONFIG>) {
+    if (questDataPaths[type] !== filePath || !QUEST_DATA_CONFIG[type]) continue;
+    await loadQuestData(type, filePath);
+    reloaded = true;
+  }
+  return reloaded;
+}
+
 function applyLoadedQuestData(type: string, data: unknown): void {
   if (!data) return;
   const state = StateManager.getState();
@@ -1690,6 +1714,7 @@ export default {
   deleteQuest,
   saveQuestFile,
   loadQuestFile,
+  reloadQuestDataFile,
   dispose: disposeQuestPanel,
   handleQuestListSelect,
 };
\ No newline at end of file
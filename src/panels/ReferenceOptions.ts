@@ -0,0 +1,121 @@
+/**
+ * ReferenceOptions - 引用选项
+ * 为表单中的引用字段提供其他数据库或系统类型列表的条目：
+ * 已在标签页中打开的文件直接使用内存中的数据，否则从磁盘加载并缓存
+ */
+
+import { StateManager } from '../core/StateManager';
+import { TabManager } from '../core/TabManager';
+import { DataLoaderService } from '../services/DataLoaderService';
+import type { FieldOption, ReferenceTarget, SystemListKind } from '../services/schema';
+
+// ============ 常量 ============
+
+/** 引用目标对应的数据库文件 */
+const REFERENCE_FILES: Partial<Record<ReferenceTarget, string>> = {
+  actor: 'Actors.json',
+  class: 'Classes.json',
+  skill: 'Skills.json',
+  item: 'Items.json',
+  weapon: 'Weapons.json',
+  armor: 'Armors.json',
+  enemy: 'Enemies.json',
+  troop: 'Troops.json',
+  state: 'States.json',
+  animation: 'Animations.json',
+};
+
+const SYSTEM_LISTS: SystemListKind[] = ['elements', 'skillTypes', 'weaponTypes', 'armorTypes', 'equipTypes'];
+
+const FILE_NAME_REGEX = /[^\\/]+$/;
+
+// ============ 状态 ============
+
+/** 从磁盘加载的引用选项，键为 数据目录|引用目标 */
+const loadedReferenceOptions = new Map<string, FieldOption[]>();
+const pendingReferenceLoads = new Set<string>();
+
+// ============ 工具函数 ============
+
+function getDataDirectory(filePath: string): string {
+  return filePath.replace(FILE_NAME_REGEX, '');
+}
+
+function toOptions(entries: ArrayLike<unknown>, fromIndex: number): FieldOption[] {
+  const options: FieldOption[] = [];
+  for (let i = fromIndex; i < entries.length; i++) {
+    const entry = entries[i];
+    if (typeof entry === 'string') {
+      options.push({ value: i, label: entry || `#${i}` });
+    } else if (entry && typeof entry === 'object') {
+      const record = entry as { id?: number; name?: string };
+      options.push({ value: record.id ?? i, label: record.name || `#${record.id ?? i}` });
+    }
+  }
+  return options;
+}
+
+// ============ 导出函数 ============
+
+/**
+ * 获取当前文件所在数据目录中某个引用目标的条目
+ */
+export function getReferenceOptions(target: ReferenceTarget): FieldOption[] {
+  const filePath = StateManager.getState().currentFilePath;
+  if (!filePath) return [];
+  const dataDir = getDataDirectory(filePath);
+
+  const fileName = REFERENCE_FILES[target];
+  if (fileName) {
+    const tab = TabManager.findByPath(dataDir + fileName);
+    if (tab) return toOptions(tab.data, 1);
+  }
+  return loadedReferenceOptions.get(`${dataDir}|${target}`) ?? [];
+}
+
+/**
+ * 获取引用条目的名称，尚未加载或不存在时返回 null
+ */
+export function getReferenceLabel(target: ReferenceTarget, id: number): string | null {
+  const option = getReferenceOptions(target).find((item) => item.value === id);
+  return option ? option.label : null;
+}
+
+/**
+ * 加载尚未加载的引用选项；有新选项加载完成且当前文件未切换时调用 onLoaded
+ */
+export function loadReferenceOptions(targets: readonly ReferenceTarget[], onLoaded: () => void): void {
+  const filePath = StateManager.getState().currentFilePath;
+  if (!filePath) return;
+  const dataDir = getDataDirectory(filePath);
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    const cacheKey = `${dataDir}|${target}`;
+    if (loadedReferenceOptions.has(cacheKey) || pendingReferenceLoads.has(cacheKey)) continue;
+    pendingReferenceLoads.add(cacheKey);
+
+    const load = SYSTEM_LISTS.includes(target as SystemListKind)
+      ? DataLoaderService.loadSystem(`${dataDir}System.json`).then((result) =>
+        result.data ? toOptions(result.data[target as SystemListKind], 1) : null)
+      : DataLoaderService.loadNamedEntries(dataDir + REFERENCE_FILES[target]).then((result) =>
+        result.data ? toOptions(result.data, 0) : null);
+
+    void load.then((options) => {
+      pendingReferenceLoads.delete(cacheKey);
+      if (!options) return;
+      loadedReferenceOptions.set(cacheKey, options);
+      if (StateManager.getState().currentFilePath === filePath) {
+        onLoaded();
+      }
+    });
+  }
+}
+
+/**
+ * 清空已加载的引用选项
+ */
+export function clearReferenceOptions(): void {
+  loadedReferenceOptions.clear();
+  pendingReferenceLoads.clear();
+}
@@ -0,0 +1,209 @@
+/**
+ * SchemaForm - 通用数据库表单
+ * 根据数据库表单结构为当前条目生成输入控件，字段修改后通过回调提交
+ */
+
+import type { DatabaseSchema, FieldOption, FieldSchema, ReferenceTarget } from '../services/schema';
+import { parseFieldInput, readField } from '../services/schema';
+import { IconSheetService } from '../services/IconSheetService';
+
+// ============ 类型定义 ============
+
+export interface SchemaFormOptions {
+  /** 引用字段的可选条目（不含结构中声明的固定选项） */
+  getReferenceOptions: (target: ReferenceTarget) => FieldOption[];
+  /** 字段值通过校验后调用 */
+  onChange: (field: FieldSchema, value: unknown) => void;
+  /** 输入未通过校验时调用 */
+  onError: (message: string) => void;
+  /** 打开图标选择器，返回选中的图标编号，取消返回 null */
+  pickIcon?: (current: number) => Promise<number | null>;
+}
+
+// ============ 常量 ============
+
+const GROUP_CLASS = 'schema-field-group mb-3';
+const GROUP_TITLE_CLASS = 'schema-field-group-title text-xs font-medium text-gray-400 mb-1';
+const GRID_CLASS = 'schema-field-grid grid grid-cols-4 gap-2';
+const INPUT_CLASS = 'schema-field-input theme-input w-full text-xs';
+const ICON_PREVIEW_SIZE = 20;
+
+// ============ 渲染函数 ============
+
+function createSelect(field: FieldSchema, options: FieldOption[], value: unknown): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.className = INPUT_CLASS;
+
+  let found = false;
+  for (let i = 0; i < options.length; i++) {
+    const option = document.createElement('option');
+    option.value = String(options[i].value);
+    option.textContent = field.type === 'reference' && typeof options[i].value === 'number' && Number(options[i].value) > 0
+      ? `${String(options[i].value).padStart(4, '0')} ${options[i].label}`
+      : options[i].label;
+    if (options[i].value === value) found = true;
+    select.appendChild(option);
+  }
+
+  // 当前值不在选项中时保留原值，避免打开条目就被改写
+  if (!found && value !== undefined && value !== null) {
+    const option = document.createElement('option');
+    option.value = String(value);
+    option.textContent = `${String(value)}（未知）`;
+    select.appendChild(option);
+  }
+  select.value = String(value ?? '');
+  return select;
+}
+
+function createControl(field: FieldSchema, value: unknown, options: SchemaFormOptions): HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement {
+  switch (field.type) {
+    case 'boolean': {
+      const input = document.createElement('input');
+      input.type = 'checkbox';
+      input.className = 'schema-field-checkbox';
+      input.checked = value === true;
+      return input;
+    }
+    case 'text': {
+      const textarea = document.createElement('textarea');
+      textarea.className = `${INPUT_CLASS} resize-y`;
+      textarea.rows = 2;
+      textarea.value = value == null ? '' : String(value);
+      return textarea;
+    }
+    case 'enum':
+      return createSelect(field, field.options ?? [], value);
+    case 'reference': {
+      const referenceOptions = field.reference ? options.getReferenceOptions(field.reference) : [];
+      return createSelect(field, [...(field.options ?? []), ...referenceOptions], value);
+    }
+    default: {
+      const input = document.createElement('input');
+      input.className = INPUT_CLASS;
+      if (field.type === 'integer' || field.type === 'number') {
+        input.type = 'number';
+        input.step = field.type === 'integer' ? '1' : 'any';
+        if (field.min !== undefined) input.min = String(field.min);
+        if (field.max !== undefined) input.max = String(field.max);
+      } else {
+        input.type = 'text';
+      }
+      input.value = value == null ? '' : String(value);
+      if (field.hint) input.placeholder = field.hint;
+      return input;
+    }
+  }
+}
+
+function createField(field: FieldSchema, item: Record<string, unknown>, options: SchemaFormOptions): HTMLDivElement {
+  const wrapper = document.createElement('div');
+  wrapper.className = field.type === 'text' ? 'property-field col-span-4' : 'property-field';
+  wrapper.dataset.key = field.key;
+
+  const label = document.createElement('label');
+  label.className = 'attribute-label sci-fi-label text-xs';
+  label.textContent = field.label;
+  if (field.hint) label.title = field.hint;
+  wrapper.appendChild(label);
+
+  let value = readField(item, field);
+  const control = createControl(field, value, options);
+  control.dataset.key = field.key;
+  control.addEventListener('change', () => {
+    const raw = control instanceof HTMLInputElement && control.type === 'checkbox' ? control.checked : control.value;
+    const result = parseFieldInput(field, raw);
+    if (!result.ok) {
+      options.onError(result.error);
+      control.value = value == null ? '' : String(value);
+      return;
+    }
+    value = result.value;
+    options.onChange(field, result.value);
+  });
+  wrapper.appendChild(field.widget === 'icon' ? createIconControl(control, options) : control);
+
+  return wrapper;
+}
+
+/**
+ * 图标字段：数字输入前显示图标，点击图标打开图标选择器
+ */
+function createIconControl(control: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement, options: SchemaFormOptions): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = 'schema-field-icon flex items-center gap-1';
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'schema-field-icon-button shrink-0 w-6 h-6 flex items-center justify-center rounded border border-gray-600 hover:border-cyan-400';
+  button.title = '选择图标';
+  const icon = document.createElement('span');
+  icon.className = 'block';
+  button.appendChild(icon);
+
+  const updateIcon = () => {
+    IconSheetService.applyIcon(icon, Number(control.value), ICON_PREVIEW_SIZE);
+  };
+  void IconSheetService.load().then(updateIcon);
+  control.addEventListener('change', updateIcon);
+
+  if (options.pickIcon) {
+    const pickIcon = options.pickIcon;
+    button.addEventListener('click', () => {
+      void pickIcon(Number(control.value) || 0).then((index) => {
+        if (index === null || String(index) === control.value) return;
+        control.value = String(index);
+        control.dispatchEvent(new Event('change'));
+      });
+    });
+  } else {
+    button.disabled = true;
+  }
+
+  row.appendChild(button);
+  row.appendChild(control);
+  return row;
+}
+
+/**
+ * 为条目渲染表单
+ */
+export function renderSchemaForm(container: HTMLElement, schema: DatabaseSchema, item: Record<string, unknown>, options: SchemaFormOptions): void {
+  container.innerHTML = '';
+  const fragment = document.createDocumentFragment();
+
+  for (let g = 0; g < schema.groups.length; g++) {
+    const group = schema.groups[g];
+    const groupElement = document.createElement('div');
+    groupElement.className = GROUP_CLASS;
+
+    const title = document.createElement('div');
+    title.className = GROUP_TITLE_CLASS;
+    title.textContent = group.label;
+    groupElement.appendChild(title);
+
+    const grid = document.createElement('div');
+    grid.className = GRID_CLASS;
+    for (let i = 0; i < group.fields.length; i++) {
+      grid.appendChild(createField(group.fields[i], item, options));
+    }
+    groupElement.appendChild(grid);
+    fragment.appendChild(groupElement);
+  }
+
+  container.appendChild(fragment);
+}
+
+/**
+ * 收集结构中引用到的所有目标
+ */
+export function collectReferenceTargets(schema: DatabaseSchema): ReferenceTarget[] {
+  const targets = new Set<ReferenceTarget>();
+  for (let g = 0; g < schema.groups.length; g++) {
+    const fields = schema.groups[g].fields;
+    for (let i = 0; i < fields.length; i++) {
+      if (fields[i].reference) targets.add(fields[i].reference!);
+    }
+  }
+  return [...targets];
+}
@@ -9,6 +9,7 @@ import { acquireCard, releaseCard, acquireSpan, releaseSpan, recyclePoolTree } f
 import { delay } from '../utils/runner';
 import { StateManager } from '../core/StateManager';
 import { EventSystem } from '../core/EventSystem';
+import { HistoryManager } from '../core/HistoryManager';
 import { EditorManager } from '../core/EditorManager';
 import { resolveScriptFilePath } from '../services/ScriptPathCompat';
 import { getScriptCache, setScriptCache } from '../services/ScriptCacheManager';
@@ -140,6 +141,7 @@ function reorderScripts(src: HTMLElement, target: HTMLElement): void {
         }
     }
     currentItem.scripts = newScripts;
+    HistoryManager.recordItem(state.currentItemIndex, '调整脚本顺序');
 
     EventSystem.emit('script:reordered', { newOrder: newScripts });
     logger.info('Scripts reordered', { count: Object.keys(newScripts).length }, 'ScriptPanel');
@@ -299,6 +301,7 @@ async function loadScriptContent(key: string, scriptPath: string): Promise<void>
 
     // 设置编辑器内容和模型
     EditorManager.setModel(scriptContent, resolvedPath, 'javascript');
+    EventSystem.emit('script:loaded', resolvedPath);
 
     if (DOM.codeFilePath) {
       DOM.codeFilePath.textContent = `脚本: ${key}`;
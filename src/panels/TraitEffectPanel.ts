@@ -0,0 +1,304 @@
+/**
+ * TraitEffectPanel - 特性 / 使用效果面板
+ * 以可读文本列出当前条目的 traits 或 effects，并为每个条目提供按代码区分的编辑控件，
+ * 支持添加、删除与上下移动。修改直接写回当前条目并记录历史。
+ */
+
+import { DOM } from '../core/DOMManager';
+import { StateManager } from '../core/StateManager';
+import { EventSystem } from '../core/EventSystem';
+import { HistoryManager } from '../core/HistoryManager';
+import { detectDataKind } from '../services/IdRenumberService';
+import {
+  createCodeEntry,
+  describeCodeEntry,
+  fromInputValue,
+  getCodeDefinition,
+  getCodeTable,
+  toInputValue,
+} from '../services/schema';
+import type { CodeDefinition, CodeEntry, CodeTable, CodeValueKey, FieldOption, ReferenceTarget } from '../services/schema';
+import { getReferenceLabel, getReferenceOptions, loadReferenceOptions } from './ReferenceOptions';
+import { logger } from '../services/logger';
+
+// ============ 常量 ============
+
+const ROW_CLASS = 'trait-effect-row p-2 rounded border border-gray-700 bg-gray-800/60';
+const INPUT_CLASS = 'trait-effect-input theme-input w-full text-xs';
+const ACTION_BUTTON_CLASS = 'trait-effect-action px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded';
+
+// ============ 状态 ============
+
+/** 当前显示的表（特性或使用效果），非数据库文件时为 null */
+let currentTable: CodeTable | null = null;
+let eventsBound = false;
+
+// ============ 工具函数 ============
+
+/**
+ * 获取当前条目的特性 / 效果数组，缺失时创建
+ */
+function getCurrentEntries(create: boolean): CodeEntry[] | null {
+  const state = StateManager.getState();
+  const item = state.currentData?.[state.currentItemIndex] as Record<string, unknown> | null | undefined;
+  if (!item || !currentTable) return null;
+
+  const entries = item[currentTable.key];
+  if (Array.isArray(entries)) return entries as CodeEntry[];
+  if (!create) return null;
+  item[currentTable.key] = [];
+  return item[currentTable.key] as CodeEntry[];
+}
+
+/**
+ * 记录修改并刷新面板
+ */
+function commitEntries(label: string): void {
+  if (!currentTable) return;
+  HistoryManager.recordItem(StateManager.getState().currentItemIndex, `${label}${currentTable.label}`);
+  renderTraitEffectPanel();
+}
+
+function getDataOptions(definition: CodeDefinition): FieldOption[] {
+  const data = definition.data;
+  if (!data) return [];
+  const referenceOptions = data.reference ? getReferenceOptions(data.reference) : [];
+  return [...(data.options ?? []), ...referenceOptions];
+}
+
+function resolveReference(target: ReferenceTarget, id: number): string | null {
+  return getReferenceLabel(target, id);
+}
+
+// ============ 渲染函数 ============
+
+function createSelect(role: string, options: FieldOption[], value: number): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.className = INPUT_CLASS;
+  select.dataset.role = role;
+
+  let found = false;
+  for (let i = 0; i < options.length; i++) {
+    const option = document.createElement('option');
+    option.value = String(options[i].value);
+    option.textContent = options[i].label;
+    if (options[i].value === value) found = true;
+    select.appendChild(option);
+  }
+  // 当前值不在选项中（例如引用文件尚未加载）时保留原值
+  if (!found) {
+    const option = document.createElement('option');
+    option.value = String(value);
+    option.textContent = `#${value}`;
+    select.appendChild(option);
+  }
+  select.value = String(value);
+  return select;
+}
+
+function createNumberInput(role: string, value: number, title: string): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.step = 'any';
+  input.className = INPUT_CLASS;
+  input.dataset.role = role;
+  input.value = String(value);
+  input.title = title;
+  input.placeholder = title;
+  return input;
+}
+
+function createActionButton(action: string, text: string, title: string, disabled: boolean): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = ACTION_BUTTON_CLASS;
+  button.dataset.action = action;
+  button.textContent = text;
+  button.title = title;
+  button.disabled = disabled;
+  return button;
+}
+
+function createRow(table: CodeTable, entry: CodeEntry, index: number, count: number): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = ROW_CLASS;
+  row.dataset.index = String(index);
+
+  const header = document.createElement('div');
+  header.className = 'flex justify-between items-center gap-2 mb-1';
+
+  const summary = document.createElement('span');
+  summary.className = 'trait-effect-summary text-sm text-cyan-300 truncate';
+  summary.textContent = describeCodeEntry(table, entry, resolveReference);
+  header.appendChild(summary);
+
+  const actions = document.createElement('div');
+  actions.className = 'flex gap-1 flex-shrink-0';
+  actions.appendChild(createActionButton('up', '↑', '上移', index === 0));
+  actions.appendChild(createActionButton('down', '↓', '下移', index === count - 1));
+  actions.appendChild(createActionButton('remove', '✕', '删除', false));
+  header.appendChild(actions);
+  row.appendChild(header);
+
+  const controls = document.createElement('div');
+  controls.className = 'grid grid-cols-4 gap-2';
+
+  const codeOptions = table.codes.map((definition) => ({ value: definition.code, label: definition.label }));
+  controls.appendChild(createSelect('code', codeOptions, entry.code));
+
+  const definition = getCodeDefinition(table, entry.code);
+  if (definition?.data) {
+    controls.appendChild(definition.data.reference || definition.data.options
+      ? createSelect('dataId', getDataOptions(definition), entry.dataId)
+      : createNumberInput('dataId', entry.dataId, definition.data.label));
+  }
+  const values = definition?.values ?? [];
+  for (let i = 0; i < values.length; i++) {
+    const input = createNumberInput('value', toInputValue(values[i].format, entry[values[i].key] ?? 0), values[i].label);
+    input.dataset.key = values[i].key;
+    controls.appendChild(input);
+  }
+  row.appendChild(controls);
+
+  return row;
+}
+
+/**
+ * 渲染特性 / 使用效果面板；当前文件不是带特性或效果的数据库时隐藏
+ */
+export function renderTraitEffectPanel(): void {
+  const section = DOM.traitEffectSection;
+  const list = DOM.traitEffectList;
+  if (!section || !list) return;
+
+  const state = StateManager.getState();
+  const kind = state.currentFilePath ? detectDataKind(state.currentFilePath, state.currentFileType) : null;
+  currentTable = state.currentItem && state.currentFileType === 'data' ? getCodeTable(kind) : null;
+
+  section.classList.toggle('hidden', !currentTable);
+  list.innerHTML = '';
+  if (!currentTable) return;
+
+  if (DOM.traitEffectTitle) {
+    DOM.traitEffectTitle.textContent = currentTable.label;
+  }
+
+  const entries = getCurrentEntries(false) ?? [];
+  if (entries.length === 0) {
+    list.innerHTML = `<div class="empty-state text-sm text-gray-500">暂无${currentTable.label}，点击右上角按钮添加</div>`;
+  } else {
+    const fragment = document.createDocumentFragment();
+    for (let i = 0; i < entries.length; i++) {
+      fragment.appendChild(createRow(currentTable, entries[i], i, entries.length));
+    }
+    list.appendChild(fragment);
+  }
+
+  const targets = new Set<ReferenceTarget>();
+  for (let i = 0; i < currentTable.codes.length; i++) {
+    const reference = currentTable.codes[i].data?.reference;
+    if (reference) targets.add(reference);
+  }
+  loadReferenceOptions([...targets], renderTraitEffectPanel);
+}
+
+// ============ 事件处理 ============
+
+function getRowIndex(target: HTMLElement): number {
+  const row = target.closest('.trait-effect-row') as HTMLElement | null;
+  return row ? parseInt(row.dataset.index || '-1', 10) : -1;
+}
+
+function handleAddEntry(): void {
+  if (!currentTable) return;
+  const entries = getCurrentEntries(true);
+  if (!entries) {
+    EventSystem.emit('error:show', '请先选择一个项目');
+    return;
+  }
+  entries.push(createCodeEntry(currentTable, currentTable.codes[0]));
+  commitEntries('添加');
+}
+
+function handleListClick(event: Event): void {
+  const button = (event.target as HTMLElement).closest('[data-action]') as HTMLButtonElement | null;
+  if (!button || button.disabled) return;
+
+  const entries = getCurrentEntries(false);
+  const index = getRowIndex(button);
+  if (!entries || index < 0 || index >= entries.length) return;
+
+  switch (button.dataset.action) {
+    case 'remove':
+      entries.splice(index, 1);
+      commitEntries('删除');
+      break;
+    case 'up':
+    case 'down': {
+      const target = button.dataset.action === 'up' ? index - 1 : index + 1;
+      if (target < 0 || target >= entries.length) return;
+      const moved = entries[index];
+      entries[index] = entries[target];
+      entries[target] = moved;
+      commitEntries('移动');
+      break;
+    }
+  }
+}
+
+function handleListChange(event: Event): void {
+  const control = event.target as HTMLInputElement | HTMLSelectElement;
+  const role = control.dataset.role;
+  const entries = getCurrentEntries(false);
+  const index = getRowIndex(control);
+  if (!role || !currentTable || !entries || index < 0 || index >= entries.length) return;
+
+  const entry = entries[index];
+  const value = Number(control.value);
+  if (control.value.trim() === '' || Number.isNaN(value)) {
+    EventSystem.emit('error:show', '请输入有效的数字');
+    renderTraitEffectPanel();
+    return;
+  }
+
+  if (role === 'code') {
+    const definition = getCodeDefinition(currentTable, value);
+    if (!definition) return;
+    // 切换代码时 dataId 与数值的含义都会改变，按新代码的默认值重建
+    entries[index] = createCodeEntry(currentTable, definition);
+  } else if (role === 'dataId') {
+    if (!Number.isInteger(value)) {
+      EventSystem.emit('error:show', '编号必须是整数');
+      renderTraitEffectPanel();
+      return;
+    }
+    entry.dataId = value;
+  } else {
+    const key = control.dataset.key as CodeValueKey;
+    const definition = getCodeDefinition(currentTable, entry.code);
+    const format = definition?.values.find((item) => item.key === key)?.format ?? 'number';
+    entry[key] = fromInputValue(format, value);
+  }
+  commitEntries('修改');
+}
+
+// ============ 初始化与清理 ============
+
+export function initTraitEffectPanel(): void {
+  if (eventsBound) return;
+  DOM.traitEffectAddBtn?.addEventListener('click', handleAddEntry);
+  DOM.traitEffectList?.addEventListener('click', handleListClick);
+  DOM.traitEffectList?.addEventListener('change', handleListChange);
+  eventsBound = true;
+  logger.info('TraitEffectPanel initialized', undefined, 'TraitEffectPanel');
+}
+
+export function disposeTraitEffectPanel(): void {
+  if (eventsBound) {
+    DOM.traitEffectAddBtn?.removeEventListener('click', handleAddEntry);
+    DOM.traitEffectList?.removeEventListener('click', handleListClick);
+    DOM.traitEffectList?.removeEventListener('change', handleListChange);
+    eventsBound = false;
+  }
+  currentTable = null;
+}
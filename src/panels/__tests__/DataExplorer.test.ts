@@ -0,0 +1,89 @@
+/**
+ * DataExplorer 测试
+ * 验证数据文件分组与树形渲染
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventSystem } from '../../core/EventSystem';
+import type { ProjectDataFile, ProjectInfo } from '../../types/ipc';
+
+vi.mock('../../core/DOMManager', () => ({
+  DOM: {
+    dataExplorer: document.createElement('div'),
+    dataExplorerTitle: document.createElement('h2'),
+    dataExplorerTree: document.createElement('div'),
+    dataExplorerRefresh: document.createElement('button'),
+  },
+}));
+
+import { DOM } from '../../core/DOMManager';
+import {
+  groupDataFiles,
+  getDataFileTypeLabel,
+  initDataExplorer,
+  setExplorerProject,
+  disposeDataExplorer,
+} from '../DataExplorer';
+
+function createFile(fileName: string, itemCount: number | null = null): ProjectDataFile {
+  return { fileName, filePath: `C:/game/data/${fileName}`, itemCount };
+}
+
+function createProject(): ProjectInfo {
+  return {
+    rootPath: 'C:/game',
+    engine: 'MZ',
+    dataPath: 'C:/game/data',
+    scriptPath: 'C:/game/scripts',
+    imagePath: 'C:/game/img',
+    workspacePath: 'C:/game',
+    dataFiles: [createFile('Skills.json', 40), createFile('Actors.json', 4), createFile('System.json')],
+  };
+}
+
+describe('DataExplorer', () => {
+  afterEach(() => {
+    disposeDataExplorer();
+  });
+
+  it('should group files by database type in RPG Maker order', () => {
+    const groups = groupDataFiles([
+      createFile('Map002.json'),
+      createFile('Items.json', 12),
+      createFile('QuestData.json', 3),
+      createFile('MapInfos.json', 2),
+      createFile('Actors.json', 4),
+      createFile('Map001.json'),
+    ]);
+
+    expect(groups.map((group) => group.id)).toEqual(['database', 'system', 'map', 'other']);
+    expect(groups[0].files.map((file) => file.fileName)).toEqual(['Actors.json', 'Items.json']);
+    expect(groups[2].files.map((file) => file.fileName)).toEqual(['Map001.json', 'Map002.json']);
+  });
+
+  it('should resolve database type labels', () => {
+    expect(getDataFileTypeLabel('Enemies.json')).toBe('敌人');
+    expect(getDataFileTypeLabel('Map001.json')).toBe('');
+  });
+
+  it('should render the tree with item counts and emit open requests', () => {
+    initDataExplorer();
+    setExplorerProject(createProject());
+
+    expect(DOM.dataExplorer!.classList.contains('hidden')).toBe(false);
+    expect(DOM.dataExplorerTitle!.textContent).toBe('game (MZ)');
+
+    const rows = DOM.dataExplorerTree!.querySelectorAll<HTMLElement>('.data-explorer-file');
+    expect(rows).toHaveLength(3);
+    expect(rows[0].textContent).toBe('Actors · 角色4');
+
+    const handler = vi.fn();
+    EventSystem.on('explorer:open-file', handler);
+    rows[1].click();
+    expect(handler).toHaveBeenCalledWith('C:/game/data/Skills.json');
+    EventSystem.off('explorer:open-file', handler);
+
+    setExplorerProject(null);
+    expect(DOM.dataExplorer!.classList.contains('hidden')).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * ItemSearch 测试
+ * 验证搜索查询解析与条目匹配
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseItemQuery, isEmptyQuery, fuzzyMatch, matchItem } from '../ItemSearch';
+
+describe('ItemSearch', () => {
+  it('should parse ids, ranges, tags, script keys and free text', () => {
+    const query = parseItemQuery('  fire  #12 #30-20 tag:Element script:onHit ball ');
+
+    expect(query.text).toBe('fire ball');
+    expect(query.idRanges).toEqual([{ min: 12, max: 12 }, { min: 20, max: 30 }]);
+    expect(query.tags).toEqual(['element']);
+    expect(query.scriptKeys).toEqual(['onhit']);
+    expect(isEmptyQuery(parseItemQuery('   '))).toBe(true);
+  });
+
+  it('should prefer substring matches over scattered character matches', () => {
+    const substring = fuzzyMatch('ball', 'Fireball');
+    const scattered = fuzzyMatch('fbl', 'Fireball');
+
+    expect(substring?.ranges).toEqual([[4, 8]]);
+    expect(scattered?.ranges).toEqual([[0, 1], [4, 5], [6, 7]]);
+    expect(substring!.score).toBeLessThan(scattered!.score);
+    expect(fuzzyMatch('xyz', 'Fireball')).toBeNull();
+  });
+
+  it('should require every condition to match', () => {
+    const item = {
+      id: 15,
+      name: 'Fireball',
+      note: '<Element:Fire>\n<AoE>',
+      scripts: { onHit: 'js/skills/fireball.js' },
+    };
+
+    expect(matchItem(parseItemQuery('#10-20 tag:aoe script:onhit fire'), item, 15, item.name)).not.toBeNull();
+    expect(matchItem(parseItemQuery('#1-10'), item, 15, item.name)).toBeNull();
+    expect(matchItem(parseItemQuery('tag:Ice'), item, 15, item.name)).toBeNull();
+    expect(matchItem(parseItemQuery('script:onCast'), item, 15, item.name)).toBeNull();
+  });
+});
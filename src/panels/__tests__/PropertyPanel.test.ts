@@ -57,6 +57,22 @@ vi.mock('../../pools/DOMPools', () => ({
   acquireCard: vi.fn(() => document.createElement('div'))
 }));
 
+// Mock data loader (数据字段的引用选项从磁盘加载)
+vi.mock('../../services/DataLoaderService', () => ({
+  DataLoaderService: {
+    loadSystem: vi.fn(async () => ({ data: null })),
+    loadNamedEntries: vi.fn(async () => ({ data: null })),
+  }
+}));
+
+// Mock texture manager (图标字段从 IconSet.png 加载图标)
+vi.mock('../../services/TextureManager', () => ({
+  textureManager: {
+    loadSystemTexture: vi.fn(async () => null),
+    getTextureSource: vi.fn(() => null),
+  }
+}));
+
 describe('PropertyPanel', () => {
   beforeEach(async () => {
     // Initialize mock elements reference
@@ -0,0 +1,241 @@
+/**
+ * BackupRestoreDialog - 从备份恢复对话框
+ * 列出当前文件在 .rpgeditor-backups 中的自动备份，选中后预览内容，确认后请求恢复
+ */
+
+import { DOM } from '../core/DOMManager';
+import { EventSystem } from '../core/EventSystem';
+import { ipc } from './ipc';
+import type { BackupEntry } from '../types/ipc';
+import { logger } from './logger';
+
+// ============ 常量 ============
+
+const BACKUP_ITEM_CLASS = 'backup-restore-item';
+const ITEM_BASE_CLASS = `${BACKUP_ITEM_CLASS} px-3 py-2 border-b border-gray-700 text-sm cursor-pointer`;
+
+/** 预览最多显示的字符数，避免大型数据文件卡住界面 */
+const PREVIEW_MAX_LENGTH = 20000;
+
+// ============ 状态 ============
+
+let isInitialized = false;
+let isVisible = false;
+
+let currentFilePath = '';
+let backups: BackupEntry[] = [];
+let selectedBackup: BackupEntry | null = null;
+/** 每次选择递增，丢弃过期的预览读取结果 */
+let previewToken = 0;
+
+// ============ 渲染函数 ============
+
+/**
+ * 格式化文件大小
+ */
+export function formatBackupSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * 生成备份内容的摘要：数组显示有效条目数，其余显示字符数
+ */
+export function describeBackupContent(content: string): string {
+  try {
+    const data: unknown = JSON.parse(content);
+    if (Array.isArray(data)) {
+      let count = 0;
+      for (let i = 0; i < data.length; i++) {
+        if (data[i] !== null) count++;
+      }
+      return `${count} 个条目`;
+    }
+  } catch {
+    return `${content.length} 个字符（非 JSON）`;
+  }
+  return `${content.length} 个字符`;
+}
+
+function createRow(entry: BackupEntry): HTMLDivElement {
+  const row = document.createElement('div');
+  row.dataset.backupPath = entry.backupPath;
+
+  const selected = selectedBackup?.backupPath === entry.backupPath;
+  row.className = `${ITEM_BASE_CLASS} ${selected ? 'text-cyan-300 bg-cyan-900 bg-opacity-40' : 'text-gray-300 hover:bg-gray-700'}`;
+
+  const time = document.createElement('div');
+  time.textContent = new Date(entry.timestamp).toLocaleString();
+  row.appendChild(time);
+
+  const meta = document.createElement('div');
+  meta.className = 'text-xs text-gray-500';
+  meta.textContent = formatBackupSize(entry.size);
+  row.appendChild(meta);
+
+  return row;
+}
+
+export function renderBackupList(): void {
+  const list = DOM.backupRestoreList;
+  if (!list) return;
+
+  list.innerHTML = '';
+  if (backups.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'px-3 py-4 text-sm text-gray-500 text-center';
+    empty.textContent = '该文件暂无备份';
+    list.appendChild(empty);
+  } else {
+    const fragment = document.createDocumentFragment();
+    for (let i = 0; i < backups.length; i++) {
+      fragment.appendChild(createRow(backups[i]));
+    }
+    list.appendChild(fragment);
+  }
+
+  if (DOM.backupRestoreConfirm) {
+    DOM.backupRestoreConfirm.disabled = !selectedBackup;
+  }
+}
+
+function setPreview(summary: string, content: string): void {
+  if (DOM.backupRestoreSummary) DOM.backupRestoreSummary.textContent = summary;
+  if (DOM.backupRestorePreview) DOM.backupRestorePreview.textContent = content;
+}
+
+async function selectBackup(entry: BackupEntry): Promise<void> {
+  selectedBackup = entry;
+  renderBackupList();
+
+  const token = ++previewToken;
+  setPreview('正在读取备份...', '');
+  try {
+    const content = await ipc.file.read(entry.backupPath);
+    if (token !== previewToken) return;
+
+    const truncated = content.length > PREVIEW_MAX_LENGTH;
+    const summary = `${entry.fileName} · ${describeBackupContent(content)}${truncated ? ' · 仅显示开头部分' : ''}`;
+    setPreview(summary, truncated ? `${content.slice(0, PREVIEW_MAX_LENGTH)}\n...` : content);
+  } catch (error) {
+    if (token !== previewToken) return;
+    logger.error('Failed to read backup', { backupPath: entry.backupPath, error }, 'BackupRestoreDialog');
+    setPreview('读取备份失败', String(error));
+  }
+}
+
+// ============ 对话框控制 ============
+
+/**
+ * 打开对话框并加载指定文件的备份列表
+ */
+export async function showBackupRestoreDialog(filePath: string): Promise<void> {
+  if (!DOM.backupRestoreDialog) {
+    logger.warn('Backup restore dialog not found', undefined, 'BackupRestoreDialog');
+    return;
+  }
+
+  currentFilePath = filePath;
+  backups = [];
+  selectedBackup = null;
+  previewToken++;
+
+  if (DOM.backupRestoreTitle) {
+    DOM.backupRestoreTitle.textContent = `从备份恢复 - ${filePath.split(/[\\/]/).pop() || filePath}`;
+  }
+  setPreview('请选择一个备份', '');
+  renderBackupList();
+  DOM.backupRestoreDialog.classList.remove('hidden');
+  isVisible = true;
+
+  try {
+    backups = await ipc.file.listBackups(filePath);
+  } catch (error) {
+    logger.error('Failed to list backups', { filePath, error }, 'BackupRestoreDialog');
+    backups = [];
+  }
+  if (isVisible && currentFilePath === filePath) {
+    renderBackupList();
+  }
+}
+
+export function hideBackupRestoreDialog(): void {
+  if (!DOM.backupRestoreDialog) return;
+
+  DOM.backupRestoreDialog.classList.add('hidden');
+  isVisible = false;
+  previewToken++;
+}
+
+function handleListClick(e: Event): void {
+  const row = (e.target as HTMLElement).closest(`.${BACKUP_ITEM_CLASS}`) as HTMLElement | null;
+  if (!row?.dataset.backupPath) return;
+
+  const entry = backups.find((backup) => backup.backupPath === row.dataset.backupPath);
+  if (entry) {
+    void selectBackup(entry);
+  }
+}
+
+function handleConfirmClick(): void {
+  if (!selectedBackup) return;
+
+  const payload = { backupPath: selectedBackup.backupPath, filePath: currentFilePath };
+  hideBackupRestoreDialog();
+  EventSystem.emit('backup:restore-request', payload);
+}
+
+function handleDialogClick(e: Event): void {
+  if (e.target === DOM.backupRestoreDialog) {
+    hideBackupRestoreDialog();
+  }
+}
+
+function handleKeyDown(e: KeyboardEvent): void {
+  if (e.key === 'Escape' && isVisible) {
+    hideBackupRestoreDialog();
+  }
+}
+
+// ============ 初始化 ============
+
+export function initBackupRestoreDialog(): void {
+  if (isInitialized) return;
+
+  if (!DOM.backupRestoreDialog || !DOM.backupRestoreList) {
+    logger.warn('Backup restore dialog elements not found', undefined, 'BackupRestoreDialog');
+    return;
+  }
+
+  DOM.backupRestoreClose?.addEventListener('click', hideBackupRestoreDialog);
+  DOM.backupRestoreCancel?.addEventListener('click', hideBackupRestoreDialog);
+  DOM.backupRestoreConfirm?.addEventListener('click', handleConfirmClick);
+  DOM.backupRestoreList.addEventListener('click', handleListClick);
+  DOM.backupRestoreDialog.addEventListener('click', handleDialogClick);
+  document.addEventListener('keydown', handleKeyDown);
+
+  isInitialized = true;
+  logger.info('BackupRestoreDialog initialized', undefined, 'BackupRestoreDialog');
+}
+
+export function disposeBackupRestoreDialog(): void {
+  DOM.backupRestoreClose?.removeEventListener('click', hideBackupRestoreDialog);
+  DOM.backupRestoreCancel?.removeEventListener('click', hideBackupRestoreDialog);
+  DOM.backupRestoreConfirm?.removeEventListener('click', handleConfirmClick);
+  DOM.backupRestoreList?.removeEventListener('click', handleListClick);
+  DOM.backupRestoreDialog?.removeEventListener('click', handleDialogClick);
+  document.removeEventListener('keydown', handleKeyDown);
+
+  backups = [];
+  selectedBackup = null;
+  isVisible = false;
+  isInitialized = false;
+}
+
+export default {
+  init: initBackupRestoreDialog,
+  show: showBackupRestoreDialog,
+  hide: hideBackupRestoreDialog,
+  dispose: disposeBackupRestoreDialog,
+};
@@ -0,0 +1,544 @@
+/**
+ * BalanceTableDialog - 平衡对比表
+ * 以表格形式对比当前文件的所有条目：基础参数、自定义参数、价格、选定的备注标签以及派生列，
+ * 支持按列排序与筛选，可编辑的单元格直接写回数据
+ */
+
+import { DOM } from '../core/DOMManager';
+import { extractMetaData, parseValue, removeMetaTag, updateMetaTag } from '../utils/metaDataExtractor';
+import { getCustomParams, setCustomParamValue } from '../utils/customParams';
+import { BASE_ATTRIBUTES } from '../utils/baseAttributes';
+
+// ============ 类型定义 ============
+
+export type BalanceColumnKind = 'field' | 'param' | 'customParam' | 'metaTag' | 'derived';
+
+export interface BalanceColumn {
+  kind: BalanceColumnKind;
+  /** 字段名、参数下标、自定义参数名、标签名或派生列标识 */
+  key: string;
+  label: string;
+  numeric: boolean;
+  editable: boolean;
+}
+
+export type BalanceCell = number | string | null;
+
+export interface BalanceRow {
+  /** 条目在数据数组中的下标 */
+  index: number;
+  cells: BalanceCell[];
+}
+
+export interface BalanceTableOptions {
+  title: string;
+  data: unknown[];
+  /** 单元格修改写回数据后调用 */
+  onCellEdited: (index: number, label: string) => void;
+}
+
+// ============ 常量 ============
+
+const BASE_PARAM_LABELS = BASE_ATTRIBUTES.map((attr) => attr.label);
+
+const ATK_INDEX = 2;
+const RANGE_REGEX = /^(-?\d+(?:\.\d+)?)\s*\.\.\s*(-?\d+(?:\.\d+)?)$/;
+const COMPARE_REGEX = /^(>=|<=|>|<|=)\s*(-?\d+(?:\.\d+)?)$/;
+
+// ============ 列与单元格 ============
+
+function asRecord(entry: unknown): Record<string, unknown> | null {
+  return entry && typeof entry === 'object' ? entry as Record<string, unknown> : null;
+}
+
+function getFlatParams(item: Record<string, unknown>): number[] | null {
+  const params = item.params;
+  return Array.isArray(params) && params.every((value) => typeof value === 'number') ? params as number[] : null;
+}
+
+/**
+ * 收集所有条目备注中出现过的标签名
+ */
+export function collectMetaTagNames(data: readonly unknown[]): string[] {
+  const names = new Set<string>();
+  for (let i = 0; i < data.length; i++) {
+    const item = asRecord(data[i]);
+    if (item && typeof item.note === 'string') {
+      Object.keys(extractMetaData(item.note)).forEach((name) => names.add(name));
+    }
+  }
+  return [...names].sort();
+}
+
+/**
+ * 按数据内容生成列：只有文件中存在的参数、价格与自定义参数才会出现
+ */
+export function buildBalanceColumns(data: readonly unknown[], metaTags: readonly string[]): BalanceColumn[] {
+  let hasParams = false;
+  let hasPrice = false;
+  const customNames = new Set<string>();
+  for (let i = 0; i < data.length; i++) {
+    const item = asRecord(data[i]);
+    if (!item) continue;
+    if (getFlatParams(item)) hasParams = true;
+    if (typeof item.price === 'number') hasPrice = true;
+    getCustomParams(item).forEach((param) => customNames.add(param.name));
+  }
+
+  const columns: BalanceColumn[] = [
+    { kind: 'field', key: 'id', label: 'ID', numeric: true, editable: false },
+    { kind: 'field', key: 'name', label: '名称', numeric: false, editable: true },
+  ];
+  if (hasParams) {
+    for (let i = 0; i < BASE_PARAM_LABELS.length; i++) {
+      columns.push({ kind: 'param', key: String(i), label: BASE_PARAM_LABELS[i], numeric: true, editable: true });
+    }
+  }
+  customNames.forEach((name) => {
+    columns.push({ kind: 'customParam', key: name, label: name, numeric: true, editable: true });
+  });
+  if (hasPrice) {
+    columns.push({ kind: 'field', key: 'price', label: '价格', numeric: true, editable: true });
+  }
+  for (let i = 0; i < metaTags.length; i++) {
+    columns.push({ kind: 'metaTag', key: metaTags[i], label: `<${metaTags[i]}>`, numeric: false, editable: true });
+  }
+  if (hasParams) {
+    columns.push({ kind: 'derived', key: 'paramTotal', label: '能力总和', numeric: true, editable: false });
+    if (hasPrice) {
+      columns.push({ kind: 'derived', key: 'atkPerPrice', label: '攻击/价格', numeric: true, editable: false });
+    }
+  }
+  return columns;
+}
+
+/**
+ * 读取单元格的值
+ */
+export function getBalanceCell(item: Record<string, unknown>, column: BalanceColumn): BalanceCell {
+  switch (column.kind) {
+    case 'field': {
+      const value = item[column.key];
+      return typeof value === 'number' || typeof value === 'string' ? value : null;
+    }
+    case 'param':
+      return getFlatParams(item)?.[Number(column.key)] ?? null;
+    case 'customParam':
+      return getCustomParams(item).find((param) => param.name === column.key)?.value ?? null;
+    case 'metaTag': {
+      if (typeof item.note !== 'string') return null;
+      const meta = extractMetaData(item.note);
+      if (!(column.key in meta)) return null;
+      const value = meta[column.key];
+      return typeof value === 'number' ? value : typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    case 'derived': {
+      const params = getFlatParams(item);
+      if (!params) return null;
+      if (column.key === 'paramTotal') {
+        return params.reduce((sum, value) => sum + value, 0);
+      }
+      const price = typeof item.price === 'number' ? item.price : 0;
+      return price > 0 ? Math.round((params[ATK_INDEX] / price) * 1000) / 1000 : null;
+    }
+  }
+}
+
+/**
+ * 生成所有非空条目的行
+ */
+export function buildBalanceRows(data: readonly unknown[], columns: readonly BalanceColumn[]): BalanceRow[] {
+  const rows: BalanceRow[] = [];
+  for (let i = 0; i < data.length; i++) {
+    const item = asRecord(data[i]);
+    if (!item) continue;
+    rows.push({ index: i, cells: columns.map((column) => getBalanceCell(item, column)) });
+  }
+  return rows;
+}
+
+// ============ 排序与筛选 ============
+
+/**
+ * 判断单元格是否满足筛选条件
+ * 支持 >10、<=5、=3、10..20 数值条件，其余按文本包含匹配（不区分大小写）
+ */
+export function matchBalanceFilter(cell: BalanceCell, filter: string): boolean {
+  const text = filter.trim();
+  if (!text) return true;
+
+  const range = RANGE_REGEX.exec(text);
+  const compare = COMPARE_REGEX.exec(text);
+  if (range || compare) {
+    const value = typeof cell === 'number' ? cell : Number(cell);
+    if (cell === null || cell === '' || Number.isNaN(value)) return false;
+    if (range) {
+      return value >= Number(range[1]) && value <= Number(range[2]);
+    }
+    const operand = Number(compare![2]);
+    switch (compare![1]) {
+      case '>': return value > operand;
+      case '>=': return value >= operand;
+      case '<': return value < operand;
+      case '<=': return value <= operand;
+      default: return value === operand;
+    }
+  }
+  return cell !== null && String(cell).toLowerCase().includes(text.toLowerCase());
+}
+
+export function filterBalanceRows(rows: readonly BalanceRow[], filters: readonly string[]): BalanceRow[] {
+  return rows.filter((row) => filters.every((filter, column) => matchBalanceFilter(row.cells[column], filter ?? '')));
+}
+
+/**
+ * 按列排序，空值始终排在最后
+ */
+export function sortBalanceRows(rows: readonly BalanceRow[], column: number, direction: 1 | -1): BalanceRow[] {
+  return [...rows].sort((a, b) => {
+    const left = a.cells[column];
+    const right = b.cells[column];
+    if (left === null || right === null) {
+      return left === right ? a.index - b.index : left === null ? 1 : -1;
+    }
+    const result = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right), 'zh-CN', { numeric: true });
+    return result === 0 ? a.index - b.index : result * direction;
+  });
+}
+
+// ============ 编辑 ============
+
+/**
+ * 将单元格输入写回条目
+ * @returns 错误信息，成功时返回 null
+ */
+export function applyBalanceEdit(item: Record<string, unknown>, column: BalanceColumn, raw: string): string | null {
+  if (!column.editable) return `${column.label} 不可编辑`;
+  const text = raw.trim();
+
+  if (column.kind === 'metaTag') {
+    const note = typeof item.note === 'string' ? item.note : '';
+    item.note = text === '' ? removeMetaTag(note, column.key) : updateMetaTag(note, column.key, parseValue(text));
+    return null;
+  }
+  if (column.kind === 'field' && column.key === 'name') {
+    item.name = raw;
+    return null;
+  }
+
+  const value = Number(text);
+  if (text === '' || Number.isNaN(value)) {
+    return `${column.label} 必须是数字`;
+  }
+  if (column.kind === 'customParam') {
+    setCustomParamValue(item, column.key, value);
+    return null;
+  }
+  if (!Number.isInteger(value)) {
+    return `${column.label} 必须是整数`;
+  }
+  if (column.kind === 'param') {
+    const params = getFlatParams(item);
+    if (!params) return '该项目没有 params，基础属性不可编辑';
+    params[Number(column.key)] = value;
+    return null;
+  }
+  if (value < 0) {
+    return `${column.label} 不能小于 0`;
+  }
+  item[column.key] = value;
+  return null;
+}
+
+// ============ 对话框 ============
+
+let resolvePending: ((edits: number) => void) | null = null;
+let initialized = false;
+let currentOptions: BalanceTableOptions | null = null;
+let columns: BalanceColumn[] = [];
+let rows: BalanceRow[] = [];
+let filters: string[] = [];
+let sortColumn = -1;
+let sortDirection: 1 | -1 = 1;
+let editCount = 0;
+/** 选中作为列显示的备注标签，关闭对话框后保留 */
+const selectedMetaTags = new Set<string>();
+
+function formatCell(cell: BalanceCell): string {
+  return cell === null ? '' : String(cell);
+}
+
+function setSummary(message: string, isError = false): void {
+  if (!DOM.balanceTableSummary) return;
+  DOM.balanceTableSummary.textContent = message;
+  DOM.balanceTableSummary.classList.toggle('text-red-400', isError);
+  DOM.balanceTableSummary.classList.toggle('text-gray-400', !isError);
+}
+
+function renderTagChips(): void {
+  const container = DOM.balanceTableTags;
+  if (!container || !currentOptions) return;
+  container.innerHTML = '';
+
+  const names = collectMetaTagNames(currentOptions.data);
+  if (names.length === 0) {
+    container.textContent = '当前文件的备注中没有标签';
+    return;
+  }
+  for (let i = 0; i < names.length; i++) {
+    const chip = document.createElement('button');
+    chip.type = 'button';
+    chip.dataset.tag = names[i];
+    chip.className = selectedMetaTags.has(names[i])
+      ? 'balance-tag-chip px-2 py-0.5 text-xs rounded bg-cyan-700'
+      : 'balance-tag-chip px-2 py-0.5 text-xs rounded bg-gray-700 hover:bg-gray-600';
+    chip.textContent = `<${names[i]}>`;
+    container.appendChild(chip);
+  }
+}
+
+function rebuildTable(): void {
+  if (!currentOptions) return;
+  const tags = collectMetaTagNames(currentOptions.data).filter((name) => selectedMetaTags.has(name));
+  columns = buildBalanceColumns(currentOptions.data, tags);
+  rows = buildBalanceRows(currentOptions.data, columns);
+  filters = columns.map((_, i) => filters[i] ?? '');
+  if (sortColumn >= columns.length) sortColumn = -1;
+  renderTable();
+}
+
+function fillRow(tr: HTMLTableRowElement, row: BalanceRow): void {
+  tr.innerHTML = '';
+  tr.dataset.index = String(row.index);
+  for (let c = 0; c < columns.length; c++) {
+    const td = document.createElement('td');
+    td.className = columns[c].numeric ? 'px-2 py-1 text-right tabular-nums' : 'px-2 py-1';
+    td.dataset.column = String(c);
+    td.textContent = formatCell(row.cells[c]);
+    if (columns[c].editable) {
+      td.contentEditable = 'true';
+      td.classList.add('balance-editable');
+    } else {
+      td.classList.add('text-gray-400');
+    }
+    tr.appendChild(td);
+  }
+}
+
+function renderTable(): void {
+  const container = DOM.balanceTableContainer;
+  if (!container) return;
+
+  let visible = filterBalanceRows(rows, filters);
+  if (sortColumn >= 0) {
+    visible = sortBalanceRows(visible, sortColumn, sortDirection);
+  }
+
+  const table = document.createElement('table');
+  table.className = 'balance-table w-full text-xs border-collapse';
+
+  const thead = document.createElement('thead');
+  const headerRow = document.createElement('tr');
+  const filterRow = document.createElement('tr');
+  for (let c = 0; c < columns.length; c++) {
+    const th = document.createElement('th');
+    th.className = 'balance-sort px-2 py-1 text-left text-cyan-400 cursor-pointer whitespace-nowrap';
+    th.dataset.column = String(c);
+    th.textContent = columns[c].label + (sortColumn === c ? (sortDirection === 1 ? ' ▲' : ' ▼') : '');
+    headerRow.appendChild(th);
+
+    const filterCell = document.createElement('th');
+    filterCell.className = 'px-1 pb-1';
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'balance-filter theme-input w-full px-1 py-0.5 text-xs bg-gray-900 border border-gray-700 rounded';
+    input.dataset.column = String(c);
+    input.placeholder = columns[c].numeric ? '>10 / 5..20' : '筛选';
+    input.value = filters[c];
+    filterCell.appendChild(input);
+    filterRow.appendChild(filterCell);
+  }
+  thead.appendChild(headerRow);
+  thead.appendChild(filterRow);
+  table.appendChild(thead);
+
+  const tbody = document.createElement('tbody');
+  for (let r = 0; r < visible.length; r++) {
+    const tr = document.createElement('tr');
+    tr.className = 'border-t border-gray-700 hover:bg-gray-700/40';
+    fillRow(tr, visible[r]);
+    tbody.appendChild(tr);
+  }
+  table.appendChild(tbody);
+
+  container.innerHTML = '';
+  container.appendChild(table);
+  setSummary(`显示 ${visible.length} / ${rows.length} 个项目${editCount > 0 ? `，已修改 ${editCount} 处` : ''}`);
+}
+
+/**
+ * 提交单元格编辑，成功后只刷新所在行，避免打断正在进行的下一个编辑
+ */
+function commitCell(td: HTMLTableCellElement): void {
+  const tr = td.parentElement as HTMLTableRowElement | null;
+  if (!tr || !currentOptions) return;
+  const index = Number(tr.dataset.index);
+  const column = Number(td.dataset.column);
+  const row = rows.find((item) => item.index === index);
+  const item = asRecord(currentOptions.data[index]);
+  if (!row || !item || !columns[column]) return;
+
+  const raw = td.textContent ?? '';
+  if (raw === formatCell(row.cells[column])) return;
+
+  const error = applyBalanceEdit(item, columns[column], raw);
+  if (error) {
+    td.textContent = formatCell(row.cells[column]);
+    setSummary(error, true);
+    return;
+  }
+
+  row.cells = columns.map((col) => getBalanceCell(item, col));
+  editCount++;
+  currentOptions.onCellEdited(index, `对比表修改${columns[column].label}`);
+  fillRow(tr, row);
+  setSummary(`已修改 ${editCount} 处`);
+}
+
+function closeDialog(): void {
+  DOM.balanceTableDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  currentOptions = null;
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(editCount);
+  }
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  const target = e.target as HTMLElement;
+  const editing = target instanceof HTMLTableCellElement && target.isContentEditable;
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    if (editing) {
+      // 放弃当前单元格的输入
+      const row = rows.find((item) => item.index === Number(target.parentElement?.dataset.index));
+      target.textContent = formatCell(row?.cells[Number(target.dataset.column)] ?? null);
+      target.blur();
+    } else {
+      closeDialog();
+    }
+  } else if (e.key === 'Enter' && editing) {
+    e.preventDefault();
+    target.blur();
+  }
+}
+
+function handleContainerClick(e: MouseEvent): void {
+  const header = (e.target as HTMLElement).closest('.balance-sort') as HTMLElement | null;
+  if (!header) return;
+  const column = Number(header.dataset.column);
+  if (sortColumn === column) {
+    sortDirection = sortDirection === 1 ? -1 : 1;
+  } else {
+    sortColumn = column;
+    sortDirection = 1;
+  }
+  renderTable();
+}
+
+function handleContainerInput(e: Event): void {
+  const input = e.target as HTMLInputElement;
+  if (!input.classList.contains('balance-filter')) return;
+  filters[Number(input.dataset.column)] = input.value;
+  renderTable();
+  // 重新渲染后恢复筛选框焦点
+  const restored = DOM.balanceTableContainer?.querySelector(`.balance-filter[data-column="${input.dataset.column}"]`) as HTMLInputElement | null;
+  if (restored) {
+    restored.focus();
+    restored.setSelectionRange(restored.value.length, restored.value.length);
+  }
+}
+
+function handleContainerFocusOut(e: FocusEvent): void {
+  const target = e.target as HTMLElement;
+  if (target instanceof HTMLTableCellElement && target.isContentEditable) {
+    commitCell(target);
+  }
+}
+
+function handleTagClick(e: MouseEvent): void {
+  const chip = (e.target as HTMLElement).closest('.balance-tag-chip') as HTMLElement | null;
+  const tag = chip?.dataset.tag;
+  if (!tag) return;
+  if (selectedMetaTags.has(tag)) {
+    selectedMetaTags.delete(tag);
+  } else {
+    selectedMetaTags.add(tag);
+  }
+  renderTagChips();
+  rebuildTable();
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.balanceTableDialog) {
+    closeDialog();
+  }
+}
+
+export function initBalanceTableDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.balanceTableContainer?.addEventListener('click', handleContainerClick);
+  DOM.balanceTableContainer?.addEventListener('input', handleContainerInput);
+  DOM.balanceTableContainer?.addEventListener('focusout', handleContainerFocusOut);
+  DOM.balanceTableTags?.addEventListener('click', handleTagClick);
+  DOM.balanceTableClose?.addEventListener('click', closeDialog);
+  DOM.balanceTableDialog?.addEventListener('click', handleDialogClick);
+}
+
+/**
+ * 显示平衡对比表
+ * @returns 关闭时已修改的单元格数
+ */
+export function showBalanceTableDialog(options: BalanceTableOptions): Promise<number> {
+  initBalanceTableDialog();
+
+  if (resolvePending) {
+    closeDialog();
+  }
+  if (!DOM.balanceTableDialog) {
+    return Promise.resolve(0);
+  }
+
+  currentOptions = options;
+  editCount = 0;
+  filters = [];
+  sortColumn = -1;
+  sortDirection = 1;
+  if (DOM.balanceTableTitle) {
+    DOM.balanceTableTitle.textContent = options.title;
+  }
+  renderTagChips();
+  rebuildTable();
+  DOM.balanceTableDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideBalanceTableDialog(): void {
+  closeDialog();
+}
+
+export default {
+  init: initBalanceTableDialog,
+  show: showBalanceTableDialog,
+  hide: hideBalanceTableDialog,
+};
@@ -0,0 +1,320 @@
+/**
+ * BulkEditDialog - 批量编辑对话框
+ * 对所有选中项目统一设置基础参数、自定义参数、备注标签或任意顶层字段
+ */
+
+import { DOM } from '../core/DOMManager';
+import { extractMetaData, parseValue, removeMetaTag, updateMetaTag } from '../utils/metaDataExtractor';
+import { BASE_ATTRIBUTES } from '../utils/baseAttributes';
+
+// ============ 类型定义 ============
+
+/** 批量编辑的目标 */
+export type BulkEditTarget = 'param' | 'customParam' | 'noteTag' | 'field';
+
+/** 批量编辑的操作；add / multiply 仅用于数值 */
+export type BulkEditOperation = 'set' | 'add' | 'multiply' | 'remove';
+
+export interface BulkEdit {
+  target: BulkEditTarget;
+  /** 基础参数为 0-7 的下标，其余为参数名、标签名或字段名 */
+  key: string;
+  operation: BulkEditOperation;
+  value: string;
+}
+
+// ============ 常量 ============
+
+const BASE_PARAM_LABELS = BASE_ATTRIBUTES.map((attr) => attr.label);
+
+const NUMERIC_OPERATIONS: BulkEditOperation[] = ['set', 'add', 'multiply'];
+const OPERATIONS_BY_TARGET: Record<BulkEditTarget, BulkEditOperation[]> = {
+  param: NUMERIC_OPERATIONS,
+  customParam: [...NUMERIC_OPERATIONS, 'remove'],
+  noteTag: ['set', 'remove'],
+  field: [...NUMERIC_OPERATIONS, 'remove'],
+};
+const OPERATION_LABELS: Record<BulkEditOperation, string> = {
+  set: '设为',
+  add: '增加',
+  multiply: '乘以',
+  remove: '移除',
+};
+
+/** 不允许批量修改的字段：id 必须与数组下标一致 */
+const PROTECTED_FIELDS = new Set(['id']);
+
+// ============ 应用编辑 ============
+
+function applyNumber(current: unknown, operation: BulkEditOperation, operand: number): number {
+  const base = typeof current === 'number' ? current : Number(current) || 0;
+  if (operation === 'add') return base + operand;
+  if (operation === 'multiply') return base * operand;
+  return operand;
+}
+
+/**
+ * 解析字段值：合法 JSON 按 JSON 解析，否则视为字符串
+ */
+function parseFieldValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function applyToItem(item: Record<string, unknown>, edit: BulkEdit, operand: number): boolean {
+  const before = JSON.stringify(item);
+
+  switch (edit.target) {
+    case 'param': {
+      // 与属性面板一致：没有 params 的条目不可编辑基础属性
+      if (!Array.isArray(item.params)) return false;
+      const index = Number(edit.key);
+      item.params[index] = Math.round(applyNumber(item.params[index], edit.operation, operand));
+      break;
+    }
+    case 'customParam': {
+      const customParams = { ...(item.customParams as Record<string, { value?: number; symbol?: string; floatValue?: number }> | undefined) };
+      if (edit.operation === 'remove') {
+        if (!(edit.key in customParams)) return false;
+        delete customParams[edit.key];
+      } else {
+        const current = customParams[edit.key] ?? { value: 0, symbol: '', floatValue: 0 };
+        customParams[edit.key] = { ...current, value: applyNumber(current.value, edit.operation, operand) };
+      }
+      item.customParams = customParams;
+      break;
+    }
+    case 'noteTag': {
+      const note = typeof item.note === 'string' ? item.note : '';
+      if (edit.operation === 'remove') {
+        item.note = removeMetaTag(note, edit.key);
+      } else {
+        const value = edit.value === '' ? true : parseValue(edit.value);
+        const hasTag = edit.key in extractMetaData(note);
+        item.note = hasTag || !note
+          ? updateMetaTag(note, edit.key, value)
+          : `${note}\n${updateMetaTag('', edit.key, value)}`;
+      }
+      break;
+    }
+    case 'field': {
+      if (edit.operation === 'remove') {
+        if (!(edit.key in item)) return false;
+        delete item[edit.key];
+      } else if (edit.operation === 'set') {
+        item[edit.key] = parseFieldValue(edit.value);
+      } else {
+        item[edit.key] = applyNumber(item[edit.key], edit.operation, operand);
+      }
+      break;
+    }
+  }
+
+  return JSON.stringify(item) !== before;
+}
+
+/**
+ * 校验批量编辑参数
+ * @returns 错误信息，合法时返回 null
+ */
+export function validateBulkEdit(edit: BulkEdit): string | null {
+  if (!OPERATIONS_BY_TARGET[edit.target].includes(edit.operation)) {
+    return '该操作不适用于所选的编辑内容';
+  }
+  if (edit.target === 'param') {
+    const index = Number(edit.key);
+    if (!Number.isInteger(index) || index < 0 || index >= BASE_PARAM_LABELS.length) {
+      return '请选择基础参数';
+    }
+  } else if (!edit.key.trim()) {
+    return '请输入名称';
+  }
+  if (edit.target === 'field' && PROTECTED_FIELDS.has(edit.key)) {
+    return `不能批量修改 ${edit.key} 字段`;
+  }
+
+  const numeric = edit.target === 'param' || edit.target === 'customParam' || edit.operation === 'add' || edit.operation === 'multiply';
+  if (numeric && edit.operation !== 'remove' && (edit.value.trim() === '' || Number.isNaN(Number(edit.value)))) {
+    return '请输入数值';
+  }
+  return null;
+}
+
+/**
+ * 对指定下标的条目应用批量编辑（原地修改）
+ * @returns 实际发生变化的条目下标
+ */
+export function applyBulkEdit(data: unknown[], indices: readonly number[], edit: BulkEdit): number[] {
+  const operand = Number(edit.value);
+  const changed: number[] = [];
+  for (let i = 0; i < indices.length; i++) {
+    const item = data[indices[i]];
+    if (!item || typeof item !== 'object') continue;
+    if (applyToItem(item as Record<string, unknown>, edit, operand)) {
+      changed.push(indices[i]);
+    }
+  }
+  return changed;
+}
+
+// ============ 对话框 ============
+
+let resolvePending: ((value: BulkEdit | null) => void) | null = null;
+let initialized = false;
+
+function getTarget(): BulkEditTarget {
+  return (DOM.bulkEditTarget?.value as BulkEditTarget) || 'param';
+}
+
+function readEdit(): BulkEdit {
+  const target = getTarget();
+  return {
+    target,
+    key: target === 'param' ? DOM.bulkEditParamSelect?.value ?? '' : (DOM.bulkEditKey?.value ?? '').trim(),
+    operation: (DOM.bulkEditOperation?.value as BulkEditOperation) || 'set',
+    value: DOM.bulkEditValue?.value ?? '',
+  };
+}
+
+function setError(message: string): void {
+  if (!DOM.bulkEditError) return;
+  DOM.bulkEditError.textContent = message;
+  DOM.bulkEditError.classList.toggle('hidden', !message);
+}
+
+/**
+ * 根据编辑内容切换参数选择、名称输入与可用操作
+ */
+function updateFormForTarget(): void {
+  const target = getTarget();
+  DOM.bulkEditParamSelect?.classList.toggle('hidden', target !== 'param');
+  DOM.bulkEditKey?.classList.toggle('hidden', target === 'param');
+  if (DOM.bulkEditKey) {
+    DOM.bulkEditKey.placeholder = target === 'customParam' ? '自定义参数名' : target === 'noteTag' ? '标签名' : '字段名';
+  }
+
+  const select = DOM.bulkEditOperation;
+  if (select) {
+    const previous = select.value as BulkEditOperation;
+    const operations = OPERATIONS_BY_TARGET[target];
+    select.innerHTML = '';
+    for (let i = 0; i < operations.length; i++) {
+      const option = document.createElement('option');
+      option.value = operations[i];
+      option.textContent = OPERATION_LABELS[operations[i]];
+      select.appendChild(option);
+    }
+    select.value = operations.includes(previous) ? previous : operations[0];
+  }
+  updateValueInput();
+  setError('');
+}
+
+function updateValueInput(): void {
+  const input = DOM.bulkEditValue;
+  if (!input) return;
+  input.disabled = DOM.bulkEditOperation?.value === 'remove';
+  input.placeholder = getTarget() === 'noteTag' ? '标签值（留空为开关标签）' : getTarget() === 'field' ? '值（JSON 或文本）' : '数值';
+}
+
+function closeDialog(result: BulkEdit | null): void {
+  DOM.bulkEditDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+function handleApply(): void {
+  const edit = readEdit();
+  const error = validateBulkEdit(edit);
+  if (error) {
+    setError(error);
+    return;
+  }
+  closeDialog(edit);
+}
+
+function handleCancel(): void {
+  closeDialog(null);
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    handleCancel();
+  } else if (e.key === 'Enter' && e.target instanceof HTMLInputElement) {
+    e.preventDefault();
+    handleApply();
+  }
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.bulkEditDialog) {
+    handleCancel();
+  }
+}
+
+export function initBulkEditDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  if (DOM.bulkEditParamSelect && DOM.bulkEditParamSelect.options.length === 0) {
+    for (let i = 0; i < BASE_PARAM_LABELS.length; i++) {
+      const option = document.createElement('option');
+      option.value = String(i);
+      option.textContent = BASE_PARAM_LABELS[i];
+      DOM.bulkEditParamSelect.appendChild(option);
+    }
+  }
+  DOM.bulkEditTarget?.addEventListener('change', updateFormForTarget);
+  DOM.bulkEditOperation?.addEventListener('change', updateValueInput);
+  DOM.bulkEditApply?.addEventListener('click', handleApply);
+  DOM.bulkEditCancel?.addEventListener('click', handleCancel);
+  DOM.bulkEditDialog?.addEventListener('click', handleDialogClick);
+}
+
+/**
+ * 显示批量编辑对话框
+ * @param count 选中的项目数
+ * @returns 用户确认的编辑，取消时返回 null
+ */
+export function showBulkEditDialog(count: number): Promise<BulkEdit | null> {
+  initBulkEditDialog();
+
+  if (resolvePending) {
+    closeDialog(null);
+  }
+  if (!DOM.bulkEditDialog) {
+    return Promise.resolve(null);
+  }
+
+  if (DOM.bulkEditTitle) {
+    DOM.bulkEditTitle.textContent = `批量编辑 ${count} 个项目`;
+  }
+  updateFormForTarget();
+  DOM.bulkEditDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+  DOM.bulkEditValue?.focus();
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideBulkEditDialog(): void {
+  closeDialog(null);
+}
+
+export default {
+  init: initBulkEditDialog,
+  show: showBulkEditDialog,
+  hide: hideBulkEditDialog,
+  apply: applyBulkEdit,
+  validate: validateBulkEdit,
+};
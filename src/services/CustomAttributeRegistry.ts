@@ -0,0 +1,343 @@
+/**
+ * CustomAttributeRegistry - 自定义属性注册表
+ * 项目级的自定义属性定义，保存在数据目录下的 CustomAttributes.json 中。
+ * 提供名称补全所需的定义、条目属性的校验，以及改名时批量更新条目的 customParams
+ */
+
+import { EventSystem } from '../core/EventSystem';
+import type { DataKind } from './IdRenumberService';
+import { logger } from './logger';
+
+// ============ 类型定义 ============
+
+/** 一个自定义属性的定义 */
+export interface CustomAttributeDefinition {
+  name: string;
+  symbol: string;
+  /** 显示名称 */
+  label: string;
+  defaultValue: number;
+  min?: number;
+  max?: number;
+  /** 允许使用该属性的数据种类，为空表示不限 */
+  entityTypes: DataKind[];
+}
+
+/** CustomAttributes.json 的文件结构 */
+export interface CustomAttributeRegistryFile {
+  version: number;
+  attributes: CustomAttributeDefinition[];
+}
+
+/** 条目中某个自定义属性的校验结果 */
+export interface CustomAttributeIssue {
+  kind: 'unregistered' | 'entityType' | 'range';
+  message: string;
+  /** 未注册时，大小写或分隔符不同的相近名称 */
+  suggestion?: string;
+}
+
+/** 条目中已存在目标名称、因此没有重命名的自定义属性 */
+export interface CustomParamRenameConflict {
+  index: number;
+  itemName: string;
+  from: string;
+  to: string;
+}
+
+export interface CustomParamRenameResult {
+  /** 发生变化的条目下标 */
+  changed: number[];
+  conflicts: CustomParamRenameConflict[];
+}
+
+// ============ 常量 ============
+
+export const REGISTRY_FILE_NAME = 'CustomAttributes.json';
+
+const REGISTRY_VERSION = 1;
+
+const FILE_NAME_REGEX = /[^\\/]+$/;
+const NAME_NORMALIZE_REGEX = /[\s_-]/g;
+
+// ============ 工具函数 ============
+
+function toFiniteNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * 名称比较用的规范形式：忽略大小写、空白、下划线与连字符
+ */
+function normalizeName(name: string): string {
+  return name.replace(NAME_NORMALIZE_REGEX, '').toLowerCase();
+}
+
+/**
+ * 获取文件所在的数据目录（含末尾分隔符）
+ */
+export function getRegistryDirectory(filePath: string): string {
+  return filePath.replace(FILE_NAME_REGEX, '');
+}
+
+/**
+ * 解析注册表文件内容，无法识别的条目会被跳过
+ */
+export function parseRegistry(content: string): CustomAttributeDefinition[] {
+  const parsed = JSON.parse(content) as Partial<CustomAttributeRegistryFile> | null;
+  const attributes = Array.isArray(parsed?.attributes) ? parsed.attributes : [];
+  const definitions: CustomAttributeDefinition[] = [];
+  for (let i = 0; i < attributes.length; i++) {
+    const raw = attributes[i] as unknown as Record<string, unknown> | null;
+    if (!raw || typeof raw.name !== 'string' || !raw.name.trim()) continue;
+    definitions.push({
+      name: raw.name.trim(),
+      symbol: typeof raw.symbol === 'string' ? raw.symbol : '',
+      label: typeof raw.label === 'string' ? raw.label : '',
+      defaultValue: toFiniteNumber(raw.defaultValue) ?? 0,
+      min: toFiniteNumber(raw.min),
+      max: toFiniteNumber(raw.max),
+      entityTypes: Array.isArray(raw.entityTypes)
+        ? raw.entityTypes.filter((type): type is DataKind => typeof type === 'string')
+        : [],
+    });
+  }
+  return definitions;
+}
+
+export function serializeRegistry(definitions: readonly CustomAttributeDefinition[]): string {
+  const file: CustomAttributeRegistryFile = { version: REGISTRY_VERSION, attributes: [...definitions] };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * 校验注册表定义：名称不能为空或重复（忽略大小写与分隔符），最小值不能大于最大值
+ */
+export function validateDefinitions(definitions: readonly CustomAttributeDefinition[]): string[] {
+  const errors: string[] = [];
+  const seen = new Map<string, string>();
+  for (let i = 0; i < definitions.length; i++) {
+    const definition = definitions[i];
+    const name = definition.name.trim();
+    if (!name) {
+      errors.push(`第 ${i + 1} 行: 属性名不能为空`);
+      continue;
+    }
+    const key = normalizeName(name);
+    const existing = seen.get(key);
+    if (existing !== undefined) {
+      errors.push(existing === name ? `属性名重复: ${name}` : `属性名 ${name} 与 ${existing} 仅大小写或分隔符不同`);
+    } else {
+      seen.set(key, name);
+    }
+    if (definition.min !== undefined && definition.max !== undefined && definition.min > definition.max) {
+      errors.push(`${name}: 最小值不能大于最大值`);
+    }
+    if (!Number.isInteger(definition.defaultValue)) {
+      errors.push(`${name}: 默认值必须是整数`);
+    } else if (!isInRange(definition, definition.defaultValue)) {
+      errors.push(`${name}: 默认值超出取值范围`);
+    }
+  }
+  return errors;
+}
+
+export function findDefinition(
+  definitions: readonly CustomAttributeDefinition[],
+  name: string
+): CustomAttributeDefinition | null {
+  return definitions.find((definition) => definition.name === name) ?? null;
+}
+
+/**
+ * 查找仅大小写或分隔符不同的已注册名称，例如 critrate → critRate
+ */
+export function findSimilarName(definitions: readonly CustomAttributeDefinition[], name: string): string | null {
+  const key = normalizeName(name);
+  const match = definitions.find((definition) => definition.name !== name && normalizeName(definition.name) === key);
+  return match ? match.name : null;
+}
+
+/**
+ * 定义是否允许用于指定的数据种类
+ */
+export function isAllowedFor(definition: CustomAttributeDefinition, kind: DataKind | null): boolean {
+  return definition.entityTypes.length === 0 || (kind !== null && definition.entityTypes.includes(kind));
+}
+
+function isInRange(definition: CustomAttributeDefinition, value: number): boolean {
+  return (definition.min === undefined || value >= definition.min)
+    && (definition.max === undefined || value <= definition.max);
+}
+
+export function formatRange(definition: CustomAttributeDefinition): string {
+  return `${definition.min ?? '-∞'} ~ ${definition.max ?? '+∞'}`;
+}
+
+/**
+ * 检查条目中的一个自定义属性
+ * @returns 问题描述，没有问题时返回 null
+ */
+export function checkCustomAttribute(
+  definitions: readonly CustomAttributeDefinition[],
+  kind: DataKind | null,
+  name: string,
+  value: number
+): CustomAttributeIssue | null {
+  const definition = findDefinition(definitions, name);
+  if (!definition) {
+    const suggestion = findSimilarName(definitions, name);
+    return {
+      kind: 'unregistered',
+      message: suggestion ? `未在注册表中定义，是否为 ${suggestion}？` : '未在注册表中定义',
+      suggestion: suggestion ?? undefined,
+    };
+  }
+  if (!isAllowedFor(definition, kind)) {
+    return { kind: 'entityType', message: '注册表中未允许此类数据使用该属性' };
+  }
+  if (!isInRange(definition, value)) {
+    return { kind: 'range', message: `取值应在 ${formatRange(definition)} 之间` };
+  }
+  return null;
+}
+
+/**
+ * 按改名映射重命名条目中的自定义属性（customParams 与旧格式 customAttributes）。
+ * 条目中已存在目标名称时保留原属性，不覆盖已有的值，并作为冲突返回
+ */
+export function renameCustomParams(data: readonly unknown[], renames: ReadonlyMap<string, string>): CustomParamRenameResult {
+  const changed: number[] = [];
+  const conflicts: CustomParamRenameConflict[] = [];
+  if (renames.size === 0) return { changed, conflicts };
+
+  for (let i = 0; i < data.length; i++) {
+    const item = data[i] as Record<string, unknown> | null;
+    if (!item || typeof item !== 'object') continue;
+    let itemChanged = false;
+    const addConflict = (from: string, to: string): void => {
+      const itemName = typeof item.name === 'string' && item.name ? item.name : `#${i}`;
+      conflicts.push({ index: i, itemName, from, to });
+    };
+
+    const customParams = item.customParams as Record<string, unknown> | undefined;
+    if (customParams && typeof customParams === 'object') {
+      // 按原顺序重建对象，保持属性顺序不变
+      const renamed: Record<string, unknown> = {};
+      for (const [name, param] of Object.entries(customParams)) {
+        const target = renames.get(name);
+        if (target !== undefined && !(target in customParams)) {
+          renamed[target] = param && typeof param === 'object' && 'name' in param ? { ...param, name: target } : param;
+          itemChanged = true;
+        } else {
+          if (target !== undefined) addConflict(name, target);
+          renamed[name] = param;
+        }
+      }
+      if (itemChanged) item.customParams = renamed;
+    }
+
+    const legacy = item.customAttributes;
+    if (Array.isArray(legacy)) {
+      for (let j = 0; j < legacy.length; j++) {
+        const attr = legacy[j] as { name?: unknown } | null;
+        const target = attr && typeof attr.name === 'string' ? renames.get(attr.name) : undefined;
+        if (!attr || target === undefined) continue;
+        if (legacy.some((other) => (other as { name?: unknown } | null)?.name === target)) {
+          addConflict(attr.name as string, target);
+          continue;
+        }
+        attr.name = target;
+        itemChanged = true;
+      }
+    }
+
+    if (itemChanged) changed.push(i);
+  }
+  return { changed, conflicts };
+}
+
+// ============ 注册表服务 ============
+
+class CustomAttributeRegistryClass {
+  /** 当前注册表所在的数据目录 */
+  private directory = '';
+  private definitions: CustomAttributeDefinition[] = [];
+  private loading: Promise<void> | null = null;
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  getFilePath(): string {
+    return this.directory ? this.directory + REGISTRY_FILE_NAME : '';
+  }
+
+  getDefinitions(): readonly CustomAttributeDefinition[] {
+    return this.definitions;
+  }
+
+  /**
+   * 注册表是否有定义；没有定义时不对条目做校验
+   */
+  hasDefinitions(): boolean {
+    return this.definitions.length > 0;
+  }
+
+  /**
+   * 切换到文件所在的数据目录并加载注册表；目录未变化时直接返回
+   */
+  ensureLoaded(filePath: string): Promise<void> {
+    const directory = getRegistryDirectory(filePath);
+    if (directory === this.directory && this.loading) return this.loading;
+
+    this.directory = directory;
+    this.definitions = [];
+    this.loading = this.load(directory);
+    return this.loading;
+  }
+
+  /**
+   * 重新读取当前目录的注册表（文件被外部修改后调用）
+   */
+  reload(): Promise<void> {
+    if (!this.directory) return Promise.resolve();
+    this.loading = this.load(this.directory);
+    return this.loading;
+  }
+
+  private async load(directory: string): Promise<void> {
+    const filePath = directory + REGISTRY_FILE_NAME;
+    let definitions: CustomAttributeDefinition[] = [];
+    try {
+      if (await window.electronAPI.fileExists(filePath)) {
+        definitions = parseRegistry(await window.electronAPI.readFile(filePath));
+      }
+    } catch (error) {
+      logger.warn('Failed to load custom attribute registry', { filePath, error }, 'CustomAttributeRegistry');
+    }
+    // 加载期间切换了目录时丢弃结果
+    if (directory !== this.directory) return;
+    this.definitions = definitions;
+    EventSystem.emit('custom-registry:changed', this.definitions);
+  }
+
+  /**
+   * 保存注册表到当前数据目录
+   */
+  async save(definitions: readonly CustomAttributeDefinition[]): Promise<void> {
+    const filePath = this.getFilePath();
+    if (!filePath) {
+      throw new Error('未打开数据文件，无法确定注册表位置');
+    }
+    await window.electronAPI.writeFile(filePath, serializeRegistry(definitions));
+    this.definitions = definitions.map((definition) => ({ ...definition, entityTypes: [...definition.entityTypes] }));
+    this.loading = Promise.resolve();
+    EventSystem.emit('custom-registry:changed', this.definitions);
+    logger.info('Custom attribute registry saved', { filePath, count: definitions.length }, 'CustomAttributeRegistry');
+  }
+}
+
+export const CustomAttributeRegistry = new CustomAttributeRegistryClass();
+
+export default CustomAttributeRegistry;
@@ -0,0 +1,270 @@
+/**
+ * CustomAttributeRegistryDialog - 自定义属性注册表编辑对话框
+ * 以表格编辑属性名、缩写、显示名称、默认值、取值范围与允许的数据种类。
+ * 修改已有属性的名称会作为改名返回，由调用方更新所有条目
+ */
+
+import { DOM } from '../core/DOMManager';
+import { DATABASE_SCHEMAS } from './schema';
+import type { DataKind } from './IdRenumberService';
+import { validateDefinitions, type CustomAttributeDefinition } from './CustomAttributeRegistry';
+
+// ============ 类型定义 ============
+
+export interface CustomAttributeRegistryDialogResult {
+  definitions: CustomAttributeDefinition[];
+  /** 旧名称 → 新名称 */
+  renames: Map<string, string>;
+}
+
+// ============ 常量 ============
+
+const INPUT_CLASS = 'registry-input theme-input w-full px-1 py-0.5 text-xs bg-gray-900 border border-gray-700 rounded';
+
+/** 可限定的数据种类：带表单结构的标准数据库 */
+const ENTITY_TYPE_OPTIONS: ReadonlyArray<{ value: DataKind; label: string }> = DATABASE_SCHEMAS.map((schema) => ({
+  value: schema.kind,
+  label: schema.label,
+}));
+
+const COLUMNS = ['属性名', '缩写', '显示名称', '默认值', '最小值', '最大值', '适用数据', ''];
+
+// ============ 对话框 ============
+
+let resolvePending: ((result: CustomAttributeRegistryDialogResult | null) => void) | null = null;
+let initialized = false;
+
+function setErrors(errors: string[]): void {
+  if (!DOM.customRegistryErrors) return;
+  DOM.customRegistryErrors.textContent = errors.join('\n');
+  DOM.customRegistryErrors.classList.toggle('hidden', errors.length === 0);
+}
+
+function createInput(field: string, type: 'text' | 'number', value: string | number | undefined): HTMLTableCellElement {
+  const td = document.createElement('td');
+  td.className = 'px-1 py-1';
+  const input = document.createElement('input');
+  input.type = type;
+  input.className = INPUT_CLASS;
+  input.dataset.field = field;
+  input.value = value === undefined ? '' : String(value);
+  if (type === 'number') input.step = 'any';
+  td.appendChild(input);
+  return td;
+}
+
+function createTypeSelect(selected: readonly DataKind[]): HTMLTableCellElement {
+  const td = document.createElement('td');
+  td.className = 'px-1 py-1';
+  const select = document.createElement('select');
+  select.multiple = true;
+  select.size = 2;
+  select.className = INPUT_CLASS;
+  select.dataset.field = 'entityTypes';
+  select.title = '不选表示所有数据均可使用，按住 Ctrl 多选';
+  for (let i = 0; i < ENTITY_TYPE_OPTIONS.length; i++) {
+    const option = document.createElement('option');
+    option.value = ENTITY_TYPE_OPTIONS[i].value;
+    option.textContent = ENTITY_TYPE_OPTIONS[i].label;
+    option.selected = selected.includes(ENTITY_TYPE_OPTIONS[i].value);
+    select.appendChild(option);
+  }
+  td.appendChild(select);
+  return td;
+}
+
+function createRow(definition: CustomAttributeDefinition | null): HTMLTableRowElement {
+  const tr = document.createElement('tr');
+  tr.className = 'registry-row border-t border-gray-700';
+  // 记录原名称，保存时据此识别改名
+  tr.dataset.originalName = definition?.name ?? '';
+  tr.appendChild(createInput('name', 'text', definition?.name));
+  tr.appendChild(createInput('symbol', 'text', definition?.symbol));
+  tr.appendChild(createInput('label', 'text', definition?.label));
+  tr.appendChild(createInput('defaultValue', 'number', definition?.defaultValue ?? 0));
+  tr.appendChild(createInput('min', 'number', definition?.min));
+  tr.appendChild(createInput('max', 'number', definition?.max));
+  tr.appendChild(createTypeSelect(definition?.entityTypes ?? []));
+
+  const td = document.createElement('td');
+  td.className = 'px-1 py-1 text-right';
+  const remove = document.createElement('button');
+  remove.type = 'button';
+  remove.className = 'registry-remove px-2 py-0.5 text-xs bg-red-900 hover:bg-red-800 rounded';
+  remove.textContent = '删除';
+  td.appendChild(remove);
+  tr.appendChild(td);
+  return tr;
+}
+
+function renderTable(definitions: readonly CustomAttributeDefinition[]): void {
+  const container = DOM.customRegistryContainer;
+  if (!container) return;
+
+  const table = document.createElement('table');
+  table.className = 'registry-table w-full text-xs border-collapse';
+  const thead = document.createElement('thead');
+  const headerRow = document.createElement('tr');
+  for (let i = 0; i < COLUMNS.length; i++) {
+    const th = document.createElement('th');
+    th.className = 'px-1 py-1 text-left text-cyan-400 whitespace-nowrap';
+    th.textContent = COLUMNS[i];
+    headerRow.appendChild(th);
+  }
+  thead.appendChild(headerRow);
+  table.appendChild(thead);
+
+  const tbody = document.createElement('tbody');
+  for (let i = 0; i < definitions.length; i++) {
+    tbody.appendChild(createRow(definitions[i]));
+  }
+  table.appendChild(tbody);
+
+  container.innerHTML = '';
+  container.appendChild(table);
+}
+
+function readNumber(row: HTMLElement, field: string): number | undefined {
+  const input = row.querySelector(`[data-field="${field}"]`) as HTMLInputElement | null;
+  const raw = input?.value.trim() ?? '';
+  return raw === '' ? undefined : Number(raw);
+}
+
+function readText(row: HTMLElement, field: string): string {
+  const input = row.querySelector(`[data-field="${field}"]`) as HTMLInputElement | null;
+  return input?.value.trim() ?? '';
+}
+
+/**
+ * 从表格读取定义与改名映射
+ */
+function collectResult(): { result: CustomAttributeRegistryDialogResult; errors: string[] } {
+  const rows = DOM.customRegistryContainer?.querySelectorAll('.registry-row') ?? [];
+  const definitions: CustomAttributeDefinition[] = [];
+  const renames = new Map<string, string>();
+  const errors: string[] = [];
+
+  rows.forEach((element, index) => {
+    const row = element as HTMLTableRowElement;
+    const name = readText(row, 'name');
+    const values = ['defaultValue', 'min', 'max'].map((field) => readNumber(row, field));
+    if (values.some((value) => value !== undefined && Number.isNaN(value))) {
+      errors.push(`第 ${index + 1} 行: 默认值与取值范围必须是数字`);
+    }
+    const select = row.querySelector('[data-field="entityTypes"]') as HTMLSelectElement | null;
+    definitions.push({
+      name,
+      symbol: readText(row, 'symbol'),
+      label: readText(row, 'label'),
+      defaultValue: values[0] ?? 0,
+      min: values[1],
+      max: values[2],
+      entityTypes: select ? Array.from(select.selectedOptions, (option) => option.value as DataKind) : [],
+    });
+
+    const originalName = row.dataset.originalName ?? '';
+    if (originalName && name && originalName !== name) {
+      renames.set(originalName, name);
+    }
+  });
+
+  errors.push(...validateDefinitions(definitions));
+  return { result: { definitions, renames }, errors };
+}
+
+function closeDialog(result: CustomAttributeRegistryDialogResult | null): void {
+  DOM.customRegistryDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+function handleSave(): void {
+  const { result, errors } = collectResult();
+  if (errors.length > 0) {
+    setErrors(errors);
+    return;
+  }
+  closeDialog(result);
+}
+
+function handleAdd(): void {
+  const tbody = DOM.customRegistryContainer?.querySelector('tbody');
+  if (!tbody) return;
+  const row = createRow(null);
+  tbody.appendChild(row);
+  (row.querySelector('[data-field="name"]') as HTMLInputElement | null)?.focus();
+}
+
+function handleContainerClick(e: MouseEvent): void {
+  const button = (e.target as HTMLElement).closest('.registry-remove');
+  button?.closest('.registry-row')?.remove();
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    closeDialog(null);
+  }
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.customRegistryDialog) {
+    closeDialog(null);
+  }
+}
+
+export function initCustomAttributeRegistryDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.customRegistryAdd?.addEventListener('click', handleAdd);
+  DOM.customRegistryContainer?.addEventListener('click', handleContainerClick);
+  DOM.customRegistrySave?.addEventListener('click', handleSave);
+  DOM.customRegistryCancel?.addEventListener('click', () => closeDialog(null));
+  DOM.customRegistryDialog?.addEventListener('click', handleDialogClick);
+}
+
+/**
+ * 显示注册表编辑对话框
+ * @param filePath 注册表文件路径，显示在标题下方
+ * @returns 保存时返回新的定义与改名映射，取消返回 null
+ */
+export function showCustomAttributeRegistryDialog(
+  definitions: readonly CustomAttributeDefinition[],
+  filePath: string
+): Promise<CustomAttributeRegistryDialogResult | null> {
+  initCustomAttributeRegistryDialog();
+
+  if (resolvePending) {
+    closeDialog(null);
+  }
+  if (!DOM.customRegistryDialog) {
+    return Promise.resolve(null);
+  }
+
+  if (DOM.customRegistryPath) {
+    DOM.customRegistryPath.textContent = filePath;
+  }
+  setErrors([]);
+  renderTable(definitions);
+  DOM.customRegistryDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideCustomAttributeRegistryDialog(): void {
+  closeDialog(null);
+}
+
+export default {
+  init: initCustomAttributeRegistryDialog,
+  show: showCustomAttributeRegistryDialog,
+  hide: hideCustomAttributeRegistryDialog,
+};
@@ -68,6 +68,20 @@ export interface ArmorData {
 export interface SystemData {
   switches: string[];
   variables: string[];
+  /** 属性、技能类型、武器类型、防具类型、装备类型的名称（下标即 id） */
+  elements: string[];
+  skillTypes: string[];
+  weaponTypes: string[];
+  armorTypes: string[];
+  equipTypes: string[];
+}
+
+/**
+ * 带名称的数据条目（表单中的引用选项）
+ */
+export interface NamedEntry {
+  id: number;
+  name: string;
 }
 
 /**
@@ -167,6 +181,35 @@ class DataLoaderServiceImpl {
     log.debug('Cache cleared');
   }
 
+  /**
+   * 清除指定文件的缓存（文件被外部修改后调用）
+   * @returns 是否清除了缓存项
+   */
+  invalidateFile(filePath: string): boolean {
+    let removed = false;
+    for (const key of [...this.cache.keys()]) {
+      if (key.slice(key.indexOf(':') + 1) === filePath) {
+        this.cache.delete(key);
+        removed = true;
+      }
+    }
+    if (removed) {
+      log.debug(`Cache invalidated: ${filePath}`);
+    }
+    return removed;
+  }
+
+  /**
+   * 获取已缓存的数据文件路径
+   */
+  getLoadedFiles(): string[] {
+    const files: string[] = [];
+    for (const key of this.cache.keys()) {
+      files.push(key.slice(key.indexOf(':') + 1));
+    }
+    return files;
+  }
+
   /**
    * 从缓存获取数据
    */
@@ -346,6 +389,29 @@ class DataLoaderServiceImpl {
     return { success: true, data: skills };
   }
 
+  /**
+   * 加载任意数据库文件中带名称的条目（用于表单中的引用选择）
+   */
+  async loadNamedEntries(filePath: string): Promise<DataLoadResult<NamedEntry[]>> {
+    const cacheKey = `entries:${filePath}`;
+
+    const cached = this.getFromCache<NamedEntry[]>(cacheKey);
+    if (cached) {
+      return { success: true, data: cached };
+    }
+
+    const result = await this.loadJsonFile<(NamedEntry | null)[]>(filePath);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const entries = this.extractValidItems(result.data);
+    this.setCache(cacheKey, entries);
+
+    log.info(`Loaded ${entries.length} entries from ${filePath}`);
+    return { success: true, data: entries };
+  }
+
   // ============ 任务编辑器数据加载 ============
 
   /**
@@ -361,7 +427,7 @@ class DataLoaderServiceImpl {
       return { success: true, data: cached };
     }
 
-    const result = await this.loadJsonFile<{ switches: string[]; variables: string[] }>(filePath);
+    const result = await this.loadJsonFile<Partial<SystemData>>(filePath);
     if (!result.success || !result.data) {
       return { success: false, error: result.error };
     }
@@ -369,6 +435,11 @@ class DataLoaderServiceImpl {
     const systemData: SystemData = {
       switches: result.data.switches || [],
       variables: result.data.variables || [],
+      elements: result.data.elements || [],
+      skillTypes: result.data.skillTypes || [],
+      weaponTypes: result.data.weaponTypes || [],
+      armorTypes: result.data.armorTypes || [],
+      equipTypes: result.data.equipTypes || [],
     };
     
     this.setCache(cacheKey, systemData);
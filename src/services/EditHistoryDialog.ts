@@ -0,0 +1,216 @@
+/**
+ * EditHistoryDialog - 编辑历史对话框
+ * 列出 HistoryManager 中的全部记录，点击任意一行即可跳转到该历史位置
+ */
+
+import { DOM } from '../core/DOMManager';
+import { HistoryManager, parseItemTarget } from '../core/HistoryManager';
+import type { HistoryEntry } from '../types';
+import { logger } from './logger';
+
+// ============ 常量 ============
+
+const EDIT_HISTORY_ITEM_CLASS = 'edit-history-item';
+const ITEM_BASE_CLASS = `${EDIT_HISTORY_ITEM_CLASS} px-4 py-2 border-b border-gray-700 text-sm cursor-pointer flex items-center gap-2`;
+
+const TYPE_LABELS: Record<HistoryEntry['type'], string> = {
+  create: '新建',
+  update: '修改',
+  delete: '删除',
+};
+
+// ============ 状态 ============
+
+let isInitialized = false;
+let isVisible = false;
+
+let dialogElement: HTMLElement | null = null;
+let listElement: HTMLElement | null = null;
+let closeButton: HTMLButtonElement | null = null;
+let undoButton: HTMLButtonElement | null = null;
+let redoButton: HTMLButtonElement | null = null;
+let unsubscribeHistory: (() => void) | null = null;
+
+// ============ 渲染函数 ============
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+function describeTarget(target: string): string {
+  const index = parseItemTarget(target);
+  return index >= 0 ? `#${index}` : '整个文件';
+}
+
+function createRow(position: number, cursor: number, text: string, detail: string): HTMLDivElement {
+  const row = document.createElement('div');
+  row.dataset.position = String(position);
+
+  let stateClass = 'text-gray-300 hover:bg-gray-700';
+  if (position === cursor) {
+    stateClass = 'text-cyan-300 bg-cyan-900 bg-opacity-40';
+  } else if (position > cursor) {
+    stateClass = 'text-gray-500 hover:bg-gray-700 italic';
+  }
+  row.className = `${ITEM_BASE_CLASS} ${stateClass}`;
+
+  const label = document.createElement('span');
+  label.className = 'flex-1 truncate';
+  label.textContent = text;
+  row.appendChild(label);
+
+  const meta = document.createElement('span');
+  meta.className = 'text-xs text-gray-500';
+  meta.textContent = detail;
+  row.appendChild(meta);
+
+  return row;
+}
+
+export function renderEditHistoryList(): void {
+  if (!listElement) return;
+
+  const entries = HistoryManager.getEntries();
+  const cursor = HistoryManager.getCursor();
+
+  listElement.innerHTML = '';
+  const fragment = document.createDocumentFragment();
+  fragment.appendChild(createRow(0, cursor, '打开文件', '初始状态'));
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const text = `${TYPE_LABELS[entry.type]} ${describeTarget(entry.target)}${entry.label ? ` · ${entry.label}` : ''}`;
+    fragment.appendChild(createRow(i + 1, cursor, text, formatTime(entry.timestamp)));
+  }
+
+  listElement.appendChild(fragment);
+
+  if (undoButton) {
+    undoButton.disabled = !HistoryManager.canUndo();
+    undoButton.classList.toggle('opacity-50', undoButton.disabled);
+  }
+  if (redoButton) {
+    redoButton.disabled = !HistoryManager.canRedo();
+    redoButton.classList.toggle('opacity-50', redoButton.disabled);
+  }
+}
+
+// ============ 对话框控制 ============
+
+export function showEditHistoryDialog(): void {
+  if (!dialogElement) {
+    logger.warn('Edit history dialog not found', undefined, 'EditHistoryDialog');
+    return;
+  }
+
+  renderEditHistoryList();
+  dialogElement.classList.remove('hidden');
+  isVisible = true;
+}
+
+export function hideEditHistoryDialog(): void {
+  if (!dialogElement) return;
+
+  dialogElement.classList.add('hidden');
+  isVisible = false;
+}
+
+export function toggleEditHistoryDialog(): void {
+  if (isVisible) {
+    hideEditHistoryDialog();
+  } else {
+    showEditHistoryDialog();
+  }
+}
+
+function handleListClick(e: Event): void {
+  const row = (e.target as HTMLElement).closest(`.${EDIT_HISTORY_ITEM_CLASS}`) as HTMLElement | null;
+  if (!row || row.dataset.position === undefined) return;
+
+  HistoryManager.jumpTo(Number(row.dataset.position));
+}
+
+function handleUndoClick(): void {
+  HistoryManager.undo();
+}
+
+function handleRedoClick(): void {
+  HistoryManager.redo();
+}
+
+function handleDialogClick(e: Event): void {
+  if (e.target === dialogElement) {
+    hideEditHistoryDialog();
+  }
+}
+
+function handleKeyDown(e: KeyboardEvent): void {
+  if (e.key === 'Escape' && isVisible) {
+    hideEditHistoryDialog();
+  }
+}
+
+function handleHistoryChange(): void {
+  if (isVisible) {
+    renderEditHistoryList();
+  }
+}
+
+// ============ 初始化 ============
+
+export function initEditHistoryDialog(): void {
+  if (isInitialized) return;
+
+  dialogElement = DOM.editHistoryDialog;
+  listElement = DOM.editHistoryList;
+  closeButton = DOM.editHistoryDialogClose;
+  undoButton = DOM.editHistoryUndoBtn;
+  redoButton = DOM.editHistoryRedoBtn;
+
+  if (!dialogElement || !listElement) {
+    logger.warn('Edit history dialog elements not found', undefined, 'EditHistoryDialog');
+    return;
+  }
+
+  closeButton?.addEventListener('click', hideEditHistoryDialog);
+  undoButton?.addEventListener('click', handleUndoClick);
+  redoButton?.addEventListener('click', handleRedoClick);
+  listElement.addEventListener('click', handleListClick);
+  dialogElement.addEventListener('click', handleDialogClick);
+  document.addEventListener('keydown', handleKeyDown);
+  unsubscribeHistory = HistoryManager.subscribe(handleHistoryChange);
+
+  isInitialized = true;
+  logger.info('EditHistoryDialog initialized', undefined, 'EditHistoryDialog');
+}
+
+export function disposeEditHistoryDialog(): void {
+  closeButton?.removeEventListener('click', hideEditHistoryDialog);
+  undoButton?.removeEventListener('click', handleUndoClick);
+  redoButton?.removeEventListener('click', handleRedoClick);
+  listElement?.removeEventListener('click', handleListClick);
+  dialogElement?.removeEventListener('click', handleDialogClick);
+  document.removeEventListener('keydown', handleKeyDown);
+
+  if (unsubscribeHistory) {
+    unsubscribeHistory();
+    unsubscribeHistory = null;
+  }
+
+  isInitialized = false;
+  isVisible = false;
+  dialogElement = null;
+  listElement = null;
+  closeButton = null;
+  undoButton = null;
+  redoButton = null;
+}
+
+export default {
+  init: initEditHistoryDialog,
+  dispose: disposeEditHistoryDialog,
+  show: showEditHistoryDialog,
+  hide: hideEditHistoryDialog,
+  toggle: toggleEditHistoryDialog,
+  render: renderEditHistoryList,
+};
@@ -0,0 +1,179 @@
+/**
+ * ExternalChangeDialog - 文件被外部修改提示
+ * 提供重新加载、保留我的修改，以及（数据文件双方都有修改时）按条目合并三种选择
+ */
+
+import { DOM } from '../core/DOMManager';
+import type { MergeSide } from '../utils/dataMerge';
+
+// ============ 类型定义 ============
+
+/** 外部修改的处理方式 */
+export type ExternalChangeAction = 'reload' | 'keep' | 'merge';
+
+/** 双方都修改了的条目 */
+export interface ExternalChangeConflict {
+  index: number;
+  label: string;
+}
+
+export interface ExternalChangeDialogOptions {
+  message: string;
+  /** 为 null 时不提供合并 */
+  conflicts: ExternalChangeConflict[] | null;
+}
+
+export interface ExternalChangeResult {
+  action: ExternalChangeAction;
+  /** 合并时每个冲突条目的取舍 */
+  choices: Record<number, MergeSide>;
+}
+
+// ============ 常量 ============
+
+const CONFLICT_ROW_CLASS = 'external-change-conflict flex items-center gap-2 px-3 py-1 text-sm border-b border-gray-700';
+
+// ============ 状态 ============
+
+let resolvePending: ((value: ExternalChangeResult) => void) | null = null;
+let initialized = false;
+
+// ============ 渲染函数 ============
+
+function createConflictRow(conflict: ExternalChangeConflict): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = CONFLICT_ROW_CLASS;
+  row.dataset.index = String(conflict.index);
+
+  const label = document.createElement('span');
+  label.className = 'flex-1 truncate text-gray-200';
+  label.textContent = conflict.label;
+  row.appendChild(label);
+
+  const select = document.createElement('select');
+  select.className = 'bg-gray-700 text-gray-200 text-xs rounded px-1 py-0.5';
+  select.innerHTML = '<option value="mine">保留我的</option><option value="theirs">使用磁盘</option>';
+  row.appendChild(select);
+
+  return row;
+}
+
+function renderConflicts(conflicts: ExternalChangeConflict[] | null): void {
+  const container = DOM.externalChangeConflicts;
+  if (!container) return;
+
+  container.innerHTML = '';
+  container.classList.toggle('hidden', !conflicts);
+  if (!conflicts) return;
+
+  if (conflicts.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'px-3 py-2 text-xs text-gray-400';
+    empty.textContent = '没有冲突，合并时双方的修改都会保留';
+    container.appendChild(empty);
+    return;
+  }
+
+  const fragment = document.createDocumentFragment();
+  for (let i = 0; i < conflicts.length; i++) {
+    fragment.appendChild(createConflictRow(conflicts[i]));
+  }
+  container.appendChild(fragment);
+}
+
+function readChoices(): Record<number, MergeSide> {
+  const choices: Record<number, MergeSide> = {};
+  const rows = DOM.externalChangeConflicts?.querySelectorAll<HTMLElement>('.external-change-conflict');
+  if (!rows) return choices;
+
+  for (let i = 0; i < rows.length; i++) {
+    const select = rows[i].querySelector('select');
+    if (select) {
+      choices[Number(rows[i].dataset.index)] = select.value as MergeSide;
+    }
+  }
+  return choices;
+}
+
+// ============ 对话框控制 ============
+
+function closeDialog(action: ExternalChangeAction): void {
+  const choices = action === 'merge' ? readChoices() : {};
+  if (DOM.externalChangeDialog) {
+    DOM.externalChangeDialog.classList.add('hidden');
+  }
+  document.removeEventListener('keydown', handleKeydown);
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve({ action, choices });
+  }
+}
+
+function handleReload(): void {
+  closeDialog('reload');
+}
+
+function handleKeep(): void {
+  closeDialog('keep');
+}
+
+function handleMerge(): void {
+  closeDialog('merge');
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    handleKeep();
+  }
+}
+
+export function initExternalChangeDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.externalChangeReload?.addEventListener('click', handleReload);
+  DOM.externalChangeKeep?.addEventListener('click', handleKeep);
+  DOM.externalChangeMerge?.addEventListener('click', handleMerge);
+}
+
+/**
+ * 显示外部修改提示，Esc 视为保留我的修改
+ */
+export function showExternalChangeDialog(options: ExternalChangeDialogOptions): Promise<ExternalChangeResult> {
+  initExternalChangeDialog();
+
+  // 已有未决的提示时视为保留
+  if (resolvePending) {
+    closeDialog('keep');
+  }
+
+  if (!DOM.externalChangeDialog) {
+    const reload = window.confirm(`${options.message}\n\n确定重新加载并放弃我的修改吗？`);
+    return Promise.resolve({ action: reload ? 'reload' : 'keep', choices: {} });
+  }
+
+  if (DOM.externalChangeMessage) {
+    DOM.externalChangeMessage.textContent = options.message;
+  }
+  renderConflicts(options.conflicts);
+  DOM.externalChangeMerge?.classList.toggle('hidden', !options.conflicts);
+  DOM.externalChangeDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+  DOM.externalChangeKeep?.focus();
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideExternalChangeDialog(): void {
+  closeDialog('keep');
+}
+
+export default {
+  init: initExternalChangeDialog,
+  show: showExternalChangeDialog,
+  hide: hideExternalChangeDialog,
+};
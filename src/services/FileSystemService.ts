@@ -9,6 +9,17 @@
 
 import { ipc } from './ipc';
 import type { FileFilter } from '../types/ipc';
+import { FileFormatRegistry } from './serialization/FileFormatRegistry';
+
+/**
+ * Serialize JSON for a file, following its registered layout unless pretty is given explicitly
+ */
+function stringifyForFile(path: string, data: unknown, pretty?: boolean): string {
+  if (pretty === undefined) {
+    return FileFormatRegistry.stringify(path, data);
+  }
+  return pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data);
+}
 
 /**
  * Result type for file operations that may fail
@@ -156,6 +167,7 @@ export class FileSystemService {
 
     try {
       const data = JSON.parse(result.data) as T;
+      FileFormatRegistry.register(path, result.data);
       return { success: true, data };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Invalid JSON';
@@ -167,14 +179,12 @@ export class FileSystemService {
    * Write data as JSON to a file
    * @param path - File path to write
    * @param data - Data to serialize
-   * @param pretty - Whether to pretty-print (default: true)
+   * @param pretty - Whether to pretty-print; omit to keep the file's original layout
    * @returns Success status
    */
-  async writeJSON<T>(path: string, data: T, pretty = true): Promise<FileOperationResult<void>> {
+  async writeJSON<T>(path: string, data: T, pretty?: boolean): Promise<FileOperationResult<void>> {
     try {
-      const content = pretty 
-        ? JSON.stringify(data, null, 2) 
-        : JSON.stringify(data);
+      const content = stringifyForFile(path, data, pretty);
       return await this.writeFile(path, content);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to serialize JSON';
@@ -219,18 +229,16 @@ export class FileSystemService {
    * Save JSON data with automatic backup
    * @param path - File path to save
    * @param data - Data to serialize and save
-   * @param pretty - Whether to pretty-print (default: true)
+   * @param pretty - Whether to pretty-print; omit to keep the file's original layout
    * @returns Success status with backup path
    */
   async saveJSONWithBackup<T>(
     path: string, 
     data: T, 
-    pretty = true
+    pretty?: boolean
   ): Promise<FileOperationResult<{ backupPath?: string }>> {
     try {
-      const content = pretty 
-        ? JSON.stringify(data, null, 2) 
-        : JSON.stringify(data);
+      const content = stringifyForFile(path, data, pretty);
       return await this.saveWithBackup(path, content);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to serialize JSON';
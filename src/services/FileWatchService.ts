@@ -0,0 +1,110 @@
+/**
+ * FileWatchService - 外部修改监听列表
+ *
+ * 各模块（标签页、脚本编辑器、任务/弹道引用数据）按来源登记需要监听的文件，
+ * 服务把所有来源合并后交给主进程的 fs.watch 监听；文件被其他程序修改时
+ * 主进程推送 file-changed-externally 事件。
+ */
+
+import { ipc } from './ipc';
+import { logger } from './logger';
+
+const BACKSLASH_REGEX = /\\/g;
+
+/**
+ * FileWatchService class - singleton
+ */
+class FileWatchServiceClass {
+  /** 每个来源登记的文件 */
+  private sources = new Map<string, string[]>();
+
+  /** 最近一次发送给主进程的监听列表 */
+  private lastSynced = '';
+
+  private syncScheduled = false;
+
+  /**
+   * 替换某个来源登记的文件列表，同一微任务内的多次登记合并为一次同步
+   */
+  setWatchedFiles(source: string, filePaths: readonly string[]): void {
+    const paths: string[] = [];
+    for (let i = 0; i < filePaths.length; i++) {
+      if (filePaths[i]) paths.push(filePaths[i]);
+    }
+    if (paths.length > 0) {
+      this.sources.set(source, paths);
+    } else {
+      this.sources.delete(source);
+    }
+    this.scheduleSync();
+  }
+
+  /**
+   * 获取所有来源合并后的文件列表（按规范化路径去重）
+   */
+  getWatchedFiles(): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const paths of this.sources.values()) {
+      for (let i = 0; i < paths.length; i++) {
+        const key = normalizePath(paths[i]);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        result.push(paths[i]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 文件是否由指定来源登记
+   */
+  isWatchedBy(source: string, filePath: string): boolean {
+    const paths = this.sources.get(source);
+    if (!paths) return false;
+    const key = normalizePath(filePath);
+    for (let i = 0; i < paths.length; i++) {
+      if (normalizePath(paths[i]) === key) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 停止监听所有文件
+   */
+  dispose(): void {
+    this.sources.clear();
+    this.scheduleSync();
+  }
+
+  private scheduleSync(): void {
+    if (this.syncScheduled) return;
+    this.syncScheduled = true;
+    queueMicrotask(() => {
+      this.syncScheduled = false;
+      void this.sync();
+    });
+  }
+
+  private async sync(): Promise<void> {
+    const files = this.getWatchedFiles();
+    const signature = files.join('\n');
+    if (signature === this.lastSynced) return;
+    this.lastSynced = signature;
+
+    try {
+      await ipc.file.setWatched(files);
+    } catch (error) {
+      logger.warn('Failed to update watched files', { error }, 'FileWatchService');
+    }
+  }
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(BACKSLASH_REGEX, '/');
+}
+
+// Export singleton instance
+export const FileWatchService = new FileWatchServiceClass();
+
+export default FileWatchService;
@@ -0,0 +1,214 @@
+/**
+ * IconPickerDialog - 图标选择对话框
+ * 以网格显示项目 IconSet.png 中的所有图标及编号，可按编号或使用该图标的条目名称筛选，点击图标即选中
+ */
+
+import { DOM } from '../core/DOMManager';
+import { IconSheetService, type IconSheet } from './IconSheetService';
+
+// ============ 类型定义 ============
+
+export interface IconPickerDialogOptions {
+  /** 当前图标编号 */
+  current: number;
+  /** 当前文件中使用各图标的条目名称，用于按名称筛选 */
+  usages?: ReadonlyMap<number, readonly string[]>;
+}
+
+// ============ 常量 ============
+
+const ICON_DISPLAY_SIZE = 32;
+const CELL_CLASS = 'icon-picker-cell relative w-10 h-10 flex items-center justify-center rounded border cursor-pointer hover:border-cyan-400';
+const INDEX_CLASS = 'absolute right-0 bottom-0 px-0.5 text-[9px] leading-none font-mono text-gray-200 bg-black/60 rounded-sm pointer-events-none';
+
+// ============ 状态 ============
+
+let resolvePending: ((index: number | null) => void) | null = null;
+let initialized = false;
+let currentOptions: IconPickerDialogOptions | null = null;
+let sheet: IconSheet | null = null;
+
+// ============ 渲染函数 ============
+
+/**
+ * 按筛选条件列出图标编号：数字按编号前缀匹配，其他文本匹配使用该图标的条目名称
+ */
+function getVisibleIndices(query: string): number[] {
+  if (!sheet) return [];
+  const indices: number[] = [];
+  const text = query.trim().toLowerCase();
+  const numeric = /^\d+$/.test(text);
+
+  for (let index = 1; index < sheet.count; index++) {
+    if (!text) {
+      indices.push(index);
+    } else if (numeric) {
+      if (String(index).startsWith(text)) indices.push(index);
+    } else {
+      const names = currentOptions?.usages?.get(index);
+      if (names?.some((name) => name.toLowerCase().includes(text))) indices.push(index);
+    }
+  }
+  return indices;
+}
+
+function createCell(index: number): HTMLDivElement {
+  const cell = document.createElement('div');
+  cell.className = CELL_CLASS;
+  cell.dataset.index = String(index);
+  const selected = index === currentOptions?.current;
+  cell.classList.add(selected ? 'border-cyan-400' : 'border-transparent');
+  if (selected) cell.classList.add('bg-cyan-900/40');
+
+  const names = currentOptions?.usages?.get(index);
+  cell.title = names && names.length > 0 ? `${index}：${names.join('、')}` : String(index);
+
+  const icon = document.createElement('span');
+  icon.className = 'icon-picker-icon block';
+  IconSheetService.applyIcon(icon, index, ICON_DISPLAY_SIZE);
+  cell.appendChild(icon);
+
+  const label = document.createElement('span');
+  label.className = INDEX_CLASS;
+  label.textContent = String(index);
+  cell.appendChild(label);
+  return cell;
+}
+
+function renderGrid(): void {
+  const grid = DOM.iconPickerGrid;
+  if (!grid) return;
+  grid.innerHTML = '';
+
+  if (!sheet) {
+    const empty = document.createElement('div');
+    empty.className = 'p-4 text-sm text-gray-500';
+    empty.textContent = '未找到 img/system/IconSet.png，请检查设置中的图片目录';
+    grid.appendChild(empty);
+    updateSummary(0);
+    return;
+  }
+
+  const indices = getVisibleIndices(DOM.iconPickerSearch?.value ?? '');
+  const fragment = document.createDocumentFragment();
+  for (let i = 0; i < indices.length; i++) {
+    fragment.appendChild(createCell(indices[i]));
+  }
+  grid.appendChild(fragment);
+  updateSummary(indices.length);
+}
+
+function updateSummary(visible: number): void {
+  if (!DOM.iconPickerSummary) return;
+  const current = currentOptions?.current ?? 0;
+  const total = sheet ? sheet.count - 1 : 0;
+  DOM.iconPickerSummary.textContent = `当前图标 ${current || '无'} · 显示 ${visible} / ${total}`;
+}
+
+/**
+ * 滚动到当前图标
+ */
+function revealCurrent(): void {
+  const current = currentOptions?.current;
+  if (!current) return;
+  const cell = DOM.iconPickerGrid?.querySelector(`[data-index="${current}"]`) as HTMLElement | null;
+  cell?.scrollIntoView?.({ block: 'center' });
+}
+
+// ============ 事件处理 ============
+
+function handleGridClick(e: MouseEvent): void {
+  const cell = (e.target as HTMLElement).closest('.icon-picker-cell') as HTMLElement | null;
+  if (cell?.dataset.index) {
+    closeDialog(parseInt(cell.dataset.index, 10));
+  }
+}
+
+function handleSearchKeydown(e: KeyboardEvent): void {
+  if (e.key !== 'Enter') return;
+  e.preventDefault();
+  // 回车选中第一个匹配的图标
+  const first = DOM.iconPickerGrid?.querySelector('.icon-picker-cell') as HTMLElement | null;
+  if (first?.dataset.index) {
+    closeDialog(parseInt(first.dataset.index, 10));
+  }
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    closeDialog(null);
+  }
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.iconPickerDialog) {
+    closeDialog(null);
+  }
+}
+
+// ============ 对话框控制 ============
+
+function closeDialog(result: number | null): void {
+  DOM.iconPickerDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  currentOptions = null;
+  if (DOM.iconPickerGrid) DOM.iconPickerGrid.innerHTML = '';
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+export function initIconPickerDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.iconPickerSearch?.addEventListener('input', renderGrid);
+  DOM.iconPickerSearch?.addEventListener('keydown', handleSearchKeydown);
+  DOM.iconPickerGrid?.addEventListener('click', handleGridClick);
+  DOM.iconPickerClear?.addEventListener('click', () => closeDialog(0));
+  DOM.iconPickerCancel?.addEventListener('click', () => closeDialog(null));
+  DOM.iconPickerDialog?.addEventListener('click', handleDialogClick);
+}
+
+/**
+ * 显示图标选择对话框
+ * @returns 选中的图标编号（0 表示无图标），取消返回 null
+ */
+export async function showIconPickerDialog(options: IconPickerDialogOptions): Promise<number | null> {
+  initIconPickerDialog();
+
+  if (resolvePending) {
+    closeDialog(null);
+  }
+  if (!DOM.iconPickerDialog) {
+    return null;
+  }
+
+  currentOptions = options;
+  sheet = await IconSheetService.load();
+  if (currentOptions !== options) return null;
+
+  if (DOM.iconPickerSearch) DOM.iconPickerSearch.value = '';
+  renderGrid();
+  DOM.iconPickerDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+  revealCurrent();
+  DOM.iconPickerSearch?.focus();
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideIconPickerDialog(): void {
+  closeDialog(null);
+}
+
+export default {
+  init: initIconPickerDialog,
+  show: showIconPickerDialog,
+  hide: hideIconPickerDialog,
+};
@@ -0,0 +1,117 @@
+/**
+ * IconSheetService - 图标集
+ * 通过 TextureManager 加载项目的 img/system/IconSet.png，
+ * 以 CSS 精灵的方式在项目列表、表单与图标选择器中显示图标
+ */
+
+import * as PIXI from 'pixi.js';
+import { StateManager } from '../core/StateManager';
+import { EventSystem } from '../core/EventSystem';
+import { textureManager } from './TextureManager';
+import { logger } from './logger';
+import { getIconFrame } from '../utils/messageCodes';
+
+// ============ 类型定义 ============
+
+export interface IconSheet {
+  /** 图片地址（data URL） */
+  url: string;
+  /** 单个图标的边长 */
+  iconSize: number;
+  columns: number;
+  rows: number;
+  /** 图标总数 */
+  count: number;
+}
+
+// ============ 常量 ============
+
+const ICON_COLUMNS = 16;
+
+/** 保存图标集地址的 CSS 变量，避免每个图标元素都携带完整的 data URL */
+const SHEET_URL_PROPERTY = '--icon-sheet-url';
+
+// ============ IconSheetService 类 ============
+
+class IconSheetServiceClass {
+  /** 已加载图标集对应的图片目录 */
+  private imagePath = '';
+  private sheet: IconSheet | null = null;
+  private pending: Promise<IconSheet | null> | null = null;
+
+  /**
+   * 获取已加载的图标集；图片目录已变化或尚未加载时返回 null
+   */
+  getSheet(): IconSheet | null {
+    return this.imagePath === (StateManager.getState().config.imagePath ?? '') ? this.sheet : null;
+  }
+
+  /**
+   * 加载当前图片目录的图标集，同一目录只加载一次；加载成功后触发 iconset:loaded
+   */
+  load(): Promise<IconSheet | null> {
+    const imagePath = StateManager.getState().config.imagePath ?? '';
+    if (imagePath === this.imagePath && this.pending) {
+      return this.pending;
+    }
+
+    this.imagePath = imagePath;
+    this.sheet = null;
+    if (!imagePath) {
+      this.pending = Promise.resolve(null);
+      return this.pending;
+    }
+
+    const pending = this.loadSheet().then((sheet) => {
+      if (this.pending !== pending) return sheet;
+      this.sheet = sheet;
+      if (sheet) {
+        document.documentElement.style.setProperty(SHEET_URL_PROPERTY, `url("${sheet.url}")`);
+        EventSystem.emit('iconset:loaded', sheet);
+      }
+      return sheet;
+    });
+    this.pending = pending;
+    return pending;
+  }
+
+  /**
+   * 在元素上显示图标；图标集未加载或索引超出范围时清除
+   * @returns 是否显示了图标
+   */
+  applyIcon(element: HTMLElement, iconIndex: number, size: number): boolean {
+    const sheet = this.getSheet();
+    if (!sheet || !Number.isInteger(iconIndex) || iconIndex <= 0 || iconIndex >= sheet.count) {
+      element.style.backgroundImage = '';
+      return false;
+    }
+
+    const frame = getIconFrame(iconIndex, sheet.iconSize);
+    const scale = size / sheet.iconSize;
+    element.style.width = `${size}px`;
+    element.style.height = `${size}px`;
+    element.style.backgroundImage = `var(${SHEET_URL_PROPERTY})`;
+    element.style.backgroundRepeat = 'no-repeat';
+    element.style.backgroundSize = `${sheet.columns * size}px ${sheet.rows * size}px`;
+    element.style.backgroundPosition = `-${frame.x * scale}px -${frame.y * scale}px`;
+    return true;
+  }
+
+  private async loadSheet(): Promise<IconSheet | null> {
+    const texture = await textureManager.loadSystemTexture('IconSet');
+    const source = texture === PIXI.Texture.EMPTY ? null : textureManager.getTextureSource(texture);
+    if (!(source instanceof HTMLImageElement) || !source.src) {
+      logger.warn('IconSet not available', { imagePath: this.imagePath }, 'IconSheetService');
+      return null;
+    }
+
+    const { width, height } = texture.baseTexture;
+    const iconSize = width / ICON_COLUMNS;
+    const rows = Math.floor(height / iconSize);
+    logger.info('IconSet loaded', { iconSize, rows }, 'IconSheetService');
+    return { url: source.src, iconSize, columns: ICON_COLUMNS, rows, count: rows * ICON_COLUMNS };
+  }
+}
+
+export const IconSheetService = new IconSheetServiceClass();
+export default IconSheetService;
@@ -0,0 +1,366 @@
+/**
+ * IdRenumberService - 编号调整与引用修正
+ *
+ * RPG Maker 的数据文件要求条目的 id 与数组下标一致。删除、移动条目会改变后续条目的编号，
+ * 这里根据编号映射（旧 id → 新 id）生成调整后的数据，并找出其他已加载文件中
+ * 引用了这些 id 的字段，供预览后统一改写。
+ */
+
+import type { FileType } from '../core/StateManager';
+import { EFFECT_TABLE, TRAIT_TABLE } from './schema/TraitCodes';
+import type { CodeTable } from './schema/types';
+
+// ============ 类型定义 ============
+
+/** 可被引用的数据种类 */
+export type DataKind =
+  | 'actor'
+  | 'class'
+  | 'skill'
+  | 'item'
+  | 'weapon'
+  | 'armor'
+  | 'enemy'
+  | 'troop'
+  | 'state'
+  | 'animation'
+  | 'quest'
+  | 'projectile';
+
+/** 编号映射：旧 id → 新 id，新 id 为 0 表示条目被删除；未列出的 id 不变 */
+export type IdRemap = Map<number, number>;
+
+/** 参与引用修正的已加载文件 */
+export interface ReferenceSource {
+  filePath: string;
+  fileType: FileType;
+  data: unknown[];
+}
+
+/** 一处需要改写的引用 */
+export interface ReferenceChange {
+  filePath: string;
+  itemIndex: number;
+  itemName: string;
+  /** 字段路径，例如 objectives[0].itemId */
+  path: string;
+  oldId: number;
+  newId: number;
+  container: Record<string | number, unknown>;
+  key: string | number;
+}
+
+/** 条目自身的编号变化 */
+export interface IdChange {
+  oldId: number;
+  newId: number;
+  name: string;
+}
+
+/** 编号调整方案 */
+export interface RenumberPlan {
+  /** 调整后的目标文件数据（副本） */
+  data: unknown[];
+  idChanges: IdChange[];
+  /** 目标文件自身与其他文件中的引用改写 */
+  referenceChanges: ReferenceChange[];
+}
+
+type ReferenceVisitor = (kind: DataKind, container: Record<string | number, unknown>, key: string | number, path: string) => void;
+
+// ============ 常量 ============
+
+/** 标准数据文件名与数据种类 */
+const FILE_KINDS: Record<string, DataKind> = {
+  'actors.json': 'actor',
+  'classes.json': 'class',
+  'skills.json': 'skill',
+  'items.json': 'item',
+  'weapons.json': 'weapon',
+  'armors.json': 'armor',
+  'enemies.json': 'enemy',
+  'troops.json': 'troop',
+  'states.json': 'state',
+  'animations.json': 'animation',
+};
+
+/** 任务条件、目标、奖励中的 id 字段 */
+const QUEST_LISTS = ['requirements', 'objectives', 'rewards'];
+const QUEST_ID_FIELDS: Record<string, DataKind> = {
+  questId: 'quest',
+  actorId: 'actor',
+  itemId: 'item',
+  weaponId: 'weapon',
+  armorId: 'armor',
+  enemyId: 'enemy',
+};
+
+const DATA_KINDS: ReadonlySet<string> = new Set<DataKind>([
+  'actor', 'class', 'skill', 'item', 'weapon', 'armor', 'enemy', 'troop', 'state', 'animation', 'quest', 'projectile',
+]);
+
+/**
+ * 从代码表取出 dataId 引用其他数据库的代码，与特性/效果编辑器共用同一份定义
+ */
+function buildCodeKinds(table: CodeTable): Record<number, DataKind> {
+  const kinds: Record<number, DataKind> = {};
+  for (let i = 0; i < table.codes.length; i++) {
+    const { code, data } = table.codes[i];
+    if (data?.reference && DATA_KINDS.has(data.reference)) {
+      kinds[code] = data.reference as DataKind;
+    }
+  }
+  return kinds;
+}
+
+/** 特性代码：状态有效度、状态免疫、攻击时状态、攻击技能、添加技能、封印技能 */
+const TRAIT_KINDS = buildCodeKinds(TRAIT_TABLE);
+
+/** 使用效果代码：附加状态、解除状态、学会技能 */
+const EFFECT_KINDS = buildCodeKinds(EFFECT_TABLE);
+
+/** 敌人掉落物品种类：1 物品、2 武器、3 防具 */
+const DROP_KINDS: Record<number, DataKind> = { 1: 'item', 2: 'weapon', 3: 'armor' };
+
+const PATH_SEPARATOR_REGEX = /[\\/]/;
+
+// ============ 编号映射 ============
+
+/**
+ * 根据文件名识别标准数据文件的种类
+ */
+export function detectDataKind(filePath: string, fileType: FileType): DataKind | null {
+  if (fileType === 'quest') return 'quest';
+  if (fileType === 'projectile') return 'projectile';
+  const fileName = (filePath.split(PATH_SEPARATOR_REGEX).pop() || '').toLowerCase();
+  return FILE_KINDS[fileName] ?? null;
+}
+
+/**
+ * 删除条目的编号映射
+ * @param compact true 时后续条目依次前移；false 时只清空被删除的位置
+ */
+export function buildDeleteRemap(length: number, indices: readonly number[], compact: boolean): { remap: IdRemap; length: number } {
+  const removed = new Set(indices.filter((index) => index > 0 && index < length));
+  const remap: IdRemap = new Map();
+  let nextId = 1;
+  for (let id = 1; id < length; id++) {
+    if (removed.has(id)) {
+      remap.set(id, 0);
+      continue;
+    }
+    if (compact && nextId !== id) remap.set(id, nextId);
+    nextId++;
+  }
+  return { remap, length: compact ? length - removed.size : length };
+}
+
+/**
+ * 移动条目的编号映射
+ * @param indices 要移动的条目
+ * @param targetIndex 移动到原数组中该条目之前；等于数组长度时移到末尾
+ */
+export function buildMoveRemap(length: number, indices: readonly number[], targetIndex: number): IdRemap {
+  const moving = [...new Set(indices)].filter((index) => index > 0 && index < length).sort((a, b) => a - b);
+  const movingSet = new Set(moving);
+  const remaining: number[] = [];
+  let insertAt = 0;
+  for (let id = 1; id < length; id++) {
+    if (movingSet.has(id)) continue;
+    if (id < targetIndex) insertAt++;
+    remaining.push(id);
+  }
+
+  const order = [...remaining.slice(0, insertAt), ...moving, ...remaining.slice(insertAt)];
+  const remap: IdRemap = new Map();
+  for (let i = 0; i < order.length; i++) {
+    if (order[i] !== i + 1) remap.set(order[i], i + 1);
+  }
+  return remap;
+}
+
+function resolveId(remap: IdRemap, id: number): number {
+  const mapped = remap.get(id);
+  return mapped === undefined ? id : mapped;
+}
+
+/**
+ * 按编号映射重排数据，返回新数组；条目的 id 字段同步为新下标
+ */
+export function remapEntries(data: readonly unknown[], remap: IdRemap, length: number = data.length): unknown[] {
+  const result: unknown[] = new Array(length).fill(null);
+  result[0] = data[0] ?? null;
+  for (let id = 1; id < data.length; id++) {
+    const newId = resolveId(remap, id);
+    if (newId <= 0 || newId >= length) continue;
+    const item = data[id];
+    if (item && typeof item === 'object' && 'id' in item) {
+      (item as Record<string, unknown>).id = newId;
+    }
+    result[newId] = item ?? null;
+  }
+  return result;
+}
+
+// ============ 引用查找 ============
+
+function visitList(list: unknown, path: string, fn: (entry: Record<string, unknown>, path: string) => void): void {
+  if (!Array.isArray(list)) return;
+  for (let i = 0; i < list.length; i++) {
+    const entry = list[i];
+    if (entry && typeof entry === 'object') fn(entry as Record<string, unknown>, `${path}[${i}]`);
+  }
+}
+
+function visitQuest(quest: Record<string, unknown>, visit: ReferenceVisitor): void {
+  for (let i = 0; i < QUEST_LISTS.length; i++) {
+    visitList(quest[QUEST_LISTS[i]], QUEST_LISTS[i], (entry, path) => {
+      for (const field of Object.keys(QUEST_ID_FIELDS)) {
+        if (field in entry) visit(QUEST_ID_FIELDS[field], entry, field, `${path}.${field}`);
+      }
+    });
+  }
+}
+
+function visitProjectile(template: Record<string, unknown>, visit: ReferenceVisitor): void {
+  visit('animation', template, 'startAnimationId', 'startAnimationId');
+  visit('animation', template, 'endAnimationId', 'endAnimationId');
+  const launch = template.launchAnimation;
+  if (launch && typeof launch === 'object') {
+    visit('animation', launch as Record<string, unknown>, 'animationId', 'launchAnimation.animationId');
+  }
+}
+
+function visitDataItem(item: Record<string, unknown>, sourceKind: DataKind | null, visit: ReferenceVisitor): void {
+  visit('animation', item, 'animationId', 'animationId');
+  visit('class', item, 'classId', 'classId');
+
+  visitList(item.traits, 'traits', (trait, path) => {
+    const kind = TRAIT_KINDS[trait.code as number];
+    if (kind) visit(kind, trait, 'dataId', `${path}.dataId`);
+  });
+  visitList(item.effects, 'effects', (effect, path) => {
+    const kind = EFFECT_KINDS[effect.code as number];
+    if (kind) visit(kind, effect, 'dataId', `${path}.dataId`);
+  });
+  visitList(item.learnings, 'learnings', (learning, path) => visit('skill', learning, 'skillId', `${path}.skillId`));
+  visitList(item.actions, 'actions', (action, path) => visit('skill', action, 'skillId', `${path}.skillId`));
+  visitList(item.members, 'members', (member, path) => visit('enemy', member, 'enemyId', `${path}.enemyId`));
+  visitList(item.dropItems, 'dropItems', (drop, path) => {
+    const kind = DROP_KINDS[drop.kind as number];
+    if (kind) visit(kind, drop, 'dataId', `${path}.dataId`);
+  });
+
+  // 角色初始装备：按默认装备类型，第一格为武器，其余为防具
+  if (sourceKind === 'actor' && Array.isArray(item.equips)) {
+    const equips = item.equips as unknown as Record<number, unknown>;
+    for (let i = 0; i < item.equips.length; i++) {
+      visit(i === 0 ? 'weapon' : 'armor', equips, i, `equips[${i}]`);
+    }
+  }
+}
+
+function getItemName(item: Record<string, unknown>, index: number): string {
+  const name = (item.name ?? item.title) as string | undefined;
+  return name || `#${index}`;
+}
+
+/**
+ * 找出来源文件中引用了指定种类、且编号发生变化的字段
+ */
+export function collectReferenceChanges(kind: DataKind, remap: IdRemap, sources: readonly ReferenceSource[]): ReferenceChange[] {
+  const changes: ReferenceChange[] = [];
+  if (remap.size === 0) return changes;
+
+  for (let s = 0; s < sources.length; s++) {
+    const source = sources[s];
+    const sourceKind = detectDataKind(source.filePath, source.fileType);
+    for (let index = 1; index < source.data.length; index++) {
+      const item = source.data[index];
+      if (!item || typeof item !== 'object') continue;
+      const record = item as Record<string, unknown>;
+
+      const visit: ReferenceVisitor = (refKind, container, key, path) => {
+        if (refKind !== kind) return;
+        const oldId = container[key];
+        // 0 与负数表示"无"或"普通攻击"等特殊含义，不做修正
+        if (typeof oldId !== 'number' || oldId <= 0) return;
+        const newId = resolveId(remap, oldId);
+        if (newId === oldId) return;
+        changes.push({
+          filePath: source.filePath,
+          itemIndex: index,
+          itemName: getItemName(record, index),
+          path,
+          oldId,
+          newId,
+          container,
+          key,
+        });
+      };
+
+      if (source.fileType === 'quest') {
+        visitQuest(record, visit);
+      } else if (source.fileType === 'projectile') {
+        visitProjectile(record, visit);
+      } else {
+        visitDataItem(record, sourceKind, visit);
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * 生成编号调整方案：目标文件在副本上调整，其他文件的引用在 applyReferenceChanges 时原地改写
+ * @param target 要调整编号的文件
+ * @param kind 目标文件的数据种类，null 时只调整编号不修正引用
+ * @param sources 其他已加载的文件
+ */
+export function planRenumber(
+  target: ReferenceSource,
+  kind: DataKind | null,
+  remap: IdRemap,
+  length: number,
+  sources: readonly ReferenceSource[]
+): RenumberPlan {
+  const copy = JSON.parse(JSON.stringify(target.data)) as unknown[];
+
+  const idChanges: IdChange[] = [];
+  for (let id = 1; id < copy.length; id++) {
+    const newId = resolveId(remap, id);
+    const item = copy[id];
+    if (newId === id || !item || typeof item !== 'object') continue;
+    idChanges.push({ oldId: id, newId, name: getItemName(item as Record<string, unknown>, id) });
+  }
+
+  const data = remapEntries(copy, remap, length);
+  const referenceChanges = kind
+    ? collectReferenceChanges(kind, remap, [{ ...target, data }, ...sources])
+    : [];
+  return { data, idChanges, referenceChanges };
+}
+
+/**
+ * 应用引用改写
+ * @returns 被修改的文件路径
+ */
+export function applyReferenceChanges(changes: readonly ReferenceChange[]): string[] {
+  const files = new Set<string>();
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i];
+    change.container[change.key] = change.newId;
+    files.add(change.filePath);
+  }
+  return [...files];
+}
+
+export default {
+  detectDataKind,
+  buildDeleteRemap,
+  buildMoveRemap,
+  remapEntries,
+  collectReferenceChanges,
+  planRenumber,
+  applyReferenceChanges,
+};
@@ -0,0 +1,366 @@
+/**
+ * NoteTagDictionary - 插件备注标签字典
+ * 扫描项目 js/plugins/*.js 的插件注释，从 @help 中提取文档化的备注标签，
+ * 记录标签所属插件、值的形式与说明，供备注编辑器补全和元数据面板标注使用
+ */
+
+import { EventSystem } from '../core/EventSystem';
+import type { MetaTag } from '../utils/metaDataExtractor';
+import { logger } from './logger';
+
+// ============ 类型定义 ============
+
+/** 标签值的形式 */
+export type NoteTagShape = 'flag' | 'number' | 'text' | 'list' | 'block';
+
+/** 插件帮助中记录的一个标签写法 */
+export interface NoteTagDefinition {
+  name: string;
+  /** 所属插件（文件名，不含扩展名） */
+  plugin: string;
+  shape: NoteTagShape;
+  /** 帮助中的原始写法，如 <Cooldown: x> */
+  example: string;
+  description: string;
+}
+
+/** 备注中某个标签的检查结果 */
+export interface NoteTagIssue {
+  kind: 'unknown' | 'shape';
+  message: string;
+}
+
+// ============ 常量 ============
+
+export const NOTE_TAG_SHAPE_LABELS: Record<NoteTagShape, string> = {
+  flag: '标记',
+  number: '数字',
+  text: '文本',
+  list: '列表',
+  block: '块',
+};
+
+/** 插件注释块，以 /*: 开头，可带语言后缀（如 ja） */
+const PLUGIN_COMMENT_REGEX = /\/\*:([A-Za-z_]*)([\s\S]*?)\*\//g;
+const COMMENT_LINE_PREFIX_REGEX = /^\s*\*?\s?/;
+const HELP_START_REGEX = /^@help\b\s?(.*)$/;
+const DIRECTIVE_REGEX = /^@\w+/;
+const DOC_TAG_REGEX = /<([^<>:/\s][^<>:]*?)(?:\s*:\s*([^<>]*?))?\s*>/g;
+const DOC_CLOSE_TAG_REGEX = /^<\/([^<>]+)>$/;
+const NUMBER_PLACEHOLDER_REGEX = /^[+-]?(\d+(\.\d+)?|[xyzn])%?$/i;
+const NUMBER_VALUE_REGEX = /^[+-]?\d+(\.\d+)?%?$/;
+const TAG_NAME_REGEX = /^[\p{L}\p{N} _.\-]+$/u;
+const PATH_SEP_REGEX = /[\\/]/;
+const DATA_DIR_REGEX = /[\\/]data[\\/]?$/i;
+
+/** 每个标签最多保留的说明行数 */
+const MAX_DESCRIPTION_LINES = 6;
+
+// ============ 解析 ============
+
+/**
+ * 根据帮助中的示例值推断值的形式
+ */
+export function inferNoteTagShape(rawValue: string | undefined): NoteTagShape {
+  if (rawValue === undefined) return 'flag';
+  const value = rawValue.trim();
+  if (value.includes(',')) return 'list';
+  if (NUMBER_PLACEHOLDER_REGEX.test(value)) return 'number';
+  return 'text';
+}
+
+/**
+ * 提取插件注释中的 @help 文本，多个语言的注释块依次拼接
+ */
+export function extractPluginHelp(source: string): string {
+  const sections: string[] = [];
+  for (const match of source.matchAll(PLUGIN_COMMENT_REGEX)) {
+    const lines = match[2].split(/\r?\n/).map((line) => line.replace(COMMENT_LINE_PREFIX_REGEX, ''));
+    let inHelp = false;
+    const help: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const start = HELP_START_REGEX.exec(line.trim());
+      if (start) {
+        inHelp = true;
+        if (start[1]) help.push(start[1]);
+        continue;
+      }
+      if (inHelp && DIRECTIVE_REGEX.test(line.trim())) break;
+      if (inHelp) help.push(line);
+    }
+    if (help.length > 0) sections.push(help.join('\n'));
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * 从帮助文本中提取标签写法
+ * 以 < 开头的行视为标签行，紧随其后的非空行为说明；出现 </name> 的标签视为块标签
+ */
+export function parseHelpTags(help: string, plugin: string): NoteTagDefinition[] {
+  const definitions: NoteTagDefinition[] = [];
+  const seen = new Set<string>();
+  /** 等待说明的标签（连续的标签行共享说明） */
+  let pending: NoteTagDefinition[] = [];
+  let describing = false;
+
+  const lines = help.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) {
+      pending = [];
+      describing = false;
+      continue;
+    }
+
+    const close = DOC_CLOSE_TAG_REGEX.exec(line);
+    if (close) {
+      const name = close[1].trim();
+      const opened = definitions.filter((definition) => definition.name === name && definition.shape === 'flag');
+      for (let j = 0; j < opened.length; j++) {
+        opened[j].shape = 'block';
+        opened[j].description = '';
+      }
+      // 块标签的说明写在闭合标签之后
+      if (opened.length > 0) {
+        pending = opened;
+        describing = false;
+      }
+      continue;
+    }
+
+    if (line.startsWith('<')) {
+      if (describing) {
+        pending = [];
+        describing = false;
+      }
+      for (const match of line.matchAll(DOC_TAG_REGEX)) {
+        const name = match[1].trim();
+        if (!TAG_NAME_REGEX.test(name)) continue;
+        const shape = inferNoteTagShape(match[2]);
+        const key = `${name}\u0000${shape}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const definition: NoteTagDefinition = { name, plugin, shape, example: match[0], description: '' };
+        definitions.push(definition);
+        pending.push(definition);
+      }
+      continue;
+    }
+
+    if (pending.length === 0) continue;
+    describing = true;
+    for (let j = 0; j < pending.length; j++) {
+      const definition = pending[j];
+      const count = definition.description ? definition.description.split('\n').length : 0;
+      if (count < MAX_DESCRIPTION_LINES) {
+        definition.description = definition.description ? `${definition.description}\n${line}` : line;
+      }
+    }
+  }
+  return definitions;
+}
+
+/**
+ * 解析一个插件文件中文档化的标签
+ */
+export function parsePluginNoteTags(source: string, plugin: string): NoteTagDefinition[] {
+  return parseHelpTags(extractPluginHelp(source), plugin);
+}
+
+/**
+ * 按标签名建立字典，同名标签可来自多个插件或有多种写法
+ */
+export function buildNoteTagDictionary(definitions: readonly NoteTagDefinition[]): Map<string, NoteTagDefinition[]> {
+  const dictionary = new Map<string, NoteTagDefinition[]>();
+  for (let i = 0; i < definitions.length; i++) {
+    const definition = definitions[i];
+    const list = dictionary.get(definition.name);
+    if (list) {
+      list.push(definition);
+    } else {
+      dictionary.set(definition.name, [definition]);
+    }
+  }
+  return dictionary;
+}
+
+/**
+ * 查找标签定义：先精确匹配，再忽略大小写匹配
+ */
+export function findNoteTagDefinitions(
+  dictionary: ReadonlyMap<string, NoteTagDefinition[]>,
+  name: string
+): NoteTagDefinition[] {
+  const exact = dictionary.get(name);
+  if (exact) return exact;
+  const lower = name.toLowerCase();
+  for (const [key, definitions] of dictionary) {
+    if (key.toLowerCase() === lower) return definitions;
+  }
+  return [];
+}
+
+function matchesShape(tag: MetaTag, shape: NoteTagShape): boolean {
+  switch (shape) {
+    case 'block':
+      return tag.body !== undefined;
+    case 'flag':
+      return tag.body === undefined && tag.value === true;
+    case 'number':
+      // +5、50% 之类的写法解析为文本，也视为数字
+      return tag.body === undefined
+        && (typeof tag.value === 'number' || (typeof tag.value === 'string' && NUMBER_VALUE_REGEX.test(tag.value.trim())));
+    default:
+      return tag.body === undefined && tag.value !== true;
+  }
+}
+
+/**
+ * 检查备注中的标签是否在字典中、写法是否与文档一致
+ * @returns 问题描述，没有问题时返回 null
+ */
+export function checkNoteTag(dictionary: ReadonlyMap<string, NoteTagDefinition[]>, tag: MetaTag): NoteTagIssue | null {
+  const definitions = findNoteTagDefinitions(dictionary, tag.name);
+  if (definitions.length === 0) {
+    return { kind: 'unknown', message: '未在插件帮助中找到此标签' };
+  }
+  if (definitions.some((definition) => matchesShape(tag, definition.shape))) {
+    return null;
+  }
+  const expected = [...new Set(definitions.map((definition) => definition.example))].join(' 或 ');
+  return { kind: 'shape', message: `写法与插件说明不一致，应为 ${expected}` };
+}
+
+/**
+ * 按前缀查找标签名，前缀匹配在前，包含匹配在后
+ */
+export function searchNoteTagNames(
+  dictionary: ReadonlyMap<string, NoteTagDefinition[]>,
+  query: string,
+  limit: number
+): string[] {
+  const lower = query.toLowerCase();
+  const prefix: string[] = [];
+  const contains: string[] = [];
+  for (const name of dictionary.keys()) {
+    const key = name.toLowerCase();
+    if (key.startsWith(lower)) {
+      prefix.push(name);
+    } else if (lower && key.includes(lower)) {
+      contains.push(name);
+    }
+  }
+  prefix.sort((a, b) => a.localeCompare(b));
+  contains.sort((a, b) => a.localeCompare(b));
+  return prefix.concat(contains).slice(0, limit);
+}
+
+/**
+ * 格式化标签说明：写法、所属插件与说明文本
+ */
+export function formatNoteTagDoc(definitions: readonly NoteTagDefinition[]): string {
+  return definitions
+    .map((definition) => {
+      const header = `${definition.example}  [${definition.plugin} · ${NOTE_TAG_SHAPE_LABELS[definition.shape]}]`;
+      return definition.description ? `${header}\n${definition.description}` : header;
+    })
+    .join('\n\n');
+}
+
+/**
+ * 推断项目根目录（含末尾分隔符）：优先使用已打开的项目，否则取数据文件所在 data 目录的上级
+ */
+export function resolveProjectRoot(filePath: string, projectPath?: string): string {
+  const root = projectPath || filePath.replace(/[^\\/]*$/, '').replace(DATA_DIR_REGEX, '');
+  if (!root) return '';
+  const sep = root.includes('\\') && !root.includes('/') ? '\\' : '/';
+  return PATH_SEP_REGEX.test(root[root.length - 1]) ? root : root + sep;
+}
+
+// ============ 字典服务 ============
+
+class NoteTagDictionaryClass {
+  /** 当前扫描的项目根目录 */
+  private root = '';
+  private dictionary = new Map<string, NoteTagDefinition[]>();
+  private loading: Promise<void> | null = null;
+
+  getRoot(): string {
+    return this.root;
+  }
+
+  getDictionary(): ReadonlyMap<string, NoteTagDefinition[]> {
+    return this.dictionary;
+  }
+
+  /**
+   * 字典是否有标签；没有插件文档时不标记未知标签
+   */
+  hasDefinitions(): boolean {
+    return this.dictionary.size > 0;
+  }
+
+  getDefinitions(name: string): NoteTagDefinition[] {
+    return findNoteTagDefinitions(this.dictionary, name);
+  }
+
+  checkTag(tag: MetaTag): NoteTagIssue | null {
+    return this.hasDefinitions() ? checkNoteTag(this.dictionary, tag) : null;
+  }
+
+  /**
+   * 切换到数据文件所属的项目并扫描插件；项目未变化时直接返回
+   */
+  ensureLoaded(filePath: string, projectPath?: string): Promise<void> {
+    const root = resolveProjectRoot(filePath, projectPath);
+    if (root === this.root && this.loading) return this.loading;
+
+    this.root = root;
+    this.dictionary = new Map();
+    this.loading = root ? this.load(root) : Promise.resolve();
+    return this.loading;
+  }
+
+  /**
+   * 重新扫描当前项目的插件（插件被修改后调用）
+   */
+  reload(): Promise<void> {
+    if (!this.root) return Promise.resolve();
+    this.loading = this.load(this.root);
+    return this.loading;
+  }
+
+  private async load(root: string): Promise<void> {
+    const sep = root[root.length - 1];
+    const directory = `${root}js${sep}plugins${sep}`;
+    const definitions: NoteTagDefinition[] = [];
+    try {
+      if (await window.electronAPI.fileExists(directory)) {
+        const entries = await window.electronAPI.listDirectory(directory);
+        for (let i = 0; i < entries.length; i++) {
+          const fileName = entries[i];
+          if (!fileName.toLowerCase().endsWith('.js')) continue;
+          try {
+            const source = await window.electronAPI.readFile(directory + fileName);
+            definitions.push(...parsePluginNoteTags(source, fileName.slice(0, -3)));
+          } catch (error) {
+            logger.warn('Failed to read plugin', { fileName, error }, 'NoteTagDictionary');
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to scan plugins', { directory, error }, 'NoteTagDictionary');
+    }
+    // 扫描期间切换了项目时丢弃结果
+    if (root !== this.root) return;
+    this.dictionary = buildNoteTagDictionary(definitions);
+    EventSystem.emit('note-tags:changed', this.dictionary);
+    logger.info('Note tag dictionary loaded', { directory, count: this.dictionary.size }, 'NoteTagDictionary');
+  }
+}
+
+export const NoteTagDictionary = new NoteTagDictionaryClass();
+
+export default NoteTagDictionary;
@@ -0,0 +1,352 @@
+/**
+ * NoteTagQueryDialog - 备注标签查询对话框
+ * 左侧列出所有标签及使用次数，右侧显示取值分布与使用的条目（点击打开条目），
+ * 底部对选中的标签执行重命名、按表达式修改值或删除，预览修改后才能应用
+ */
+
+import { DOM } from '../core/DOMManager';
+import {
+  planNoteTagOperation,
+  scanNoteTags,
+  type NoteTagOperation,
+  type NoteTagPlan,
+  type NoteTagSourceFile,
+  type NoteTagSummary,
+} from './NoteTagQueryService';
+
+// ============ 类型定义 ============
+
+export interface NoteTagQueryDialogOptions {
+  /** 数据目录，显示在标题下方 */
+  directory: string;
+  files: NoteTagSourceFile[];
+  /** 打开时选中的标签 */
+  initialTag?: string;
+}
+
+export type NoteTagQueryDialogResult =
+  | { kind: 'open'; filePath: string; index: number }
+  | { kind: 'apply'; operation: NoteTagOperation; plan: NoteTagPlan };
+
+// ============ 常量 ============
+
+/** 列表最多显示的行数，其余只显示数量 */
+const MAX_ROWS = 300;
+const ROW_CLASS = 'flex gap-2 px-3 py-1 text-xs border-b border-gray-700';
+const SECTION_CLASS = 'px-3 py-1 text-xs font-semibold text-cyan-400 bg-gray-900';
+
+const INPUT_PLACEHOLDERS: Record<NoteTagOperation['kind'], string> = {
+  rename: '新的标签名',
+  expression: '例如 value * 2，可使用 value、name、item',
+  remove: '',
+};
+
+// ============ 状态 ============
+
+let resolvePending: ((result: NoteTagQueryDialogResult | null) => void) | null = null;
+let initialized = false;
+let currentOptions: NoteTagQueryDialogOptions | null = null;
+let summaries: NoteTagSummary[] = [];
+let selectedTag = '';
+let currentPlan: { operation: NoteTagOperation; plan: NoteTagPlan } | null = null;
+
+// ============ 渲染函数 ============
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function createSection(text: string): HTMLDivElement {
+  const section = document.createElement('div');
+  section.className = SECTION_CLASS;
+  section.textContent = text;
+  return section;
+}
+
+function createRow(label: string, detail: string): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = ROW_CLASS;
+
+  const labelEl = document.createElement('span');
+  labelEl.className = 'flex-1 truncate text-gray-300';
+  labelEl.textContent = label;
+  row.appendChild(labelEl);
+
+  const detailEl = document.createElement('span');
+  detailEl.className = 'text-gray-100 truncate max-w-[50%]';
+  detailEl.textContent = detail;
+  detailEl.title = detail;
+  row.appendChild(detailEl);
+
+  return row;
+}
+
+function createMoreRow(count: number): HTMLDivElement {
+  const more = document.createElement('div');
+  more.className = 'px-3 py-2 text-xs text-gray-400';
+  more.textContent = `… 另有 ${count} 项未显示`;
+  return more;
+}
+
+function renderTagList(): void {
+  const container = DOM.noteTagQueryTags;
+  if (!container) return;
+  const filter = DOM.noteTagQueryFilter?.value.trim().toLowerCase() ?? '';
+
+  container.innerHTML = '';
+  const fragment = document.createDocumentFragment();
+  for (let i = 0; i < summaries.length; i++) {
+    const summary = summaries[i];
+    if (filter && !summary.name.toLowerCase().includes(filter)) continue;
+    const row = createRow(summary.name, String(summary.count));
+    row.classList.add('note-tag-query-tag', 'cursor-pointer', 'hover:bg-gray-700');
+    row.classList.toggle('bg-cyan-900', summary.name === selectedTag);
+    row.dataset.tag = summary.name;
+    fragment.appendChild(row);
+  }
+  if (!fragment.hasChildNodes()) {
+    const empty = document.createElement('div');
+    empty.className = 'px-3 py-2 text-xs text-gray-400';
+    empty.textContent = summaries.length === 0 ? '数据文件中没有备注标签' : '没有匹配的标签';
+    fragment.appendChild(empty);
+  }
+  container.appendChild(fragment);
+}
+
+function renderDetail(): void {
+  const container = DOM.noteTagQueryDetail;
+  if (!container) return;
+  container.innerHTML = '';
+
+  const summary = summaries.find((item) => item.name === selectedTag);
+  if (!summary) {
+    const empty = document.createElement('div');
+    empty.className = 'px-3 py-2 text-xs text-gray-400';
+    empty.textContent = '选择左侧的标签查看取值与使用的条目';
+    container.appendChild(empty);
+    return;
+  }
+
+  const fragment = document.createDocumentFragment();
+  fragment.appendChild(createSection(`取值分布（${summary.values.length}）`));
+  for (let i = 0; i < summary.values.length && i < MAX_ROWS; i++) {
+    fragment.appendChild(createRow(summary.values[i].value, `${summary.values[i].count} 次`));
+  }
+  if (summary.values.length > MAX_ROWS) fragment.appendChild(createMoreRow(summary.values.length - MAX_ROWS));
+
+  fragment.appendChild(createSection(`使用的条目（${summary.usages.length}）`));
+  let lastFile = '';
+  for (let i = 0; i < summary.usages.length && i < MAX_ROWS; i++) {
+    const usage = summary.usages[i];
+    if (usage.filePath !== lastFile) {
+      lastFile = usage.filePath;
+      fragment.appendChild(createSection(getFileName(usage.filePath)));
+    }
+    const row = createRow(`#${usage.index} ${usage.itemName}`, '打开 →');
+    row.classList.add('note-tag-query-usage', 'cursor-pointer', 'hover:bg-gray-700');
+    row.dataset.filePath = usage.filePath;
+    row.dataset.index = String(usage.index);
+    fragment.appendChild(row);
+  }
+  if (summary.usages.length > MAX_ROWS) fragment.appendChild(createMoreRow(summary.usages.length - MAX_ROWS));
+  container.appendChild(fragment);
+}
+
+function setErrors(errors: string[]): void {
+  if (!DOM.noteTagQueryErrors) return;
+  DOM.noteTagQueryErrors.textContent = errors.join('\n');
+  DOM.noteTagQueryErrors.classList.toggle('hidden', errors.length === 0);
+}
+
+/**
+ * 操作参数变化后作废已有的预览
+ */
+function resetPreview(): void {
+  currentPlan = null;
+  setErrors([]);
+  DOM.noteTagQueryPreviewList?.classList.add('hidden');
+  if (DOM.noteTagQueryApply) DOM.noteTagQueryApply.disabled = true;
+  updateSummary();
+}
+
+function updateOperationInput(): void {
+  const kind = (DOM.noteTagQueryOperation?.value ?? 'rename') as NoteTagOperation['kind'];
+  const input = DOM.noteTagQueryInput;
+  if (input) {
+    input.placeholder = INPUT_PLACEHOLDERS[kind];
+    input.disabled = kind === 'remove';
+    if (kind === 'remove') input.value = '';
+  }
+  if (DOM.noteTagQueryPreview) DOM.noteTagQueryPreview.disabled = !selectedTag;
+}
+
+function updateSummary(): void {
+  if (!DOM.noteTagQuerySummary) return;
+  if (currentPlan) {
+    const files = new Set(currentPlan.plan.changes.map((change) => change.filePath));
+    DOM.noteTagQuerySummary.textContent = `${currentPlan.plan.changes.length} 个条目（${files.size} 个文件）将被修改`;
+    return;
+  }
+  const usages = summaries.reduce((sum, summary) => sum + summary.count, 0);
+  DOM.noteTagQuerySummary.textContent = `${currentOptions?.files.length ?? 0} 个文件，${summaries.length} 个标签，共 ${usages} 处使用`;
+}
+
+function readOperation(): NoteTagOperation {
+  const kind = (DOM.noteTagQueryOperation?.value ?? 'rename') as NoteTagOperation['kind'];
+  const text = DOM.noteTagQueryInput?.value ?? '';
+  if (kind === 'rename') return { kind, tag: selectedTag, newName: text };
+  if (kind === 'expression') return { kind, tag: selectedTag, expression: text };
+  return { kind, tag: selectedTag };
+}
+
+function renderPreview(plan: NoteTagPlan): void {
+  const container = DOM.noteTagQueryPreviewList;
+  if (!container) return;
+  container.innerHTML = '';
+  const fragment = document.createDocumentFragment();
+  let lastFile = '';
+  for (let i = 0; i < plan.changes.length && i < MAX_ROWS; i++) {
+    const change = plan.changes[i];
+    if (change.filePath !== lastFile) {
+      lastFile = change.filePath;
+      fragment.appendChild(createSection(getFileName(change.filePath)));
+    }
+    fragment.appendChild(createRow(`#${change.index} ${change.itemName}`, `${change.from} → ${change.to || '（删除）'}`));
+  }
+  if (plan.changes.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'px-3 py-2 text-xs text-gray-400';
+    empty.textContent = '没有条目需要修改';
+    fragment.appendChild(empty);
+  } else if (plan.changes.length > MAX_ROWS) {
+    fragment.appendChild(createMoreRow(plan.changes.length - MAX_ROWS));
+  }
+  container.appendChild(fragment);
+  container.classList.remove('hidden');
+}
+
+// ============ 事件处理 ============
+
+function selectTag(name: string): void {
+  selectedTag = name;
+  renderTagList();
+  renderDetail();
+  updateOperationInput();
+  resetPreview();
+}
+
+function handleTagsClick(e: MouseEvent): void {
+  const row = (e.target as HTMLElement).closest('.note-tag-query-tag') as HTMLElement | null;
+  if (row?.dataset.tag) selectTag(row.dataset.tag);
+}
+
+function handleDetailClick(e: MouseEvent): void {
+  const row = (e.target as HTMLElement).closest('.note-tag-query-usage') as HTMLElement | null;
+  if (!row?.dataset.filePath || !row.dataset.index) return;
+  closeDialog({ kind: 'open', filePath: row.dataset.filePath, index: parseInt(row.dataset.index, 10) });
+}
+
+function handlePreview(): void {
+  if (!currentOptions || !selectedTag) return;
+  const operation = readOperation();
+  const plan = planNoteTagOperation(currentOptions.files, operation);
+  setErrors(plan.errors);
+  renderPreview(plan);
+  currentPlan = plan.changes.length > 0 ? { operation, plan } : null;
+  if (DOM.noteTagQueryApply) DOM.noteTagQueryApply.disabled = currentPlan === null;
+  updateSummary();
+}
+
+function handleApply(): void {
+  if (!currentPlan) return;
+  closeDialog({ kind: 'apply', ...currentPlan });
+}
+
+function handleOperationChange(): void {
+  updateOperationInput();
+  resetPreview();
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    closeDialog(null);
+  }
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.noteTagQueryDialog) {
+    closeDialog(null);
+  }
+}
+
+// ============ 对话框控制 ============
+
+function closeDialog(result: NoteTagQueryDialogResult | null): void {
+  DOM.noteTagQueryDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  currentOptions = null;
+  currentPlan = null;
+  summaries = [];
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+export function initNoteTagQueryDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.noteTagQueryFilter?.addEventListener('input', renderTagList);
+  DOM.noteTagQueryTags?.addEventListener('click', handleTagsClick);
+  DOM.noteTagQueryDetail?.addEventListener('click', handleDetailClick);
+  DOM.noteTagQueryOperation?.addEventListener('change', handleOperationChange);
+  DOM.noteTagQueryInput?.addEventListener('input', resetPreview);
+  DOM.noteTagQueryPreview?.addEventListener('click', handlePreview);
+  DOM.noteTagQueryApply?.addEventListener('click', handleApply);
+  DOM.noteTagQueryCancel?.addEventListener('click', () => closeDialog(null));
+  DOM.noteTagQueryDialog?.addEventListener('click', handleDialogClick);
+}
+
+/**
+ * 显示备注标签查询对话框
+ * @returns 点击条目时返回要打开的条目，应用批量操作时返回修改方案，关闭返回 null
+ */
+export function showNoteTagQueryDialog(options: NoteTagQueryDialogOptions): Promise<NoteTagQueryDialogResult | null> {
+  initNoteTagQueryDialog();
+
+  if (resolvePending) {
+    closeDialog(null);
+  }
+  if (!DOM.noteTagQueryDialog) {
+    return Promise.resolve(null);
+  }
+
+  currentOptions = options;
+  summaries = scanNoteTags(options.files);
+  if (DOM.noteTagQueryPath) DOM.noteTagQueryPath.textContent = options.directory;
+  if (DOM.noteTagQueryFilter) DOM.noteTagQueryFilter.value = '';
+  if (DOM.noteTagQueryInput) DOM.noteTagQueryInput.value = '';
+  const initial = options.initialTag && summaries.some((summary) => summary.name === options.initialTag)
+    ? options.initialTag
+    : '';
+  selectTag(initial);
+  DOM.noteTagQueryDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideNoteTagQueryDialog(): void {
+  closeDialog(null);
+}
+
+export default {
+  init: initNoteTagQueryDialog,
+  show: showNoteTagQueryDialog,
+  hide: hideNoteTagQueryDialog,
+};
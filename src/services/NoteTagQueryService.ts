@@ -0,0 +1,287 @@
+/**
+ * NoteTagQueryService - 跨文件备注标签查询与批量操作
+ * 统计数据目录下所有文件中每个备注标签的使用次数、取值分布与使用的条目，
+ * 并生成重命名、按表达式修改值、删除标签的修改方案供预览后应用
+ */
+
+import { formatBlockBody, locateMetaTags, serializeTag, type MetaTag, type MetaTagLocation } from '../utils/metaDataExtractor';
+
+// ============ 类型定义 ============
+
+/** 参与查询的数据文件 */
+export interface NoteTagSourceFile {
+  filePath: string;
+  data: readonly unknown[];
+}
+
+/** 一个条目中的一次标签使用 */
+export interface NoteTagUsage {
+  filePath: string;
+  index: number;
+  itemName: string;
+  tag: MetaTag;
+}
+
+/** 一个取值及其出现次数 */
+export interface NoteTagValueCount {
+  value: string;
+  count: number;
+}
+
+/** 一个标签的统计 */
+export interface NoteTagSummary {
+  name: string;
+  count: number;
+  values: NoteTagValueCount[];
+  usages: NoteTagUsage[];
+}
+
+export type NoteTagOperation =
+  | { kind: 'rename'; tag: string; newName: string }
+  | { kind: 'expression'; tag: string; expression: string }
+  | { kind: 'remove'; tag: string };
+
+/** 一个条目的备注修改 */
+export interface NoteTagChange {
+  filePath: string;
+  index: number;
+  itemName: string;
+  /** 修改前后的相关标签文本，用于预览 */
+  from: string;
+  to: string;
+  note: string;
+}
+
+export interface NoteTagPlan {
+  changes: NoteTagChange[];
+  errors: string[];
+}
+
+// ============ 常量 ============
+
+/** 取值分布中显示的值最大长度 */
+const MAX_VALUE_TEXT_LENGTH = 60;
+
+/** 预览中最多报告的表达式错误数 */
+const MAX_ERRORS = 20;
+
+// ============ 查询 ============
+
+function getNote(item: unknown): string | null {
+  if (!item || typeof item !== 'object') return null;
+  const note = (item as { note?: unknown }).note;
+  return typeof note === 'string' ? note : null;
+}
+
+function getItemName(item: unknown, index: number): string {
+  const name = (item as { name?: unknown }).name;
+  return typeof name === 'string' && name ? name : `#${index}`;
+}
+
+/**
+ * 标签值在取值分布中的文本
+ */
+export function formatTagValue(tag: MetaTag): string {
+  let text: string;
+  if (tag.body !== undefined) {
+    text = tag.body.trim().replace(/\s*\n\s*/g, ' ⏎ ');
+  } else if (tag.value === true) {
+    text = '(标记)';
+  } else {
+    text = typeof tag.value === 'object' ? JSON.stringify(tag.value) : String(tag.value);
+  }
+  return text.length > MAX_VALUE_TEXT_LENGTH ? `${text.slice(0, MAX_VALUE_TEXT_LENGTH)}…` : text;
+}
+
+/**
+ * 统计所有文件中的备注标签，按使用次数从多到少排序
+ */
+export function scanNoteTags(files: readonly NoteTagSourceFile[]): NoteTagSummary[] {
+  const summaries = new Map<string, { summary: NoteTagSummary; values: Map<string, number> }>();
+
+  for (let f = 0; f < files.length; f++) {
+    const { filePath, data } = files[f];
+    for (let index = 1; index < data.length; index++) {
+      const note = getNote(data[index]);
+      if (!note) continue;
+      const tags = locateMetaTags(note);
+      for (let t = 0; t < tags.length; t++) {
+        const { name, value, body } = tags[t];
+        const tag: MetaTag = body !== undefined ? { name, value, body } : { name, value };
+        let entry = summaries.get(tag.name);
+        if (!entry) {
+          entry = { summary: { name: tag.name, count: 0, values: [], usages: [] }, values: new Map() };
+          summaries.set(tag.name, entry);
+        }
+        entry.summary.count++;
+        entry.summary.usages.push({ filePath, index, itemName: getItemName(data[index], index), tag });
+        const text = formatTagValue(tag);
+        entry.values.set(text, (entry.values.get(text) ?? 0) + 1);
+      }
+    }
+  }
+
+  const result: NoteTagSummary[] = [];
+  for (const { summary, values } of summaries.values()) {
+    summary.values = [...values].map(([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+    result.push(summary);
+  }
+  return result.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// ============ 批量操作 ============
+
+/**
+ * 编译值表达式，可使用 value（当前值）、name（标签名）与 item（条目）
+ */
+export function compileTagExpression(expression: string): (value: unknown, name: string, item: unknown) => unknown {
+  return new Function('value', 'name', 'item', `"use strict"; return (${expression});`) as (
+    value: unknown,
+    name: string,
+    item: unknown
+  ) => unknown;
+}
+
+/**
+ * 校验表达式结果能否写回为标签值
+ * @returns 错误信息，合法时返回 null
+ */
+function validateResult(value: unknown): string | null {
+  if (value === undefined || value === null) return '结果为空';
+  if (typeof value === 'number' && !Number.isFinite(value)) return '结果不是有效数字';
+  if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') return '结果类型不支持';
+  const text = serializeTag({ name: 'tag', value: value as MetaTag['value'] });
+  return /[<>]/.test(text.slice(1, -1)) ? '结果不能包含 < 或 >' : null;
+}
+
+/**
+ * 计算一个标签的新文本；返回 null 表示删除
+ */
+function transformTag(
+  tag: MetaTagLocation,
+  operation: NoteTagOperation,
+  evaluate: ((value: unknown, name: string, item: unknown) => unknown) | null,
+  item: unknown
+): string | null {
+  switch (operation.kind) {
+    case 'remove':
+      return null;
+    case 'rename':
+      return serializeTag({ name: operation.newName.trim(), value: tag.value, body: tag.body });
+    case 'expression': {
+      const value = evaluate!(tag.value, tag.name, item) as MetaTag['value'];
+      const error = validateResult(value);
+      if (error) throw new Error(error);
+      // 块标签的结果为文本或对象时保持块格式
+      const keepBlock = tag.body !== undefined && (typeof value === 'string' || typeof value === 'object');
+      return serializeTag({ name: tag.name, value, body: keepBlock ? formatBlockBody(value) : undefined });
+    }
+  }
+}
+
+/**
+ * 校验批量操作参数
+ * @returns 错误信息，合法时返回 null
+ */
+export function validateNoteTagOperation(operation: NoteTagOperation): string | null {
+  if (!operation.tag) return '请选择标签';
+  if (operation.kind === 'rename') {
+    const name = operation.newName.trim();
+    if (!name) return '请输入新的标签名';
+    if (/[<>:]/.test(name) || name.startsWith('/')) return '标签名不能包含 < > : 或以 / 开头';
+    if (name === operation.tag) return '新标签名与原标签名相同';
+  }
+  if (operation.kind === 'expression') {
+    if (!operation.expression.trim()) return '请输入表达式';
+    try {
+      compileTagExpression(operation.expression);
+    } catch (error) {
+      return '表达式语法错误: ' + (error as Error).message;
+    }
+  }
+  return null;
+}
+
+/**
+ * 生成批量操作的修改方案，不修改数据
+ */
+export function planNoteTagOperation(files: readonly NoteTagSourceFile[], operation: NoteTagOperation): NoteTagPlan {
+  const changes: NoteTagChange[] = [];
+  const errors: string[] = [];
+  const invalid = validateNoteTagOperation(operation);
+  if (invalid) return { changes, errors: [invalid] };
+
+  const evaluate = operation.kind === 'expression' ? compileTagExpression(operation.expression) : null;
+
+  for (let f = 0; f < files.length; f++) {
+    const { filePath, data } = files[f];
+    for (let index = 1; index < data.length; index++) {
+      const note = getNote(data[index]);
+      if (!note) continue;
+      const tags = locateMetaTags(note).filter((tag) => tag.name === operation.tag);
+      if (tags.length === 0) continue;
+
+      let next = '';
+      let cursor = 0;
+      const from: string[] = [];
+      const to: string[] = [];
+      try {
+        for (let t = 0; t < tags.length; t++) {
+          const tag = tags[t];
+          const text = transformTag(tag, operation, evaluate, data[index]);
+          from.push(note.slice(tag.start, tag.end));
+          to.push(text ?? '');
+          let end = tag.end;
+          // 删除独占一行的标签时连同换行一起删除
+          if (text === null && (tag.start === 0 || note[tag.start - 1] === '\n') && note[end] === '\n') end++;
+          next += note.slice(cursor, tag.start) + (text ?? '');
+          cursor = end;
+        }
+      } catch (error) {
+        if (errors.length < MAX_ERRORS) {
+          errors.push(`${getFileName(filePath)} #${index}: ${(error as Error).message}`);
+        }
+        continue;
+      }
+      next += note.slice(cursor);
+      if (next === note) continue;
+
+      changes.push({
+        filePath,
+        index,
+        itemName: getItemName(data[index], index),
+        from: from.join(' '),
+        to: to.filter(Boolean).join(' '),
+        note: next,
+      });
+    }
+  }
+  return { changes, errors };
+}
+
+/**
+ * 应用修改方案
+ * @returns 发生变化的文件路径
+ */
+export function applyNoteTagChanges(files: readonly NoteTagSourceFile[], changes: readonly NoteTagChange[]): string[] {
+  const byPath = new Map(files.map((file) => [file.filePath, file.data]));
+  const changed = new Set<string>();
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i];
+    const item = byPath.get(change.filePath)?.[change.index] as { note?: unknown } | undefined;
+    if (!item || typeof item.note !== 'string') continue;
+    item.note = change.note;
+    changed.add(change.filePath);
+  }
+  return [...changed];
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+export default {
+  scan: scanNoteTags,
+  plan: planNoteTagOperation,
+  apply: applyNoteTagChanges,
+};
@@ -0,0 +1,123 @@
+/**
+ * ParamCurveService - 职业能力值曲线
+ * RPG Maker MZ 的 Classes.json 中 params 为 8 × 100 的矩阵（params[能力值][等级]），
+ * 这里提供矩阵识别、按缓动函数生成曲线、逐级修改与职业间复制
+ */
+
+import { getEasing, type EasingType } from '../utils/easing';
+
+// ============ 常量 ============
+
+/** 能力值数量：最大生命值、最大魔法值、攻击力、防御力、魔法攻击力、魔法防御力、速度、幸运 */
+export const PARAM_COUNT = 8;
+
+/** 最高等级，曲线数组长度为 MAX_LEVEL + 1（下标 0 不使用） */
+export const MAX_LEVEL = 99;
+
+/** 各能力值的取值范围（与 RPG Maker MZ 编辑器一致） */
+export const PARAM_LIMITS: ReadonlyArray<{ min: number; max: number }> = [
+  { min: 1, max: 9999 },
+  { min: 0, max: 9999 },
+  { min: 1, max: 999 },
+  { min: 1, max: 999 },
+  { min: 1, max: 999 },
+  { min: 1, max: 999 },
+  { min: 1, max: 999 },
+  { min: 1, max: 999 },
+];
+
+// ============ 工具函数 ============
+
+/**
+ * 判断 params 是否为按等级存储的曲线矩阵
+ */
+export function isParamCurveMatrix(params: unknown): params is number[][] {
+  return Array.isArray(params)
+    && params.length === PARAM_COUNT
+    && params.every((curve) => Array.isArray(curve));
+}
+
+/**
+ * 将数值限制在能力值允许的范围内并取整
+ */
+export function clampParam(paramIndex: number, value: number): number {
+  const limit = PARAM_LIMITS[paramIndex] ?? PARAM_LIMITS[PARAM_LIMITS.length - 1];
+  return Math.min(limit.max, Math.max(limit.min, Math.round(value)));
+}
+
+/**
+ * 按缓动函数计算等级区间内的曲线值，返回 [fromLevel, toLevel] 每级的数值
+ */
+export function generateCurve(
+  paramIndex: number,
+  start: number,
+  end: number,
+  easing: EasingType,
+  fromLevel = 1,
+  toLevel = MAX_LEVEL
+): number[] {
+  const ease = getEasing(easing);
+  const span = toLevel - fromLevel;
+  const values: number[] = [];
+  for (let level = fromLevel; level <= toLevel; level++) {
+    const t = span > 0 ? (level - fromLevel) / span : 1;
+    values.push(clampParam(paramIndex, start + (end - start) * ease(t)));
+  }
+  return values;
+}
+
+/**
+ * 将生成的曲线写入等级区间，区间外的数值保持不变
+ */
+export function applyCurve(
+  curve: number[],
+  paramIndex: number,
+  start: number,
+  end: number,
+  easing: EasingType,
+  fromLevel = 1,
+  toLevel = MAX_LEVEL
+): void {
+  const values = generateCurve(paramIndex, start, end, easing, fromLevel, toLevel);
+  for (let i = 0; i < values.length; i++) {
+    curve[fromLevel + i] = values[i];
+  }
+  // 下标 0 不对应任何等级，缺失时与 1 级保持一致，避免写出稀疏数组
+  if (curve[0] === undefined) curve[0] = curve[1];
+}
+
+/**
+ * 修改单个等级的数值，返回写入后的值
+ */
+export function setLevelValue(curve: number[], paramIndex: number, level: number, value: number): number {
+  const clamped = clampParam(paramIndex, value);
+  curve[level] = clamped;
+  return clamped;
+}
+
+/**
+ * 将来源职业的曲线复制到目标职业
+ * @param paramIndices 要复制的能力值下标
+ */
+export function copyCurves(source: number[][], target: number[][], paramIndices: readonly number[]): void {
+  for (let i = 0; i < paramIndices.length; i++) {
+    const paramIndex = paramIndices[i];
+    if (source[paramIndex]) {
+      target[paramIndex] = source[paramIndex].slice();
+    }
+  }
+}
+
+/**
+ * 获取曲线在 1 至 MAX_LEVEL 级之间的最大值，用于绘图缩放
+ */
+export function getCurveMax(curves: ReadonlyArray<readonly number[]>): number {
+  let max = 0;
+  for (let i = 0; i < curves.length; i++) {
+    const curve = curves[i];
+    for (let level = 1; level <= MAX_LEVEL && level < curve.length; level++) {
+      if (curve[level] > max) max = curve[level];
+    }
+  }
+  return max;
+}
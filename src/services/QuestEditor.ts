@@ -10,6 +10,7 @@ import { EventSystem } from '../core/EventSystem';
 import { FactoryPool } from '../pools/ObjectPool';
 import { logger } from './logger';
 import { ipc } from './ipc';
+import { FileFormatRegistry } from './serialization/FileFormatRegistry';
 import type { RPGQuest, SwitchAction, VariableAction, QuestObjective, QuestReward } from '../types';
 
 // ============ 常量定义 ============
@@ -341,7 +342,7 @@ export async function saveQuestFile(): Promise<void> {
   const payload = [null, ...state.quests];
 
   try {
-    await ipc.file.write(state.questFilePath, JSON.stringify(payload, null, 2));
+    await ipc.file.write(state.questFilePath, FileFormatRegistry.stringify(state.questFilePath, payload));
     EventSystem.emit('quest:saved', { filePath: state.questFilePath, count: state.quests.length });
   } catch (err) {
     logger.error('Failed to save quest file', { error: err }, 'QuestEditor');
@@ -0,0 +1,252 @@
+/**
+ * RenumberPreviewDialog - 编号调整预览
+ * 列出条目编号变化与各文件中将被改写的引用，确认后才应用
+ */
+
+import { DOM } from '../core/DOMManager';
+import type { RenumberPlan } from './IdRenumberService';
+
+// ============ 类型定义 ============
+
+export interface RenumberPreviewMode {
+  value: string;
+  label: string;
+}
+
+export interface RenumberPreviewOptions {
+  title: string;
+  message: string;
+  /** 可选的处理方式（例如删除时清空位置或压缩编号），切换时重新生成方案 */
+  modes?: RenumberPreviewMode[];
+  build: (mode: string) => RenumberPlan;
+}
+
+export interface RenumberPreviewResult {
+  mode: string;
+  plan: RenumberPlan;
+}
+
+// ============ 常量 ============
+
+/** 预览最多显示的行数，其余只显示数量 */
+const MAX_PREVIEW_ROWS = 300;
+const ROW_CLASS = 'renumber-preview-row flex gap-2 px-3 py-1 text-xs border-b border-gray-700';
+const SECTION_CLASS = 'renumber-preview-section px-3 py-1 text-xs font-semibold text-cyan-400 bg-gray-900';
+
+// ============ 状态 ============
+
+let resolvePending: ((value: RenumberPreviewResult | null) => void) | null = null;
+let initialized = false;
+let currentOptions: RenumberPreviewOptions | null = null;
+let currentMode = '';
+let currentPlan: RenumberPlan | null = null;
+
+// ============ 渲染函数 ============
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function createSection(text: string): HTMLDivElement {
+  const section = document.createElement('div');
+  section.className = SECTION_CLASS;
+  section.textContent = text;
+  return section;
+}
+
+function createRow(label: string, change: string): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = ROW_CLASS;
+
+  const labelEl = document.createElement('span');
+  labelEl.className = 'flex-1 truncate text-gray-300';
+  labelEl.textContent = label;
+  row.appendChild(labelEl);
+
+  const changeEl = document.createElement('span');
+  changeEl.className = 'text-gray-100 whitespace-nowrap';
+  changeEl.textContent = change;
+  row.appendChild(changeEl);
+
+  return row;
+}
+
+function formatId(id: number): string {
+  return id > 0 ? `#${id}` : '无';
+}
+
+/**
+ * 渲染预览列表
+ */
+export function renderRenumberPreview(container: HTMLElement, plan: RenumberPlan): void {
+  container.innerHTML = '';
+  const fragment = document.createDocumentFragment();
+  let rows = 0;
+
+  if (plan.idChanges.length > 0) {
+    fragment.appendChild(createSection(`编号变化（${plan.idChanges.length}）`));
+    for (let i = 0; i < plan.idChanges.length && rows < MAX_PREVIEW_ROWS; i++, rows++) {
+      const change = plan.idChanges[i];
+      fragment.appendChild(createRow(`#${change.oldId} ${change.name}`, change.newId > 0 ? `→ #${change.newId}` : '删除'));
+    }
+  }
+
+  if (plan.referenceChanges.length > 0) {
+    fragment.appendChild(createSection(`引用修正（${plan.referenceChanges.length}）`));
+    let lastFile = '';
+    for (let i = 0; i < plan.referenceChanges.length && rows < MAX_PREVIEW_ROWS; i++, rows++) {
+      const change = plan.referenceChanges[i];
+      if (change.filePath !== lastFile) {
+        lastFile = change.filePath;
+        fragment.appendChild(createSection(getFileName(change.filePath)));
+      }
+      fragment.appendChild(createRow(
+        `#${change.itemIndex} ${change.itemName} · ${change.path}`,
+        `${formatId(change.oldId)} → ${formatId(change.newId)}`
+      ));
+    }
+  }
+
+  const total = plan.idChanges.length + plan.referenceChanges.length;
+  if (total === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'px-3 py-2 text-xs text-gray-400';
+    empty.textContent = '没有条目编号或引用需要修改';
+    fragment.appendChild(empty);
+  } else if (total > rows) {
+    const more = document.createElement('div');
+    more.className = 'px-3 py-2 text-xs text-gray-400';
+    more.textContent = `… 另有 ${total - rows} 处修改未显示`;
+    fragment.appendChild(more);
+  }
+
+  container.appendChild(fragment);
+}
+
+function renderModes(modes: RenumberPreviewMode[] | undefined): void {
+  const container = DOM.renumberPreviewModes;
+  if (!container) return;
+
+  container.innerHTML = '';
+  container.classList.toggle('hidden', !modes || modes.length === 0);
+  if (!modes) return;
+
+  for (let i = 0; i < modes.length; i++) {
+    const label = document.createElement('label');
+    label.className = 'flex items-center gap-1 text-sm text-gray-300 cursor-pointer';
+
+    const input = document.createElement('input');
+    input.type = 'radio';
+    input.name = 'renumberPreviewMode';
+    input.value = modes[i].value;
+    input.checked = modes[i].value === currentMode;
+    label.appendChild(input);
+    label.appendChild(document.createTextNode(modes[i].label));
+
+    container.appendChild(label);
+  }
+}
+
+function rebuildPlan(): void {
+  if (!currentOptions) return;
+  currentPlan = currentOptions.build(currentMode);
+
+  if (DOM.renumberPreviewList) {
+    renderRenumberPreview(DOM.renumberPreviewList, currentPlan);
+  }
+  if (DOM.renumberPreviewSummary) {
+    const files = new Set(currentPlan.referenceChanges.map((change) => change.filePath));
+    DOM.renumberPreviewSummary.textContent =
+      `${currentPlan.idChanges.length} 个条目编号变化，${currentPlan.referenceChanges.length} 处引用（${files.size} 个文件）将被修正`;
+  }
+}
+
+// ============ 对话框控制 ============
+
+function closeDialog(confirmed: boolean): void {
+  const result = confirmed && currentPlan ? { mode: currentMode, plan: currentPlan } : null;
+  DOM.renumberPreviewDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  currentOptions = null;
+  currentPlan = null;
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+function handleConfirm(): void {
+  closeDialog(true);
+}
+
+function handleCancel(): void {
+  closeDialog(false);
+}
+
+function handleModeChange(e: Event): void {
+  const target = e.target as HTMLInputElement;
+  if (target.name !== 'renumberPreviewMode') return;
+  currentMode = target.value;
+  rebuildPlan();
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    handleCancel();
+  }
+}
+
+export function initRenumberPreviewDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.renumberPreviewConfirm?.addEventListener('click', handleConfirm);
+  DOM.renumberPreviewCancel?.addEventListener('click', handleCancel);
+  DOM.renumberPreviewModes?.addEventListener('change', handleModeChange);
+}
+
+/**
+ * 显示编号调整预览
+ * @returns 确认时返回所选方式与方案，取消时返回 null
+ */
+export function showRenumberPreviewDialog(options: RenumberPreviewOptions): Promise<RenumberPreviewResult | null> {
+  initRenumberPreviewDialog();
+
+  if (resolvePending) {
+    closeDialog(false);
+  }
+  if (!DOM.renumberPreviewDialog) {
+    return Promise.resolve(null);
+  }
+
+  currentOptions = options;
+  currentMode = options.modes?.[0]?.value ?? '';
+  if (DOM.renumberPreviewTitle) {
+    DOM.renumberPreviewTitle.textContent = options.title;
+  }
+  if (DOM.renumberPreviewMessage) {
+    DOM.renumberPreviewMessage.textContent = options.message;
+  }
+  renderModes(options.modes);
+  rebuildPlan();
+
+  DOM.renumberPreviewDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+  DOM.renumberPreviewConfirm?.focus();
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideRenumberPreviewDialog(): void {
+  closeDialog(false);
+}
+
+export default {
+  init: initRenumberPreviewDialog,
+  show: showRenumberPreviewDialog,
+  hide: hideRenumberPreviewDialog,
+};
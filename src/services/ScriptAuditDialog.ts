@@ -0,0 +1,321 @@
+/**
+ * ScriptAuditDialog - 脚本检查对话框
+ * 上方列出没有被任何条目引用的孤立脚本，可归档或删除；
+ * 下方列出指向不存在文件的脚本引用（点击条目打开），可重新关联到孤立脚本或移除引用
+ */
+
+import { DOM } from '../core/DOMManager';
+import type { DanglingReference, OrphanScript, ScriptAuditReport } from './ScriptAuditService';
+
+// ============ 类型定义 ============
+
+/** 一个悬空引用改为指向的孤立脚本 */
+export interface ScriptRelink {
+  reference: DanglingReference;
+  orphan: OrphanScript;
+}
+
+export type ScriptAuditDialogResult =
+  | { kind: 'open'; filePath: string; index: number }
+  | { kind: 'archive' | 'delete'; orphans: OrphanScript[] }
+  | { kind: 'relink'; links: ScriptRelink[] }
+  | { kind: 'unlink'; references: DanglingReference[] };
+
+// ============ 常量 ============
+
+const ROW_CLASS = 'flex items-center gap-2 px-3 py-1 text-xs border-b border-gray-700';
+const EMPTY_CLASS = 'p-3 text-xs text-gray-500';
+
+// ============ 状态 ============
+
+let resolvePending: ((result: ScriptAuditDialogResult | null) => void) | null = null;
+let initialized = false;
+let currentReport: ScriptAuditReport | null = null;
+
+// ============ 渲染函数 ============
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function createCheckbox(index: number): HTMLInputElement {
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.className = 'script-audit-check';
+  checkbox.dataset.index = String(index);
+  return checkbox;
+}
+
+function createEmpty(text: string): HTMLDivElement {
+  const empty = document.createElement('div');
+  empty.className = EMPTY_CLASS;
+  empty.textContent = text;
+  return empty;
+}
+
+function renderOrphans(): void {
+  const list = DOM.scriptAuditOrphans;
+  if (!list || !currentReport) return;
+  list.innerHTML = '';
+  const { orphans, unmanaged } = currentReport;
+  if (orphans.length === 0) {
+    list.appendChild(createEmpty('没有孤立脚本'));
+  }
+
+  for (let i = 0; i < orphans.length; i++) {
+    const orphan = orphans[i];
+    const row = document.createElement('label');
+    row.className = `${ROW_CLASS} cursor-pointer hover:bg-gray-700`;
+    row.title = orphan.scriptPath;
+    row.appendChild(createCheckbox(i));
+
+    const name = document.createElement('span');
+    name.className = 'flex-1 truncate font-mono text-gray-200';
+    name.textContent = orphan.fileName;
+    row.appendChild(name);
+
+    const hint = document.createElement('span');
+    hint.className = 'text-gray-500';
+    hint.textContent = `#${orphan.itemId} · ${orphan.scriptKey}`;
+    row.appendChild(hint);
+    list.appendChild(row);
+  }
+
+  if (unmanaged.length > 0) {
+    const info = createEmpty(`另有 ${unmanaged.length} 个未被引用的 .js 文件不是新建脚本生成的，不会归档或删除：`);
+    list.appendChild(info);
+    for (let i = 0; i < unmanaged.length; i++) {
+      const row = document.createElement('div');
+      row.className = `${ROW_CLASS} font-mono text-gray-500`;
+      row.textContent = unmanaged[i];
+      list.appendChild(row);
+    }
+  }
+}
+
+/**
+ * 重新关联的目标：文件名匹配的候选在前，其余孤立脚本在后
+ */
+function createRelinkSelect(reference: DanglingReference, index: number): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.className = 'script-audit-target theme-select w-56 px-1 py-0.5 text-xs bg-gray-900 border border-gray-700 rounded';
+  select.dataset.index = String(index);
+
+  const none = document.createElement('option');
+  none.value = '';
+  none.textContent = reference.candidates.length > 0 ? '不关联' : '（无匹配的孤立脚本）';
+  select.appendChild(none);
+
+  const orphans = currentReport?.orphans ?? [];
+  const appendOption = (parent: HTMLElement, orphan: OrphanScript): void => {
+    const option = document.createElement('option');
+    option.value = orphan.scriptPath;
+    option.textContent = orphan.fileName;
+    parent.appendChild(option);
+  };
+  for (let i = 0; i < reference.candidates.length; i++) {
+    appendOption(select, reference.candidates[i]);
+  }
+  const others = orphans.filter((orphan) => !reference.candidates.includes(orphan));
+  if (others.length > 0) {
+    const group = document.createElement('optgroup');
+    group.label = '其他孤立脚本';
+    for (let i = 0; i < others.length; i++) {
+      appendOption(group, others[i]);
+    }
+    select.appendChild(group);
+  }
+
+  select.value = reference.candidates[0]?.scriptPath ?? '';
+  return select;
+}
+
+function renderDangling(): void {
+  const list = DOM.scriptAuditDangling;
+  if (!list || !currentReport) return;
+  list.innerHTML = '';
+  const { dangling } = currentReport;
+  if (dangling.length === 0) {
+    list.appendChild(createEmpty('没有悬空的脚本引用'));
+    return;
+  }
+
+  for (let i = 0; i < dangling.length; i++) {
+    const reference = dangling[i];
+    const row = document.createElement('div');
+    row.className = ROW_CLASS;
+    row.appendChild(createCheckbox(i));
+
+    const item = document.createElement('span');
+    item.className = 'script-audit-item w-48 truncate text-cyan-300 cursor-pointer hover:underline';
+    item.dataset.index = String(i);
+    item.textContent = `${getFileName(reference.filePath)} · ${reference.itemName}`;
+    item.title = '打开条目';
+    row.appendChild(item);
+
+    const key = document.createElement('span');
+    key.className = 'w-24 truncate text-gray-200';
+    key.textContent = reference.scriptKey;
+    row.appendChild(key);
+
+    const path = document.createElement('span');
+    path.className = 'flex-1 truncate font-mono text-red-300';
+    path.textContent = reference.storedPath;
+    path.title = reference.scriptPath;
+    row.appendChild(path);
+
+    row.appendChild(createRelinkSelect(reference, i));
+    list.appendChild(row);
+  }
+}
+
+function updateSummary(): void {
+  if (!DOM.scriptAuditSummary || !currentReport) return;
+  const { referenceCount, scriptCount, orphans, unmanaged, dangling } = currentReport;
+  DOM.scriptAuditSummary.textContent =
+    `${scriptCount} 个脚本文件 · ${referenceCount} 个引用 · 孤立 ${orphans.length} 个 · 悬空 ${dangling.length} 个`
+    + (unmanaged.length > 0 ? ` · 其他未引用 ${unmanaged.length} 个` : '');
+}
+
+function getCheckedIndices(list: HTMLElement | null): number[] {
+  if (!list) return [];
+  const checked = list.querySelectorAll<HTMLInputElement>('.script-audit-check:checked');
+  const indices: number[] = [];
+  for (let i = 0; i < checked.length; i++) {
+    indices.push(parseInt(checked[i].dataset.index ?? '', 10));
+  }
+  return indices;
+}
+
+function setAllChecked(list: HTMLElement | null, checked: boolean): void {
+  const boxes = list?.querySelectorAll<HTMLInputElement>('.script-audit-check') ?? [];
+  for (let i = 0; i < boxes.length; i++) {
+    boxes[i].checked = checked;
+  }
+}
+
+// ============ 事件处理 ============
+
+function handleOrphanAction(kind: 'archive' | 'delete'): void {
+  if (!currentReport) return;
+  const orphans = getCheckedIndices(DOM.scriptAuditOrphans).map((index) => currentReport!.orphans[index]);
+  if (orphans.length > 0) {
+    closeDialog({ kind, orphans });
+  }
+}
+
+function handleRelink(): void {
+  if (!currentReport) return;
+  const links: ScriptRelink[] = [];
+  const indices = getCheckedIndices(DOM.scriptAuditDangling);
+  for (let i = 0; i < indices.length; i++) {
+    const select = DOM.scriptAuditDangling?.querySelector<HTMLSelectElement>(`.script-audit-target[data-index="${indices[i]}"]`);
+    const orphan = currentReport.orphans.find((item) => item.scriptPath === select?.value);
+    if (orphan) {
+      links.push({ reference: currentReport.dangling[indices[i]], orphan });
+    }
+  }
+  if (links.length > 0) {
+    closeDialog({ kind: 'relink', links });
+  }
+}
+
+function handleUnlink(): void {
+  if (!currentReport) return;
+  const references = getCheckedIndices(DOM.scriptAuditDangling).map((index) => currentReport!.dangling[index]);
+  if (references.length > 0) {
+    closeDialog({ kind: 'unlink', references });
+  }
+}
+
+function handleDanglingClick(e: MouseEvent): void {
+  const item = (e.target as HTMLElement).closest('.script-audit-item') as HTMLElement | null;
+  const reference = item?.dataset.index ? currentReport?.dangling[parseInt(item.dataset.index, 10)] : undefined;
+  if (reference) {
+    closeDialog({ kind: 'open', filePath: reference.filePath, index: reference.index });
+  }
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    closeDialog(null);
+  }
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.scriptAuditDialog) {
+    closeDialog(null);
+  }
+}
+
+// ============ 对话框控制 ============
+
+function closeDialog(result: ScriptAuditDialogResult | null): void {
+  DOM.scriptAuditDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  currentReport = null;
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+export function initScriptAuditDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.scriptAuditOrphansAll?.addEventListener('change', () => {
+    setAllChecked(DOM.scriptAuditOrphans, DOM.scriptAuditOrphansAll?.checked ?? false);
+  });
+  DOM.scriptAuditDanglingAll?.addEventListener('change', () => {
+    setAllChecked(DOM.scriptAuditDangling, DOM.scriptAuditDanglingAll?.checked ?? false);
+  });
+  DOM.scriptAuditDangling?.addEventListener('click', handleDanglingClick);
+  DOM.scriptAuditArchive?.addEventListener('click', () => handleOrphanAction('archive'));
+  DOM.scriptAuditDelete?.addEventListener('click', () => handleOrphanAction('delete'));
+  DOM.scriptAuditRelink?.addEventListener('click', handleRelink);
+  DOM.scriptAuditUnlink?.addEventListener('click', handleUnlink);
+  DOM.scriptAuditCancel?.addEventListener('click', () => closeDialog(null));
+  DOM.scriptAuditDialog?.addEventListener('click', handleDialogClick);
+}
+
+/**
+ * 显示脚本检查对话框
+ * @returns 要执行的操作，关闭返回 null
+ */
+export function showScriptAuditDialog(report: ScriptAuditReport): Promise<ScriptAuditDialogResult | null> {
+  initScriptAuditDialog();
+
+  if (resolvePending) {
+    closeDialog(null);
+  }
+  if (!DOM.scriptAuditDialog) {
+    return Promise.resolve(null);
+  }
+
+  currentReport = report;
+  if (DOM.scriptAuditPath) DOM.scriptAuditPath.textContent = report.scriptDirectory;
+  if (DOM.scriptAuditOrphansAll) DOM.scriptAuditOrphansAll.checked = false;
+  if (DOM.scriptAuditDanglingAll) DOM.scriptAuditDanglingAll.checked = false;
+  renderOrphans();
+  renderDangling();
+  updateSummary();
+  DOM.scriptAuditDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideScriptAuditDialog(): void {
+  closeDialog(null);
+}
+
+export default {
+  init: initScriptAuditDialog,
+  show: showScriptAuditDialog,
+  hide: hideScriptAuditDialog,
+};
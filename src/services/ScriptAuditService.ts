@@ -0,0 +1,253 @@
+/**
+ * ScriptAuditService - 脚本文件检查
+ * 将数据目录下所有文件中条目的 scripts 引用与脚本目录中的 .js 文件对照，
+ * 找出没有被任何条目引用的孤立脚本（仅限新建脚本生成的文件）与指向不存在文件的悬空引用，
+ * 并为悬空引用推荐可重新关联的孤立脚本
+ */
+
+import { resolveScriptFilePath } from './ScriptPathCompat';
+import type { NoteTagSourceFile } from './NoteTagQueryService';
+import { logger } from './logger';
+
+// ============ 类型定义 ============
+
+/** 条目中的一个脚本引用 */
+export interface ScriptReference {
+  /** 条目所在的数据文件 */
+  filePath: string;
+  index: number;
+  itemId: number;
+  itemName: string;
+  scriptKey: string;
+  /** scripts 中保存的路径 */
+  storedPath: string;
+  /** 解析后的脚本文件路径 */
+  scriptPath: string;
+}
+
+/** 没有被引用、由新建脚本生成的脚本文件 */
+export interface OrphanScript {
+  fileName: string;
+  scriptPath: string;
+  /** 从文件名解析出的条目 id 与脚本键 */
+  itemId: number;
+  scriptKey: string;
+}
+
+/** 指向不存在文件的脚本引用，candidates 为可重新关联的孤立脚本（最新的在前） */
+export interface DanglingReference extends ScriptReference {
+  candidates: OrphanScript[];
+}
+
+export interface ScriptAuditReport {
+  scriptDirectory: string;
+  /** 数据文件中的脚本引用总数 */
+  referenceCount: number;
+  /** 脚本目录中的脚本文件总数 */
+  scriptCount: number;
+  orphans: OrphanScript[];
+  /** 没有被引用、但不是新建脚本生成的 .js 文件（例如引擎与插件文件），只提示不处理 */
+  unmanaged: string[];
+  dangling: DanglingReference[];
+}
+
+// ============ 常量 ============
+
+/** 孤立脚本归档到脚本目录下的该子目录 */
+export const ORPHAN_ARCHIVE_DIR_NAME = '.orphaned';
+
+/** 新建脚本的文件名：{条目 id}_{脚本键}_{创建时间}.js */
+const SCRIPT_FILE_NAME_REGEX = /^(\d+)_(.+)_(\d+)\.js$/;
+const SCRIPT_EXT_REGEX = /\.js$/i;
+
+// ============ 工具函数 ============
+
+/**
+ * 比较路径用的键：统一分隔符并忽略大小写（脚本目录通常在 Windows 上）
+ */
+export function getScriptPathKey(filePath: string): string {
+  return filePath.replace(/\\/g, '/').toLowerCase();
+}
+
+/**
+ * 从新建脚本的文件名解析条目 id 与脚本键
+ */
+export function parseScriptFileName(fileName: string): { itemId: number; scriptKey: string; createdAt: number } | null {
+  const match = SCRIPT_FILE_NAME_REGEX.exec(fileName);
+  if (!match) return null;
+  return { itemId: Number(match[1]), scriptKey: match[2], createdAt: Number(match[3]) };
+}
+
+function getItemName(item: Record<string, unknown>, index: number): string {
+  return typeof item.name === 'string' && item.name ? item.name : `#${index}`;
+}
+
+/**
+ * 收集所有条目的脚本引用；条目 id 缺失时与新建脚本一致地使用条目下标
+ */
+export function collectScriptReferences(files: readonly NoteTagSourceFile[]): ScriptReference[] {
+  const references: ScriptReference[] = [];
+  for (let f = 0; f < files.length; f++) {
+    const { filePath, data } = files[f];
+    for (let index = 0; index < data.length; index++) {
+      const item = data[index] as Record<string, unknown> | null;
+      if (!item || typeof item !== 'object') continue;
+      const scripts = item.scripts as Record<string, unknown> | null | undefined;
+      if (!scripts || typeof scripts !== 'object') continue;
+
+      const keys = Object.keys(scripts);
+      for (let k = 0; k < keys.length; k++) {
+        const storedPath = scripts[keys[k]];
+        if (typeof storedPath !== 'string' || !storedPath.trim()) continue;
+        references.push({
+          filePath,
+          index,
+          itemId: typeof item.id === 'number' && item.id ? item.id : index,
+          itemName: getItemName(item, index),
+          scriptKey: keys[k],
+          storedPath,
+          scriptPath: resolveScriptFilePath(storedPath),
+        });
+      }
+    }
+  }
+  return references;
+}
+
+/**
+ * 对照脚本引用与脚本目录中的文件
+ * @param fileNames 脚本目录中的文件名
+ * @param existingPaths 脚本目录以外、确认存在的被引用文件
+ */
+export function buildScriptAudit(
+  scriptDirectory: string,
+  references: readonly ScriptReference[],
+  fileNames: readonly string[],
+  existingPaths: ReadonlySet<string> = new Set()
+): ScriptAuditReport {
+  const referenced = new Set<string>();
+  for (let i = 0; i < references.length; i++) {
+    referenced.add(getScriptPathKey(references[i].scriptPath));
+  }
+
+  const existing = new Set<string>();
+  for (const path of existingPaths) {
+    existing.add(getScriptPathKey(path));
+  }
+
+  const orphans: OrphanScript[] = [];
+  const unmanaged: string[] = [];
+  const scriptNames = fileNames.filter((name) => SCRIPT_EXT_REGEX.test(name));
+  for (let i = 0; i < scriptNames.length; i++) {
+    const scriptPath = `${scriptDirectory}/${scriptNames[i]}`;
+    const key = getScriptPathKey(scriptPath);
+    existing.add(key);
+    if (referenced.has(key)) continue;
+    // 只有新建脚本生成的文件才可归档或删除，避免误删 main.js、plugins.js 等引擎文件
+    const parsed = parseScriptFileName(scriptNames[i]);
+    if (!parsed) {
+      unmanaged.push(scriptNames[i]);
+      continue;
+    }
+    orphans.push({ fileName: scriptNames[i], scriptPath, itemId: parsed.itemId, scriptKey: parsed.scriptKey });
+  }
+  orphans.sort((a, b) => a.fileName.localeCompare(b.fileName));
+  unmanaged.sort((a, b) => a.localeCompare(b));
+
+  const dangling: DanglingReference[] = [];
+  for (let i = 0; i < references.length; i++) {
+    const reference = references[i];
+    if (existing.has(getScriptPathKey(reference.scriptPath))) continue;
+    dangling.push({ ...reference, candidates: getRelinkCandidates(reference, orphans) });
+  }
+
+  return { scriptDirectory, referenceCount: references.length, scriptCount: scriptNames.length, orphans, unmanaged, dangling };
+}
+
+/**
+ * 文件名中条目 id 与脚本键都与引用一致的孤立脚本，按创建时间从新到旧排列
+ */
+export function getRelinkCandidates(reference: ScriptReference, orphans: readonly OrphanScript[]): OrphanScript[] {
+  return orphans
+    .filter((orphan) => orphan.itemId === reference.itemId && orphan.scriptKey === reference.scriptKey)
+    .sort((a, b) => (parseScriptFileName(b.fileName)?.createdAt ?? 0) - (parseScriptFileName(a.fileName)?.createdAt ?? 0));
+}
+
+/**
+ * 过滤掉已被数据重新引用的孤立脚本（检查后数据可能被编辑或撤销）
+ */
+export function filterUnreferencedOrphans(orphans: readonly OrphanScript[], files: readonly NoteTagSourceFile[]): OrphanScript[] {
+  const referenced = new Set<string>();
+  const references = collectScriptReferences(files);
+  for (let i = 0; i < references.length; i++) {
+    referenced.add(getScriptPathKey(references[i].scriptPath));
+  }
+  return orphans.filter((orphan) => !referenced.has(getScriptPathKey(orphan.scriptPath)));
+}
+
+/**
+ * 归档路径：{脚本目录}/.orphaned/{文件名}
+ */
+export function getOrphanArchivePath(scriptDirectory: string, orphan: OrphanScript): string {
+  return `${scriptDirectory}/${ORPHAN_ARCHIVE_DIR_NAME}/${orphan.fileName}`;
+}
+
+// ============ ScriptAuditService 类 ============
+
+class ScriptAuditServiceClass {
+  /**
+   * 检查数据文件的脚本引用；脚本目录不存在时所有引用都视为悬空
+   */
+  async audit(scriptDirectory: string, files: readonly NoteTagSourceFile[]): Promise<ScriptAuditReport> {
+    const references = collectScriptReferences(files);
+    let fileNames: string[] = [];
+    if (await window.electronAPI.fileExists(scriptDirectory)) {
+      fileNames = await window.electronAPI.listDirectory(scriptDirectory);
+    }
+
+    // 只有不在脚本目录顶层的引用才需要逐个确认是否存在
+    const directoryPrefix = getScriptPathKey(`${scriptDirectory}/`);
+    const existingPaths = new Set<string>();
+    const checked = new Set<string>();
+    for (let i = 0; i < references.length; i++) {
+      const { scriptPath } = references[i];
+      const key = getScriptPathKey(scriptPath);
+      if (checked.has(key)) continue;
+      checked.add(key);
+      if (key.startsWith(directoryPrefix) && !key.slice(directoryPrefix.length).includes('/')) continue;
+      try {
+        if (await window.electronAPI.fileExists(scriptPath)) existingPaths.add(scriptPath);
+      } catch (error) {
+        logger.warn('Failed to check script file', { scriptPath, error }, 'ScriptAuditService');
+      }
+    }
+
+    const report = buildScriptAudit(scriptDirectory, references, fileNames, existingPaths);
+    logger.info('Script audit finished', {
+      references: report.referenceCount,
+      scripts: report.scriptCount,
+      orphans: report.orphans.length,
+      dangling: report.dangling.length,
+    }, 'ScriptAuditService');
+    return report;
+  }
+
+  /**
+   * 将孤立脚本移动到归档目录
+   * @returns 归档后的路径
+   */
+  async archive(scriptDirectory: string, orphan: OrphanScript): Promise<string> {
+    const archivePath = getOrphanArchivePath(scriptDirectory, orphan);
+    const content = await window.electronAPI.readFile(orphan.scriptPath);
+    await window.electronAPI.writeFile(archivePath, content);
+    await window.electronAPI.deleteFile(orphan.scriptPath);
+    return archivePath;
+  }
+
+  async remove(orphan: OrphanScript): Promise<void> {
+    await window.electronAPI.deleteFile(orphan.scriptPath);
+  }
+}
+
+export const ScriptAuditService = new ScriptAuditServiceClass();
+export default ScriptAuditService;
@@ -1,4 +1,5 @@
 export const SCRIPT_TIMESTAMP_REGEXP = /^\/\/\s*保存时间:\s*.+$/m;
+const TIMESTAMP_VALUE_REGEXP = /^\/\/\s*保存时间:\s*(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})\s*$/m;
 
 export function extractScriptCode(fileContent: string): string {
   if (!fileContent) return '';
@@ -35,9 +36,21 @@ export function buildTimestampLine(date: Date): string {
   return `// 保存时间: ${formatTimestamp(date)}`;
 }
 
+/**
+ * 读取脚本文件中保存时间行记录的时间，没有或格式不符时返回 null
+ */
+export function parseTimestampLine(fileContent: string): Date | null {
+  const match = TIMESTAMP_VALUE_REGEXP.exec(fileContent);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
 export default {
   extractScriptCode,
   buildTimestampLine,
   formatTimestamp,
+  parseTimestampLine,
   SCRIPT_TIMESTAMP_REGEXP,
 };
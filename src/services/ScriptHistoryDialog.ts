@@ -0,0 +1,278 @@
+/**
+ * ScriptHistoryDialog - 脚本历史对话框
+ * 左侧列出脚本的历史快照（保存时间与大小），右侧用 Monaco 差异编辑器对比选中的快照
+ * 与当前编辑器内容或另一份快照，可一键恢复选中的快照
+ */
+
+import type * as monacoType from 'monaco-editor';
+import { DOM } from '../core/DOMManager';
+import { loadMonaco } from './MonacoLoader';
+import { formatTimestamp } from './ScriptContentUtils';
+import type { ScriptSnapshot } from './ScriptHistoryService';
+import { formatBytes } from '../utils/formatBytes';
+import { logger } from './logger';
+
+// ============ 类型定义 ============
+
+export interface ScriptHistoryDialogOptions {
+  /** 脚本键名，显示在标题中 */
+  scriptKey: string;
+  /** 快照目录，显示在标题下方 */
+  directory: string;
+  /** 按时间从新到旧排列的快照 */
+  snapshots: ScriptSnapshot[];
+  /** 当前编辑器中的代码 */
+  current: string;
+}
+
+// ============ 常量 ============
+
+/** 对比对象：当前编辑器内容 */
+const COMPARE_CURRENT = 'current';
+const ROW_CLASS = 'script-history-row flex justify-between gap-2 px-3 py-2 text-xs border-b border-gray-700 cursor-pointer hover:bg-gray-700';
+const SELECTED_CLASS = 'bg-cyan-900';
+
+// ============ 状态 ============
+
+let resolvePending: ((snapshot: ScriptSnapshot | null) => void) | null = null;
+let initialized = false;
+let currentOptions: ScriptHistoryDialogOptions | null = null;
+let selectedIndex = -1;
+let diffEditor: monacoType.editor.IStandaloneDiffEditor | null = null;
+let diffModels: monacoType.editor.ITextModel[] = [];
+
+// ============ 渲染函数 ============
+
+function formatSnapshotLabel(snapshot: ScriptSnapshot): string {
+  return formatTimestamp(new Date(snapshot.timestamp));
+}
+
+function renderList(): void {
+  const list = DOM.scriptHistoryList;
+  if (!list || !currentOptions) return;
+  list.innerHTML = '';
+
+  const { snapshots } = currentOptions;
+  if (snapshots.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'p-3 text-xs text-gray-500';
+    empty.textContent = '该脚本还没有历史版本，保存后会自动记录';
+    list.appendChild(empty);
+    return;
+  }
+
+  for (let i = 0; i < snapshots.length; i++) {
+    const row = document.createElement('div');
+    row.className = ROW_CLASS;
+    row.dataset.index = String(i);
+    if (i === selectedIndex) row.classList.add(SELECTED_CLASS);
+
+    const time = document.createElement('span');
+    time.className = 'text-gray-200';
+    time.textContent = formatSnapshotLabel(snapshots[i]) + (i === 0 ? '（最新）' : '');
+    const size = document.createElement('span');
+    size.className = 'text-gray-500';
+    size.textContent = formatBytes(snapshots[i].size, 1);
+    row.appendChild(time);
+    row.appendChild(size);
+    list.appendChild(row);
+  }
+}
+
+/**
+ * 对比对象选项：当前编辑器内容与除选中快照外的其他快照
+ */
+function renderCompareOptions(): void {
+  const select = DOM.scriptHistoryCompare;
+  if (!select || !currentOptions) return;
+  const previous = select.value || COMPARE_CURRENT;
+  select.innerHTML = '';
+
+  const current = document.createElement('option');
+  current.value = COMPARE_CURRENT;
+  current.textContent = '当前编辑器内容';
+  select.appendChild(current);
+
+  const { snapshots } = currentOptions;
+  for (let i = 0; i < snapshots.length; i++) {
+    if (i === selectedIndex) continue;
+    const option = document.createElement('option');
+    option.value = String(i);
+    option.textContent = formatSnapshotLabel(snapshots[i]);
+    select.appendChild(option);
+  }
+  select.value = previous !== String(selectedIndex) && select.querySelector(`option[value="${previous}"]`)
+    ? previous
+    : COMPARE_CURRENT;
+}
+
+function getCompareCode(): string {
+  if (!currentOptions) return '';
+  const value = DOM.scriptHistoryCompare?.value ?? COMPARE_CURRENT;
+  return value === COMPARE_CURRENT ? currentOptions.current : currentOptions.snapshots[Number(value)]?.code ?? '';
+}
+
+function disposeDiffModels(): void {
+  for (let i = 0; i < diffModels.length; i++) {
+    diffModels[i].dispose();
+  }
+  diffModels = [];
+}
+
+/**
+ * 更新差异编辑器：左侧为选中的快照，右侧为对比对象
+ */
+async function renderDiff(): Promise<void> {
+  const container = DOM.scriptHistoryDiff;
+  const options = currentOptions;
+  if (!container || !options) return;
+  const snapshot = options.snapshots[selectedIndex];
+  updateSummary();
+
+  let monaco: typeof monacoType;
+  try {
+    monaco = await loadMonaco();
+  } catch (error) {
+    logger.warn('Failed to load Monaco for script history', { error }, 'ScriptHistoryDialog');
+    container.textContent = '代码编辑器加载失败，无法显示差异';
+    return;
+  }
+  if (currentOptions !== options) return;
+
+  if (!diffEditor) {
+    container.innerHTML = '';
+    diffEditor = monaco.editor.createDiffEditor(container, {
+      readOnly: true,
+      automaticLayout: true,
+      renderSideBySide: true,
+      minimap: { enabled: false },
+      scrollBeyondLastLine: false,
+    });
+  }
+
+  const original = monaco.editor.createModel(snapshot?.code ?? '', 'javascript');
+  const modified = monaco.editor.createModel(getCompareCode(), 'javascript');
+  diffEditor.setModel({ original, modified });
+  disposeDiffModels();
+  diffModels = [original, modified];
+}
+
+function updateSummary(): void {
+  const options = currentOptions;
+  const snapshot = options?.snapshots[selectedIndex];
+  if (DOM.scriptHistorySummary) {
+    DOM.scriptHistorySummary.textContent = snapshot
+      ? `左侧：${formatSnapshotLabel(snapshot)} · 右侧：${DOM.scriptHistoryCompare?.selectedOptions[0]?.textContent ?? ''}`
+      : `共 ${options?.snapshots.length ?? 0} 个版本`;
+  }
+  if (DOM.scriptHistoryRestore) {
+    DOM.scriptHistoryRestore.disabled = !snapshot;
+  }
+}
+
+function selectSnapshot(index: number): void {
+  selectedIndex = index;
+  renderList();
+  renderCompareOptions();
+  void renderDiff();
+}
+
+// ============ 事件处理 ============
+
+function handleListClick(e: MouseEvent): void {
+  const row = (e.target as HTMLElement).closest('.script-history-row') as HTMLElement | null;
+  if (row?.dataset.index) {
+    selectSnapshot(parseInt(row.dataset.index, 10));
+  }
+}
+
+function handleCompareChange(): void {
+  void renderDiff();
+}
+
+function handleRestore(): void {
+  const snapshot = currentOptions?.snapshots[selectedIndex];
+  if (snapshot) {
+    closeDialog(snapshot);
+  }
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    closeDialog(null);
+  }
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.scriptHistoryDialog) {
+    closeDialog(null);
+  }
+}
+
+// ============ 对话框控制 ============
+
+function closeDialog(result: ScriptSnapshot | null): void {
+  DOM.scriptHistoryDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  currentOptions = null;
+  selectedIndex = -1;
+  if (diffEditor) {
+    diffEditor.dispose();
+    diffEditor = null;
+  }
+  disposeDiffModels();
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+export function initScriptHistoryDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.scriptHistoryList?.addEventListener('click', handleListClick);
+  DOM.scriptHistoryCompare?.addEventListener('change', handleCompareChange);
+  DOM.scriptHistoryRestore?.addEventListener('click', handleRestore);
+  DOM.scriptHistoryCancel?.addEventListener('click', () => closeDialog(null));
+  DOM.scriptHistoryDialog?.addEventListener('click', handleDialogClick);
+}
+
+/**
+ * 显示脚本历史对话框
+ * @returns 要恢复的快照，关闭返回 null
+ */
+export function showScriptHistoryDialog(options: ScriptHistoryDialogOptions): Promise<ScriptSnapshot | null> {
+  initScriptHistoryDialog();
+
+  if (resolvePending) {
+    closeDialog(null);
+  }
+  if (!DOM.scriptHistoryDialog) {
+    return Promise.resolve(null);
+  }
+
+  currentOptions = options;
+  if (DOM.scriptHistoryTitle) DOM.scriptHistoryTitle.textContent = `脚本历史 · ${options.scriptKey}`;
+  if (DOM.scriptHistoryPath) DOM.scriptHistoryPath.textContent = options.directory;
+  if (DOM.scriptHistoryCompare) DOM.scriptHistoryCompare.value = '';
+  DOM.scriptHistoryDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+  selectSnapshot(options.snapshots.length > 0 ? 0 : -1);
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideScriptHistoryDialog(): void {
+  closeDialog(null);
+}
+
+export default {
+  init: initScriptHistoryDialog,
+  show: showScriptHistoryDialog,
+  hide: hideScriptHistoryDialog,
+};
@@ -0,0 +1,139 @@
+/**
+ * ScriptHistoryService - 脚本版本历史
+ * 每次保存脚本时把代码快照写入脚本目录下的 .script-history/，按数据文件、条目与脚本键分组，
+ * 供历史对话框列出、对比与恢复
+ */
+
+import { logger } from './logger';
+
+// ============ 类型定义 ============
+
+/** 一个脚本的历史分组 */
+export interface ScriptHistoryKey {
+  /** 条目所在的数据文件名，例如 Skills.json */
+  dataFile: string;
+  itemId: number;
+  scriptKey: string;
+}
+
+export interface ScriptSnapshot {
+  filePath: string;
+  /** 保存时间（毫秒） */
+  timestamp: number;
+  /** 代码字节数 */
+  size: number;
+  code: string;
+}
+
+// ============ 常量 ============
+
+export const SCRIPT_HISTORY_DIR_NAME = '.script-history';
+
+/** 每个脚本保留的快照数量 */
+export const MAX_SCRIPT_SNAPSHOTS = 50;
+
+const SNAPSHOT_NAME_REGEX = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.js$/;
+const UNSAFE_NAME_REGEX = /[\\/:*?"<>|\s]+/g;
+const JSON_EXT_REGEX = /\.json$/i;
+
+// ============ 工具函数 ============
+
+function sanitizeName(name: string): string {
+  return name.replace(UNSAFE_NAME_REGEX, '_') || '_';
+}
+
+/**
+ * 快照文件名：ISO 时间中的 : 与 . 替换为 -，按文件名排序即按时间排序
+ */
+export function formatSnapshotFileName(date: Date): string {
+  return `${date.toISOString().replace(/[:.]/g, '-')}.js`;
+}
+
+/**
+ * 从快照文件名读取保存时间，不是快照文件时返回 null
+ */
+export function parseSnapshotFileName(fileName: string): number | null {
+  const match = SNAPSHOT_NAME_REGEX.exec(fileName);
+  if (!match) return null;
+  const timestamp = Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * 脚本的快照目录：{根目录}/.script-history/{数据文件}/{条目 id}_{脚本键}
+ */
+export function getScriptHistoryDirectory(root: string, key: ScriptHistoryKey): string {
+  const dataFile = sanitizeName(key.dataFile.replace(JSON_EXT_REGEX, ''));
+  return `${root}/${SCRIPT_HISTORY_DIR_NAME}/${dataFile}/${key.itemId}_${sanitizeName(key.scriptKey)}`;
+}
+
+export function getByteSize(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * 写入新快照后需要删除的旧快照（snapshots 按时间从新到旧排列）
+ */
+export function getPrunedSnapshots<T>(snapshots: readonly T[], limit = MAX_SCRIPT_SNAPSHOTS): T[] {
+  return snapshots.slice(Math.max(0, limit - 1));
+}
+
+// ============ ScriptHistoryService 类 ============
+
+class ScriptHistoryServiceClass {
+  /**
+   * 列出脚本的所有快照，按时间从新到旧排列
+   */
+  async list(root: string, key: ScriptHistoryKey): Promise<ScriptSnapshot[]> {
+    const directory = getScriptHistoryDirectory(root, key);
+    let names: string[];
+    try {
+      if (!(await window.electronAPI.fileExists(directory))) return [];
+      names = await window.electronAPI.listDirectory(directory);
+    } catch (error) {
+      logger.warn('Failed to list script history', { directory, error }, 'ScriptHistoryService');
+      return [];
+    }
+
+    const snapshots: ScriptSnapshot[] = [];
+    for (let i = 0; i < names.length; i++) {
+      const timestamp = parseSnapshotFileName(names[i]);
+      if (timestamp === null) continue;
+      const filePath = `${directory}/${names[i]}`;
+      try {
+        const code = await window.electronAPI.readFile(filePath);
+        snapshots.push({ filePath, timestamp, size: getByteSize(code), code });
+      } catch (error) {
+        logger.warn('Failed to read script snapshot', { filePath, error }, 'ScriptHistoryService');
+      }
+    }
+    return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * 保存一份快照；与最新快照相同时跳过，超出保留数量时删除最旧的快照
+   * @returns 新快照，跳过时返回 null
+   */
+  async record(root: string, key: ScriptHistoryKey, code: string, date = new Date()): Promise<ScriptSnapshot | null> {
+    const snapshots = await this.list(root, key);
+    if (snapshots.length > 0 && snapshots[0].code === code) return null;
+
+    const filePath = `${getScriptHistoryDirectory(root, key)}/${formatSnapshotFileName(date)}`;
+    await window.electronAPI.writeFile(filePath, code);
+
+    const pruned = getPrunedSnapshots(snapshots);
+    for (let i = 0; i < pruned.length; i++) {
+      try {
+        await window.electronAPI.deleteFile(pruned[i].filePath);
+      } catch (error) {
+        logger.warn('Failed to delete old script snapshot', { filePath: pruned[i].filePath, error }, 'ScriptHistoryService');
+      }
+    }
+
+    logger.info('Script snapshot saved', { key, pruned: pruned.length }, 'ScriptHistoryService');
+    return { filePath, timestamp: date.getTime(), size: getByteSize(code), code };
+  }
+}
+
+export const ScriptHistoryService = new ScriptHistoryServiceClass();
+export default ScriptHistoryService;
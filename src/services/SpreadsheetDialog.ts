@@ -0,0 +1,353 @@
+/**
+ * SpreadsheetDialog - 表格导入导出对话框
+ * 打开时为导出模式，编辑列映射并预览表头与前几行；选择文件后切换为导入模式，
+ * 按列映射逐行显示差异，勾选后合并
+ */
+
+import { DOM } from '../core/DOMManager';
+import {
+  buildDefaultColumns,
+  detectSpreadsheetFormat,
+  exportSpreadsheet,
+  formatColumnMapping,
+  parseColumnMapping,
+  parseDelimited,
+  planSpreadsheetImport,
+  type SpreadsheetColumn,
+  type SpreadsheetFormat,
+  type SpreadsheetRowDiff,
+} from './SpreadsheetService';
+
+// ============ 类型定义 ============
+
+export interface SpreadsheetFile {
+  fileName: string;
+  text: string;
+}
+
+export interface SpreadsheetDialogOptions {
+  title: string;
+  data: unknown[];
+  /** 记住列映射使用的键，一般为文件路径 */
+  mappingKey: string;
+  /** 选择并读取要导入的表格文件，取消时返回 null */
+  pickFile: () => Promise<SpreadsheetFile | null>;
+}
+
+export type SpreadsheetDialogResult =
+  | { mode: 'export'; format: SpreadsheetFormat; columns: SpreadsheetColumn[] }
+  | { mode: 'import'; rows: SpreadsheetRowDiff[] };
+
+// ============ 常量 ============
+
+/** 导出预览显示的行数 */
+const EXPORT_PREVIEW_ROWS = 5;
+
+// ============ 对话框 ============
+
+let resolvePending: ((result: SpreadsheetDialogResult | null) => void) | null = null;
+let initialized = false;
+let currentOptions: SpreadsheetDialogOptions | null = null;
+let mode: 'export' | 'import' = 'export';
+/** 导入模式下读取到的表格文本 */
+let importText = '';
+let columns: SpreadsheetColumn[] = [];
+let diffRows: SpreadsheetRowDiff[] = [];
+/** 取消勾选的行号 */
+const excludedRows = new Set<number>();
+/** 按文件记住的列映射文本 */
+const savedMappings = new Map<string, string>();
+
+function getFormat(): SpreadsheetFormat {
+  return DOM.spreadsheetFormat?.value === 'tsv' ? 'tsv' : 'csv';
+}
+
+function setSummary(message: string, isError = false): void {
+  if (!DOM.spreadsheetSummary) return;
+  DOM.spreadsheetSummary.textContent = message;
+  DOM.spreadsheetSummary.classList.toggle('text-red-400', isError);
+  DOM.spreadsheetSummary.classList.toggle('text-gray-400', !isError);
+}
+
+function createCell(tag: 'th' | 'td', text: string, className: string): HTMLTableCellElement {
+  const cell = document.createElement(tag);
+  cell.className = className;
+  cell.textContent = text;
+  return cell;
+}
+
+function renderExportPreview(container: HTMLElement): void {
+  if (!currentOptions) return;
+  const table = parseDelimited(exportSpreadsheet(currentOptions.data, columns, getFormat()), getFormat());
+
+  const element = document.createElement('table');
+  element.className = 'spreadsheet-preview w-full text-xs border-collapse';
+  for (let r = 0; r < table.length && r <= EXPORT_PREVIEW_ROWS; r++) {
+    const tr = document.createElement('tr');
+    tr.className = r === 0 ? '' : 'border-t border-gray-700';
+    for (let c = 0; c < table[r].length; c++) {
+      tr.appendChild(r === 0
+        ? createCell('th', table[r][c], 'px-2 py-1 text-left text-cyan-400 whitespace-nowrap')
+        : createCell('td', table[r][c], 'px-2 py-1 whitespace-nowrap truncate max-w-[12rem]'));
+    }
+    element.appendChild(tr);
+  }
+  container.appendChild(element);
+  setSummary(`将导出 ${Math.max(table.length - 1, 0)} 行 × ${columns.length} 列`);
+}
+
+function createDiffRow(row: SpreadsheetRowDiff): HTMLDivElement {
+  const item = document.createElement('div');
+  item.className = 'spreadsheet-diff-row p-2 rounded border border-gray-700 bg-gray-800/60';
+
+  const header = document.createElement('label');
+  header.className = 'flex items-center gap-2 text-sm';
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.className = 'spreadsheet-diff-check';
+  checkbox.dataset.row = String(row.rowNumber);
+  checkbox.disabled = row.errors.length > 0;
+  checkbox.checked = !checkbox.disabled && !excludedRows.has(row.rowNumber);
+  header.appendChild(checkbox);
+  const title = document.createElement('span');
+  title.className = 'text-cyan-300';
+  title.textContent = `第 ${row.rowNumber} 行 → ${row.name || '(未命名)'}`;
+  header.appendChild(title);
+  item.appendChild(header);
+
+  const list = document.createElement('ul');
+  list.className = 'mt-1 pl-6 text-xs space-y-0.5';
+  for (let i = 0; i < row.errors.length; i++) {
+    const li = document.createElement('li');
+    li.className = 'text-red-400';
+    li.textContent = row.errors[i];
+    list.appendChild(li);
+  }
+  for (let i = 0; i < row.changes.length; i++) {
+    const change = row.changes[i];
+    const li = document.createElement('li');
+    li.className = 'text-gray-300';
+    li.textContent = `${change.column.header}: ${change.oldValue || '(空)'} → ${change.newValue || '(空)'}`;
+    list.appendChild(li);
+  }
+  item.appendChild(list);
+  return item;
+}
+
+function renderImportPreview(container: HTMLElement): void {
+  if (!currentOptions) return;
+  const table = parseDelimited(importText, getFormat());
+  const plan = planSpreadsheetImport(currentOptions.data, table, columns);
+  diffRows = plan.rows;
+
+  if (plan.missingIdColumn) {
+    setSummary('表头中没有映射到 id 的列，无法匹配项目', true);
+    return;
+  }
+  if (diffRows.length === 0) {
+    container.innerHTML = '<div class="empty-state text-sm text-gray-500">映射的列与现有数据一致，没有需要导入的修改</div>';
+  } else {
+    const fragment = document.createDocumentFragment();
+    for (let i = 0; i < diffRows.length; i++) {
+      fragment.appendChild(createDiffRow(diffRows[i]));
+    }
+    container.appendChild(fragment);
+  }
+
+  const notes: string[] = [`${getSelectedRows().length} / ${diffRows.length} 行将被导入`];
+  if (plan.unmatchedRows.length > 0) notes.push(`${plan.unmatchedRows.length} 行找不到对应项目`);
+  if (plan.ignoredHeaders.length > 0) notes.push(`忽略未映射的列: ${plan.ignoredHeaders.join('、')}`);
+  setSummary(notes.join('；'));
+}
+
+function renderPreview(): void {
+  const container = DOM.spreadsheetPreview;
+  if (!container || !currentOptions) return;
+  container.innerHTML = '';
+
+  const result = parseColumnMapping(DOM.spreadsheetMapping?.value ?? '');
+  columns = result.columns;
+  if (DOM.spreadsheetMappingErrors) {
+    DOM.spreadsheetMappingErrors.textContent = result.errors.join('\n');
+    DOM.spreadsheetMappingErrors.classList.toggle('hidden', result.errors.length === 0);
+  }
+  if (columns.length === 0) {
+    diffRows = [];
+    setSummary('列映射为空', true);
+    return;
+  }
+
+  if (mode === 'export') {
+    renderExportPreview(container);
+  } else {
+    renderImportPreview(container);
+  }
+}
+
+function getSelectedRows(): SpreadsheetRowDiff[] {
+  return diffRows.filter((row) => row.errors.length === 0 && !excludedRows.has(row.rowNumber));
+}
+
+/**
+ * 在映射末尾追加表头本身即为来源描述、且尚未映射的列（如 param.atk）
+ */
+function appendFileColumns(mappingText: string, text: string, format: SpreadsheetFormat): string {
+  const mapped = parseColumnMapping(mappingText).columns;
+  const headers = parseDelimited(text, format)[0] ?? [];
+  const extra = parseColumnMapping(headers.join('\n')).columns
+    .filter((column) => !mapped.some((item) => item.header === column.header));
+  return extra.length > 0 ? `${mappingText.trimEnd()}\n${formatColumnMapping(extra)}` : mappingText;
+}
+
+function buildDefaultMapping(data: unknown[]): string {
+  return formatColumnMapping(buildDefaultColumns(data));
+}
+
+function closeDialog(result: SpreadsheetDialogResult | null): void {
+  DOM.spreadsheetDialog?.classList.add('hidden');
+  document.removeEventListener('keydown', handleKeydown);
+  if (currentOptions && DOM.spreadsheetMapping) {
+    savedMappings.set(currentOptions.mappingKey, DOM.spreadsheetMapping.value);
+  }
+  currentOptions = null;
+  diffRows = [];
+  importText = '';
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+function handleConfirm(): void {
+  if (!currentOptions) return;
+  renderPreview();
+  if (columns.length === 0) return;
+
+  if (mode === 'export') {
+    closeDialog({ mode: 'export', format: getFormat(), columns });
+    return;
+  }
+  const rows = getSelectedRows();
+  if (rows.length === 0) {
+    setSummary('没有选中可导入的行', true);
+    return;
+  }
+  closeDialog({ mode: 'import', rows });
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    closeDialog(null);
+  }
+}
+
+function handlePreviewChange(e: Event): void {
+  const checkbox = e.target as HTMLInputElement;
+  if (!checkbox.classList.contains('spreadsheet-diff-check')) return;
+  const rowNumber = Number(checkbox.dataset.row);
+  if (checkbox.checked) {
+    excludedRows.delete(rowNumber);
+  } else {
+    excludedRows.add(rowNumber);
+  }
+  setSummary(`${getSelectedRows().length} / ${diffRows.length} 行将被导入`);
+}
+
+function handleResetMapping(): void {
+  if (!currentOptions || !DOM.spreadsheetMapping) return;
+  DOM.spreadsheetMapping.value = mode === 'import'
+    ? appendFileColumns(buildDefaultMapping(currentOptions.data), importText, getFormat())
+    : buildDefaultMapping(currentOptions.data);
+  renderPreview();
+}
+
+/**
+ * 选择表格文件并切换到导入模式；映射沿用当前文本，文件中出现的来源列会追加到末尾
+ */
+async function handlePickFile(): Promise<void> {
+  const options = currentOptions;
+  if (!options) return;
+  const file = await options.pickFile();
+  if (!file || currentOptions !== options || !DOM.spreadsheetMapping) return;
+
+  mode = 'import';
+  importText = file.text;
+  excludedRows.clear();
+  if (DOM.spreadsheetFormat) {
+    DOM.spreadsheetFormat.value = detectSpreadsheetFormat(file.fileName, file.text);
+  }
+  if (DOM.spreadsheetConfirm) {
+    DOM.spreadsheetConfirm.textContent = '导入选中行';
+  }
+  if (DOM.spreadsheetTitle) {
+    DOM.spreadsheetTitle.textContent = `${options.title} - 导入 ${file.fileName}`;
+  }
+  DOM.spreadsheetMapping.value = appendFileColumns(DOM.spreadsheetMapping.value, file.text, getFormat());
+  renderPreview();
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.spreadsheetDialog) {
+    closeDialog(null);
+  }
+}
+
+export function initSpreadsheetDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  DOM.spreadsheetMapping?.addEventListener('input', renderPreview);
+  DOM.spreadsheetFormat?.addEventListener('change', renderPreview);
+  DOM.spreadsheetPreview?.addEventListener('change', handlePreviewChange);
+  DOM.spreadsheetResetMapping?.addEventListener('click', handleResetMapping);
+  DOM.spreadsheetImportFile?.addEventListener('click', () => void handlePickFile());
+  DOM.spreadsheetConfirm?.addEventListener('click', handleConfirm);
+  DOM.spreadsheetCancel?.addEventListener('click', () => closeDialog(null));
+  DOM.spreadsheetDialog?.addEventListener('click', handleDialogClick);
+}
+
+/**
+ * 显示表格导入导出对话框
+ * @returns 确认导出时返回格式与列映射，确认导入时返回选中的差异行，取消返回 null
+ */
+export function showSpreadsheetDialog(options: SpreadsheetDialogOptions): Promise<SpreadsheetDialogResult | null> {
+  initSpreadsheetDialog();
+
+  if (resolvePending) {
+    closeDialog(null);
+  }
+  if (!DOM.spreadsheetDialog || !DOM.spreadsheetMapping) {
+    return Promise.resolve(null);
+  }
+
+  currentOptions = options;
+  mode = 'export';
+  importText = '';
+  excludedRows.clear();
+  if (DOM.spreadsheetTitle) {
+    DOM.spreadsheetTitle.textContent = options.title;
+  }
+  if (DOM.spreadsheetConfirm) {
+    DOM.spreadsheetConfirm.textContent = '导出';
+  }
+  DOM.spreadsheetMapping.value = savedMappings.get(options.mappingKey) ?? buildDefaultMapping(options.data);
+  renderPreview();
+  DOM.spreadsheetDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideSpreadsheetDialog(): void {
+  closeDialog(null);
+}
+
+export default {
+  init: initSpreadsheetDialog,
+  show: showSpreadsheetDialog,
+  hide: hideSpreadsheetDialog,
+};
@@ -0,0 +1,499 @@
+/**
+ * SpreadsheetService - 表格导入导出
+ * 将当前文件的条目按列映射导出为 CSV / TSV，并在重新导入时逐行比较差异，
+ * 合并时只修改映射中出现的列
+ *
+ * 列映射每行一项：`表头 = 来源`，来源可以是
+ * id、name、description、param.<基础属性键>、custom.<名称>、custom.<名称>.symbol、
+ * custom.<名称>.float、meta.<标签名>
+ */
+
+import { BASE_ATTRIBUTES } from '../utils/baseAttributes';
+import { getCustomParams } from '../utils/customParams';
+import { extractMetaData, parseValue, removeMetaTag, updateMetaTag } from '../utils/metaDataExtractor';
+
+// ============ 类型定义 ============
+
+export type SpreadsheetFormat = 'csv' | 'tsv';
+
+export type CustomParamPart = 'value' | 'symbol' | 'floatValue';
+
+export type SpreadsheetSource =
+  | { kind: 'id' }
+  | { kind: 'name' }
+  | { kind: 'description' }
+  | { kind: 'param'; key: string; index: number }
+  | { kind: 'customParam'; name: string; part: CustomParamPart }
+  | { kind: 'metaTag'; name: string };
+
+export interface SpreadsheetColumn {
+  header: string;
+  source: SpreadsheetSource;
+}
+
+export interface ColumnMappingResult {
+  columns: SpreadsheetColumn[];
+  errors: string[];
+}
+
+/** 单元格变化 */
+export interface SpreadsheetCellChange {
+  column: SpreadsheetColumn;
+  oldValue: string;
+  newValue: string;
+}
+
+/** 一行导入数据与现有条目的差异 */
+export interface SpreadsheetRowDiff {
+  /** 表格中的行号（含表头，从 1 开始） */
+  rowNumber: number;
+  /** 条目在数据数组中的下标 */
+  index: number;
+  name: string;
+  changes: SpreadsheetCellChange[];
+  errors: string[];
+}
+
+export interface SpreadsheetImportPlan {
+  rows: SpreadsheetRowDiff[];
+  /** 表头中未映射的列，导入时忽略 */
+  ignoredHeaders: string[];
+  /** 无法匹配到条目的行 */
+  unmatchedRows: number[];
+  /** 表头中没有映射到 id 的列，无法匹配条目 */
+  missingIdColumn: boolean;
+}
+
+// ============ 常量 ============
+
+const CUSTOM_PART_SUFFIX: Record<CustomParamPart, string> = {
+  value: '',
+  symbol: '.symbol',
+  floatValue: '.float',
+};
+
+const UTF8_BOM = '﻿';
+
+// ============ 列映射 ============
+
+/**
+ * 解析来源描述，例如 param.atk、custom.暴击.float、meta.Tier
+ */
+export function parseSourceSpec(spec: string): SpreadsheetSource | null {
+  const text = spec.trim();
+  if (text === 'id' || text === 'name' || text === 'description') {
+    return { kind: text };
+  }
+
+  const dot = text.indexOf('.');
+  if (dot <= 0) return null;
+  const prefix = text.slice(0, dot);
+  const rest = text.slice(dot + 1);
+  if (!rest) return null;
+
+  switch (prefix) {
+    case 'param': {
+      const attr = BASE_ATTRIBUTES.find((item) => item.key === rest);
+      return attr ? { kind: 'param', key: attr.key, index: attr.index } : null;
+    }
+    case 'custom': {
+      if (rest.endsWith(CUSTOM_PART_SUFFIX.symbol)) {
+        return { kind: 'customParam', name: rest.slice(0, -CUSTOM_PART_SUFFIX.symbol.length), part: 'symbol' };
+      }
+      if (rest.endsWith(CUSTOM_PART_SUFFIX.floatValue)) {
+        return { kind: 'customParam', name: rest.slice(0, -CUSTOM_PART_SUFFIX.floatValue.length), part: 'floatValue' };
+      }
+      return { kind: 'customParam', name: rest, part: 'value' };
+    }
+    case 'meta':
+      return { kind: 'metaTag', name: rest };
+    default:
+      return null;
+  }
+}
+
+export function formatSourceSpec(source: SpreadsheetSource): string {
+  switch (source.kind) {
+    case 'param':
+      return `param.${source.key}`;
+    case 'customParam':
+      return `custom.${source.name}${CUSTOM_PART_SUFFIX[source.part]}`;
+    case 'metaTag':
+      return `meta.${source.name}`;
+    default:
+      return source.kind;
+  }
+}
+
+/**
+ * 解析列映射文本；空行与 # 开头的行会被忽略，只写来源时表头与来源相同
+ */
+export function parseColumnMapping(text: string): ColumnMappingResult {
+  const columns: SpreadsheetColumn[] = [];
+  const errors: string[] = [];
+  const headers = new Set<string>();
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const separator = line.lastIndexOf('=');
+    const header = (separator >= 0 ? line.slice(0, separator) : line).trim();
+    const spec = (separator >= 0 ? line.slice(separator + 1) : line).trim();
+    const source = parseSourceSpec(spec);
+    if (!header || !source) {
+      errors.push(`第 ${i + 1} 行无法识别: ${line}`);
+      continue;
+    }
+    if (headers.has(header)) {
+      errors.push(`第 ${i + 1} 行表头重复: ${header}`);
+      continue;
+    }
+    headers.add(header);
+    columns.push({ header, source });
+  }
+  return { columns, errors };
+}
+
+export function formatColumnMapping(columns: readonly SpreadsheetColumn[]): string {
+  return columns.map((column) => `${column.header} = ${formatSourceSpec(column.source)}`).join('\n');
+}
+
+function asRecord(entry: unknown): Record<string, unknown> | null {
+  return entry && typeof entry === 'object' ? entry as Record<string, unknown> : null;
+}
+
+/**
+ * params 是否为基础属性数组；职业的 params 是 8×100 的等级曲线，不能按列读写
+ */
+function hasFlatParams(item: Record<string, unknown>): item is Record<string, unknown> & { params: number[] } {
+  return Array.isArray(item.params) && item.params.every((value) => typeof value === 'number');
+}
+
+/**
+ * 按数据内容生成默认列映射
+ */
+export function buildDefaultColumns(data: readonly unknown[]): SpreadsheetColumn[] {
+  let hasParams = false;
+  let hasDescription = false;
+  const customNames = new Set<string>();
+  const tagNames = new Set<string>();
+  for (let i = 0; i < data.length; i++) {
+    const item = asRecord(data[i]);
+    if (!item) continue;
+    if (hasFlatParams(item)) hasParams = true;
+    if ('description' in item) hasDescription = true;
+    getCustomParams(item).forEach((param) => customNames.add(param.name));
+    if (typeof item.note === 'string') {
+      Object.keys(extractMetaData(item.note)).forEach((name) => tagNames.add(name));
+    }
+  }
+
+  const columns: SpreadsheetColumn[] = [
+    { header: 'ID', source: { kind: 'id' } },
+    { header: '名称', source: { kind: 'name' } },
+  ];
+  if (hasParams) {
+    for (let i = 0; i < BASE_ATTRIBUTES.length; i++) {
+      const attr = BASE_ATTRIBUTES[i];
+      columns.push({ header: attr.label, source: { kind: 'param', key: attr.key, index: attr.index } });
+    }
+  }
+  customNames.forEach((name) => {
+    columns.push({ header: name, source: { kind: 'customParam', name, part: 'value' } });
+  });
+  [...tagNames].sort().forEach((name) => {
+    columns.push({ header: `<${name}>`, source: { kind: 'metaTag', name } });
+  });
+  if (hasDescription) {
+    columns.push({ header: '说明', source: { kind: 'description' } });
+  }
+  return columns;
+}
+
+// ============ 单元格读写 ============
+
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * 读取条目在某一列的文本
+ */
+export function readSpreadsheetCell(item: Record<string, unknown>, source: SpreadsheetSource): string {
+  switch (source.kind) {
+    case 'id':
+    case 'name':
+      return stringifyValue(item[source.kind]);
+    case 'description':
+      return Array.isArray(item.description) ? item.description.join('\n') : stringifyValue(item.description);
+    case 'param':
+      return hasFlatParams(item) ? stringifyValue(item.params[source.index]) : '';
+    case 'customParam': {
+      const param = getCustomParams(item).find((entry) => entry.name === source.name);
+      return param ? stringifyValue(param[source.part]) : '';
+    }
+    case 'metaTag': {
+      if (typeof item.note !== 'string') return '';
+      const meta = extractMetaData(item.note);
+      // 开关标签 <Tag> 解析为 true
+      return source.name in meta ? stringifyValue(meta[source.name]) : '';
+    }
+  }
+}
+
+/**
+ * 按 collectBaseParams / collectCustomParams 的规则校验单元格：
+ * 基础属性与自定义属性值为整数，波动值为数字，留空视为 0
+ * @returns 错误信息，合法时返回 null
+ */
+export function validateSpreadsheetCell(column: SpreadsheetColumn, raw: string): string | null {
+  const text = raw.trim();
+  const source = column.source;
+  if (source.kind === 'param' || (source.kind === 'customParam' && source.part === 'value')) {
+    if (text !== '' && !/^-?\d+$/.test(text)) {
+      return source.kind === 'param'
+        ? `${BASE_ATTRIBUTES[source.index].label} 必须是整数`
+        : '自定义属性值必须是整数';
+    }
+  } else if (source.kind === 'customParam' && source.part === 'floatValue') {
+    if (text !== '' && Number.isNaN(Number(text))) {
+      return '自定义属性的波动值必须是数字';
+    }
+  }
+  return null;
+}
+
+/**
+ * 比较时使用的规范化文本：数值列留空等同于 0
+ */
+function normalizeCell(source: SpreadsheetSource, text: string): string {
+  const trimmed = source.kind === 'description' || source.kind === 'name' ? text : text.trim();
+  if (source.kind === 'param' || (source.kind === 'customParam' && source.part !== 'symbol')) {
+    return String(trimmed === '' ? 0 : Number(trimmed));
+  }
+  return trimmed;
+}
+
+/**
+ * 将单元格写回条目，调用前需通过 validateSpreadsheetCell 校验
+ */
+export function writeSpreadsheetCell(item: Record<string, unknown>, source: SpreadsheetSource, raw: string): void {
+  const text = raw.trim();
+  switch (source.kind) {
+    case 'id':
+      return;
+    case 'name':
+      item.name = raw;
+      return;
+    case 'description':
+      // 与备注面板一致：数组格式按行保存并去掉空行
+      item.description = typeof item.description === 'string'
+        ? raw
+        : raw.split('\n').filter((line) => line.trim() !== '');
+      return;
+    case 'param': {
+      // 没有基础属性数组的条目不补建 params，等级曲线也不会被单个数值覆盖
+      if (!hasFlatParams(item)) return;
+      item.params[source.index] = text === '' ? 0 : parseInt(text, 10);
+      return;
+    }
+    case 'customParam': {
+      if (!item.customParams || typeof item.customParams !== 'object') {
+        // 旧格式 customAttributes 转为 customParams，与属性面板保存时一致
+        const customParams: Record<string, { value: number; symbol: string; floatValue: number }> = {};
+        getCustomParams(item).forEach((param) => {
+          customParams[param.name] = { value: param.value, symbol: param.symbol, floatValue: param.floatValue };
+        });
+        item.customParams = customParams;
+      }
+      const customParams = item.customParams as Record<string, { value?: number; symbol?: string; floatValue?: number }>;
+      const param = { value: 0, symbol: '', floatValue: 0, ...customParams[source.name] };
+      if (source.part === 'symbol') {
+        param.symbol = text;
+      } else if (source.part === 'floatValue') {
+        param.floatValue = text === '' ? 0 : parseFloat(text);
+      } else {
+        param.value = text === '' ? 0 : parseInt(text, 10);
+      }
+      customParams[source.name] = param;
+      return;
+    }
+    case 'metaTag': {
+      const note = typeof item.note === 'string' ? item.note : '';
+      item.note = text === '' ? removeMetaTag(note, source.name) : updateMetaTag(note, source.name, parseValue(text));
+      return;
+    }
+  }
+}
+
+// ============ CSV / TSV ============
+
+function getDelimiter(format: SpreadsheetFormat): string {
+  return format === 'tsv' ? '\t' : ',';
+}
+
+/**
+ * 按扩展名或首行内容判断格式
+ */
+export function detectSpreadsheetFormat(fileName: string, text: string): SpreadsheetFormat {
+  if (/\.tsv$|\.tab$/i.test(fileName)) return 'tsv';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  return firstLine.includes('\t') ? 'tsv' : 'csv';
+}
+
+function quoteCell(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+export function formatDelimited(rows: readonly (readonly string[])[], format: SpreadsheetFormat): string {
+  const delimiter = getDelimiter(format);
+  return rows.map((row) => row.map((cell) => quoteCell(cell, delimiter)).join(delimiter)).join('\r\n');
+}
+
+/**
+ * 解析 CSV / TSV 文本，支持带引号的单元格（内含分隔符、换行与转义引号）
+ */
+export function parseDelimited(text: string, format: SpreadsheetFormat): string[][] {
+  const delimiter = getDelimiter(format);
+  const source = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // 忽略空行
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * 导出条目为 CSV / TSV 文本；CSV 带 BOM，便于表格软件识别 UTF-8
+ */
+export function exportSpreadsheet(data: readonly unknown[], columns: readonly SpreadsheetColumn[], format: SpreadsheetFormat): string {
+  const rows: string[][] = [columns.map((column) => column.header)];
+  for (let i = 0; i < data.length; i++) {
+    const item = asRecord(data[i]);
+    if (!item) continue;
+    rows.push(columns.map((column) => readSpreadsheetCell(item, column.source)));
+  }
+  const content = formatDelimited(rows, format);
+  return format === 'csv' ? UTF8_BOM + content : content;
+}
+
+// ============ 导入 ============
+
+/**
+ * 比较表格与现有条目，生成逐行差异；按 id 列匹配条目
+ */
+export function planSpreadsheetImport(
+  data: readonly unknown[],
+  table: readonly (readonly string[])[],
+  mapping: readonly SpreadsheetColumn[]
+): SpreadsheetImportPlan {
+  const plan: SpreadsheetImportPlan = { rows: [], ignoredHeaders: [], unmatchedRows: [], missingIdColumn: false };
+  if (table.length === 0) return plan;
+
+  const headers = table[0].map((header) => header.trim());
+  const columnAt: Array<SpreadsheetColumn | null> = headers.map((header) => {
+    const mapped = mapping.find((column) => column.header === header);
+    if (mapped) return mapped;
+    if (header) plan.ignoredHeaders.push(header);
+    return null;
+  });
+  const idColumn = columnAt.findIndex((column) => column?.source.kind === 'id');
+  if (idColumn < 0) {
+    plan.missingIdColumn = true;
+    return plan;
+  }
+
+  for (let r = 1; r < table.length; r++) {
+    const cells = table[r];
+    const idText = (cells[idColumn] ?? '').trim();
+    const id = Number(idText);
+    const index = idText === '' ? -1 : data.findIndex((entry) => asRecord(entry)?.id === id);
+    const item = index >= 0 ? asRecord(data[index]) : null;
+    if (!item) {
+      plan.unmatchedRows.push(r + 1);
+      continue;
+    }
+
+    const diff: SpreadsheetRowDiff = { rowNumber: r + 1, index, name: stringifyValue(item.name), changes: [], errors: [] };
+    for (let c = 0; c < columnAt.length; c++) {
+      const column = columnAt[c];
+      if (!column || column.source.kind === 'id') continue;
+      const raw = cells[c] ?? '';
+      if (column.source.kind === 'param' && !hasFlatParams(item)) {
+        if (raw.trim() !== '') diff.errors.push(`${column.header}: 该条目没有基础属性数组（例如职业的等级曲线），不能导入`);
+        continue;
+      }
+      const error = validateSpreadsheetCell(column, raw);
+      if (error) {
+        diff.errors.push(`${column.header}: ${error}`);
+        continue;
+      }
+      const oldValue = readSpreadsheetCell(item, column.source);
+      if (normalizeCell(column.source, oldValue) !== normalizeCell(column.source, raw)) {
+        diff.changes.push({ column, oldValue, newValue: raw });
+      }
+    }
+    if (diff.changes.length > 0 || diff.errors.length > 0) {
+      plan.rows.push(diff);
+    }
+  }
+  return plan;
+}
+
+/**
+ * 将选中行的差异写回数据；有校验错误的行会被跳过
+ * @returns 发生变化的条目下标
+ */
+export function applySpreadsheetImport(data: unknown[], rows: readonly SpreadsheetRowDiff[]): number[] {
+  const changed: number[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const item = asRecord(data[row.index]);
+    if (!item || row.errors.length > 0 || row.changes.length === 0) continue;
+    for (let c = 0; c < row.changes.length; c++) {
+      writeSpreadsheetCell(item, row.changes[c].column.source, row.changes[c].newValue);
+    }
+    changed.push(row.index);
+  }
+  return changed;
+}
@@ -2,6 +2,10 @@ import * as PIXI from 'pixi.js';
 import { StateManager } from '../core/StateManager';
 import { ipc } from './ipc';
 import { logger } from './logger';
+import { getIconFrame } from '../utils/messageCodes';
+
+/** IconSet.png 每行的图标数 */
+const ICONS_PER_ROW = 16;
 
 export class TextureManager {
     private static instance: TextureManager;
@@ -46,8 +50,7 @@ export class TextureManager {
         const fullPath = `${imagePath}/sv_enemies/${battlerName}.png`.replace(/\//g, '\\'); // Ensure correct separators for fs
 
         try {
-            const base64Data = await ipc.file.readImage(fullPath);
-            return this.loadTextureFromData(base64Data, battlerName);
+            return await this.loadTextureFromData(battlerName, () => ipc.file.readImage(fullPath));
         } catch (error) {
             logger.error(`Failed to load enemy texture: ${battlerName}`, { error }, 'TextureManager');
             return PIXI.Texture.EMPTY;
@@ -106,7 +109,66 @@ export class TextureManager {
         }
     }
 
-    private async loadTextureFromData(base64Data: string, key: string): Promise<PIXI.Texture> {
+    /**
+     * Load a system image (full image)
+     * Path pattern: {imagePath}/system/{fileName}.png, e.g. Window / IconSet
+     */
+    public async loadSystemTexture(fileName: string): Promise<PIXI.Texture> {
+        if (!fileName) return PIXI.Texture.EMPTY;
+
+        const config = StateManager.getState().config;
+        if (!config.imagePath) {
+            logger.warn('Image path not configured', undefined, 'TextureManager');
+            return PIXI.Texture.EMPTY;
+        }
+
+        const fullPath = `${config.imagePath}/system/${fileName}.png`.replace(/\//g, '\\');
+
+        try {
+            // The key includes the image path so another project's images are never reused
+            return await this.loadTextureFromData(`system:${config.imagePath}:${fileName}`, () => ipc.file.readImage(fullPath));
+        } catch (error) {
+            logger.error(`Failed to load system texture: ${fileName}`, { error }, 'TextureManager');
+            return PIXI.Texture.EMPTY;
+        }
+    }
+
+    /**
+     * Load an icon texture cropped from IconSet.png (16 icons per row)
+     */
+    public async loadIconTexture(iconIndex: number): Promise<PIXI.Texture> {
+        if (iconIndex <= 0) return PIXI.Texture.EMPTY;
+
+        const cacheKey = `icon:${StateManager.getState().config.imagePath}:${iconIndex}`;
+        if (this.textureCache.has(cacheKey)) {
+            return this.textureCache.get(cacheKey)!;
+        }
+
+        const iconSet = await this.loadSystemTexture('IconSet');
+        const baseTexture = iconSet.baseTexture;
+        if (iconSet === PIXI.Texture.EMPTY || !baseTexture.valid) return PIXI.Texture.EMPTY;
+
+        const frame = getIconFrame(iconIndex, baseTexture.width / ICONS_PER_ROW);
+        if (frame.y + frame.height > baseTexture.height) return PIXI.Texture.EMPTY;
+
+        const texture = new PIXI.Texture(baseTexture, new PIXI.Rectangle(frame.x, frame.y, frame.width, frame.height));
+        this.textureCache.set(cacheKey, texture);
+        return texture;
+    }
+
+    /**
+     * Get the image behind a texture, for drawing onto a 2D canvas outside of PIXI
+     */
+    public getTextureSource(texture: PIXI.Texture): CanvasImageSource | null {
+        if (texture === PIXI.Texture.EMPTY) return null;
+        const resource = texture.baseTexture.resource as PIXI.BaseImageResource | null;
+        return (resource?.source as CanvasImageSource | undefined) ?? null;
+    }
+
+    /**
+     * Load a texture once per key; the image data is only read when the key is neither cached nor loading
+     */
+    private async loadTextureFromData(key: string, readData: () => Promise<string>): Promise<PIXI.Texture> {
         if (this.textureCache.has(key)) {
             return this.textureCache.get(key)!;
         }
@@ -117,7 +179,7 @@ export class TextureManager {
 
         const promise = (async () => {
             try {
-                const texture = PIXI.Texture.from(base64Data);
+                const texture = PIXI.Texture.from(await readData());
 
                 // Wait for texture to be ready
                 if (!texture.baseTexture.valid) {
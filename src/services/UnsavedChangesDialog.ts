@@ -0,0 +1,96 @@
+import { DOM } from '../core/DOMManager';
+
+/** 未保存修改提示的选择结果 */
+export type UnsavedChangesChoice = 'save' | 'discard' | 'cancel';
+
+let resolvePending: ((value: UnsavedChangesChoice) => void) | null = null;
+let initialized = false;
+
+function closeDialog(result: UnsavedChangesChoice): void {
+  if (DOM.unsavedChangesDialog) {
+    DOM.unsavedChangesDialog.classList.add('hidden');
+  }
+  document.removeEventListener('keydown', handleKeydown);
+  if (resolvePending) {
+    const resolve = resolvePending;
+    resolvePending = null;
+    resolve(result);
+  }
+}
+
+function handleSave(): void {
+  closeDialog('save');
+}
+
+function handleDiscard(): void {
+  closeDialog('discard');
+}
+
+function handleCancel(): void {
+  closeDialog('cancel');
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    handleCancel();
+  }
+}
+
+function handleDialogClick(e: MouseEvent): void {
+  if (e.target === DOM.unsavedChangesDialog) {
+    handleCancel();
+  }
+}
+
+export function initUnsavedChangesDialog(): void {
+  if (initialized) return;
+  initialized = true;
+
+  if (DOM.unsavedChangesSave) {
+    DOM.unsavedChangesSave.addEventListener('click', handleSave);
+  }
+  if (DOM.unsavedChangesDiscard) {
+    DOM.unsavedChangesDiscard.addEventListener('click', handleDiscard);
+  }
+  if (DOM.unsavedChangesCancel) {
+    DOM.unsavedChangesCancel.addEventListener('click', handleCancel);
+  }
+  if (DOM.unsavedChangesDialog) {
+    DOM.unsavedChangesDialog.addEventListener('click', handleDialogClick);
+  }
+}
+
+export function showUnsavedChangesDialog(message: string): Promise<UnsavedChangesChoice> {
+  initUnsavedChangesDialog();
+
+  // 已有未决的提示时视为取消
+  if (resolvePending) {
+    closeDialog('cancel');
+  }
+
+  if (!DOM.unsavedChangesDialog) {
+    return Promise.resolve(window.confirm(`${message}\n\n确定放弃这些修改吗？`) ? 'discard' : 'cancel');
+  }
+
+  if (DOM.unsavedChangesMessage) {
+    DOM.unsavedChangesMessage.textContent = message;
+  }
+  DOM.unsavedChangesDialog.classList.remove('hidden');
+  document.addEventListener('keydown', handleKeydown);
+  DOM.unsavedChangesSave?.focus();
+
+  return new Promise((resolve) => {
+    resolvePending = resolve;
+  });
+}
+
+export function hideUnsavedChangesDialog(): void {
+  closeDialog('cancel');
+}
+
+export default {
+  init: initUnsavedChangesDialog,
+  show: showUnsavedChangesDialog,
+  hide: hideUnsavedChangesDialog,
+};
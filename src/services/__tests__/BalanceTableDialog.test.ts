@@ -0,0 +1,78 @@
+/**
+ * BalanceTableDialog 测试
+ * 验证对比表的列生成、派生列、排序筛选与单元格写回
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyBalanceEdit,
+  buildBalanceColumns,
+  buildBalanceRows,
+  collectMetaTagNames,
+  filterBalanceRows,
+  sortBalanceRows,
+} from '../BalanceTableDialog';
+
+function createWeapons(): unknown[] {
+  return [
+    null,
+    { id: 1, name: 'Sword', price: 500, params: [0, 0, 10, 0, 0, 0, 0, 0], note: '<Tier:1>', customParams: { 暴击: { value: 5 } } },
+    { id: 2, name: 'Axe', price: 1000, params: [0, 0, 25, 0, 0, 0, -5, 0], note: '<Tier:2><Heavy>' },
+    { id: 3, name: 'Staff', price: 0, params: [0, 10, 2, 0, 15, 0, 0, 0], note: '' },
+  ];
+}
+
+describe('BalanceTableDialog', () => {
+  it('should build columns from the data and compute derived values', () => {
+    const data = createWeapons();
+    expect(collectMetaTagNames(data)).toEqual(['Heavy', 'Tier']);
+
+    const columns = buildBalanceColumns(data, ['Tier']);
+    const labels = columns.map((column) => column.label);
+    expect(labels).toContain('攻击力');
+    expect(labels).toContain('暴击');
+    expect(labels).toContain('<Tier>');
+    expect(labels.slice(-2)).toEqual(['能力总和', '攻击/价格']);
+
+    const rows = buildBalanceRows(data, columns);
+    const total = labels.indexOf('能力总和');
+    const atkPerPrice = labels.indexOf('攻击/价格');
+    expect(rows.map((row) => row.index)).toEqual([1, 2, 3]);
+    expect(rows.map((row) => row.cells[total])).toEqual([10, 20, 27]);
+    expect(rows.map((row) => row.cells[atkPerPrice])).toEqual([0.02, 0.025, null]);
+    expect(rows[0].cells[labels.indexOf('<Tier>')]).toBe(1);
+    expect(rows[1].cells[labels.indexOf('暴击')]).toBeNull();
+  });
+
+  it('should sort and filter rows', () => {
+    const data = createWeapons();
+    const columns = buildBalanceColumns(data, []);
+    const rows = buildBalanceRows(data, columns);
+    const atk = columns.findIndex((column) => column.label === '攻击力');
+    const name = columns.findIndex((column) => column.label === '名称');
+
+    expect(sortBalanceRows(rows, atk, -1).map((row) => row.index)).toEqual([2, 1, 3]);
+    const filters = columns.map(() => '');
+    filters[atk] = '>=10';
+    expect(filterBalanceRows(rows, filters).map((row) => row.index)).toEqual([1, 2]);
+    filters[atk] = '5..12';
+    filters[name] = 'sw';
+    expect(filterBalanceRows(rows, filters).map((row) => row.index)).toEqual([1]);
+  });
+
+  it('should write edits back to the entry', () => {
+    const data = createWeapons();
+    const columns = buildBalanceColumns(data, ['Tier']);
+    const column = (label: string) => columns.find((item) => item.label === label)!;
+    const axe = data[2] as Record<string, unknown>;
+
+    expect(applyBalanceEdit(axe, column('攻击力'), '30')).toBeNull();
+    expect((axe.params as number[])[2]).toBe(30);
+    expect(applyBalanceEdit(axe, column('攻击力'), '1.5')).toBe('攻击力 必须是整数');
+    expect(applyBalanceEdit(axe, column('暴击'), '2.5')).toBeNull();
+    expect(axe.customParams).toEqual({ 暴击: { symbol: '', floatValue: 0, value: 2.5 } });
+    expect(applyBalanceEdit(axe, column('<Tier>'), '3')).toBeNull();
+    expect(axe.note).toBe('<Tier:3><Heavy>');
+    expect(applyBalanceEdit(axe, column('能力总和'), '1')).toBe('能力总和 不可编辑');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * BulkEditDialog 测试
+ * 验证批量编辑的校验与应用
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyBulkEdit, validateBulkEdit } from '../BulkEditDialog';
+
+function createItems(): Array<Record<string, unknown> | null> {
+  return [
+    null,
+    { id: 1, name: 'Potion', price: 50, params: [100, 0, 10, 10, 0, 0, 5, 5], note: '<Rare>' },
+    { id: 2, name: 'Ether', price: 80, note: '' },
+    { id: 3, name: 'Elixir', price: 500, params: [200, 50, 20, 20, 0, 0, 5, 5], customParams: { crit: { value: 2, symbol: '%', floatValue: 0 } } },
+  ];
+}
+
+describe('BulkEditDialog', () => {
+  it('should apply numeric edits to base params, custom params and fields', () => {
+    const items = createItems();
+
+    expect(applyBulkEdit(items, [1, 2, 3], { target: 'param', key: '0', operation: 'multiply', value: '1.5' })).toEqual([1, 3]);
+    expect(items[1]!.params).toEqual([150, 0, 10, 10, 0, 0, 5, 5]);
+    expect(items[3]!.params).toEqual([300, 50, 20, 20, 0, 0, 5, 5]);
+
+    applyBulkEdit(items, [1, 3], { target: 'customParam', key: 'crit', operation: 'add', value: '3' });
+    expect(items[1]!.customParams).toEqual({ crit: { value: 3, symbol: '', floatValue: 0 } });
+    expect(items[3]!.customParams).toEqual({ crit: { value: 5, symbol: '%', floatValue: 0 } });
+
+    applyBulkEdit(items, [1, 2], { target: 'field', key: 'price', operation: 'set', value: '10' });
+    applyBulkEdit(items, [1, 2], { target: 'field', key: 'iconIndex', operation: 'set', value: 'abc' });
+    expect(items[2]).toMatchObject({ price: 10, iconIndex: 'abc' });
+  });
+
+  it('should set and remove note tags', () => {
+    const items = createItems();
+
+    applyBulkEdit(items, [1, 2], { target: 'noteTag', key: 'Element', operation: 'set', value: 'Fire' });
+    expect(items[1]!.note).toBe('<Rare>\n<Element:Fire>');
+    expect(items[2]!.note).toBe('<Element:Fire>');
+
+    applyBulkEdit(items, [1], { target: 'noteTag', key: 'Rare', operation: 'remove', value: '' });
+    expect(items[1]!.note).not.toContain('<Rare>');
+  });
+
+  it('should reject invalid edits', () => {
+    expect(validateBulkEdit({ target: 'field', key: 'id', operation: 'set', value: '1' })).not.toBeNull();
+    expect(validateBulkEdit({ target: 'param', key: '9', operation: 'set', value: '1' })).not.toBeNull();
+    expect(validateBulkEdit({ target: 'customParam', key: 'crit', operation: 'add', value: 'x' })).not.toBeNull();
+    expect(validateBulkEdit({ target: 'noteTag', key: 'Element', operation: 'multiply', value: '2' })).not.toBeNull();
+    expect(validateBulkEdit({ target: 'noteTag', key: 'Boss', operation: 'set', value: '' })).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * CustomAttributeRegistry 测试
+ * 验证注册表解析与校验、条目属性检查以及改名
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkCustomAttribute,
+  parseRegistry,
+  renameCustomParams,
+  serializeRegistry,
+  validateDefinitions,
+  type CustomAttributeDefinition,
+} from '../CustomAttributeRegistry';
+
+function createDefinitions(): CustomAttributeDefinition[] {
+  return [
+    { name: 'critRate', symbol: 'CRI', label: '暴击率', defaultValue: 5, min: 0, max: 100, entityTypes: ['actor', 'weapon'] },
+    { name: 'lifeSteal', symbol: 'LS', label: '吸血', defaultValue: 0, entityTypes: [] },
+  ];
+}
+
+describe('CustomAttributeRegistry', () => {
+  it('round-trips the registry file and skips invalid entries', () => {
+    const definitions = createDefinitions();
+    expect(parseRegistry(serializeRegistry(definitions))).toEqual(definitions);
+
+    const parsed = parseRegistry('{"attributes":[{"name":" speed ","min":"1"},{"symbol":"X"},null]}');
+    expect(parsed).toEqual([
+      { name: 'speed', symbol: '', label: '', defaultValue: 0, min: undefined, max: undefined, entityTypes: [] },
+    ]);
+  });
+
+  it('rejects duplicate names, inverted ranges and out-of-range defaults', () => {
+    const definitions = createDefinitions();
+    expect(validateDefinitions(definitions)).toEqual([]);
+
+    definitions.push({ name: 'critrate', symbol: '', label: '', defaultValue: 0, entityTypes: [] });
+    definitions.push({ name: 'armorPen', symbol: '', label: '', defaultValue: 50, min: 10, max: 5, entityTypes: [] });
+    expect(validateDefinitions(definitions)).toEqual([
+      '属性名 critrate 与 critRate 仅大小写或分隔符不同',
+      'armorPen: 最小值不能大于最大值',
+      'armorPen: 默认值超出取值范围',
+    ]);
+  });
+
+  it('flags unregistered, disallowed and out-of-range attributes', () => {
+    const definitions = createDefinitions();
+    expect(checkCustomAttribute(definitions, 'weapon', 'critRate', 20)).toBeNull();
+    expect(checkCustomAttribute(definitions, 'skill', 'lifeSteal', -5)).toBeNull();
+
+    const typo = checkCustomAttribute(definitions, 'weapon', 'crit_rate', 20);
+    expect(typo?.kind).toBe('unregistered');
+    expect(typo?.suggestion).toBe('critRate');
+    expect(checkCustomAttribute(definitions, 'armor', 'critRate', 20)?.kind).toBe('entityType');
+    expect(checkCustomAttribute(definitions, 'actor', 'critRate', 150)?.kind).toBe('range');
+  });
+
+  it('renames custom params in both storage formats', () => {
+    const data: unknown[] = [
+      null,
+      { id: 1, customParams: { critrate: { value: 5, symbol: '' }, lifeSteal: { value: 1 } } },
+      { id: 2, customAttributes: [{ name: 'critrate', value: 3 }] },
+      { id: 3, customParams: { critrate: { value: 1 }, critRate: { value: 2 } } },
+      { id: 4 },
+    ];
+    const { changed, conflicts } = renameCustomParams(data, new Map([['critrate', 'critRate']]));
+
+    expect(changed).toEqual([1, 2]);
+    expect(Object.keys((data[1] as { customParams: object }).customParams)).toEqual(['critRate', 'lifeSteal']);
+    expect((data[2] as { customAttributes: Array<{ name: string }> }).customAttributes[0].name).toBe('critRate');
+    // 目标名称已存在时保留原属性，避免覆盖
+    expect(Object.keys((data[3] as { customParams: object }).customParams)).toEqual(['critrate', 'critRate']);
+    expect(conflicts).toEqual([{ index: 3, itemName: '#3', from: 'critrate', to: 'critRate' }]);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * IconSheetService 测试
+ * 验证图标集尺寸的推算与图标的 CSS 精灵定位
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const image = document.createElement('img');
+image.src = 'data:image/png;base64,AAAA';
+
+vi.mock('../TextureManager', () => ({
+  textureManager: {
+    loadSystemTexture: vi.fn(async () => ({ baseTexture: { width: 512, height: 96 } })),
+    getTextureSource: vi.fn(() => image),
+  },
+}));
+
+import { IconSheetService } from '../IconSheetService';
+import { StateManager } from '../../core/StateManager';
+import { textureManager } from '../TextureManager';
+
+describe('IconSheetService', () => {
+  beforeEach(() => {
+    StateManager.getState().config.imagePath = 'C:/game/img';
+  });
+
+  it('按 16 列推算图标尺寸与数量，同一目录只加载一次', async () => {
+    const sheet = await IconSheetService.load();
+    expect(sheet).toMatchObject({ url: image.src, iconSize: 32, columns: 16, rows: 3, count: 48 });
+    await IconSheetService.load();
+    expect(textureManager.loadSystemTexture).toHaveBeenCalledTimes(1);
+    expect(IconSheetService.getSheet()).toBe(sheet);
+  });
+
+  it('按显示尺寸缩放精灵位置，超出范围或 0 时清除', async () => {
+    await IconSheetService.load();
+    const element = document.createElement('span');
+
+    expect(IconSheetService.applyIcon(element, 17, 16)).toBe(true);
+    expect(element.style.backgroundPosition).toBe('-16px -16px');
+    expect(element.style.backgroundSize).toBe('256px 48px');
+
+    expect(IconSheetService.applyIcon(element, 48, 16)).toBe(false);
+    expect(element.style.backgroundImage).toBe('');
+    expect(IconSheetService.applyIcon(element, 0, 16)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * IdRenumberService 测试
+ * 验证删除、移动时的编号映射与跨文件引用修正
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyReferenceChanges,
+  buildDeleteRemap,
+  buildMoveRemap,
+  detectDataKind,
+  planRenumber,
+} from '../IdRenumberService';
+
+function createItems(): unknown[] {
+  return [null, { id: 1, name: 'Potion' }, { id: 2, name: 'Ether' }, { id: 3, name: 'Elixir' }];
+}
+
+function createQuests(): unknown[] {
+  return [
+    null,
+    {
+      title: 'Gather',
+      requirements: [{ type: 0, questId: 2 }],
+      objectives: [{ type: 1, itemId: 3 }, { type: 1, itemId: 2 }],
+      rewards: [{ type: 0, itemId: 1 }],
+    },
+    { title: 'Hunt', requirements: [], objectives: [{ type: 0, enemyId: 3 }], rewards: [] },
+  ];
+}
+
+describe('IdRenumberService', () => {
+  it('should build remaps for compacting, clearing and moving entries', () => {
+    expect(buildDeleteRemap(5, [2], true)).toEqual({ remap: new Map([[2, 0], [3, 2], [4, 3]]), length: 4 });
+    expect(buildDeleteRemap(5, [2], false)).toEqual({ remap: new Map([[2, 0]]), length: 5 });
+    expect(buildMoveRemap(5, [3, 4], 1)).toEqual(new Map([[3, 1], [4, 2], [1, 3], [2, 4]]));
+    expect(buildMoveRemap(5, [1], 3)).toEqual(new Map([[2, 1], [1, 2]]));
+    expect(buildMoveRemap(5, [2], 2).size).toBe(0);
+  });
+
+  it('should renumber entries and rewrite references in quest files', () => {
+    const items = createItems();
+    const quests = createQuests();
+    const { remap, length } = buildDeleteRemap(items.length, [2], true);
+
+    const plan = planRenumber(
+      { filePath: 'C:/project/data/Items.json', fileType: 'data', data: items },
+      detectDataKind('C:/project/data/Items.json', 'data'),
+      remap,
+      length,
+      [{ filePath: 'C:/project/data/Quests.json', fileType: 'quest', data: quests }]
+    );
+
+    expect(plan.data).toEqual([null, { id: 1, name: 'Potion' }, { id: 2, name: 'Elixir' }]);
+    expect(plan.idChanges).toEqual([{ oldId: 2, newId: 0, name: 'Ether' }, { oldId: 3, newId: 2, name: 'Elixir' }]);
+    expect(plan.referenceChanges.map((change) => [change.path, change.oldId, change.newId])).toEqual([
+      ['objectives[0].itemId', 3, 2],
+      ['objectives[1].itemId', 2, 0],
+    ]);
+    // 预览不修改原数据
+    expect((items[3] as { id: number }).id).toBe(3);
+
+    expect(applyReferenceChanges(plan.referenceChanges)).toEqual(['C:/project/data/Quests.json']);
+    const quest = quests[1] as { objectives: Array<{ itemId: number }>; requirements: Array<{ questId: number }> };
+    expect(quest.objectives.map((objective) => objective.itemId)).toEqual([2, 0]);
+    expect(quest.requirements[0].questId).toBe(2);
+  });
+
+  it('should follow RPG Maker references between data files', () => {
+    const enemies = [
+      null,
+      {
+        id: 1,
+        name: 'Slime',
+        actions: [{ skillId: 1 }, { skillId: 3 }],
+        dropItems: [{ kind: 1, dataId: 3 }, { kind: 2, dataId: 3 }],
+        traits: [{ code: 43, dataId: 3 }, { code: 11, dataId: 3 }, { code: 44, dataId: 2 }],
+      },
+    ];
+    const skills = [null, { id: 1, name: 'Attack' }, { id: 2, name: 'Guard' }, { id: 3, name: 'Fire' }];
+
+    const plan = planRenumber(
+      { filePath: 'C:/project/data/Skills.json', fileType: 'data', data: skills },
+      'skill',
+      buildMoveRemap(skills.length, [3], 1),
+      skills.length,
+      [{ filePath: 'C:/project/data/Enemies.json', fileType: 'data', data: enemies }]
+    );
+
+    expect(plan.referenceChanges.map((change) => change.path)).toEqual([
+      'traits[0].dataId',
+      'traits[2].dataId',
+      'actions[0].skillId',
+      'actions[1].skillId',
+    ]);
+    expect(plan.referenceChanges.map((change) => change.newId)).toEqual([1, 3, 2, 1]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * NoteTagDictionary 测试
+ * 验证插件 @help 中标签写法的提取、值形式推断与备注标签检查
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildNoteTagDictionary,
+  checkNoteTag,
+  parsePluginNoteTags,
+  resolveProjectRoot,
+  searchNoteTagNames,
+} from '../NoteTagDictionary';
+import { parseMetaTags } from '../../utils/metaDataExtractor';
+
+const PLUGIN_SOURCE = `/*:
+ * @target MZ
+ * @plugindesc Skill cooldowns
+ * @help
+ * Skill Notetags:
+ *
+ * <Cooldown: x>
+ * - Sets the cooldown to x turns.
+ *
+ * <Bypass Cooldown>
+ * <Cooldown Ignore>
+ * The skill ignores cooldowns.
+ *
+ * <Custom Cooldown>
+ *  code
+ * </Custom Cooldown>
+ * Runs JavaScript when the cooldown starts.
+ *
+ * <Cooldown Tags: a, b>
+ *
+ * @param Default
+ * @desc <NotATag>
+ */
+(() => {})();
+`;
+
+describe('NoteTagDictionary', () => {
+  it('extracts documented tags with shapes and descriptions', () => {
+    const definitions = parsePluginNoteTags(PLUGIN_SOURCE, 'Cooldowns');
+    expect(definitions.map((definition) => [definition.name, definition.shape])).toEqual([
+      ['Cooldown', 'number'],
+      ['Bypass Cooldown', 'flag'],
+      ['Cooldown Ignore', 'flag'],
+      ['Custom Cooldown', 'block'],
+      ['Cooldown Tags', 'list'],
+    ]);
+    expect(definitions[0].description).toBe('- Sets the cooldown to x turns.');
+    expect(definitions[1].description).toBe('The skill ignores cooldowns.');
+    expect(definitions[3].description).toBe('Runs JavaScript when the cooldown starts.');
+    expect(definitions.every((definition) => definition.plugin === 'Cooldowns')).toBe(true);
+  });
+
+  it('flags unknown tags and mismatched value shapes', () => {
+    const dictionary = buildNoteTagDictionary(parsePluginNoteTags(PLUGIN_SOURCE, 'Cooldowns'));
+    const tags = parseMetaTags('<Cooldown: 3><cooldown: +2><Cooldown><Custom Cooldown>\nx\n</Custom Cooldown><Unknown>');
+    const issues = tags.map((tag) => checkNoteTag(dictionary, tag)?.kind ?? null);
+    expect(issues).toEqual([null, null, 'shape', null, 'unknown']);
+    expect(searchNoteTagNames(dictionary, 'cool', 5)).toEqual(['Cooldown', 'Cooldown Ignore', 'Cooldown Tags', 'Bypass Cooldown', 'Custom Cooldown']);
+  });
+
+  it('resolves the project root from the data file or the opened project', () => {
+    expect(resolveProjectRoot('C:\\Game\\data\\Skills.json')).toBe('C:\\Game\\');
+    expect(resolveProjectRoot('/game/data/Skills.json', '/projects/demo')).toBe('/projects/demo/');
+    expect(resolveProjectRoot('/game/Skills.json')).toBe('/game/');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * NoteTagQueryService 测试
+ * 验证跨文件标签统计与重命名、表达式修改、删除的修改方案
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyNoteTagChanges, planNoteTagOperation, scanNoteTags, type NoteTagSourceFile } from '../NoteTagQueryService';
+
+function createFiles(): NoteTagSourceFile[] {
+  return [
+    {
+      filePath: 'data/Skills.json',
+      data: [
+        null,
+        { id: 1, name: 'Fire', note: '<Cooldown: 3>\n<Boss Only>\nflavor text' },
+        { id: 2, name: 'Ice', note: '<Cooldown: 5>' },
+        { id: 3, name: 'Heal', note: '' },
+      ],
+    },
+    {
+      filePath: 'data/Items.json',
+      data: [
+        null,
+        { id: 1, name: 'Potion', note: '<Cooldown: 3>\n<Effect>\nhp: 50\n</Effect>' },
+      ],
+    },
+  ];
+}
+
+describe('NoteTagQueryService', () => {
+  it('统计标签的使用次数、取值分布与条目', () => {
+    const summaries = scanNoteTags(createFiles());
+    expect(summaries.map((summary) => summary.name)).toEqual(['Cooldown', 'Boss Only', 'Effect']);
+
+    const cooldown = summaries[0];
+    expect(cooldown.count).toBe(3);
+    expect(cooldown.values).toEqual([
+      { value: '3', count: 2 },
+      { value: '5', count: 1 },
+    ]);
+    expect(cooldown.usages.map((usage) => `${usage.filePath}#${usage.index} ${usage.itemName}`)).toEqual([
+      'data/Skills.json#1 Fire',
+      'data/Skills.json#2 Ice',
+      'data/Items.json#1 Potion',
+    ]);
+    expect(summaries[2].values[0].value).toBe('hp: 50');
+  });
+
+  it('重命名标签并保留值与块内容', () => {
+    const files = createFiles();
+    const plan = planNoteTagOperation(files, { kind: 'rename', tag: 'Effect', newName: 'Use Effect' });
+    expect(plan.errors).toEqual([]);
+    expect(plan.changes).toHaveLength(1);
+    expect(plan.changes[0].note).toBe('<Cooldown: 3>\n<Use Effect>\nhp: 50\n</Use Effect>');
+
+    expect(applyNoteTagChanges(files, plan.changes)).toEqual(['data/Items.json']);
+    expect((files[1].data[1] as { note: string }).note).toBe(plan.changes[0].note);
+  });
+
+  it('按表达式修改值，出错的条目计入错误且不修改', () => {
+    const files = createFiles();
+    const plan = planNoteTagOperation(files, { kind: 'expression', tag: 'Cooldown', expression: 'value * 2' });
+    expect(plan.errors).toEqual([]);
+    expect(plan.changes.map((change) => change.to)).toEqual(['<Cooldown:6>', '<Cooldown:10>', '<Cooldown:6>']);
+    expect(plan.changes[0].note).toBe('<Cooldown:6>\n<Boss Only>\nflavor text');
+
+    const failing = planNoteTagOperation(files, {
+      kind: 'expression',
+      tag: 'Cooldown',
+      expression: "item.name === 'Ice' ? null : value + 1",
+    });
+    expect(failing.changes.map((change) => change.index)).toEqual([1, 1]);
+    expect(failing.errors).toEqual(['Skills.json #2: 结果为空']);
+
+    const invalid = planNoteTagOperation(files, { kind: 'expression', tag: 'Cooldown', expression: 'value +' });
+    expect(invalid.changes).toEqual([]);
+    expect(invalid.errors[0]).toContain('表达式语法错误');
+  });
+
+  it('删除独占一行的标签时连同换行一起删除', () => {
+    const files = createFiles();
+    const plan = planNoteTagOperation(files, { kind: 'remove', tag: 'Boss Only' });
+    expect(plan.changes).toHaveLength(1);
+    expect(plan.changes[0].note).toBe('<Cooldown: 3>\nflavor text');
+
+    const cooldown = planNoteTagOperation(files, { kind: 'remove', tag: 'Cooldown' });
+    expect(cooldown.changes.map((change) => change.note)).toEqual([
+      '<Boss Only>\nflavor text',
+      '',
+      '<Effect>\nhp: 50\n</Effect>',
+    ]);
+  });
+});
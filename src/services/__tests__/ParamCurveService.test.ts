@@ -0,0 +1,58 @@
+/**
+ * ParamCurveService 测试
+ * 验证曲线矩阵识别、按缓动函数生成曲线与职业间复制
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_LEVEL,
+  applyCurve,
+  copyCurves,
+  generateCurve,
+  isParamCurveMatrix,
+  setLevelValue,
+} from '../ParamCurveService';
+
+function createMatrix(value: number): number[][] {
+  return Array.from({ length: 8 }, () => new Array(MAX_LEVEL + 1).fill(value));
+}
+
+describe('ParamCurveService', () => {
+  it('should tell level matrices apart from flat params', () => {
+    expect(isParamCurveMatrix(createMatrix(10))).toBe(true);
+    expect(isParamCurveMatrix([100, 50, 10, 10, 10, 10, 10, 10])).toBe(false);
+    expect(isParamCurveMatrix(undefined)).toBe(false);
+  });
+
+  it('should generate eased curves within the level range and param limits', () => {
+    const linear = generateCurve(2, 10, 208, 'linear');
+    expect(linear).toHaveLength(MAX_LEVEL);
+    expect(linear[0]).toBe(10);
+    expect(linear[49]).toBe(109);
+    expect(linear[MAX_LEVEL - 1]).toBe(208);
+
+    const eased = generateCurve(2, 10, 208, 'easeInQuad');
+    expect(eased[49]).toBeLessThan(linear[49]);
+    // 超出范围的数值被限制在 1–999
+    expect(generateCurve(2, 0, 5000, 'linear', 1, 2)).toEqual([1, 999]);
+
+    const curve = new Array(MAX_LEVEL + 1).fill(5);
+    applyCurve(curve, 0, 100, 200, 'linear', 10, 20);
+    expect(curve[9]).toBe(5);
+    expect(curve[10]).toBe(100);
+    expect(curve[20]).toBe(200);
+    expect(curve[21]).toBe(5);
+    expect(setLevelValue(curve, 1, 30, -5)).toBe(0);
+  });
+
+  it('should copy curves between classes without sharing arrays', () => {
+    const source = createMatrix(50);
+    const target = createMatrix(1);
+    copyCurves(source, target, [2]);
+
+    expect(target[2][10]).toBe(50);
+    expect(target[3][10]).toBe(1);
+    target[2][10] = 99;
+    expect(source[2][10]).toBe(50);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * ScriptAuditService 测试
+ * 验证脚本引用的收集、孤立脚本与悬空引用的识别以及重新关联的候选
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StateManager } from '../../core/StateManager';
+import { buildScriptAudit, collectScriptReferences, filterUnreferencedOrphans, parseScriptFileName } from '../ScriptAuditService';
+
+const SCRIPT_DIR = 'C:/game/scripts';
+
+describe('ScriptAuditService', () => {
+  beforeEach(() => {
+    const { config } = StateManager.getState();
+    config.dataPath = 'C:/game/data';
+    config.scriptSavePath = SCRIPT_DIR;
+  });
+
+  it('解析新建脚本的文件名，脚本键可包含下划线', () => {
+    expect(parseScriptFileName('12_on_hit_1700000000000.js')).toEqual({ itemId: 12, scriptKey: 'on_hit', createdAt: 1700000000000 });
+    expect(parseScriptFileName('common.js')).toBeNull();
+  });
+
+  it('收集所有条目的脚本引用并解析为脚本目录中的路径', () => {
+    const references = collectScriptReferences([
+      { filePath: 'C:/game/data/Skills.json', data: [null, { id: 1, name: '火球', scripts: { onHit: '/scripts/1_onHit_1.js', empty: '' } }] },
+    ]);
+    expect(references).toHaveLength(1);
+    expect(references[0]).toMatchObject({ index: 1, itemId: 1, itemName: '火球', scriptKey: 'onHit', scriptPath: `${SCRIPT_DIR}/1_onHit_1.js` });
+  });
+
+  it('找出孤立脚本与悬空引用，并按条目 id 与脚本键推荐最新的孤立脚本', () => {
+    const references = collectScriptReferences([
+      {
+        filePath: 'C:/game/data/Skills.json',
+        data: [null, { id: 1, name: '火球', scripts: { onHit: '/scripts/1_onHit_1.js', onCast: '/scripts/1_onCast_5.js' } }],
+      },
+    ]);
+    const report = buildScriptAudit(SCRIPT_DIR, references, [
+      '1_onHit_1.js',
+      '1_onCast_10.js',
+      '1_onCast_20.js',
+      'common.js',
+      '.script-history',
+    ]);
+
+    expect(report.scriptCount).toBe(4);
+    expect(report.orphans.map((orphan) => orphan.fileName)).toEqual(['1_onCast_10.js', '1_onCast_20.js']);
+    expect(report.unmanaged).toEqual(['common.js']);
+    expect(report.dangling).toHaveLength(1);
+    expect(report.dangling[0].scriptKey).toBe('onCast');
+    expect(report.dangling[0].candidates.map((orphan) => orphan.fileName)).toEqual(['1_onCast_20.js', '1_onCast_10.js']);
+  });
+
+  it('不是新建脚本生成的 .js 文件只作提示，不作为孤立脚本', () => {
+    const report = buildScriptAudit(SCRIPT_DIR, [], ['rmmz_core.js', 'plugins.js', '3_onUse_1.js']);
+    expect(report.orphans.map((orphan) => orphan.fileName)).toEqual(['3_onUse_1.js']);
+    expect(report.unmanaged).toEqual(['plugins.js', 'rmmz_core.js']);
+  });
+
+  it('路径比较忽略大小写，脚本目录以外确认存在的文件不算悬空', () => {
+    const references = collectScriptReferences([
+      { filePath: 'C:/game/data/Items.json', data: [null, { id: 2, scripts: { a: '/scripts/2_A_1.js', b: 'D:/shared/b.js' } }] },
+    ]);
+    const report = buildScriptAudit(SCRIPT_DIR, references, ['2_a_1.JS'], new Set(['D:/shared/b.js']));
+    expect(report.orphans).toEqual([]);
+    expect(report.dangling).toEqual([]);
+  });
+
+  it('检查后被数据重新引用的孤立脚本不再归档或删除', () => {
+    const report = buildScriptAudit(SCRIPT_DIR, [], ['4_onUse_1.js', '4_onUse_2.js']);
+    const orphans = filterUnreferencedOrphans(report.orphans, [
+      { filePath: 'C:/game/data/Items.json', data: [null, null, null, null, { id: 4, scripts: { onUse: '/scripts/4_onUse_1.js' } }] },
+    ]);
+    expect(orphans.map((orphan) => orphan.fileName)).toEqual(['4_onUse_2.js']);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * ScriptHistoryService 测试
+ * 验证快照文件名、快照目录与旧快照清理
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatSnapshotFileName,
+  parseSnapshotFileName,
+  getScriptHistoryDirectory,
+  getPrunedSnapshots,
+} from '../ScriptHistoryService';
+import { buildTimestampLine, parseTimestampLine } from '../ScriptContentUtils';
+
+describe('ScriptHistoryService', () => {
+  it('快照文件名可还原保存时间，其他文件返回 null', () => {
+    const date = new Date(Date.UTC(2024, 4, 6, 7, 8, 9, 123));
+    const name = formatSnapshotFileName(date);
+    expect(name).toBe('2024-05-06T07-08-09-123Z.js');
+    expect(parseSnapshotFileName(name)).toBe(date.getTime());
+    expect(parseSnapshotFileName('notes.txt')).toBeNull();
+  });
+
+  it('按数据文件、条目与脚本键分组，并替换不能用于路径的字符', () => {
+    const directory = getScriptHistoryDirectory('D:/game/js/scripts', {
+      dataFile: 'Skills.json',
+      itemId: 12,
+      scriptKey: 'on:hit/extra',
+    });
+    expect(directory).toBe('D:/game/js/scripts/.script-history/Skills/12_on_hit_extra');
+  });
+
+  it('写入新快照前保留 limit - 1 个，删除其余最旧的快照', () => {
+    expect(getPrunedSnapshots([5, 4, 3, 2, 1], 3)).toEqual([3, 2, 1]);
+    expect(getPrunedSnapshots([2, 1], 3)).toEqual([]);
+  });
+
+  it('从保存时间行读取旧代码的保存时间', () => {
+    const date = new Date(2024, 0, 2, 3, 4, 5);
+    expect(parseTimestampLine(`${buildTimestampLine(date)}\ncode();`)?.getTime()).toBe(date.getTime());
+    expect(parseTimestampLine('code();')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * SpreadsheetService 测试
+ * 验证列映射解析、CSV / TSV 往返、导入差异校验与只合并映射列
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applySpreadsheetImport,
+  buildDefaultColumns,
+  exportSpreadsheet,
+  formatColumnMapping,
+  parseColumnMapping,
+  parseDelimited,
+  planSpreadsheetImport,
+  writeSpreadsheetCell,
+} from '../SpreadsheetService';
+
+function createArmors(): unknown[] {
+  return [
+    null,
+    {
+      id: 1,
+      name: 'Shield',
+      params: [0, 0, 0, 10, 0, 0, 0, 0],
+      customParams: { 格挡: { value: 5, symbol: '%', floatValue: 0 } },
+      note: '<Tier:1>',
+      description: 'Line 1\nLine 2',
+    },
+    { id: 2, name: 'Helm, "Iron"', params: [0, 0, 0, 4, 0, 0, 0, 0], note: '', description: '' },
+  ];
+}
+
+describe('SpreadsheetService', () => {
+  it('parses and formats column mappings', () => {
+    const result = parseColumnMapping('# 注释\nID = id\n攻击 = param.atk\n格挡波动 = custom.格挡.float\nmeta.Tier\n坏列 = param.foo\nID = name');
+    expect(result.columns.map((column) => column.header)).toEqual(['ID', '攻击', '格挡波动', 'meta.Tier']);
+    expect(result.columns[2].source).toEqual({ kind: 'customParam', name: '格挡', part: 'floatValue' });
+    expect(result.errors).toHaveLength(2);
+    expect(formatColumnMapping(result.columns)).toBe('ID = id\n攻击 = param.atk\n格挡波动 = custom.格挡.float\nmeta.Tier = meta.Tier');
+  });
+
+  it('round-trips exported CSV and TSV text', () => {
+    const data = createArmors();
+    const columns = buildDefaultColumns(data);
+    expect(columns.map((column) => column.header)).toContain('<Tier>');
+
+    const csv = exportSpreadsheet(data, columns, 'csv');
+    const table = parseDelimited(csv, 'csv');
+    expect(table).toHaveLength(3);
+    expect(table[2][1]).toBe('Helm, "Iron"');
+    expect(table[1][table[1].length - 1]).toBe('Line 1\nLine 2');
+
+    const tsv = parseDelimited(exportSpreadsheet(data, columns, 'tsv'), 'tsv');
+    expect(tsv).toEqual(table);
+    expect(planSpreadsheetImport(data, table, columns).rows).toEqual([]);
+  });
+
+  it('validates cells and merges only mapped columns', () => {
+    const data = createArmors();
+    const { columns } = parseColumnMapping('ID = id\n防御 = param.def\n格挡 = custom.格挡\n<Tier> = meta.Tier');
+    const table = parseDelimited('ID,防御,格挡,<Tier>,备注\n1,12,5,,ignored\n2,abc,1,2\n9,1,1,1', 'csv');
+
+    const plan = planSpreadsheetImport(data, table, columns);
+    expect(plan.ignoredHeaders).toEqual(['备注']);
+    expect(plan.unmatchedRows).toEqual([4]);
+    expect(plan.rows).toHaveLength(2);
+    expect(plan.rows[0].changes.map((change) => change.column.header)).toEqual(['防御', '<Tier>']);
+    expect(plan.rows[1].errors).toEqual(['防御: 防御力 必须是整数']);
+
+    const changed = applySpreadsheetImport(data, plan.rows);
+    expect(changed).toEqual([1]);
+    const shield = data[1] as Record<string, unknown>;
+    expect(shield.params).toEqual([0, 0, 0, 12, 0, 0, 0, 0]);
+    expect(shield.note).toBe('');
+    expect(shield.description).toBe('Line 1\nLine 2');
+    expect(shield.customParams).toEqual({ 格挡: { value: 5, symbol: '%', floatValue: 0 } });
+    expect((data[2] as Record<string, unknown>).customParams).toBeUndefined();
+  });
+
+  it('does not read or write params columns on class level curves or entries without params', () => {
+    const curve = Array.from({ length: 8 }, () => Array.from({ length: 100 }, (_, level) => level * 10));
+    const data: unknown[] = [null, { id: 1, name: 'Hero', params: curve }, { id: 2, name: 'Note' }];
+    const { columns } = parseColumnMapping('ID = id\n名称 = name\n攻击 = param.atk');
+    const table = parseDelimited('ID,名称,攻击\n1,Hero,\n2,Memo,\n1,Hero,50', 'csv');
+
+    const plan = planSpreadsheetImport(data, table, columns);
+    expect(plan.rows).toHaveLength(2);
+    expect(plan.rows[0].changes.map((change) => change.column.header)).toEqual(['名称']);
+    expect(plan.rows[0].index).toBe(2);
+    expect(plan.rows[1].errors).toHaveLength(1);
+
+    applySpreadsheetImport(data, plan.rows);
+    writeSpreadsheetCell(data[1] as Record<string, unknown>, columns[2].source, '50');
+    writeSpreadsheetCell(data[2] as Record<string, unknown>, columns[2].source, '50');
+    expect((data[1] as Record<string, unknown>).params).toBe(curve);
+    expect(curve[2][0]).toBe(0);
+    expect(data[2]).toEqual({ id: 2, name: 'Memo' });
+  });
+
+  it('requires an id column to match entries', () => {
+    const { columns } = parseColumnMapping('名称 = name');
+    const plan = planSpreadsheetImport(createArmors(), [['名称'], ['Shield']], columns);
+    expect(plan.missingIdColumn).toBe(true);
+    expect(plan.rows).toEqual([]);
+  });
+});
@@ -44,6 +44,10 @@ export type {
   ValidationError,
 } from './serialization';
 
+// Database schemas for the generic property form
+export { SchemaRegistry, DATABASE_SCHEMAS, TRAIT_TABLE, EFFECT_TABLE, getCodeTable, describeCodeEntry } from './schema';
+export type { DatabaseSchema, FieldGroup, FieldSchema, FieldType, ReferenceTarget, CodeEntry, CodeTable } from './schema';
+
 // Script Path Manager (Requirements: 1.1, 1.2, 1.3, 1.4, 1.5)
 export { ScriptPathManager, resetScriptPathManager } from './ScriptPathManager';
 export type { ScriptPathInfo, ParseResult } from './ScriptPathManager';
@@ -73,11 +77,15 @@ export type {
   ItemData,
   ArmorData,
   SystemData,
+  NamedEntry,
   ProjectileOffset,
   DataLoadState,
   DataLoadResult,
 } from './DataLoaderService';
 
+// File Watch Service (external change detection)
+export { FileWatchService } from './FileWatchService';
+
 // Script Cache Manager (Requirements: Cache management)
 export { default as ScriptCacheManager, getScriptCache, setScriptCache, removeScriptCache, clearScriptCache, scriptCacheSize, hasScriptCache, getScriptCacheEntry, getScriptCacheKeys, getScriptCacheStats } from './ScriptCacheManager';
 export type { ScriptCacheEntry } from './ScriptCacheManager';
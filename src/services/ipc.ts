@@ -44,6 +44,10 @@ async function invoke<K extends keyof IPCChannels>(
     'file:create-backup': 'create-backup',
     'file:list-directory': 'list-directory',
     'file:exists': 'file-exists',
+    'file:list-backups': 'list-backups',
+    'file:restore-backup': 'restore-backup',
+    'project:scan': 'scan-project',
+    'file:set-watched': 'set-watched-files',
     'config:load': 'read-config',
     'config:save': 'write-config',
     'window:minimize': 'minimize-window',
@@ -85,6 +89,14 @@ async function invoke<K extends keyof IPCChannels>(
       return window.electronAPI.listDirectory(args[0] as string) as Promise<IPCReturn<K>>;
     case 'file:exists':
       return window.electronAPI.fileExists(args[0] as string) as Promise<IPCReturn<K>>;
+    case 'file:list-backups':
+      return window.electronAPI.listBackups(args[0] as string) as Promise<IPCReturn<K>>;
+    case 'file:restore-backup':
+      return window.electronAPI.restoreBackup(args[0] as string, args[1] as string) as Promise<IPCReturn<K>>;
+    case 'project:scan':
+      return window.electronAPI.scanProject(args[0] as string) as Promise<IPCReturn<K>>;
+    case 'file:set-watched':
+      return window.electronAPI.setWatchedFiles(args[0] as string[]) as Promise<IPCReturn<K>>;
     case 'file:read-image':
       return (window.electronAPI as any).readImageData(args[0] as string) as Promise<IPCReturn<K>>;
     case 'config:load':
@@ -167,6 +179,13 @@ export const ipc = {
     listDirectory: (path: string) => invoke('file:list-directory', path),
     exists: (path: string) => invoke('file:exists', path),
     readImage: (path: string) => invoke('file:read-image', path),
+    listBackups: (path: string) => invoke('file:list-backups', path),
+    restoreBackup: (backupPath: string, path: string) => invoke('file:restore-backup', backupPath, path),
+    setWatched: (paths: string[]) => invoke('file:set-watched', paths),
+  },
+
+  project: {
+    scan: (rootPath: string) => invoke('project:scan', rootPath),
   },
 
   config: {
@@ -0,0 +1,339 @@
+/**
+ * RPG Maker MZ 数据库表单结构
+ * 基础能力值（params）、自定义属性由属性面板的专用区域编辑，说明与备注由备注面板编辑，这里不重复声明
+ */
+
+import type { DatabaseSchema, FieldOption, FieldSchema } from './types';
+
+// ============ 通用选项 ============
+
+const NONE_OPTION: FieldOption = { value: 0, label: '无' };
+
+const SCOPE_OPTIONS: FieldOption[] = [
+  { value: 0, label: '无' },
+  { value: 1, label: '敌方单体' },
+  { value: 2, label: '敌方全体' },
+  { value: 3, label: '敌方随机 1 体' },
+  { value: 4, label: '敌方随机 2 体' },
+  { value: 5, label: '敌方随机 3 体' },
+  { value: 6, label: '敌方随机 4 体' },
+  { value: 7, label: '我方单体' },
+  { value: 8, label: '我方全体' },
+  { value: 9, label: '我方单体（无法战斗）' },
+  { value: 10, label: '我方全体（无法战斗）' },
+  { value: 11, label: '使用者' },
+  { value: 12, label: '我方单体（无条件）' },
+  { value: 13, label: '我方全体（无条件）' },
+  { value: 14, label: '敌我全体' },
+];
+
+const OCCASION_OPTIONS: FieldOption[] = [
+  { value: 0, label: '随时' },
+  { value: 1, label: '战斗中' },
+  { value: 2, label: '菜单中' },
+  { value: 3, label: '不可使用' },
+];
+
+const HIT_TYPE_OPTIONS: FieldOption[] = [
+  { value: 0, label: '必定命中' },
+  { value: 1, label: '物理攻击' },
+  { value: 2, label: '魔法攻击' },
+];
+
+const DAMAGE_TYPE_OPTIONS: FieldOption[] = [
+  { value: 0, label: '无' },
+  { value: 1, label: 'HP 伤害' },
+  { value: 2, label: 'MP 伤害' },
+  { value: 3, label: 'HP 恢复' },
+  { value: 4, label: 'MP 恢复' },
+  { value: 5, label: 'HP 吸收' },
+  { value: 6, label: 'MP 吸收' },
+];
+
+// ============ 通用字段 ============
+
+function nameField(): FieldSchema {
+  return { key: 'name', label: '名称', type: 'string', defaultValue: '' };
+}
+
+function iconField(): FieldSchema {
+  return { key: 'iconIndex', label: '图标索引', type: 'integer', min: 0, defaultValue: 0, widget: 'icon' };
+}
+
+function priceField(): FieldSchema {
+  return { key: 'price', label: '价格', type: 'integer', min: 0, max: 999999, defaultValue: 0 };
+}
+
+/** 技能与物品共用的使用设置 */
+function usableFields(animationOptions: FieldOption[]): FieldSchema[] {
+  return [
+    { key: 'scope', label: '范围', type: 'enum', options: SCOPE_OPTIONS, defaultValue: 0 },
+    { key: 'occasion', label: '使用场合', type: 'enum', options: OCCASION_OPTIONS, defaultValue: 0 },
+    { key: 'speed', label: '速度补正', type: 'integer', min: -2000, max: 2000, defaultValue: 0 },
+    { key: 'successRate', label: '成功率 %', type: 'integer', min: 0, max: 100, defaultValue: 100 },
+    { key: 'repeats', label: '连续次数', type: 'integer', min: 1, max: 9, defaultValue: 1 },
+    { key: 'tpGain', label: '获得 TP', type: 'integer', min: 0, max: 100, defaultValue: 0 },
+    { key: 'hitType', label: '命中类型', type: 'enum', options: HIT_TYPE_OPTIONS, defaultValue: 0 },
+    { key: 'animationId', label: '动画', type: 'reference', reference: 'animation', options: animationOptions, defaultValue: 0 },
+  ];
+}
+
+function damageFields(): FieldSchema[] {
+  return [
+    { key: 'damage.type', label: '伤害类型', type: 'enum', options: DAMAGE_TYPE_OPTIONS, defaultValue: 0 },
+    {
+      key: 'damage.elementId',
+      label: '属性',
+      type: 'reference',
+      reference: 'elements',
+      options: [{ value: -1, label: '普通攻击' }, NONE_OPTION],
+      defaultValue: 0,
+    },
+    { key: 'damage.formula', label: '计算公式', type: 'string', defaultValue: '0', hint: '例如 a.atk * 4 - b.def * 2' },
+    { key: 'damage.variance', label: '分散度 %', type: 'integer', min: 0, max: 100, defaultValue: 20 },
+    { key: 'damage.critical', label: '会心一击', type: 'boolean', defaultValue: false },
+  ];
+}
+
+// ============ 数据库结构 ============
+
+const ACTOR_SCHEMA: DatabaseSchema = {
+  kind: 'actor',
+  label: '角色',
+  groups: [
+    {
+      label: '基本设置',
+      fields: [
+        nameField(),
+        { key: 'nickname', label: '昵称', type: 'string', defaultValue: '' },
+        { key: 'classId', label: '职业', type: 'reference', reference: 'class', defaultValue: 1 },
+        { key: 'initialLevel', label: '初始等级', type: 'integer', min: 1, max: 99, defaultValue: 1 },
+        { key: 'maxLevel', label: '最高等级', type: 'integer', min: 1, max: 99, defaultValue: 99 },
+        { key: 'profile', label: '简介', type: 'text', defaultValue: '' },
+      ],
+    },
+    {
+      label: '图像',
+      fields: [
+        { key: 'faceName', label: '脸图', type: 'string', defaultValue: '' },
+        { key: 'faceIndex', label: '脸图索引', type: 'integer', min: 0, max: 7, defaultValue: 0 },
+        { key: 'characterName', label: '行走图', type: 'string', defaultValue: '' },
+        { key: 'characterIndex', label: '行走图索引', type: 'integer', min: 0, max: 7, defaultValue: 0 },
+        { key: 'battlerName', label: '战斗图', type: 'string', defaultValue: '' },
+      ],
+    },
+  ],
+};
+
+const CLASS_SCHEMA: DatabaseSchema = {
+  kind: 'class',
+  label: '职业',
+  groups: [
+    {
+      label: '基本设置',
+      fields: [nameField()],
+    },
+  ],
+};
+
+const SKILL_SCHEMA: DatabaseSchema = {
+  kind: 'skill',
+  label: '技能',
+  groups: [
+    {
+      label: '基本设置',
+      fields: [
+        nameField(),
+        iconField(),
+        { key: 'stypeId', label: '技能类型', type: 'reference', reference: 'skillTypes', options: [NONE_OPTION], defaultValue: 0 },
+        { key: 'mpCost', label: '消耗 MP', type: 'integer', min: 0, max: 9999, defaultValue: 0 },
+        { key: 'tpCost', label: '消耗 TP', type: 'integer', min: 0, max: 100, defaultValue: 0 },
+        ...usableFields([{ value: -1, label: '普通攻击' }, NONE_OPTION]),
+      ],
+    },
+    {
+      label: '使用信息',
+      fields: [
+        { key: 'message1', label: '信息 1', type: 'string', defaultValue: '' },
+        { key: 'message2', label: '信息 2', type: 'string', defaultValue: '' },
+        { key: 'messageType', label: '信息类型', type: 'integer', min: 0, max: 3, defaultValue: 1 },
+      ],
+    },
+    {
+      label: '所需武器',
+      fields: [
+        { key: 'requiredWtypeId1', label: '武器类型 1', type: 'reference', reference: 'weaponTypes', options: [NONE_OPTION], defaultValue: 0 },
+        { key: 'requiredWtypeId2', label: '武器类型 2', type: 'reference', reference: 'weaponTypes', options: [NONE_OPTION], defaultValue: 0 },
+      ],
+    },
+    { label: '伤害', fields: damageFields() },
+  ],
+};
+
+const ITEM_SCHEMA: DatabaseSchema = {
+  kind: 'item',
+  label: '物品',
+  groups: [
+    {
+      label: '基本设置',
+      fields: [
+        nameField(),
+        iconField(),
+        {
+          key: 'itypeId',
+          label: '物品类型',
+          type: 'enum',
+          options: [
+            { value: 1, label: '普通物品' },
+            { value: 2, label: '贵重物品' },
+            { value: 3, label: '隐藏物品 A' },
+            { value: 4, label: '隐藏物品 B' },
+          ],
+          defaultValue: 1,
+        },
+        priceField(),
+        { key: 'consumable', label: '消耗', type: 'boolean', defaultValue: true },
+        ...usableFields([{ value: -1, label: '普通攻击' }, NONE_OPTION]),
+      ],
+    },
+    { label: '伤害', fields: damageFields() },
+  ],
+};
+
+const WEAPON_SCHEMA: DatabaseSchema = {
+  kind: 'weapon',
+  label: '武器',
+  groups: [
+    {
+      label: '基本设置',
+      fields: [
+        nameField(),
+        iconField(),
+        { key: 'wtypeId', label: '武器类型', type: 'reference', reference: 'weaponTypes', options: [NONE_OPTION], defaultValue: 0 },
+        { key: 'etypeId', label: '装备类型', type: 'reference', reference: 'equipTypes', defaultValue: 1 },
+        priceField(),
+        { key: 'animationId', label: '攻击动画', type: 'reference', reference: 'animation', options: [NONE_OPTION], defaultValue: 0 },
+      ],
+    },
+  ],
+};
+
+const ARMOR_SCHEMA: DatabaseSchema = {
+  kind: 'armor',
+  label: '防具',
+  groups: [
+    {
+      label: '基本设置',
+      fields: [
+        nameField(),
+        iconField(),
+        { key: 'atypeId', label: '防具类型', type: 'reference', reference: 'armorTypes', options: [NONE_OPTION], defaultValue: 0 },
+        { key: 'etypeId', label: '装备类型', type: 'reference', reference: 'equipTypes', defaultValue: 2 },
+        priceField(),
+      ],
+    },
+  ],
+};
+
+const ENEMY_SCHEMA: DatabaseSchema = {
+  kind: 'enemy',
+  label: '敌人',
+  groups: [
+    {
+      label: '基本设置',
+      fields: [
+        nameField(),
+        { key: 'battlerName', label: '战斗图', type: 'string', defaultValue: '' },
+        { key: 'battlerHue', label: '色相', type: 'integer', min: 0, max: 360, defaultValue: 0 },
+        { key: 'exp', label: '经验值', type: 'integer', min: 0, max: 9999999, defaultValue: 0 },
+        { key: 'gold', label: '金币', type: 'integer', min: 0, max: 9999999, defaultValue: 0 },
+      ],
+    },
+  ],
+};
+
+const STATE_SCHEMA: DatabaseSchema = {
+  kind: 'state',
+  label: '状态',
+  groups: [
+    {
+      label: '基本设置',
+      fields: [
+        nameField(),
+        iconField(),
+        {
+          key: 'restriction',
+          label: '行动限制',
+          type: 'enum',
+          options: [
+            { value: 0, label: '无' },
+            { value: 1, label: '攻击敌人' },
+            { value: 2, label: '攻击任意人' },
+            { value: 3, label: '攻击队友' },
+            { value: 4, label: '无法行动' },
+          ],
+          defaultValue: 0,
+        },
+        { key: 'priority', label: '优先级', type: 'integer', min: 0, max: 100, defaultValue: 50 },
+        {
+          key: 'motion',
+          label: 'SV 动作',
+          type: 'enum',
+          options: [
+            { value: 0, label: '普通' },
+            { value: 1, label: '异常状态' },
+            { value: 2, label: '睡眠' },
+            { value: 3, label: '死亡' },
+          ],
+          defaultValue: 0,
+        },
+        { key: 'overlay', label: 'SV 叠加', type: 'integer', min: 0, max: 10, defaultValue: 0 },
+      ],
+    },
+    {
+      label: '解除条件',
+      fields: [
+        { key: 'removeAtBattleEnd', label: '战斗结束时解除', type: 'boolean', defaultValue: false },
+        { key: 'removeByRestriction', label: '受行动限制时解除', type: 'boolean', defaultValue: false },
+        {
+          key: 'autoRemovalTiming',
+          label: '自动解除时机',
+          type: 'enum',
+          options: [
+            { value: 0, label: '无' },
+            { value: 1, label: '行动结束时' },
+            { value: 2, label: '回合结束时' },
+          ],
+          defaultValue: 0,
+        },
+        { key: 'minTurns', label: '最少持续回合', type: 'integer', min: 1, max: 9999, defaultValue: 1 },
+        { key: 'maxTurns', label: '最多持续回合', type: 'integer', min: 1, max: 9999, defaultValue: 1 },
+        { key: 'removeByDamage', label: '受到伤害时解除', type: 'boolean', defaultValue: false },
+        { key: 'chanceByDamage', label: '伤害解除几率 %', type: 'integer', min: 0, max: 100, defaultValue: 100 },
+        { key: 'removeByWalking', label: '行走一定步数后解除', type: 'boolean', defaultValue: false },
+        { key: 'stepsToRemove', label: '解除步数', type: 'integer', min: 0, max: 9999, defaultValue: 100 },
+      ],
+    },
+    {
+      label: '信息',
+      fields: [
+        { key: 'message1', label: '我方附加', type: 'string', defaultValue: '' },
+        { key: 'message2', label: '敌方附加', type: 'string', defaultValue: '' },
+        { key: 'message3', label: '持续中', type: 'string', defaultValue: '' },
+        { key: 'message4', label: '解除时', type: 'string', defaultValue: '' },
+      ],
+    },
+  ],
+};
+
+/** 所有内置数据库结构 */
+export const DATABASE_SCHEMAS: readonly DatabaseSchema[] = [
+  ACTOR_SCHEMA,
+  CLASS_SCHEMA,
+  SKILL_SCHEMA,
+  ITEM_SCHEMA,
+  WEAPON_SCHEMA,
+  ARMOR_SCHEMA,
+  ENEMY_SCHEMA,
+  STATE_SCHEMA,
+];
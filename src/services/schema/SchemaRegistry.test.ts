@@ -0,0 +1,39 @@
+/**
+ * SchemaRegistry 测试
+ * 验证按文件查找表单结构、字段读写与输入校验
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SchemaRegistry, getFieldValue, parseFieldInput, readField, setFieldValue } from './SchemaRegistry';
+import type { FieldSchema } from './types';
+
+describe('SchemaRegistry', () => {
+  it('should pick schemas for standard database files only', () => {
+    expect(SchemaRegistry.getSchemaForFile('C:/project/data/Skills.json', 'data')?.kind).toBe('skill');
+    expect(SchemaRegistry.getSchemaForFile('C:/project/data/Actors.json', 'data')?.kind).toBe('actor');
+    expect(SchemaRegistry.getSchemaForFile('C:/project/data/Quests.json', 'quest')).toBeNull();
+    expect(SchemaRegistry.getSchemaForFile('C:/project/data/Map001.json', 'data')).toBeNull();
+  });
+
+  it('should read and write nested fields', () => {
+    const skill: Record<string, unknown> = { id: 1, name: 'Fire' };
+    const formula = SchemaRegistry.getSchema('skill')!.groups
+      .flatMap((group) => group.fields)
+      .find((field) => field.key === 'damage.formula')!;
+
+    expect(readField(skill, formula)).toBe('0');
+    setFieldValue(skill, 'damage.formula', 'a.mat * 2');
+    expect(getFieldValue(skill, 'damage.formula')).toBe('a.mat * 2');
+    expect(skill.damage).toEqual({ formula: 'a.mat * 2' });
+  });
+
+  it('should validate numeric input against the schema', () => {
+    const field: FieldSchema = { key: 'mpCost', label: '消耗 MP', type: 'integer', min: 0, max: 9999 };
+
+    expect(parseFieldInput(field, '25')).toEqual({ ok: true, value: 25 });
+    expect(parseFieldInput(field, '1.5')).toEqual({ ok: false, error: '消耗 MP 必须是整数' });
+    expect(parseFieldInput(field, '-1')).toEqual({ ok: false, error: '消耗 MP 不能小于 0' });
+    expect(parseFieldInput(field, 'abc')).toEqual({ ok: false, error: '消耗 MP 必须是数字' });
+    expect(parseFieldInput({ key: 'damage.critical', label: '会心一击', type: 'boolean' }, true)).toEqual({ ok: true, value: true });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * SchemaRegistry - 数据库表单结构注册表
+ * 按数据种类或文件查找表单结构，并提供字段读写与输入校验
+ */
+
+import type { FileType } from '../../core/StateManager';
+import { detectDataKind, type DataKind } from '../IdRenumberService';
+import { DATABASE_SCHEMAS } from './DatabaseSchemas';
+import type { DatabaseSchema, FieldParseResult, FieldSchema } from './types';
+
+// ============ 字段读写 ============
+
+/**
+ * 按点号路径读取字段值
+ */
+export function getFieldValue(item: Record<string, unknown>, key: string): unknown {
+  const parts = key.split('.');
+  let current: unknown = item;
+  for (let i = 0; i < parts.length; i++) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[parts[i]];
+  }
+  return current;
+}
+
+/**
+ * 按点号路径写入字段值，缺失的中间对象会被创建
+ */
+export function setFieldValue(item: Record<string, unknown>, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let current = item;
+  for (let i = 0; i < parts.length - 1; i++) {
+    const next = current[parts[i]];
+    if (!next || typeof next !== 'object') {
+      current[parts[i]] = {};
+    }
+    current = current[parts[i]] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+/**
+ * 读取字段值，缺失时返回结构中的默认值
+ */
+export function readField(item: Record<string, unknown>, field: FieldSchema): unknown {
+  const value = getFieldValue(item, field.key);
+  return value === undefined ? field.defaultValue : value;
+}
+
+/**
+ * 将输入框中的文本解析为字段值
+ */
+export function parseFieldInput(field: FieldSchema, raw: string | boolean): FieldParseResult {
+  switch (field.type) {
+    case 'boolean':
+      return { ok: true, value: raw === true || raw === 'true' };
+    case 'string':
+    case 'text':
+      return { ok: true, value: String(raw) };
+    case 'integer':
+    case 'number':
+    case 'enum':
+    case 'reference': {
+      const text = String(raw).trim();
+      // 枚举值可能是字符串
+      if (field.type === 'enum' && field.options?.some((option) => option.value === text)) {
+        return { ok: true, value: text };
+      }
+      const value = Number(text);
+      if (text === '' || Number.isNaN(value)) {
+        return { ok: false, error: `${field.label} 必须是数字` };
+      }
+      if (field.type !== 'number' && !Number.isInteger(value)) {
+        return { ok: false, error: `${field.label} 必须是整数` };
+      }
+      if (field.min !== undefined && value < field.min) {
+        return { ok: false, error: `${field.label} 不能小于 ${field.min}` };
+      }
+      if (field.max !== undefined && value > field.max) {
+        return { ok: false, error: `${field.label} 不能大于 ${field.max}` };
+      }
+      return { ok: true, value };
+    }
+  }
+}
+
+// ============ 注册表 ============
+
+/**
+ * SchemaRegistry class - singleton
+ */
+class SchemaRegistryClass {
+  private schemas = new Map<DataKind, DatabaseSchema>();
+
+  constructor() {
+    for (let i = 0; i < DATABASE_SCHEMAS.length; i++) {
+      this.register(DATABASE_SCHEMAS[i]);
+    }
+  }
+
+  /**
+   * 注册或替换一种数据库的表单结构
+   */
+  register(schema: DatabaseSchema): void {
+    this.schemas.set(schema.kind, schema);
+  }
+
+  /**
+   * 按数据种类获取表单结构
+   */
+  getSchema(kind: DataKind | null): DatabaseSchema | null {
+    return kind ? this.schemas.get(kind) ?? null : null;
+  }
+
+  /**
+   * 按文件获取表单结构；任务与弹道文件由各自的面板编辑，不使用通用表单
+   */
+  getSchemaForFile(filePath: string, fileType: FileType): DatabaseSchema | null {
+    if (fileType !== 'data') return null;
+    return this.getSchema(detectDataKind(filePath, fileType));
+  }
+}
+
+// Export singleton instance
+export const SchemaRegistry = new SchemaRegistryClass();
+
+export default SchemaRegistry;
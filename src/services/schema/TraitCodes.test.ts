@@ -0,0 +1,49 @@
+/**
+ * TraitCodes 测试
+ * 验证特性 / 效果的解码文本、默认条目与百分比换算
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EFFECT_TABLE,
+  TRAIT_TABLE,
+  createCodeEntry,
+  describeCodeEntry,
+  fromInputValue,
+  getCodeDefinition,
+  getCodeTable,
+  toInputValue,
+} from './TraitCodes';
+
+const STATES: Record<number, string> = { 4: '中毒' };
+
+function resolveReference(target: string, id: number): string | null {
+  return target === 'state' ? STATES[id] ?? null : null;
+}
+
+describe('TraitCodes', () => {
+  it('should decode traits and effects into readable text', () => {
+    expect(describeCodeEntry(TRAIT_TABLE, { code: 21, dataId: 2, value: 1.1 }, resolveReference)).toBe('普通能力值: 攻击力 ×110%');
+    expect(describeCodeEntry(TRAIT_TABLE, { code: 22, dataId: 0, value: 0.05 }, resolveReference)).toBe('追加能力值: 命中率 +5%');
+    expect(describeCodeEntry(TRAIT_TABLE, { code: 14, dataId: 9, value: 1 }, resolveReference)).toBe('状态免疫: #9');
+    expect(describeCodeEntry(EFFECT_TABLE, { code: 21, dataId: 4, value1: 0.5, value2: 0 }, resolveReference)).toBe('附加状态: 中毒 50%');
+    expect(describeCodeEntry(EFFECT_TABLE, { code: 11, dataId: 0, value1: 0.1, value2: 50 }, resolveReference)).toBe('恢复 HP: 10% + 50');
+    expect(describeCodeEntry(EFFECT_TABLE, { code: 99, dataId: 3, value1: 0, value2: 0 }, resolveReference)).toBe('未知代码 99: #3');
+  });
+
+  it('should create entries with the value fields RPG Maker expects', () => {
+    expect(createCodeEntry(TRAIT_TABLE, getCodeDefinition(TRAIT_TABLE, 13)!)).toEqual({ code: 13, dataId: 1, value: 1 });
+    expect(createCodeEntry(TRAIT_TABLE, getCodeDefinition(TRAIT_TABLE, 62)!)).toEqual({ code: 62, dataId: 0, value: 0 });
+    expect(createCodeEntry(EFFECT_TABLE, getCodeDefinition(EFFECT_TABLE, 31)!)).toEqual({ code: 31, dataId: 0, value1: 5, value2: 0 });
+    expect(getCodeTable('weapon')).toBe(TRAIT_TABLE);
+    expect(getCodeTable('item')).toBe(EFFECT_TABLE);
+    expect(getCodeTable('troop')).toBeNull();
+  });
+
+  it('should convert percentages between stored and input values', () => {
+    expect(toInputValue('rate', 1.1)).toBe(110);
+    expect(fromInputValue('rate', 110)).toBe(1.1);
+    expect(fromInputValue('signedPercent', 5)).toBe(0.05);
+    expect(toInputValue('turns', 3)).toBe(3);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * RPG Maker MZ 特性与效果代码表
+ * 将 traits / effects 中的 {code, dataId, value} 解码为可读文本，并提供输入值换算
+ */
+
+import type { DataKind } from '../IdRenumberService';
+import type { CodeDefinition, CodeEntry, CodeTable, CodeValue, FieldOption, ReferenceTarget, ValueFormat } from './types';
+
+// ============ 通用选项 ============
+
+export const PARAM_OPTIONS: FieldOption[] = [
+  { value: 0, label: '最大生命值' },
+  { value: 1, label: '最大魔法值' },
+  { value: 2, label: '攻击力' },
+  { value: 3, label: '防御力' },
+  { value: 4, label: '魔法攻击力' },
+  { value: 5, label: '魔法防御力' },
+  { value: 6, label: '速度' },
+  { value: 7, label: '幸运' },
+];
+
+const XPARAM_OPTIONS: FieldOption[] = [
+  { value: 0, label: '命中率' },
+  { value: 1, label: '回避率' },
+  { value: 2, label: '会心率' },
+  { value: 3, label: '会心回避率' },
+  { value: 4, label: '魔法回避率' },
+  { value: 5, label: '魔法反射率' },
+  { value: 6, label: '反击率' },
+  { value: 7, label: 'HP 再生率' },
+  { value: 8, label: 'MP 再生率' },
+  { value: 9, label: 'TP 再生率' },
+];
+
+const SPARAM_OPTIONS: FieldOption[] = [
+  { value: 0, label: '受到攻击几率' },
+  { value: 1, label: '防御效果率' },
+  { value: 2, label: '恢复效果率' },
+  { value: 3, label: '药理知识' },
+  { value: 4, label: 'MP 消耗率' },
+  { value: 5, label: 'TP 充能率' },
+  { value: 6, label: '物理伤害率' },
+  { value: 7, label: '魔法伤害率' },
+  { value: 8, label: '地形伤害率' },
+  { value: 9, label: '经验获得率' },
+];
+
+const PARAM_DATA = { label: '能力值', options: PARAM_OPTIONS };
+const STATE_DATA = { label: '状态', reference: 'state' as const };
+const SKILL_DATA = { label: '技能', reference: 'skill' as const };
+const ELEMENT_DATA = { label: '属性', reference: 'elements' as const };
+const SKILL_TYPE_DATA = { label: '技能类型', reference: 'skillTypes' as const };
+const EQUIP_TYPE_DATA = { label: '装备类型', reference: 'equipTypes' as const };
+
+function rate(defaultValue = 1): CodeValue {
+  return { key: 'value', label: '倍率 %', format: 'rate', defaultValue };
+}
+
+// ============ 特性 ============
+
+export const TRAIT_TABLE: CodeTable = {
+  key: 'traits',
+  label: '特性',
+  valueKeys: ['value'],
+  codes: [
+    { code: 11, label: '属性有效度', data: ELEMENT_DATA, values: [rate()] },
+    { code: 12, label: '弱化有效度', data: PARAM_DATA, values: [rate()] },
+    { code: 13, label: '状态有效度', data: STATE_DATA, values: [rate()] },
+    { code: 14, label: '状态免疫', data: STATE_DATA, values: [] },
+    { code: 21, label: '普通能力值', data: PARAM_DATA, values: [rate()] },
+    { code: 22, label: '追加能力值', data: { label: '能力值', options: XPARAM_OPTIONS }, values: [{ key: 'value', label: '加成 %', format: 'signedPercent', defaultValue: 0 }] },
+    { code: 23, label: '特殊能力值', data: { label: '能力值', options: SPARAM_OPTIONS }, values: [rate()] },
+    { code: 31, label: '攻击时属性', data: ELEMENT_DATA, values: [] },
+    { code: 32, label: '攻击时状态', data: STATE_DATA, values: [{ key: 'value', label: '几率 %', format: 'signedPercent', defaultValue: 1 }] },
+    { code: 33, label: '攻击速度补正', values: [{ key: 'value', label: '速度', format: 'signed', defaultValue: 0 }] },
+    { code: 34, label: '攻击追加次数', values: [{ key: 'value', label: '次数', format: 'signed', defaultValue: 0 }] },
+    { code: 35, label: '攻击技能', data: SKILL_DATA, values: [] },
+    { code: 41, label: '添加技能类型', data: SKILL_TYPE_DATA, values: [] },
+    { code: 42, label: '封印技能类型', data: SKILL_TYPE_DATA, values: [] },
+    { code: 43, label: '添加技能', data: SKILL_DATA, values: [] },
+    { code: 44, label: '封印技能', data: SKILL_DATA, values: [] },
+    { code: 51, label: '装备武器类型', data: { label: '武器类型', reference: 'weaponTypes' }, values: [] },
+    { code: 52, label: '装备护甲类型', data: { label: '防具类型', reference: 'armorTypes' }, values: [] },
+    { code: 53, label: '固定装备', data: EQUIP_TYPE_DATA, values: [] },
+    { code: 54, label: '封印装备', data: EQUIP_TYPE_DATA, values: [] },
+    {
+      code: 55,
+      label: '装备槽类型',
+      data: { label: '类型', options: [{ value: 0, label: '普通' }, { value: 1, label: '二刀流' }] },
+      values: [],
+    },
+    { code: 61, label: '添加行动次数', values: [{ key: 'value', label: '几率 %', format: 'percent', defaultValue: 0 }] },
+    {
+      code: 62,
+      label: '特殊标志',
+      data: {
+        label: '标志',
+        options: [
+          { value: 0, label: '自动战斗' },
+          { value: 1, label: '防御' },
+          { value: 2, label: '掩护' },
+          { value: 3, label: '保留 TP' },
+        ],
+      },
+      values: [],
+    },
+    {
+      code: 63,
+      label: '消失效果',
+      data: {
+        label: '效果',
+        options: [
+          { value: 0, label: '普通' },
+          { value: 1, label: '首领' },
+          { value: 2, label: '瞬间消失' },
+          { value: 3, label: '不消失' },
+        ],
+      },
+      values: [],
+    },
+    {
+      code: 64,
+      label: '队伍能力',
+      data: {
+        label: '能力',
+        options: [
+          { value: 0, label: '遇敌减半' },
+          { value: 1, label: '无遇敌' },
+          { value: 2, label: '取消偷袭' },
+          { value: 3, label: '提高先发制人率' },
+          { value: 4, label: '双倍金钱' },
+          { value: 5, label: '双倍物品掉落率' },
+        ],
+      },
+      values: [],
+    },
+  ],
+};
+
+// ============ 效果 ============
+
+function chance(): CodeValue {
+  return { key: 'value1', label: '几率 %', format: 'percent', defaultValue: 1 };
+}
+
+function recover(): CodeValue[] {
+  return [
+    { key: 'value1', label: '百分比 %', format: 'percent', defaultValue: 0 },
+    { key: 'value2', label: '固定值', format: 'number', defaultValue: 0 },
+  ];
+}
+
+function turns(): CodeValue {
+  return { key: 'value1', label: '回合数', format: 'turns', defaultValue: 5 };
+}
+
+export const EFFECT_TABLE: CodeTable = {
+  key: 'effects',
+  label: '使用效果',
+  valueKeys: ['value1', 'value2'],
+  codes: [
+    { code: 11, label: '恢复 HP', values: recover() },
+    { code: 12, label: '恢复 MP', values: recover() },
+    { code: 13, label: '获得 TP', values: [{ key: 'value1', label: '数值', format: 'number', defaultValue: 0 }] },
+    { code: 21, label: '附加状态', data: { ...STATE_DATA, options: [{ value: 0, label: '普通攻击' }] }, values: [chance()] },
+    { code: 22, label: '解除状态', data: STATE_DATA, values: [chance()] },
+    { code: 31, label: '强化', data: PARAM_DATA, values: [turns()] },
+    { code: 32, label: '弱化', data: PARAM_DATA, values: [turns()] },
+    { code: 33, label: '解除强化', data: PARAM_DATA, values: [] },
+    { code: 34, label: '解除弱化', data: PARAM_DATA, values: [] },
+    { code: 41, label: '特殊效果', data: { label: '效果', options: [{ value: 0, label: '逃跑' }] }, values: [] },
+    { code: 42, label: '成长', data: PARAM_DATA, values: [{ key: 'value1', label: '数值', format: 'number', defaultValue: 1 }] },
+    { code: 43, label: '学会技能', data: SKILL_DATA, values: [] },
+    { code: 44, label: '公共事件', data: { label: '事件编号' }, values: [] },
+  ],
+};
+
+const TRAIT_KINDS: DataKind[] = ['actor', 'class', 'weapon', 'armor', 'enemy', 'state'];
+const EFFECT_KINDS: DataKind[] = ['skill', 'item'];
+
+// ============ 工具函数 ============
+
+/**
+ * 获取数据种类对应的特性表或效果表
+ */
+export function getCodeTable(kind: DataKind | null): CodeTable | null {
+  if (!kind) return null;
+  if (TRAIT_KINDS.includes(kind)) return TRAIT_TABLE;
+  if (EFFECT_KINDS.includes(kind)) return EFFECT_TABLE;
+  return null;
+}
+
+export function getCodeDefinition(table: CodeTable, code: number): CodeDefinition | null {
+  return table.codes.find((definition) => definition.code === code) ?? null;
+}
+
+/**
+ * 按代码创建带默认值的新条目
+ */
+export function createCodeEntry(table: CodeTable, definition: CodeDefinition): CodeEntry {
+  const entry: CodeEntry = { code: definition.code, dataId: 0 };
+  const data = definition.data;
+  if (data?.reference || !data?.options?.length) {
+    entry.dataId = data ? 1 : 0;
+  } else {
+    entry.dataId = Number(data.options[0].value);
+  }
+
+  for (let i = 0; i < table.valueKeys.length; i++) {
+    entry[table.valueKeys[i]] = 0;
+  }
+  for (let i = 0; i < definition.values.length; i++) {
+    entry[definition.values[i].key] = definition.values[i].defaultValue;
+  }
+  return entry;
+}
+
+function isPercentFormat(format: ValueFormat): boolean {
+  return format === 'rate' || format === 'percent' || format === 'signedPercent';
+}
+
+/** 存储值 → 输入框中的值（百分比类以 % 为单位） */
+export function toInputValue(format: ValueFormat, value: number): number {
+  return isPercentFormat(format) ? Math.round(value * 10000) / 100 : value;
+}
+
+/** 输入框中的值 → 存储值 */
+export function fromInputValue(format: ValueFormat, input: number): number {
+  return isPercentFormat(format) ? Math.round(input * 100) / 10000 : input;
+}
+
+function withSign(text: string, value: number): string {
+  return value >= 0 ? `+${text}` : text;
+}
+
+/**
+ * 格式化条目中的数值
+ */
+export function formatCodeValue(format: ValueFormat, value: number): string {
+  const percent = `${toInputValue(format, value)}%`;
+  switch (format) {
+    case 'rate':
+      return `×${percent}`;
+    case 'percent':
+      return percent;
+    case 'signedPercent':
+      return withSign(percent, value);
+    case 'signed':
+      return withSign(String(value), value);
+    case 'turns':
+      return `${value} 回合`;
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * 获取 dataId 的显示名称
+ * @param resolveReference 解析引用目标中的名称，找不到时返回 null
+ */
+export function formatCodeData(
+  definition: CodeDefinition,
+  dataId: number,
+  resolveReference: (target: ReferenceTarget, id: number) => string | null
+): string {
+  const data = definition.data;
+  if (!data) return '';
+
+  const option = data.options?.find((item) => item.value === dataId);
+  if (option) return option.label;
+  if (data.reference) {
+    return resolveReference(data.reference, dataId) ?? `#${dataId}`;
+  }
+  return `#${dataId}`;
+}
+
+/**
+ * 将条目解码为可读文本，例如「普通能力值: 攻击力 ×110%」
+ */
+export function describeCodeEntry(
+  table: CodeTable,
+  entry: CodeEntry,
+  resolveReference: (target: ReferenceTarget, id: number) => string | null
+): string {
+  const definition = getCodeDefinition(table, entry.code);
+  if (!definition) {
+    return `未知代码 ${entry.code}: #${entry.dataId}`;
+  }
+
+  const parts: string[] = [];
+  const dataText = formatCodeData(definition, entry.dataId, resolveReference);
+  if (dataText) parts.push(dataText);
+
+  const values: string[] = [];
+  for (let i = 0; i < definition.values.length; i++) {
+    const value = definition.values[i];
+    const stored = entry[value.key] ?? 0;
+    // 恢复类效果只显示非零部分
+    if (definition.values.length > 1 && stored === 0) continue;
+    values.push(formatCodeValue(value.format, stored));
+  }
+  if (values.length === 0 && definition.values.length > 1) {
+    values.push(formatCodeValue(definition.values[0].format, 0));
+  }
+  if (values.length > 0) parts.push(values.join(' + '));
+
+  return parts.length > 0 ? `${definition.label}: ${parts.join(' ')}` : definition.label;
+}
@@ -0,0 +1,37 @@
+/**
+ * Schema Module Index
+ *
+ * Re-exports the database schemas, the schema registry and the trait/effect code tables
+ */
+
+export { SchemaRegistry, getFieldValue, setFieldValue, readField, parseFieldInput } from './SchemaRegistry';
+export { DATABASE_SCHEMAS } from './DatabaseSchemas';
+export {
+  TRAIT_TABLE,
+  EFFECT_TABLE,
+  PARAM_OPTIONS,
+  getCodeTable,
+  getCodeDefinition,
+  createCodeEntry,
+  toInputValue,
+  fromInputValue,
+  formatCodeValue,
+  formatCodeData,
+  describeCodeEntry,
+} from './TraitCodes';
+export type {
+  DatabaseSchema,
+  FieldGroup,
+  FieldSchema,
+  FieldType,
+  FieldOption,
+  FieldParseResult,
+  ReferenceTarget,
+  SystemListKind,
+  ValueFormat,
+  CodeEntry,
+  CodeValueKey,
+  CodeValue,
+  CodeDefinition,
+  CodeTable,
+} from './types';
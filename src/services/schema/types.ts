@@ -0,0 +1,107 @@
+/**
+ * 数据库表单结构定义
+ *
+ * 每种 RPG Maker 数据库（角色、职业、技能……）用一份声明式的结构描述可编辑字段，
+ * 通用表单渲染器根据结构生成输入控件。
+ */
+
+import type { DataKind } from '../IdRenumberService';
+
+/** System.json 中的类型名称列表 */
+export type SystemListKind = 'elements' | 'skillTypes' | 'weaponTypes' | 'armorTypes' | 'equipTypes';
+
+/** 引用字段的目标：其他数据库或系统类型列表 */
+export type ReferenceTarget = DataKind | SystemListKind;
+
+/** 字段类型 */
+export type FieldType = 'integer' | 'number' | 'string' | 'text' | 'boolean' | 'enum' | 'reference';
+
+/** 枚举或引用的固定选项 */
+export interface FieldOption {
+  value: number | string;
+  label: string;
+}
+
+/** 单个字段 */
+export interface FieldSchema {
+  /** 字段路径，嵌套字段用点号分隔，例如 damage.formula */
+  key: string;
+  label: string;
+  type: FieldType;
+  min?: number;
+  max?: number;
+  /** enum 的选项；reference 的额外固定选项（例如 0 = 无） */
+  options?: FieldOption[];
+  /** reference 字段引用的目标 */
+  reference?: ReferenceTarget;
+  /** 输入控件的特殊形式：icon 在数字输入旁显示图标并可打开图标选择器 */
+  widget?: 'icon';
+  /** 字段缺失时的默认值 */
+  defaultValue?: unknown;
+  hint?: string;
+}
+
+/** 字段分组 */
+export interface FieldGroup {
+  label: string;
+  fields: FieldSchema[];
+}
+
+/** 一种数据库的表单结构 */
+export interface DatabaseSchema {
+  kind: DataKind;
+  label: string;
+  groups: FieldGroup[];
+}
+
+/** 字段值校验结果 */
+export type FieldParseResult =
+  | { ok: true; value: unknown }
+  | { ok: false; error: string };
+
+// ============ 特性与效果 ============
+
+/** 特性或效果中数值的显示方式 */
+export type ValueFormat = 'rate' | 'percent' | 'signedPercent' | 'number' | 'signed' | 'turns';
+
+/** 特性或效果条目，特性使用 value，效果使用 value1 / value2 */
+export interface CodeEntry {
+  code: number;
+  dataId: number;
+  value?: number;
+  value1?: number;
+  value2?: number;
+}
+
+export type CodeValueKey = 'value' | 'value1' | 'value2';
+
+/** 条目中的一个数值 */
+export interface CodeValue {
+  key: CodeValueKey;
+  label: string;
+  format: ValueFormat;
+  defaultValue: number;
+}
+
+/** 一个特性或效果代码 */
+export interface CodeDefinition {
+  code: number;
+  label: string;
+  /** dataId 的含义；未声明时 dataId 不使用；既无引用也无选项时按整数输入 */
+  data?: {
+    label: string;
+    reference?: ReferenceTarget;
+    options?: FieldOption[];
+  };
+  values: CodeValue[];
+}
+
+/** 特性表或效果表 */
+export interface CodeTable {
+  /** 条目数组所在字段 */
+  key: 'traits' | 'effects';
+  label: string;
+  /** 条目必须包含的数值字段 */
+  valueKeys: CodeValueKey[];
+  codes: CodeDefinition[];
+}
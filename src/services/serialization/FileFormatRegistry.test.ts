@@ -0,0 +1,40 @@
+/**
+ * FileFormatRegistry Tests
+ *
+ * Unit tests for per-file JSON layout tracking
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FileFormatRegistry } from './FileFormatRegistry';
+
+const FILE_PATH = 'C:\\game\\data\\Items.json';
+const RM_CONTENT = '[\nnull,\n{"id":1,"name":"Potion"}\n]';
+
+describe('FileFormatRegistry', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    FileFormatRegistry.clear();
+    FileFormatRegistry.setLayoutOverride(FILE_PATH, null);
+  });
+
+  it('should save files in their detected layout', () => {
+    FileFormatRegistry.register(FILE_PATH, RM_CONTENT);
+
+    expect(FileFormatRegistry.stringify('C:/game/data/Items.json', JSON.parse(RM_CONTENT))).toBe(RM_CONTENT);
+  });
+
+  it('should fall back to pretty printing for unknown files', () => {
+    expect(FileFormatRegistry.stringify('C:/game/data/Unknown.json', [null])).toBe('[\n  null\n]');
+  });
+
+  it('should let per-file overrides win over detection', () => {
+    FileFormatRegistry.register(FILE_PATH, RM_CONTENT);
+    FileFormatRegistry.setLayoutOverride(FILE_PATH, 'minified');
+
+    expect(FileFormatRegistry.getLayoutOverride('C:/game/data/Items.json')).toBe('minified');
+    expect(FileFormatRegistry.stringify(FILE_PATH, [null])).toBe('[null]');
+
+    FileFormatRegistry.setLayoutOverride(FILE_PATH, null);
+    expect(FileFormatRegistry.getFormat(FILE_PATH).layout).toBe('rpgmaker');
+  });
+});
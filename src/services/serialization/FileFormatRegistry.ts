@@ -0,0 +1,123 @@
+/**
+ * FileFormatRegistry
+ *
+ * Remembers the JSON layout of every data file read by the editor and
+ * reproduces it on save. A layout can also be fixed per file by the user;
+ * those choices are persisted across sessions.
+ */
+
+import { jsonSerializer, DEFAULT_JSON_FORMAT } from './JSONSerializer';
+import type { JSONFormat, JSONLayout } from './types';
+
+const FORMAT_OVERRIDES_STORAGE_KEY = 'rpg-editor-file-formats';
+const BACKSLASH_REGEX = /\\/g;
+
+/**
+ * Normalize a file path so the same file always maps to the same key
+ */
+function normalizePath(filePath: string): string {
+  return filePath.replace(BACKSLASH_REGEX, '/');
+}
+
+/**
+ * FileFormatRegistry class - singleton
+ */
+class FileFormatRegistryClass {
+  /** Formats detected from file contents, keyed by normalized path */
+  private detected = new Map<string, JSONFormat>();
+
+  /** Layouts chosen by the user, keyed by normalized path */
+  private overrides: Record<string, JSONLayout> | null = null;
+
+  /**
+   * Detect and remember the format of a file that was just read
+   * @returns The detected format
+   */
+  register(filePath: string, content: string): JSONFormat {
+    const format = jsonSerializer.detectFormat(content);
+    this.detected.set(normalizePath(filePath), format);
+    return format;
+  }
+
+  /**
+   * Get the format detected for a file, or null if it was never read
+   */
+  getDetectedFormat(filePath: string): JSONFormat | null {
+    return this.detected.get(normalizePath(filePath)) ?? null;
+  }
+
+  /**
+   * Get the layout chosen by the user for a file, or null for automatic detection
+   */
+  getLayoutOverride(filePath: string): JSONLayout | null {
+    return this.loadOverrides()[normalizePath(filePath)] ?? null;
+  }
+
+  /**
+   * Fix the layout of a file, or pass null to go back to automatic detection
+   */
+  setLayoutOverride(filePath: string, layout: JSONLayout | null): void {
+    const overrides = this.loadOverrides();
+    const key = normalizePath(filePath);
+    if (layout) {
+      overrides[key] = layout;
+    } else {
+      delete overrides[key];
+    }
+
+    try {
+      localStorage.setItem(FORMAT_OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+    } catch (error) {
+      console.warn('[FileFormatRegistry] Failed to persist format overrides:', error);
+    }
+  }
+
+  /**
+   * Resolve the format used when saving a file
+   * User overrides win over detection; indentation and line endings always follow the original file
+   */
+  getFormat(filePath: string): JSONFormat {
+    const detected = this.getDetectedFormat(filePath) ?? DEFAULT_JSON_FORMAT;
+    const override = this.getLayoutOverride(filePath);
+    return override ? { ...detected, layout: override } : { ...detected };
+  }
+
+  /**
+   * Serialize data for a file using its resolved format
+   * @throws Error when the data cannot be serialized
+   */
+  stringify(filePath: string, data: unknown): string {
+    const result = jsonSerializer.serializeWithFormat(data, this.getFormat(filePath));
+    if (!result.success || result.data === undefined) {
+      throw new Error(result.error?.message ?? 'Failed to serialize JSON');
+    }
+    return result.data;
+  }
+
+  /**
+   * Forget detected formats (user overrides are kept)
+   */
+  clear(): void {
+    this.detected.clear();
+  }
+
+  private loadOverrides(): Record<string, JSONLayout> {
+    if (this.overrides) return this.overrides;
+
+    this.overrides = {};
+    try {
+      const saved = localStorage.getItem(FORMAT_OVERRIDES_STORAGE_KEY);
+      if (saved) {
+        this.overrides = JSON.parse(saved) as Record<string, JSONLayout>;
+      }
+    } catch (error) {
+      console.warn('[FileFormatRegistry] Failed to load format overrides:', error);
+    }
+    return this.overrides;
+  }
+}
+
+// Export singleton instance
+export const FileFormatRegistry = new FileFormatRegistryClass();
+
+export default FileFormatRegistry;
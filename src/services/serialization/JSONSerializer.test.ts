@@ -186,6 +186,40 @@ describe('JSONSerializer', () => {
       expect(result.data).toBe('{"a":1,"b":2}');
     });
   });
+
+  describe('layouts', () => {
+    const rmJson = '[\nnull,\n{"id":1,"name":"Potion"},\n{"id":2,"name":"Ether"}\n]';
+
+    it('should detect the RPG Maker layout', () => {
+      expect(jsonSerializer.detectFormat(rmJson)).toEqual({ layout: 'rpgmaker', indent: 2, lineEnding: '\n' });
+    });
+
+    it('should detect minified and pretty layouts with their indentation and line endings', () => {
+      expect(jsonSerializer.detectFormat('{"a":1}').layout).toBe('minified');
+      expect(jsonSerializer.detectFormat('[\r\n    1\r\n]')).toEqual({ layout: 'pretty', indent: 4, lineEnding: '\r\n' });
+    });
+
+    it('should reproduce the RPG Maker layout byte for byte', () => {
+      const data = JSON.parse(rmJson);
+      const result = jsonSerializer.serialize(data, { layout: 'rpgmaker' });
+
+      expect(result.data).toBe(rmJson);
+    });
+
+    it('should write non-array data minified in the RPG Maker layout', () => {
+      const result = jsonSerializer.serialize({ gameTitle: 'Test' }, { layout: 'rpgmaker' });
+
+      expect(result.data).toBe('{"gameTitle":"Test"}');
+    });
+
+    it('should round-trip detected formats', () => {
+      const pretty = '[\r\n    null,\r\n    {\r\n        "id": 1\r\n    }\r\n]';
+      const format = jsonSerializer.detectFormat(pretty);
+      const result = jsonSerializer.serializeWithFormat(JSON.parse(pretty), format);
+
+      expect(result.data).toBe(pretty);
+    });
+  });
 });
 
 describe('ErrorPositionParser', () => {
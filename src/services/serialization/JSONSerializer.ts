@@ -16,17 +16,32 @@ import type {
   DeserializeOptions,
   ValidationResult,
   ValidationError,
+  JSONFormat,
+  JSONLayout,
+  LineEnding,
 } from './types';
 
 /**
  * Default serialization options
  */
-const DEFAULT_SERIALIZE_OPTIONS: Required<SerializeOptions> = {
+const DEFAULT_SERIALIZE_OPTIONS: Required<Omit<SerializeOptions, 'layout'>> = {
   pretty: true,
   indent: 2,
   sortKeys: false,
+  lineEnding: '\n',
 };
 
+/**
+ * Format used when nothing can be detected (matches the previous save behaviour)
+ */
+export const DEFAULT_JSON_FORMAT: Readonly<JSONFormat> = {
+  layout: 'pretty',
+  indent: 2,
+  lineEnding: '\n',
+};
+
+const LEADING_INDENT_REGEX = /^([ \t]+)\S/;
+
 /**
  * Parse a JSON syntax error to extract position information
  */
@@ -144,6 +159,26 @@ function sortObjectKeys(obj: unknown): unknown {
   return sorted;
 }
 
+/**
+ * Serialize in the RPG Maker editor layout:
+ * top-level arrays are written as one minified entry per line, everything else is minified
+ */
+function stringifyRPGMaker(data: unknown, lineEnding: LineEnding): string {
+  if (!Array.isArray(data)) {
+    return JSON.stringify(data);
+  }
+  if (data.length === 0) {
+    return '[]';
+  }
+
+  const lines: string[] = new Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    // JSON.stringify writes undefined array entries as null
+    lines[i] = JSON.stringify(data[i]) ?? 'null';
+  }
+  return `[${lineEnding}${lines.join(`,${lineEnding}`)}${lineEnding}]`;
+}
+
 /**
  * Check if an error is a circular reference error
  */
@@ -177,10 +212,18 @@ export class JSONSerializer {
       // Sort keys if requested
       const processedData = opts.sortKeys ? sortObjectKeys(data) : data;
 
-      // Serialize with or without pretty printing
-      const json = opts.pretty
-        ? JSON.stringify(processedData, null, opts.indent)
-        : JSON.stringify(processedData);
+      const layout: JSONLayout = opts.layout ?? (opts.pretty ? 'pretty' : 'minified');
+      let json: string;
+      if (layout === 'rpgmaker') {
+        json = stringifyRPGMaker(processedData, opts.lineEnding);
+      } else if (layout === 'pretty') {
+        json = JSON.stringify(processedData, null, opts.indent);
+        if (opts.lineEnding !== '\n') {
+          json = json.replace(/\n/g, opts.lineEnding);
+        }
+      } else {
+        json = JSON.stringify(processedData);
+      }
 
       return { success: true, data: json };
     } catch (error) {
@@ -226,6 +269,49 @@ export class JSONSerializer {
     }
   }
 
+  /**
+   * Detect the layout of a JSON file so it can be reproduced on save
+   * @param json - Original file content
+   * @returns Detected format, falls back to DEFAULT_JSON_FORMAT for empty input
+   */
+  detectFormat(json: string): JSONFormat {
+    const content = json.trim();
+    if (!content) {
+      return { ...DEFAULT_JSON_FORMAT };
+    }
+
+    const lineEnding: LineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    if (lines.length === 1) {
+      return { layout: 'minified', indent: DEFAULT_JSON_FORMAT.indent, lineEnding };
+    }
+
+    // Indented lines mean a pretty-printed file; RPG Maker never indents its entries
+    for (let i = 1; i < lines.length; i++) {
+      const match = LEADING_INDENT_REGEX.exec(lines[i]);
+      if (match) {
+        const indent = match[1].includes('\t') ? DEFAULT_JSON_FORMAT.indent : match[1].length;
+        return { layout: 'pretty', indent, lineEnding };
+      }
+    }
+
+    return { layout: 'rpgmaker', indent: DEFAULT_JSON_FORMAT.indent, lineEnding };
+  }
+
+  /**
+   * Serialize data using a detected or configured file format
+   * @param data - Data to serialize
+   * @param format - Target format
+   * @returns Serialization result with JSON string or error
+   */
+  serializeWithFormat<T>(data: T, format: JSONFormat): SerializationResult<string> {
+    return this.serialize(data, {
+      layout: format.layout,
+      indent: format.indent,
+      lineEnding: format.lineEnding,
+    });
+  }
+
   /**
    * Validate JSON string without fully parsing
    * @param json - JSON string to validate
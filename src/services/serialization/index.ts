@@ -5,7 +5,8 @@
  * Requirements: 11.1, 11.2, 11.3, 11.4
  */
 
-export { JSONSerializer, jsonSerializer } from './JSONSerializer';
+export { JSONSerializer, jsonSerializer, DEFAULT_JSON_FORMAT } from './JSONSerializer';
+export { FileFormatRegistry } from './FileFormatRegistry';
 export {
   JSONSerializationError,
   ErrorPositionParser,
@@ -21,4 +22,7 @@ export type {
   DeserializeOptions,
   ValidationResult,
   ValidationError,
+  JSONLayout,
+  JSONFormat,
+  LineEnding,
 } from './types';
@@ -44,6 +44,27 @@ export type SerializationErrorCode =
   | 'CIRCULAR_REFERENCE'
   | 'UNKNOWN_ERROR';
 
+/**
+ * JSON file layout
+ * - rpgmaker: the RPG Maker editor layout, one compact entry per line for top-level arrays
+ * - minified: everything on a single line
+ * - pretty: indented with `indent` spaces
+ */
+export type JSONLayout = 'rpgmaker' | 'minified' | 'pretty';
+
+/** Line ending used when writing a file */
+export type LineEnding = '\n' | '\r\n';
+
+/**
+ * Layout information detected from (or applied to) a JSON file
+ */
+export interface JSONFormat {
+  layout: JSONLayout;
+  /** Indentation spaces, only used by the pretty layout */
+  indent: number;
+  lineEnding: LineEnding;
+}
+
 /**
  * Options for JSON serialization
  */
@@ -54,6 +75,10 @@ export interface SerializeOptions {
   indent?: number;
   /** Sort object keys alphabetically (default: false) */
   sortKeys?: boolean;
+  /** Output layout, overrides `pretty` when set */
+  layout?: JSONLayout;
+  /** Line ending for multi-line layouts (default: '\n') */
+  lineEnding?: LineEnding;
 }
 
 /**
@@ -142,6 +142,7 @@ export interface HistoryEntry {
   target: string;
   previousValue: unknown;
   newValue: unknown;
+  label?: string;
 }
 
 // Editor config
@@ -151,6 +152,10 @@ export interface EditorConfig {
   scriptPath?: string;
   imagePath?: string;
   workspacePath?: string;
+  /** 通过“打开项目”选择的 RPG Maker 项目根目录 */
+  projectPath?: string;
+  /** 每个文件保留的自动备份数量，0 表示关闭自动备份 */
+  backupRetention?: number;
 
   workspaceRoot: string;
   recentFiles: string[];
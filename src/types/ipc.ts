@@ -1,3 +1,40 @@
+/** 自动备份（位于数据文件同目录的 .rpgeditor-backups/ 中） */
+export interface BackupEntry {
+  backupPath: string;
+  fileName: string;
+  /** 备份时间（毫秒时间戳） */
+  timestamp: number;
+  size: number;
+}
+
+/** 被监听文件的外部修改通知 */
+export interface ExternalFileChange {
+  filePath: string;
+  /** 磁盘上的新内容 */
+  content: string;
+  /** 编辑器最后一次读写的内容，文件此前不存在时为 null */
+  previousContent: string | null;
+}
+
+/** 项目 data 目录中的数据文件 */
+export interface ProjectDataFile {
+  fileName: string;
+  filePath: string;
+  /** 数组文件中的有效条目数，地图与非数组文件为 null */
+  itemCount: number | null;
+}
+
+/** 扫描得到的 RPG Maker MV/MZ 项目信息 */
+export interface ProjectInfo {
+  rootPath: string;
+  engine: 'MZ' | 'MV' | 'unknown';
+  dataPath: string;
+  scriptPath: string;
+  imagePath: string;
+  workspacePath: string;
+  dataFiles: ProjectDataFile[];
+}
+
 /**
  * Type-safe IPC Channel Definitions
  * 
@@ -106,6 +143,10 @@ export interface IPCChannels {
   'file:list-directory': { args: [path: string]; return: string[] };
   'file:exists': { args: [path: string]; return: boolean };
   'file:read-image': { args: [path: string]; return: string };
+  'file:list-backups': { args: [path: string]; return: BackupEntry[] };
+  'file:restore-backup': { args: [backupPath: string, path: string]; return: boolean };
+  'project:scan': { args: [rootPath: string]; return: ProjectInfo | null };
+  'file:set-watched': { args: [paths: string[]]; return: boolean };
 
   // Config operations
   'config:load': { args: []; return: EditorConfig };
@@ -148,6 +189,7 @@ export interface IPCChannels {
  */
 export interface IPCEventChannels {
   'file-loaded': { fileName: string; filePath: string; content: string };
+  'project-opened': ProjectInfo;
   'set-data-path': string;
   'set-script-path': string;
   'set-workspace-path': string;
@@ -155,6 +197,8 @@ export interface IPCEventChannels {
   'save-settings': void;
   'switch-mode': 'script' | 'property' | 'note' | 'projectile' | 'quest';
   'show-history-files': void;
+  'show-backup-restore': void;
+  'file-changed-externally': ExternalFileChange;
   'toggle-theme-settings': void;
   'toggle-sidebar': void;
   'fullscreen-changed': boolean;
@@ -164,6 +208,10 @@ export interface IPCEventChannels {
   'update:error': string;
   'update:no-update-available': { currentVersion?: string };
   'open-path-settings': void;
+  'history-undo': void;
+  'history-redo': void;
+  'show-edit-history': void;
+  'app-close-requested': void;
 }
 
 /**
@@ -0,0 +1,23 @@
+/**
+ * Base Attributes - 基础属性
+ * 条目 params 数组中八项基础属性的键、名称与下标
+ */
+
+/** 基础属性配置 */
+export interface BaseAttribute {
+  key: string;
+  label: string;
+  index: number;
+}
+
+/** 基础属性配置 - 完全对应oldCode/main.js */
+export const BASE_ATTRIBUTES: readonly BaseAttribute[] = [
+  { key: 'mhp', label: '最大生命值', index: 0 },
+  { key: 'mmp', label: '最大魔法值', index: 1 },
+  { key: 'atk', label: '攻击力', index: 2 },
+  { key: 'def', label: '防御力', index: 3 },
+  { key: 'mat', label: '魔法攻击力', index: 4 },
+  { key: 'mdf', label: '魔法防御力', index: 5 },
+  { key: 'agi', label: '速度', index: 6 },
+  { key: 'luk', label: '幸运', index: 7 },
+];
@@ -0,0 +1,77 @@
+/**
+ * Custom Params - 自定义属性读写
+ * 条目的自定义属性保存在 customParams 对象中，旧数据使用 customAttributes 数组
+ */
+
+/** 自定义属性 */
+export interface CustomAttribute {
+  name: string;
+  value: number;
+  symbol: string;
+  floatValue: number;
+}
+
+/**
+ * 从项目中获取自定义属性，优先使用 customParams，兼容旧格式 customAttributes
+ */
+export function getCustomParams(item: Record<string, unknown>): CustomAttribute[] {
+  const result: CustomAttribute[] = [];
+  
+  // 优先使用 customParams
+  if (item.customParams && typeof item.customParams === 'object') {
+    const customParams = item.customParams as Record<string, { value?: number; symbol?: string; floatValue?: number }>;
+    const entries = Object.entries(customParams);
+    
+    for (let i = 0; i < entries.length; i++) {
+      const [name, payload] = entries[i];
+      result.push({
+        name,
+        value: payload?.value ?? 0,
+        symbol: payload?.symbol ?? '',
+        floatValue: payload?.floatValue ?? 0,
+      });
+    }
+    return result;
+  }
+  
+  // 兼容旧格式 customAttributes
+  if (Array.isArray(item.customAttributes)) {
+    const customAttributes = item.customAttributes as Array<{ name?: string; value?: number; symbol?: string; floatValue?: number }>;
+    
+    for (let i = 0; i < customAttributes.length; i++) {
+      const attr = customAttributes[i];
+      if (attr && attr.name) {
+        result.push({
+          name: attr.name,
+          value: attr.value ?? 0,
+          symbol: attr.symbol ?? '',
+          floatValue: attr.floatValue ?? 0,
+        });
+      }
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * 设置自定义属性的数值；旧格式条目原地修改 customAttributes，其余写入 customParams
+ */
+export function setCustomParamValue(item: Record<string, unknown>, name: string, value: number): void {
+  if (!item.customParams && Array.isArray(item.customAttributes)) {
+    const customAttributes = item.customAttributes as Array<{ name?: string; value?: number; symbol?: string; floatValue?: number }>;
+    const attr = customAttributes.find((entry) => entry?.name === name);
+    if (attr) {
+      attr.value = value;
+    } else {
+      customAttributes.push({ name, value, symbol: '', floatValue: 0 });
+    }
+    return;
+  }
+
+  if (!item.customParams || typeof item.customParams !== 'object') {
+    item.customParams = {};
+  }
+  const customParams = item.customParams as Record<string, { value?: number; symbol?: string; floatValue?: number }>;
+  customParams[name] = { symbol: '', floatValue: 0, ...customParams[name], value };
+}
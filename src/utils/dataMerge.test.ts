@@ -0,0 +1,43 @@
+/**
+ * Data Merge Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeDataArrays } from './dataMerge';
+
+type Entry = { id: number; name: string } | null;
+
+const base: Entry[] = [null, { id: 1, name: 'Potion' }, { id: 2, name: 'Ether' }, { id: 3, name: 'Elixir' }];
+
+describe('mergeDataArrays', () => {
+  it('should take entries changed on only one side', () => {
+    const mine: Entry[] = [null, { id: 1, name: 'Hi-Potion' }, { id: 2, name: 'Ether' }, { id: 3, name: 'Elixir' }];
+    const theirs: Entry[] = [null, { id: 1, name: 'Potion' }, { id: 2, name: 'Ether' }, { id: 3, name: 'Megalixir' }, { id: 4, name: 'Tent' }];
+
+    const result = mergeDataArrays(base, mine, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.theirsApplied).toEqual([3, 4]);
+    expect(result.merged.map((entry) => entry?.name ?? null)).toEqual([null, 'Hi-Potion', 'Ether', 'Megalixir', 'Tent']);
+  });
+
+  it('should report conflicts and resolve them per item', () => {
+    const mine: Entry[] = [null, { id: 1, name: 'Hi-Potion' }, { id: 2, name: 'Turbo Ether' }, { id: 3, name: 'Elixir' }];
+    const theirs: Entry[] = [null, { id: 1, name: 'Hi-Potion' }, { id: 2, name: 'Dry Ether' }, { id: 3, name: 'Elixir' }];
+
+    const result = mergeDataArrays(base, mine, theirs);
+    expect(result.conflicts.map((conflict) => conflict.index)).toEqual([2]);
+    expect(result.merged[2]?.name).toBe('Turbo Ether');
+
+    const resolved = mergeDataArrays(base, mine, theirs, { 2: 'theirs' });
+    expect(resolved.merged[2]?.name).toBe('Dry Ether');
+    expect(resolved.merged[1]?.name).toBe('Hi-Potion');
+  });
+
+  it('should drop trailing entries removed on one side only when the other kept them unchanged', () => {
+    const mine: Entry[] = base.slice(0, 3);
+    const theirs: Entry[] = base.slice();
+
+    expect(mergeDataArrays(base, mine, theirs).merged).toHaveLength(3);
+  });
+});
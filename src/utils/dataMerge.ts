@@ -0,0 +1,73 @@
+/**
+ * Data Merge - 数据数组的三方合并
+ * 以编辑器最后一次读写的内容为基准，按条目合并"我的修改"与磁盘上的外部修改
+ */
+
+/** 冲突条目的取舍 */
+export type MergeSide = 'mine' | 'theirs';
+
+/** 双方都修改了的条目 */
+export interface MergeConflict<T> {
+  index: number;
+  mine: T | undefined;
+  theirs: T | undefined;
+}
+
+/** 合并结果 */
+export interface DataMergeResult<T> {
+  merged: T[];
+  /** 双方都修改且结果不同的条目，未指定取舍时保留我的修改 */
+  conflicts: MergeConflict<T>[];
+  /** 采用了外部修改的条目索引（不含冲突） */
+  theirsApplied: number[];
+}
+
+function isSameEntry(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === undefined || b === undefined) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 三方合并数据数组
+ * - 只有一方修改的条目直接采用该方的值
+ * - 双方修改结果相同的条目不算冲突
+ * - 双方修改结果不同的条目记为冲突，按 choices 取舍，默认保留我的修改
+ */
+export function mergeDataArrays<T>(
+  base: readonly T[],
+  mine: readonly T[],
+  theirs: readonly T[],
+  choices: Readonly<Record<number, MergeSide>> = {}
+): DataMergeResult<T> {
+  const length = Math.max(base.length, mine.length, theirs.length);
+  const merged: (T | undefined)[] = new Array(length);
+  const conflicts: MergeConflict<T>[] = [];
+  const theirsApplied: number[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const baseEntry = base[i];
+    const mineEntry = mine[i];
+    const theirsEntry = theirs[i];
+
+    if (isSameEntry(mineEntry, theirsEntry) || isSameEntry(theirsEntry, baseEntry)) {
+      merged[i] = mineEntry;
+    } else if (isSameEntry(mineEntry, baseEntry)) {
+      merged[i] = theirsEntry;
+      theirsApplied.push(i);
+    } else {
+      conflicts.push({ index: i, mine: mineEntry, theirs: theirsEntry });
+      merged[i] = choices[i] === 'theirs' ? theirsEntry : mineEntry;
+    }
+  }
+
+  // 去掉双方删除后留下的尾部空位，中间的空位以 null 占位
+  let end = length;
+  while (end > 0 && merged[end - 1] === undefined) end--;
+  merged.length = end;
+  for (let i = 0; i < end; i++) {
+    if (merged[i] === undefined) merged[i] = null as T;
+  }
+
+  return { merged: merged as T[], conflicts, theirsApplied };
+}
@@ -20,6 +20,13 @@ export * from './runner';
 // 元数据解析工具 (Requirements: 2.1, 2.4, 2.5, 2.6)
 export * from './metaDataExtractor';
 
+// 消息控制字符解析
+export * from './messageCodes';
+
+// 基础属性与自定义属性读写
+export * from './baseAttributes';
+export * from './customParams';
+
 // 全局动画循环 (Requirements: 1.1)
 export * from './globalLoop';
 
@@ -0,0 +1,94 @@
+/**
+ * messageCodes 测试
+ * 验证控制字符的解析、字号变化与行宽计算
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyFontSizeToken,
+  getIconFrame,
+  getWindowTextColorPosition,
+  measureMessageLine,
+  parseMessageLine,
+  parseMessageText,
+} from './messageCodes';
+
+describe('parseMessageLine', () => {
+  it('解析颜色、图标、变量与角色名', () => {
+    expect(parseMessageLine('\\C[2]火焰\\C[0]伤害 \\I[64]x\\V[10] by \\N[1]\\G')).toEqual([
+      { type: 'color', index: 2 },
+      { type: 'text', text: '火焰' },
+      { type: 'color', index: 0 },
+      { type: 'text', text: '伤害 ' },
+      { type: 'icon', index: 64 },
+      { type: 'text', text: 'x' },
+      { type: 'variable', id: 10 },
+      { type: 'text', text: ' by ' },
+      { type: 'actor', id: 1 },
+      { type: 'currency' },
+    ]);
+  });
+
+  it('控制字符不区分大小写，\\\\ 显示为反斜杠', () => {
+    expect(parseMessageLine('\\c[3]a\\\\b')).toEqual([
+      { type: 'color', index: 3 },
+      { type: 'text', text: 'a\\b' },
+    ]);
+  });
+
+  it('识别字号与不显示的控制字符，保留插件控制字符', () => {
+    expect(parseMessageLine('\\{大\\}\\.\\PX[10]\\FS[20]\\HP[3]')).toEqual([
+      { type: 'fontSize', delta: 1 },
+      { type: 'text', text: '大' },
+      { type: 'fontSize', delta: -1 },
+      { type: 'code', code: '.', known: true },
+      { type: 'code', code: 'PX[10]', known: true },
+      { type: 'fontSize', size: 20 },
+      { type: 'code', code: 'HP', known: false },
+      { type: 'text', text: '[3]' },
+    ]);
+  });
+
+  it('按行解析并保留行尾的反斜杠', () => {
+    expect(parseMessageText('a\\\nb')).toEqual([
+      [{ type: 'text', text: 'a\\' }],
+      [{ type: 'text', text: 'b' }],
+    ]);
+  });
+});
+
+describe('measureMessageLine', () => {
+  const measureText = (text: string, fontSize: number) => text.length * fontSize;
+
+  it('累计文字、图标与占位符宽度，并跟随字号变化', () => {
+    const tokens = parseMessageLine('ab\\I[1]\\{c\\V[1]');
+    const width = measureMessageLine(tokens, { fontSize: 10, iconAdvance: 36, measureText });
+    expect(width).toBe(2 * 10 + 36 + 22 + 4 * 22);
+  });
+
+  it('使用自定义占位符文本', () => {
+    const tokens = parseMessageLine('\\N[1]');
+    const width = measureMessageLine(tokens, {
+      fontSize: 10,
+      iconAdvance: 36,
+      measureText,
+      resolvePlaceholder: () => 'Harold',
+    });
+    expect(width).toBe(60);
+  });
+
+  it('字号变化有上下限', () => {
+    expect(applyFontSizeToken(96, { type: 'fontSize', delta: 1 })).toBe(108);
+    expect(applyFontSizeToken(108, { type: 'fontSize', delta: 1 })).toBe(108);
+    expect(applyFontSizeToken(20, { type: 'fontSize', delta: -1 })).toBe(20);
+    expect(applyFontSizeToken(26, { type: 'fontSize', size: 0 })).toBe(26);
+  });
+});
+
+describe('图片坐标', () => {
+  it('计算文字颜色取色点与图标区域', () => {
+    expect(getWindowTextColorPosition(0)).toEqual({ x: 102, y: 150 });
+    expect(getWindowTextColorPosition(10)).toEqual({ x: 126, y: 162 });
+    expect(getIconFrame(17, 32)).toEqual({ x: 32, y: 32, width: 32, height: 32 });
+  });
+});
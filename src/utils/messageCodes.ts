@@ -0,0 +1,231 @@
+/**
+ * MessageCodes - 消息控制字符解析工具
+ *
+ * 按游戏消息窗口（Window_Base.drawTextEx）的规则解析 \C[n]、\I[n]、\V[n]、\N[n] 等控制字符，
+ * 供描述预览渲染与行宽计算使用
+ */
+
+/**
+ * 消息片段
+ */
+export type MessageToken =
+  | { type: 'text'; text: string }
+  /** \C[n] 切换文字颜色 */
+  | { type: 'color'; index: number }
+  /** \I[n] 绘制图标 */
+  | { type: 'icon'; index: number }
+  /** \V[n] 变量值 */
+  | { type: 'variable'; id: number }
+  /** \N[n] 角色名 */
+  | { type: 'actor'; id: number }
+  /** \P[n] 队伍成员名 */
+  | { type: 'party'; index: number }
+  /** \G 货币单位 */
+  | { type: 'currency' }
+  /** \{ \} 放大 / 缩小字号，\FS[n] 设置字号 */
+  | { type: 'fontSize'; delta: number }
+  | { type: 'fontSize'; size: number }
+  /** 不影响显示的控制字符（\$ \. \| \! \> \< \^ \PX[n] \PY[n]）与插件自定义的控制字符 */
+  | { type: 'code'; code: string; known: boolean };
+
+/**
+ * 行宽计算参数
+ */
+export interface MessageLayoutOptions {
+  /** 默认字号 */
+  fontSize: number;
+  /** 图标占用宽度（图标宽度 + 间距） */
+  iconAdvance: number;
+  /** 测量文字宽度 */
+  measureText: (text: string, fontSize: number) => number;
+  /** 占位符（变量、角色名等）显示的文本 */
+  resolvePlaceholder?: (token: MessageToken) => string;
+}
+
+// 与 Window_Base.obtainEscapeCode 相同：单个符号或连续字母
+const ESCAPE_CODE_REGEXP = /^[$.|^!><{}\\]|^[A-Z]+/i;
+const ESCAPE_PARAM_REGEXP = /^\[(\d+)\]/;
+
+/** 不影响文字显示的内置控制字符 */
+const SILENT_CODES = new Set(['$', '.', '|', '!', '>', '<', '^', 'PX', 'PY']);
+
+/** 字号调整范围与步长（Window_Base.makeFontBigger / makeFontSmaller） */
+const FONT_SIZE_STEP = 12;
+const MAX_BIGGER_FONT_SIZE = 96;
+const MIN_SMALLER_FONT_SIZE = 24;
+
+/**
+ * 解析一行消息文本
+ */
+export function parseMessageLine(line: string): MessageToken[] {
+  const tokens: MessageToken[] = [];
+  let text = '';
+  const flushText = () => {
+    if (text) {
+      tokens.push({ type: 'text', text });
+      text = '';
+    }
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const ch = line[i];
+    if (ch !== '\\') {
+      text += ch;
+      i++;
+      continue;
+    }
+
+    const codeMatch = ESCAPE_CODE_REGEXP.exec(line.slice(i + 1));
+    if (!codeMatch) {
+      // 行尾或无法识别的反斜杠按原文显示
+      text += ch;
+      i++;
+      continue;
+    }
+    const code = codeMatch[0].toUpperCase();
+    i += 1 + codeMatch[0].length;
+
+    if (code === '\\') {
+      text += '\\';
+      continue;
+    }
+
+    const paramMatch = ESCAPE_PARAM_REGEXP.exec(line.slice(i));
+    const param = paramMatch ? parseInt(paramMatch[1], 10) : null;
+    const consumeParam = () => {
+      if (paramMatch) i += paramMatch[0].length;
+    };
+
+    flushText();
+    switch (code) {
+      case 'C':
+        consumeParam();
+        tokens.push({ type: 'color', index: param ?? 0 });
+        break;
+      case 'I':
+        consumeParam();
+        tokens.push({ type: 'icon', index: param ?? 0 });
+        break;
+      case 'V':
+        consumeParam();
+        tokens.push({ type: 'variable', id: param ?? 0 });
+        break;
+      case 'N':
+        consumeParam();
+        tokens.push({ type: 'actor', id: param ?? 0 });
+        break;
+      case 'P':
+        consumeParam();
+        tokens.push({ type: 'party', index: param ?? 0 });
+        break;
+      case 'G':
+        tokens.push({ type: 'currency' });
+        break;
+      case '{':
+        tokens.push({ type: 'fontSize', delta: 1 });
+        break;
+      case '}':
+        tokens.push({ type: 'fontSize', delta: -1 });
+        break;
+      case 'FS':
+        consumeParam();
+        tokens.push({ type: 'fontSize', size: param ?? 0 });
+        break;
+      default: {
+        const known = SILENT_CODES.has(code);
+        if (known) consumeParam();
+        tokens.push({ type: 'code', code: known && paramMatch ? `${code}${paramMatch[0]}` : code, known });
+      }
+    }
+  }
+
+  flushText();
+  return tokens;
+}
+
+/**
+ * 解析多行消息文本，每行一个片段数组
+ */
+export function parseMessageText(text: string): MessageToken[][] {
+  return text.split(/\r?\n/).map(parseMessageLine);
+}
+
+/**
+ * 应用字号控制字符后的字号
+ */
+export function applyFontSizeToken(current: number, token: Extract<MessageToken, { type: 'fontSize' }>): number {
+  if ('size' in token) return token.size > 0 ? token.size : current;
+  if (token.delta > 0) return current <= MAX_BIGGER_FONT_SIZE ? current + FONT_SIZE_STEP : current;
+  return current >= MIN_SMALLER_FONT_SIZE ? current - FONT_SIZE_STEP : current;
+}
+
+/**
+ * 占位符的默认显示文本
+ */
+export function getPlaceholderText(token: MessageToken): string {
+  switch (token.type) {
+    case 'variable':
+      return `V[${token.id}]`;
+    case 'actor':
+      return `N[${token.id}]`;
+    case 'party':
+      return `P[${token.index}]`;
+    case 'currency':
+      return 'G';
+    default:
+      return '';
+  }
+}
+
+/**
+ * 计算一行消息的显示宽度
+ */
+export function measureMessageLine(tokens: readonly MessageToken[], options: MessageLayoutOptions): number {
+  const resolve = options.resolvePlaceholder ?? getPlaceholderText;
+  let fontSize = options.fontSize;
+  let width = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    switch (token.type) {
+      case 'text':
+        width += options.measureText(token.text, fontSize);
+        break;
+      case 'icon':
+        width += options.iconAdvance;
+        break;
+      case 'fontSize':
+        fontSize = applyFontSizeToken(fontSize, token);
+        break;
+      case 'variable':
+      case 'actor':
+      case 'party':
+      case 'currency':
+        width += options.measureText(resolve(token), fontSize);
+        break;
+    }
+  }
+  return width;
+}
+
+/**
+ * Window.png 中文字颜色 n 的取色坐标（Window_Base.textColor）
+ */
+export function getWindowTextColorPosition(index: number): { x: number; y: number } {
+  return {
+    x: 96 + (index % 8) * 12 + 6,
+    y: 144 + Math.floor(index / 8) * 12 + 6,
+  };
+}
+
+/**
+ * IconSet.png 中图标 n 的裁剪区域，每行 16 个图标
+ */
+export function getIconFrame(index: number, iconSize: number): { x: number; y: number; width: number; height: number } {
+  return {
+    x: (index % 16) * iconSize,
+    y: Math.floor(index / 16) * iconSize,
+    width: iconSize,
+    height: iconSize,
+  };
+}
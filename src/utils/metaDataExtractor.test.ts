@@ -0,0 +1,79 @@
+/**
+ * metaDataExtractor 编辑函数测试
+ * 验证按位置替换、删除、排序、追加标签时保留标签外的文本，按类型解析编辑器输入，以及块标签的解析与往返
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  appendMetaTag,
+  extractMetaData,
+  locateMetaTags,
+  moveMetaTag,
+  parseMetaTags,
+  parseMetaValueInput,
+  removeMetaTag,
+  removeMetaTagAt,
+  replaceMetaTagAt,
+  serializeMetaTags,
+  updateMetaTag,
+} from './metaDataExtractor';
+
+const NOTE = '说明文字\n<Boss>\n<Tier:2> 行尾注释\n<Drops:{"id":3}>';
+
+describe('metaDataExtractor editing', () => {
+  it('locates tags in order with their positions', () => {
+    const tags = locateMetaTags(NOTE);
+    expect(tags.map((tag) => tag.name)).toEqual(['Boss', 'Tier', 'Drops']);
+    expect(NOTE.slice(tags[1].start, tags[1].end)).toBe('<Tier:2>');
+    expect(tags[2].value).toEqual({ id: 3 });
+  });
+
+  it('replaces, removes and appends tags without touching other text', () => {
+    expect(replaceMetaTagAt(NOTE, 1, { name: 'Tier', value: 3 })).toBe('说明文字\n<Boss>\n<Tier:3> 行尾注释\n<Drops:{"id":3}>');
+    expect(removeMetaTagAt(NOTE, 0)).toBe('说明文字\n<Tier:2> 行尾注释\n<Drops:{"id":3}>');
+    expect(removeMetaTagAt(NOTE, 2)).toBe('说明文字\n<Boss>\n<Tier:2> 行尾注释');
+    expect(removeMetaTagAt(NOTE, 9)).toBe(NOTE);
+    expect(appendMetaTag('', { name: 'Boss', value: true })).toBe('<Boss>');
+    expect(appendMetaTag('说明', { name: 'Name', value: '史莱姆' })).toBe('说明\n<Name:史莱姆>');
+  });
+
+  it('reorders tags in place', () => {
+    expect(moveMetaTag(NOTE, 2, 0)).toBe('说明文字\n<Drops:{"id":3}>\n<Boss> 行尾注释\n<Tier:2>');
+    expect(moveMetaTag(NOTE, 0, 5)).toBe(NOTE);
+  });
+
+  it('parses typed values and rejects ones that would not round-trip', () => {
+    expect(parseMetaValueInput('boolean', false)).toEqual({ ok: true, value: false });
+    expect(parseMetaValueInput('number', ' 1.5 ')).toEqual({ ok: true, value: 1.5 });
+    expect(parseMetaValueInput('json', '[1, 2]')).toEqual({ ok: true, value: [1, 2] });
+    expect(parseMetaValueInput('number', 'abc').ok).toBe(false);
+    expect(parseMetaValueInput('string', '12').ok).toBe(false);
+    expect(parseMetaValueInput('string', 'a>b').ok).toBe(false);
+    expect(parseMetaValueInput('json', '"text"').ok).toBe(false);
+  });
+
+  it('parses block tags with key: value bodies and free text', () => {
+    const note = '<Stats>\nhp: 100\nname: 史莱姆\n</Stats>\n<Custom Apply Effect>\nif (a < b) {\n  user.gainHp(5);\n}\n</Custom Apply Effect>\n<Tier:2></Orphan>';
+    const tags = parseMetaTags(note);
+    expect(tags.map((tag) => tag.name)).toEqual(['Stats', 'Custom Apply Effect', 'Tier']);
+    expect(tags[0].value).toEqual({ hp: 100, name: '史莱姆' });
+    expect(tags[1].value).toBe('if (a < b) {\n  user.gainHp(5);\n}');
+    expect(tags[2].body).toBeUndefined();
+    expect(extractMetaData(note).Stats).toEqual({ hp: 100, name: '史莱姆' });
+
+    // 往返保持原文
+    expect(parseMetaTags(serializeMetaTags(tags))).toEqual(tags);
+    expect(serializeMetaTags(tags.slice(0, 1))).toBe('<Stats>\nhp: 100\nname: 史莱姆\n</Stats>');
+  });
+
+  it('updates and removes block tags as a whole', () => {
+    const note = '说明\n<Stats>\nhp: 100\n</Stats>';
+    expect(updateMetaTag(note, 'Stats', { hp: 120, mp: 5 })).toBe('说明\n<Stats>\nhp: 120\nmp: 5\n</Stats>');
+    expect(updateMetaTag(note, 'Stats', 3)).toBe('说明\n<Stats:3>');
+    expect(removeMetaTag(note, 'Stats')).toBe('说明\n');
+    expect(removeMetaTagAt(note, 0)).toBe('说明');
+
+    const result = parseMetaValueInput('block', 'hp: 1\n');
+    expect(result).toEqual({ ok: true, value: { hp: 1 }, body: '\nhp: 1\n' });
+  });
+});
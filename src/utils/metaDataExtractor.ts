@@ -12,6 +12,11 @@
 export interface MetaTag {
   name: string;
   value: string | number | boolean | object | unknown[];
+  /**
+   * 块标签 <name>...</name> 开闭标签之间的原始文本，序列化时原样写回
+   * 为 undefined 表示普通标签
+   */
+  body?: string;
 }
 
 /**
@@ -27,8 +32,32 @@ export interface ParseResult {
   tags: MetaTag[];
 }
 
+/**
+ * 标签及其在 note 中的位置
+ */
+export interface MetaTagLocation extends MetaTag {
+  start: number;
+  end: number;
+}
+
+/**
+ * 标签值的编辑类型
+ */
+export type MetaValueType = 'boolean' | 'number' | 'string' | 'json' | 'block';
+
+/**
+ * 编辑器输入的解析结果
+ */
+export type MetaValueParseResult =
+  | { ok: true; value: MetaTag['value']; body?: string }
+  | { ok: false; error: string };
+
 // 预编译正则表达式，避免运行时重复创建
-const META_REGEXP = /<([^<>:]+)(:?)([^>]*)>/g;
+// 优先匹配块标签 <name>...</name>（分组 1、2），其次为普通标签 <name> / <name:value>（分组 3、4、5）
+// 标签名不能以 / 开头，避免把孤立的闭合标签识别为布尔标签
+const META_REGEXP = /<([^<>:/][^<>:]*)>([\s\S]*?)<\/\1>|<([^<>:/][^<>:]*)(:?)([^>]*)>/g;
+const BLOCK_LINE_REGEXP = /^([^:]+):(.*)$/;
+const LINE_BREAK_REGEXP = /\r?\n/;
 const INT_REGEXP = /^-?\d+$/;
 const FLOAT_REGEXP = /^-?\d+\.\d+$/;
 
@@ -99,12 +128,67 @@ export function parseValue(value: unknown): MetaTag['value'] {
   return value as MetaTag['value'];
 }
 
+/**
+ * 解析块标签内容：每个非空行都是 key: value 时返回对象，否则返回去掉首尾换行的原文
+ */
+export function parseBlockBody(body: string): MetaTag['value'] {
+  const lines = body.split(LINE_BREAK_REGEXP);
+  const entries: Record<string, MetaTag['value']> = {};
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const match = BLOCK_LINE_REGEXP.exec(line);
+    if (!match) {
+      return getBlockBodyInput(body);
+    }
+    entries[match[1].trim()] = parseValue(match[2].trim());
+  }
+  return entries;
+}
+
+/**
+ * 块标签内容在编辑器中的文本：去掉开闭标签各自所在行的换行
+ */
+export function getBlockBodyInput(body: string): string {
+  return body.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+}
+
+/**
+ * 将值写成块标签内容：对象逐行写为 key: value，其余写为文本
+ */
+export function formatBlockBody(value: MetaTag['value']): string {
+  let text: string;
+  if (isObject(value)) {
+    text = Object.keys(value)
+      .map((key) => {
+        const item = value[key];
+        return `${key}: ${typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)}`;
+      })
+      .join('\n');
+  } else {
+    text = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  return `\n${text}\n`;
+}
+
+/**
+ * 将匹配结果转为标签
+ */
+function matchToTag(match: RegExpMatchArray): MetaTag {
+  if (match[1] !== undefined) {
+    return { name: match[1], value: parseBlockBody(match[2]), body: match[2] };
+  }
+  // 如果有冒号，解析值；否则设为 true
+  return { name: match[3], value: match[4] === ':' ? parseValue(match[5]) : true };
+}
+
 /**
  * 从 note 字符串中解析元数据标签
  * 
  * 标签格式:
  * - 布尔标签: <tagName> -> { name: 'tagName', value: true }
  * - 值标签: <tagName:value> -> { name: 'tagName', value: parsedValue }
+ * - 块标签: <tagName>...</tagName> -> { name: 'tagName', value: parseBlockBody(body), body }
  * 
  * @param note - 包含元数据标签的字符串
  * @returns 解析后的标签数组
@@ -118,17 +202,7 @@ export function parseMetaTags(note: string): MetaTag[] {
   
   // 使用 matchAll 遍历所有匹配的标签
   for (const match of note.matchAll(META_REGEXP)) {
-    const tagName = match[1];
-    const hasColon = match[2] === ':';
-    const tagValue = match[3];
-    
-    // 如果有冒号，解析值；否则设为 true
-    const value = hasColon ? parseValue(tagValue) : true;
-    
-    tags.push({
-      name: tagName,
-      value
-    });
+    tags.push(matchToTag(match));
   }
   
   return tags;
@@ -149,12 +223,8 @@ export function extractMetaData(note: string): MetaData {
   
   // 使用 matchAll 遍历所有匹配的标签
   for (const match of note.matchAll(META_REGEXP)) {
-    const tagName = match[1];
-    const hasColon = match[2] === ':';
-    const tagValue = match[3];
-    
-    // 如果有冒号，解析值；否则设为 true
-    meta[tagName] = hasColon ? parseValue(tagValue) : true;
+    const tag = matchToTag(match);
+    meta[tag.name] = tag.value;
   }
   
   return meta;
@@ -163,8 +233,12 @@ export function extractMetaData(note: string): MetaData {
 /**
  * 将单个标签序列化为字符串
  */
-function serializeTag(tag: MetaTag): string {
-  const { name, value } = tag;
+export function serializeTag(tag: MetaTag): string {
+  const { name, value, body } = tag;
+  
+  if (body !== undefined) {
+    return `<${name}>${body}</${name}>`;
+  }
   
   if (value === true) {
     return `<${name}>`;
@@ -226,6 +300,7 @@ export function serializeMetaData(meta: MetaData): string {
 
 /**
  * 更新 note 字符串中的特定标签值
+ * 块标签在新值为对象或文本时保持块格式，内容按 key: value 逐行写入
  * 
  * @param note - 原始 note 字符串
  * @param tagName - 要更新的标签名
@@ -237,28 +312,34 @@ export function updateMetaTag(
   tagName: string,
   newValue: MetaTag['value']
 ): string {
+  const newTag: MetaTag = { name: tagName, value: newValue };
   if (!note || typeof note !== 'string') {
     // 如果没有原始内容，直接创建新标签
-    return serializeTag({ name: tagName, value: newValue });
+    return serializeTag(newTag);
   }
   
-  // 构建匹配特定标签的正则
-  const tagRegex = new RegExp(`<${escapeRegExp(tagName)}(:?)([^>]*)>`, 'g');
-  const newTag = serializeTag({ name: tagName, value: newValue });
-  
-  // 检查标签是否存在
-  if (tagRegex.test(note)) {
-    // 重置正则状态
-    tagRegex.lastIndex = 0;
-    return note.replace(tagRegex, newTag);
+  const locations = locateMetaTags(note).filter((tag) => tag.name === tagName);
+  if (locations.length === 0) {
+    // 标签不存在，追加到末尾
+    return note + serializeTag(newTag);
   }
   
-  // 标签不存在，追加到末尾
-  return note + newTag;
+  const keepBlock = typeof newValue === 'string' || isObject(newValue);
+  let result = '';
+  let cursor = 0;
+  for (let i = 0; i < locations.length; i++) {
+    const location = locations[i];
+    const tag = location.body !== undefined && keepBlock
+      ? { ...newTag, body: formatBlockBody(newValue) }
+      : newTag;
+    result += note.slice(cursor, location.start) + serializeTag(tag);
+    cursor = location.end;
+  }
+  return result + note.slice(cursor);
 }
 
 /**
- * 从 note 字符串中移除特定标签
+ * 从 note 字符串中移除特定标签（包括块标签及其内容）
  * 
  * @param note - 原始 note 字符串
  * @param tagName - 要移除的标签名
@@ -269,15 +350,162 @@ export function removeMetaTag(note: string, tagName: string): string {
     return '';
   }
   
-  const tagRegex = new RegExp(`<${escapeRegExp(tagName)}(:?)([^>]*)>`, 'g');
-  return note.replace(tagRegex, '');
+  let result = '';
+  let cursor = 0;
+  for (const location of locateMetaTags(note)) {
+    if (location.name !== tagName) continue;
+    result += note.slice(cursor, location.start);
+    cursor = location.end;
+  }
+  return result + note.slice(cursor);
 }
 
 /**
- * 转义正则表达式特殊字符
+ * 解析 note 中的标签并记录位置，顺序与 note 中一致
  */
-function escapeRegExp(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+export function locateMetaTags(note: string): MetaTagLocation[] {
+  if (!note || typeof note !== 'string') {
+    return [];
+  }
+
+  const tags: MetaTagLocation[] = [];
+  for (const match of note.matchAll(META_REGEXP)) {
+    const start = match.index ?? 0;
+    tags.push({ ...matchToTag(match), start, end: start + match[0].length });
+  }
+  return tags;
+}
+
+/**
+ * 替换第 index 个标签，标签外的文本保持不变
+ */
+export function replaceMetaTagAt(note: string, index: number, tag: MetaTag): string {
+  const location = locateMetaTags(note)[index];
+  if (!location) return note;
+  return note.slice(0, location.start) + serializeTag(tag) + note.slice(location.end);
+}
+
+/**
+ * 移除第 index 个标签，标签独占一行时连同换行一起移除
+ */
+export function removeMetaTagAt(note: string, index: number): string {
+  const location = locateMetaTags(note)[index];
+  if (!location) return note;
+  let { start, end } = location;
+  const lineStart = start === 0 || note[start - 1] === '\n';
+  if (lineStart && note[end] === '\n') {
+    end++;
+  } else if (lineStart && end === note.length && start > 0) {
+    start--;
+  }
+  return note.slice(0, start) + note.slice(end);
+}
+
+/**
+ * 调整标签顺序：标签在 note 中占据的位置不变，只交换各位置上的标签
+ */
+export function moveMetaTag(note: string, fromIndex: number, toIndex: number): string {
+  const locations = locateMetaTags(note);
+  if (!locations[fromIndex] || !locations[toIndex] || fromIndex === toIndex) return note;
+
+  const texts = locations.map((location) => note.slice(location.start, location.end));
+  const [moved] = texts.splice(fromIndex, 1);
+  texts.splice(toIndex, 0, moved);
+
+  let result = '';
+  let cursor = 0;
+  for (let i = 0; i < locations.length; i++) {
+    result += note.slice(cursor, locations[i].start) + texts[i];
+    cursor = locations[i].end;
+  }
+  return result + note.slice(cursor);
+}
+
+/**
+ * 在 note 末尾另起一行追加标签
+ */
+export function appendMetaTag(note: string, tag: MetaTag): string {
+  const text = typeof note === 'string' ? note : '';
+  const separator = text && !text.endsWith('\n') ? '\n' : '';
+  return text + separator + serializeTag(tag);
+}
+
+/**
+ * 判断标签值的编辑类型
+ */
+export function getMetaValueType(value: MetaTag['value']): MetaValueType {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'string') return 'string';
+  return 'json';
+}
+
+/**
+ * 判断标签的编辑类型，块标签始终按原文编辑
+ */
+export function getMetaTagType(tag: MetaTag): MetaValueType {
+  return tag.body !== undefined ? 'block' : getMetaValueType(tag.value);
+}
+
+/**
+ * 将标签值转为编辑器中的文本
+ */
+export function formatMetaValueInput(value: MetaTag['value']): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value, null, 2) : String(value);
+}
+
+/**
+ * 校验标签名：不能为空，且不能包含 < > :
+ */
+export function validateMetaTagName(name: string): string | null {
+  if (!name.trim()) return '标签名不能为空';
+  if (/[<>:]/.test(name)) return '标签名不能包含 < > :';
+  return null;
+}
+
+/**
+ * 按类型解析编辑器中的值，并确认写回 note 后能解析出相同的值
+ */
+export function parseMetaValueInput(type: MetaValueType, raw: string | boolean): MetaValueParseResult {
+  let value: MetaTag['value'];
+  switch (type) {
+    case 'boolean':
+      value = raw === true || raw === 'true';
+      break;
+    case 'number': {
+      const text = String(raw).trim();
+      if (!isNumber(text)) return { ok: false, error: '请输入有效的数字' };
+      value = Number(text);
+      break;
+    }
+    case 'string':
+      value = String(raw);
+      if (value === '') return { ok: false, error: '文本不能为空，空值请使用布尔标签' };
+      break;
+    case 'json':
+      try {
+        value = JSON.parse(String(raw)) as MetaTag['value'];
+      } catch {
+        return { ok: false, error: 'JSON 格式不正确' };
+      }
+      if (value === null || typeof value !== 'object') return { ok: false, error: 'JSON 值必须是对象或数组' };
+      break;
+    case 'block': {
+      // 块内容另起一行书写，与开闭标签各占一行
+      const text = String(raw).replace(/\r?\n$/, '');
+      return { ok: true, value: parseBlockBody(text), body: `\n${text}\n` };
+    }
+  }
+
+  const serialized = serializeTag({ name: 'tag', value });
+  if (/[<>]/.test(serialized.slice(1, -1))) {
+    return { ok: false, error: '值不能包含 < 或 >' };
+  }
+  // 文本形如数字、布尔值或 JSON 时，重新读取 note 会得到其他类型
+  if (type === 'string' && getMetaValueType(parseValue(value)) !== 'string') {
+    return { ok: false, error: '该文本会被解析为数字、布尔值或 JSON，请选择对应的类型' };
+  }
+  return { ok: true, value };
 }
 
 /**